@@ -0,0 +1,179 @@
+/**
+ * Simulation - Gameplay traffic between virtual devices
+ *
+ * Modes:
+ * - random: every tick, each device that can shoot fires with `shotChance`;
+ *   a shot hits a random opponent with `hitChance`
+ * - script: replays a JSON timeline, starting when the first device starts a game
+ * - none: devices only answer requests
+ *
+ * Devices only act while their game is running, so a browser that sends
+ * START/STOP controls the traffic just like with real blasters.
+ */
+
+import { readFileSync } from 'node:fs'
+import { z } from 'zod'
+
+import type { VirtualDevice } from './VirtualDevice'
+
+export type TrafficMode = 'random' | 'script' | 'none'
+
+const scriptStepSchema = z.object({
+  /** Milliseconds since the script started */
+  at: z.number().min(0),
+  /** Index of the acting device */
+  device: z.number().int().min(0),
+  action: z.enum(['shoot', 'reload']),
+  /** For 'shoot': index of the device that gets hit */
+  target: z.number().int().min(0).optional(),
+})
+
+const trafficScriptSchema = z.object({
+  /** Restart the timeline after the last step */
+  loop: z.boolean().default(false),
+  steps: z.array(scriptStepSchema).min(1),
+})
+
+export type ScriptStep = z.infer<typeof scriptStepSchema>
+export type TrafficScript = z.infer<typeof trafficScriptSchema>
+
+export interface SimulationOptions {
+  mode: TrafficMode
+  tickMs: number
+  shotChance: number
+  hitChance: number
+  script?: TrafficScript
+}
+
+/**
+ * Load and validate a traffic script
+ * @throws Error with the validation issues
+ */
+export function loadScript(path: string, deviceCount: number): TrafficScript {
+  const result = trafficScriptSchema.safeParse(JSON.parse(readFileSync(path, 'utf8')))
+  if (!result.success) {
+    throw new Error(`Invalid script ${path}: ${z.prettifyError(result.error)}`)
+  }
+
+  const outOfRange = result.data.steps.find(
+    (step) => step.device >= deviceCount || (step.target ?? 0) >= deviceCount
+  )
+  if (outOfRange) {
+    throw new Error(
+      `Invalid script ${path}: step at ${outOfRange.at}ms uses a device index >= ${deviceCount}`
+    )
+  }
+
+  return { ...result.data, steps: [...result.data.steps].sort((a, b) => a.at - b.at) }
+}
+
+export class Simulation {
+  private tickTimer: NodeJS.Timeout | null = null
+  private scriptTimers: NodeJS.Timeout[] = []
+  private scriptDone = false
+
+  constructor(
+    private readonly devices: VirtualDevice[],
+    private readonly options: SimulationOptions
+  ) {}
+
+  start(): void {
+    if (this.options.mode === 'random') {
+      this.tickTimer = setInterval(() => this.tick(), this.options.tickMs)
+    }
+
+    if (this.options.mode === 'script') {
+      for (const device of this.devices) {
+        device.on('gameState', () => this.syncScript())
+      }
+    }
+  }
+
+  stop(): void {
+    if (this.tickTimer) clearInterval(this.tickTimer)
+    this.tickTimer = null
+    this.stopScript()
+  }
+
+  // ============= Random Traffic =============
+
+  private tick(): void {
+    for (const shooter of this.devices) {
+      if (!shooter.canShoot || Math.random() >= this.options.shotChance) continue
+      if (!shooter.fireShot()) continue
+
+      if (Math.random() < this.options.hitChance) {
+        const target = this.pickTarget(shooter)
+        target?.receiveHit(shooter)
+      }
+    }
+  }
+
+  private pickTarget(shooter: VirtualDevice): VirtualDevice | undefined {
+    const targets = this.devices.filter(
+      (device) =>
+        device !== shooter &&
+        device.isAlive &&
+        (device.teamId !== shooter.teamId || device.friendlyFire)
+    )
+    return targets[Math.floor(Math.random() * targets.length)]
+  }
+
+  // ============= Scripted Traffic =============
+
+  /**
+   * Run the script once per game; stop it when no device plays anymore
+   */
+  private syncScript(): void {
+    const inGame = this.devices.some(
+      (device) => device.state === 'running' || device.state === 'paused'
+    )
+    if (!inGame) {
+      this.stopScript()
+      this.scriptDone = false
+      return
+    }
+
+    const playing = this.devices.some((device) => device.state === 'running')
+    if (playing && this.scriptTimers.length === 0 && !this.scriptDone) this.runScript()
+  }
+
+  private runScript(): void {
+    const script = this.options.script
+    if (!script) return
+
+    console.log(`[Simulation] Running script (${script.steps.length} steps)`)
+    this.scriptTimers = script.steps.map((step) => setTimeout(() => this.runStep(step), step.at))
+
+    const end = script.steps[script.steps.length - 1].at + this.options.tickMs
+    this.scriptTimers.push(
+      setTimeout(() => {
+        this.scriptTimers = []
+        if (script.loop) {
+          this.runScript()
+        } else {
+          this.scriptDone = true
+          console.log('[Simulation] Script finished')
+        }
+      }, end)
+    )
+  }
+
+  private runStep(step: ScriptStep): void {
+    const device = this.devices[step.device]
+
+    if (step.action === 'reload') {
+      device.reload()
+      return
+    }
+
+    if (device.fireShot() && step.target !== undefined) {
+      this.devices[step.target].receiveHit(device)
+    }
+  }
+
+  private stopScript(): void {
+    this.scriptTimers.forEach((timer) => clearTimeout(timer))
+    this.scriptTimers = []
+  }
+}
@@ -0,0 +1,593 @@
+/**
+ * VirtualDevice - One emulated ESP32 blaster
+ *
+ * Serves ws://host:port/ws and answers like the firmware: STATUS on
+ * get_status, HEARTBEAT_ACK on heartbeat, ACKs for config_update and
+ * game_command. Hearts, ammo, reload, respawn and the game timer follow the
+ * configured rules, so the events it emits stay consistent with its status.
+ *
+ * Protocol versions:
+ * - 2.3: answers HELLO with CAPABILITIES
+ * - 2.2: ignores HELLO (default, like current firmware)
+ * - 2.1: ignores HELLO and sends a flat, pre-v2.2 status
+ */
+
+import { EventEmitter } from 'node:events'
+import type { IncomingMessage } from 'node:http'
+import {
+  compareProtocolVersions,
+  decodeClientMessage,
+  encodeServerMessage,
+  GameCommandType,
+  OpCode,
+  type ClientMessage,
+  type ConfigUpdateMessage,
+  type GameState,
+  type ServerMessage,
+} from '@rayz/types'
+import { WebSocket, WebSocketServer } from 'ws'
+
+export type DeviceSettings = Required<
+  Omit<ConfigUpdateMessage, 'op' | 'type' | 'req_id' | 'reset_to_defaults'>
+>
+
+export interface VirtualDeviceOptions {
+  index: number
+  host: string
+  port: number
+  protocolVersion: string
+}
+
+export type HitResult = 'ignored' | 'hit' | 'fatal'
+
+const TEAM_COLORS = [0xff0000, 0x0000ff, 0x00ff00, 0xffff00]
+
+/** Client -> ESP32 opcodes handled by the simulator */
+const SUPPORTED_OPCODES = [
+  OpCode.GET_STATUS,
+  OpCode.HEARTBEAT,
+  OpCode.CONFIG_UPDATE,
+  OpCode.GAME_COMMAND,
+  OpCode.HIT_FORWARD,
+  OpCode.KILL_CONFIRMED,
+  OpCode.REMOTE_SOUND,
+  OpCode.HELLO,
+]
+
+/** GAME_COMMAND commands handled by the simulator */
+const SUPPORTED_GAME_COMMANDS = [
+  GameCommandType.STOP,
+  GameCommandType.START,
+  GameCommandType.RESET,
+  GameCommandType.PAUSE,
+  GameCommandType.UNPAUSE,
+  GameCommandType.REVIVE,
+]
+
+/**
+ * Factory defaults; devices alternate between team 1 and 2
+ */
+export function defaultSettings(index: number): DeviceSettings {
+  const teamId = (index % 2) + 1
+  return {
+    device_name: `SIM-${index + 1}`,
+    device_id: index + 1,
+    player_id: index + 1,
+    team_id: teamId,
+    color_rgb: TEAM_COLORS[teamId - 1],
+    ir_power: 0,
+    volume: 80,
+    sound_profile: 0,
+    haptic_enabled: true,
+    enable_hearts: true,
+    spawn_hearts: 10,
+    max_hearts: 10,
+    respawn_time_s: 5,
+    damage_in: 1,
+    damage_out: 1,
+    friendly_fire: false,
+    enable_ammo: true,
+    max_ammo: 100,
+    reload_time_ms: 2000,
+    game_duration_s: 0,
+    espnow_peers: '',
+  }
+}
+
+export class VirtualDevice extends EventEmitter<{ gameState: [GameState] }> {
+  readonly index: number
+  readonly address: string
+  readonly macAddress: string
+
+  private readonly protocolVersion: string
+  private readonly server: WebSocketServer
+  private readonly clients = new Set<WebSocket>()
+  private readonly bootTime = Date.now()
+
+  private settings: DeviceSettings
+  private gameState: GameState = 'idle'
+  private seqId = 0
+
+  private stats = { shots: 0, enemy_kills: 0, friendly_kills: 0, deaths: 0, hits_received: 0 }
+  private hearts: number
+  private ammo: number
+  private isRespawning = false
+  private isReloading = false
+
+  private respawnTimer: NodeJS.Timeout | null = null
+  private reloadTimer: NodeJS.Timeout | null = null
+  private gameTimer: NodeJS.Timeout | null = null
+  private gameEndsAt: number | null = null
+  private pausedRemainingMs: number | null = null
+
+  constructor(options: VirtualDeviceOptions) {
+    super()
+    this.index = options.index
+    this.address = `${options.host}:${options.port}`
+    this.macAddress = `02:00:00:00:${(options.port >> 8).toString(16).padStart(2, '0')}:${(options.port & 0xff).toString(16).padStart(2, '0')}`
+    this.protocolVersion = options.protocolVersion
+
+    this.settings = defaultSettings(options.index)
+    this.hearts = this.settings.spawn_hearts
+    this.ammo = this.settings.max_ammo
+
+    this.server = new WebSocketServer({ host: options.host, port: options.port, path: '/ws' })
+    this.server.on('connection', (ws, req) => this.handleConnection(ws, req))
+  }
+
+  get name(): string {
+    return this.settings.device_name
+  }
+
+  get playerId(): number {
+    return this.settings.player_id
+  }
+
+  get teamId(): number {
+    return this.settings.team_id
+  }
+
+  get damageOut(): number {
+    return this.settings.damage_out
+  }
+
+  get friendlyFire(): boolean {
+    return this.settings.friendly_fire
+  }
+
+  get state(): GameState {
+    return this.gameState
+  }
+
+  /** Running and not waiting for a respawn */
+  get isAlive(): boolean {
+    return this.gameState === 'running' && !this.isRespawning
+  }
+
+  get canShoot(): boolean {
+    return this.isAlive && !this.isReloading
+  }
+
+  // ============= Game Mechanics =============
+
+  /**
+   * Pull the trigger
+   * @returns false when the device cannot shoot or the magazine is empty
+   */
+  fireShot(): boolean {
+    if (!this.canShoot) return false
+
+    if (this.settings.enable_ammo) {
+      if (this.ammo <= 0) {
+        this.reload()
+        return false
+      }
+      this.ammo--
+    }
+
+    this.stats.shots++
+    this.send({
+      op: OpCode.SHOT_FIRED,
+      type: 'shot_fired',
+      timestamp_ms: this.uptime(),
+      seq_id: ++this.seqId,
+    })
+
+    if (this.settings.enable_ammo && this.ammo === 0) {
+      this.reload()
+    }
+    return true
+  }
+
+  /**
+   * Take an IR hit from another device
+   */
+  receiveHit(shooter: VirtualDevice): HitResult {
+    // A downed device still reports who tagged it (no damage), so the app can
+    // spot a medic reviving it
+    if (this.isRespawning && this.gameState === 'running') {
+      this.send({
+        op: OpCode.HIT_REPORT,
+        type: 'hit_report',
+        timestamp_ms: this.uptime(),
+        seq_id: ++this.seqId,
+        shooter_id: shooter.playerId,
+        damage: 0,
+        fatal: false,
+      })
+      return 'hit'
+    }
+    if (!this.isAlive) return 'ignored'
+
+    const friendly = shooter.teamId === this.teamId && this.teamId !== 0
+    if (friendly && !this.settings.friendly_fire) return 'ignored'
+
+    const damage = shooter.damageOut * this.settings.damage_in
+    this.stats.hits_received++
+
+    let fatal = false
+    if (this.settings.enable_hearts) {
+      this.hearts = Math.max(0, this.hearts - damage)
+      fatal = this.hearts === 0
+    }
+
+    this.send({
+      op: OpCode.HIT_REPORT,
+      type: 'hit_report',
+      timestamp_ms: this.uptime(),
+      seq_id: ++this.seqId,
+      shooter_id: shooter.playerId,
+      damage,
+      fatal,
+    })
+
+    if (fatal) {
+      this.stats.deaths++
+      this.startRespawn()
+    }
+    return fatal ? 'fatal' : 'hit'
+  }
+
+  /**
+   * Start reloading; ignored while already reloading or with ammo disabled
+   */
+  reload(): void {
+    if (!this.settings.enable_ammo || this.isReloading || this.gameState !== 'running') return
+
+    this.isReloading = true
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null
+      this.isReloading = false
+      this.ammo = this.settings.max_ammo
+      this.send({ op: OpCode.RELOAD_EVENT, type: 'reload_event', current_ammo: this.ammo })
+    }, this.settings.reload_time_ms)
+  }
+
+  private startRespawn(): void {
+    this.isRespawning = true
+    this.respawnTimer = setTimeout(() => this.respawn(), this.settings.respawn_time_s * 1000)
+  }
+
+  private respawn(): void {
+    if (this.respawnTimer) clearTimeout(this.respawnTimer)
+    this.respawnTimer = null
+    this.isRespawning = false
+    this.hearts = this.settings.spawn_hearts
+    this.send({
+      op: OpCode.RESPAWN,
+      type: 'respawn',
+      timestamp_ms: this.uptime(),
+      current_hearts: this.hearts,
+    })
+  }
+
+  // ============= Game Commands =============
+
+  private applyGameCommand(command: GameCommandType): boolean {
+    switch (command) {
+      case GameCommandType.START:
+        this.resetRound()
+        this.startGameTimer(this.settings.game_duration_s * 1000)
+        this.setGameState('running')
+        return true
+
+      case GameCommandType.STOP:
+        if (this.gameState === 'idle') return false
+        this.finishGame()
+        return true
+
+      case GameCommandType.RESET:
+        this.resetRound()
+        this.setGameState('idle')
+        return true
+
+      case GameCommandType.PAUSE:
+        if (this.gameState !== 'running') return false
+        if (this.gameEndsAt) {
+          this.pausedRemainingMs = Math.max(0, this.gameEndsAt - Date.now())
+          this.clearGameTimer()
+        }
+        this.setGameState('paused')
+        return true
+
+      case GameCommandType.UNPAUSE:
+        if (this.gameState !== 'paused') return false
+        if (this.pausedRemainingMs !== null) {
+          this.startGameTimer(this.pausedRemainingMs)
+          this.pausedRemainingMs = null
+        }
+        this.setGameState('running')
+        return true
+
+      case GameCommandType.REVIVE:
+        if (!this.isRespawning || this.gameState !== 'running') return false
+        this.respawn()
+        return true
+
+      default:
+        return false
+    }
+  }
+
+  private resetRound(): void {
+    this.clearTimers()
+    this.stats = { shots: 0, enemy_kills: 0, friendly_kills: 0, deaths: 0, hits_received: 0 }
+    this.hearts = this.settings.spawn_hearts
+    this.ammo = this.settings.max_ammo
+    this.isRespawning = false
+    this.isReloading = false
+    this.pausedRemainingMs = null
+  }
+
+  private startGameTimer(durationMs: number): void {
+    this.clearGameTimer()
+    if (durationMs <= 0) return
+
+    this.gameEndsAt = Date.now() + durationMs
+    this.gameTimer = setTimeout(() => this.finishGame(), durationMs)
+  }
+
+  private finishGame(): void {
+    this.clearTimers()
+    this.isRespawning = false
+    this.isReloading = false
+    this.setGameState('finished')
+    this.send({ op: OpCode.GAME_OVER, type: 'game_over' })
+  }
+
+  private setGameState(state: GameState): void {
+    if (this.gameState === state) return
+    this.gameState = state
+    this.log(`Game ${state}`)
+    this.emit('gameState', state)
+  }
+
+  private clearGameTimer(): void {
+    if (this.gameTimer) clearTimeout(this.gameTimer)
+    this.gameTimer = null
+    this.gameEndsAt = null
+  }
+
+  private clearTimers(): void {
+    if (this.respawnTimer) clearTimeout(this.respawnTimer)
+    if (this.reloadTimer) clearTimeout(this.reloadTimer)
+    this.respawnTimer = null
+    this.reloadTimer = null
+    this.clearGameTimer()
+  }
+
+  // ============= Protocol =============
+
+  private handleConnection(ws: WebSocket, req: IncomingMessage): void {
+    this.log(`Client connected from ${req.socket.remoteAddress}`)
+    this.clients.add(ws)
+
+    ws.on('message', (data: Buffer) => this.handleFrame(ws, data.toString()))
+    ws.on('close', () => {
+      this.clients.delete(ws)
+      this.log('Client disconnected')
+    })
+    ws.on('error', (err) => this.log(`Client error: ${err.message}`))
+  }
+
+  private handleFrame(ws: WebSocket, frame: string): void {
+    const decoded = decodeClientMessage(frame)
+    if (!decoded.success) {
+      this.log(`Invalid frame: ${decoded.error}`)
+      // Reject requests we can identify, like the firmware does
+      const reqId = (safeParse(frame) as { req_id?: unknown } | null)?.req_id
+      if (typeof reqId === 'string') {
+        this.reply(ws, { op: OpCode.ACK, type: 'ack', reply_to: reqId, success: false })
+      }
+      return
+    }
+
+    this.handleMessage(ws, decoded.message)
+  }
+
+  private handleMessage(ws: WebSocket, message: ClientMessage): void {
+    let success = true
+
+    switch (message.type) {
+      case 'hello':
+        // Firmware before v2.3 does not know HELLO and stays silent
+        if (compareProtocolVersions(this.protocolVersion, '2.3') < 0) return
+        this.reply(ws, {
+          op: OpCode.CAPABILITIES,
+          type: 'capabilities',
+          protocol_version: this.protocolVersion,
+          firmware_build: `sim-${this.protocolVersion}`,
+          mac_address: this.macAddress,
+          opcodes: SUPPORTED_OPCODES,
+          encodings: ['json'],
+          game_commands: SUPPORTED_GAME_COMMANDS,
+        })
+        return
+
+      case 'get_status':
+        this.sendStatus(ws)
+        break
+
+      case 'heartbeat':
+        this.reply(ws, {
+          op: OpCode.HEARTBEAT_ACK,
+          type: 'heartbeat_ack',
+          batt_voltage: this.batteryVoltage(),
+          rssi: -45 - Math.round(Math.random() * 20),
+        })
+        break
+
+      case 'config_update':
+        this.applyConfig(message)
+        this.log('Config updated')
+        break
+
+      case 'game_command':
+        success = this.applyGameCommand(message.command)
+        break
+
+      case 'kill_confirmed':
+        this.stats.enemy_kills++
+        break
+
+      case 'hit_forward':
+        this.log(`Hit confirmed on player ${message.shooter_id}`)
+        break
+
+      case 'remote_sound':
+        this.log(`Playing sound ${message.sound_id}`)
+        break
+    }
+
+    // Config and game commands are always acknowledged, everything else on request
+    const acked = message.type === 'config_update' || message.type === 'game_command'
+    if (message.req_id || acked) {
+      this.reply(ws, { op: OpCode.ACK, type: 'ack', reply_to: message.req_id, success })
+    }
+
+    if (acked) {
+      this.sendStatus()
+    }
+  }
+
+  private applyConfig(message: ConfigUpdateMessage): void {
+    const { op: _op, type: _type, req_id: _reqId, reset_to_defaults, ...update } = message
+
+    const base = reset_to_defaults ? defaultSettings(this.index) : this.settings
+    const defined = Object.fromEntries(
+      Object.entries(update).filter(([, value]) => value !== undefined)
+    ) as Partial<DeviceSettings>
+    this.settings = { ...base, ...defined }
+
+    // Outside a game, the device shows the configured spawn values
+    if (this.gameState !== 'running' && this.gameState !== 'paused') {
+      this.hearts = this.settings.spawn_hearts
+      this.ammo = this.settings.max_ammo
+    }
+    this.hearts = Math.min(this.hearts, this.settings.max_hearts)
+    this.ammo = Math.min(this.ammo, this.settings.max_ammo)
+  }
+
+  /**
+   * Send STATUS to one client, or to all when none is given
+   */
+  private sendStatus(ws?: WebSocket): void {
+    const s = this.settings
+    const config = {
+      device_id: s.device_id,
+      player_id: s.player_id,
+      team_id: s.team_id,
+      color_rgb: s.color_rgb,
+      enable_hearts: s.enable_hearts,
+      max_hearts: s.max_hearts,
+      spawn_hearts: s.spawn_hearts,
+      enable_ammo: s.enable_ammo,
+      max_ammo: s.enable_ammo ? s.max_ammo : -1,
+      game_duration_s: s.game_duration_s,
+      friendly_fire: s.friendly_fire,
+    }
+    const state = {
+      current_hearts: this.hearts,
+      current_ammo: this.ammo,
+      is_respawning: this.isRespawning,
+      is_reloading: this.isReloading,
+      ...(this.gameEndsAt && {
+        remaining_time_s: Math.max(0, Math.round((this.gameEndsAt - Date.now()) / 1000)),
+      }),
+    }
+
+    // Pre-v2.2 firmware reported everything at the top level
+    if (compareProtocolVersions(this.protocolVersion, '2.2') < 0) {
+      const flat = JSON.stringify({
+        op: OpCode.STATUS,
+        type: 'status',
+        uptime_ms: this.uptime(),
+        ...config,
+        ...this.stats,
+        ...state,
+      })
+      for (const client of ws ? [ws] : this.clients) {
+        if (client.readyState === WebSocket.OPEN) client.send(flat)
+      }
+      return
+    }
+
+    const status: ServerMessage = {
+      op: OpCode.STATUS,
+      type: 'status',
+      uptime_ms: this.uptime(),
+      config,
+      stats: { ...this.stats },
+      state,
+    }
+    if (ws) this.reply(ws, status)
+    else this.send(status)
+  }
+
+  /**
+   * Send a message to every connected client
+   */
+  private send(message: ServerMessage): void {
+    const frame = encodeServerMessage(message)
+    for (const client of this.clients) {
+      if (client.readyState === WebSocket.OPEN) client.send(frame)
+    }
+  }
+
+  private reply(ws: WebSocket, message: ServerMessage): void {
+    if (ws.readyState === WebSocket.OPEN) ws.send(encodeServerMessage(message))
+  }
+
+  // ============= Helpers =============
+
+  private uptime(): number {
+    return Date.now() - this.bootTime
+  }
+
+  /** Drains from 4.2 V by 0.1 V per hour of uptime */
+  private batteryVoltage(): number {
+    const hours = this.uptime() / 3_600_000
+    return Math.max(3.3, Math.round((4.2 - hours * 0.1) * 100) / 100)
+  }
+
+  private log(message: string): void {
+    console.log(`[${this.name} @ ${this.address}] ${message}`)
+  }
+
+  /**
+   * Stop the game timers and close the server
+   */
+  close(): Promise<void> {
+    this.clearTimers()
+    for (const client of this.clients) client.close()
+    return new Promise((resolve) => this.server.close(() => resolve()))
+  }
+}
+
+function safeParse(frame: string): unknown {
+  try {
+    return JSON.parse(frame)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * ESP32 Device Simulator
+ *
+ * Spawns N virtual blasters, each serving ws://<host>:<port>/ws like the
+ * firmware does. Add them to a project as "<host>:<port>" and drive them from
+ * the UI, directly or through the ws-bridge.
+ *
+ * Configuration (environment):
+ * - SIM_DEVICES      number of devices (default 4)
+ * - SIM_HOST         interface to listen on (default 127.0.0.1)
+ * - SIM_BASE_PORT    port of the first device; the others follow (default 9001)
+ * - SIM_PROTOCOL     firmware protocol version: 2.1, 2.2 or 2.3 (default 2.2)
+ * - SIM_TRAFFIC      random | script | none (default random)
+ * - SIM_SCRIPT       JSON timeline for SIM_TRAFFIC=script
+ * - SIM_TICK_MS      random traffic interval (default 1000)
+ * - SIM_SHOT_CHANCE  chance a device fires per tick (default 0.5)
+ * - SIM_HIT_CHANCE   chance a shot hits an opponent (default 0.3)
+ */
+
+import { loadScript, Simulation, type TrafficMode } from './Simulation'
+import { VirtualDevice } from './VirtualDevice'
+
+// Configuration
+const DEVICE_COUNT = parseInt(process.env.SIM_DEVICES ?? '4', 10)
+const HOST = process.env.SIM_HOST ?? '127.0.0.1'
+const BASE_PORT = parseInt(process.env.SIM_BASE_PORT ?? '9001', 10)
+const PROTOCOL_VERSION = process.env.SIM_PROTOCOL ?? '2.2'
+const TRAFFIC = (process.env.SIM_TRAFFIC ?? 'random') as TrafficMode
+const SCRIPT_PATH = process.env.SIM_SCRIPT
+const TICK_MS = parseInt(process.env.SIM_TICK_MS ?? '1000', 10)
+const SHOT_CHANCE = parseFloat(process.env.SIM_SHOT_CHANCE ?? '0.5')
+const HIT_CHANCE = parseFloat(process.env.SIM_HIT_CHANCE ?? '0.3')
+
+if (!['random', 'script', 'none'].includes(TRAFFIC)) {
+  console.error(`[Simulator] Unknown SIM_TRAFFIC "${TRAFFIC}" (random, script or none)`)
+  process.exit(1)
+}
+
+if (TRAFFIC === 'script' && !SCRIPT_PATH) {
+  console.error('[Simulator] SIM_TRAFFIC=script requires SIM_SCRIPT')
+  process.exit(1)
+}
+
+let script
+try {
+  script = SCRIPT_PATH ? loadScript(SCRIPT_PATH, DEVICE_COUNT) : undefined
+} catch (err) {
+  console.error(`[Simulator] ${err instanceof Error ? err.message : err}`)
+  process.exit(1)
+}
+
+const devices = Array.from(
+  { length: DEVICE_COUNT },
+  (_, index) =>
+    new VirtualDevice({
+      index,
+      host: HOST,
+      port: BASE_PORT + index,
+      protocolVersion: PROTOCOL_VERSION,
+    })
+)
+
+const simulation = new Simulation(devices, {
+  mode: TRAFFIC,
+  tickMs: TICK_MS,
+  shotChance: SHOT_CHANCE,
+  hitChance: HIT_CHANCE,
+  script,
+})
+simulation.start()
+
+console.log(
+  `[Simulator] ${DEVICE_COUNT} devices, protocol v${PROTOCOL_VERSION}, ${TRAFFIC} traffic`
+)
+for (const device of devices) {
+  console.log(`  ${device.name.padEnd(8)} team ${device.teamId}  ws://${device.address}/ws`)
+}
+console.log('[Simulator] Add the devices to a project by address, e.g. ' + devices[0]?.address)
+
+// Graceful shutdown
+const shutdown = async () => {
+  console.log('[Simulator] Shutting down...')
+  simulation.stop()
+  await Promise.all(devices.map((device) => device.close()))
+  process.exit(0)
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
@@ -0,0 +1,54 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { acceptInvite } from '@/features/members/actions'
+import { useRouter } from '@/i18n/routing'
+import { UserPlus } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+
+import type { ProjectRole } from '@/lib/project/roles'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+
+type JoinInviteCardProps = {
+  code: string
+  role: ProjectRole
+  projectName: string
+}
+
+export default function JoinInviteCard({ code, role, projectName }: JoinInviteCardProps) {
+  const t = useTranslations('Join')
+  const router = useRouter()
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const handleAccept = () => {
+    startTransition(async () => {
+      const res = await acceptInvite(code)
+      if (res.error) {
+        setError(res.error)
+        return
+      }
+      router.push('/control')
+    })
+  }
+
+  return (
+    <Card className="mx-auto max-w-md">
+      <CardContent className="space-y-4 pt-6 text-center">
+        <p>
+          {t('invitedAs', { project: projectName })}{' '}
+          <Badge variant="outline" className="capitalize">
+            {role}
+          </Badge>
+        </p>
+        <Button onClick={handleAccept} disabled={isPending}>
+          <UserPlus className="w-4 h-4 mr-2" />
+          {t('accept')}
+        </Button>
+        {error && <div className="text-sm text-destructive">{error}</div>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,48 @@
+import type { Metadata } from 'next'
+import { getInvite } from '@/features/members/actions'
+import { getTranslations } from 'next-intl/server'
+
+import { PageLayout } from '@/components/PageLayout'
+
+import JoinInviteCard from './JoinInviteCard'
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>
+}): Promise<Metadata> {
+  const { locale } = await params
+  const t = await getTranslations({ locale, namespace: 'Join' })
+
+  return {
+    title: t('metaTitle'),
+    description: t('metaDescription'),
+  }
+}
+
+export default async function JoinPage({
+  params,
+}: {
+  params: Promise<{ locale: string; code: string }>
+}) {
+  const { locale, code } = await params
+  const t = await getTranslations({ locale, namespace: 'Join' })
+
+  const result = await getInvite(code)
+
+  return (
+    <PageLayout title={t('title')} description={t('description')}>
+      {result.success ? (
+        <JoinInviteCard
+          code={result.invite.code}
+          role={result.invite.role}
+          projectName={result.invite.projectName}
+        />
+      ) : (
+        <div className="py-8 text-center text-muted-foreground">
+          {t('invalid')}: {result.error}
+        </div>
+      )}
+    </PageLayout>
+  )
+}
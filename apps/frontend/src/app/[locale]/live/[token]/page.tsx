@@ -0,0 +1,35 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { getLiveProject } from '@/features/projects/actions'
+import { getTranslations } from 'next-intl/server'
+
+import { LiveScreen } from '@/components/live/LiveScreen'
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>
+}): Promise<Metadata> {
+  const { locale } = await params
+  const t = await getTranslations({ locale, namespace: 'Live' })
+
+  return {
+    title: t('metaTitle'),
+    description: t('metaDescription'),
+    // Links are shared privately; keep them out of search engines
+    robots: { index: false, follow: false },
+  }
+}
+
+export default async function LivePage({
+  params,
+}: {
+  params: Promise<{ locale: string; token: string }>
+}) {
+  const { token } = await params
+
+  const project = await getLiveProject(token)
+  if (!project) notFound()
+
+  return <LiveScreen project={project} liveToken={token} />
+}
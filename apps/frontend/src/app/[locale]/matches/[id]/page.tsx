@@ -0,0 +1,88 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { getMatchScoreboard } from '@/features/matches/actions'
+import { Link } from '@/i18n/routing'
+import { ArrowLeft, PlayCircle, Trophy } from 'lucide-react'
+import { getTranslations } from 'next-intl/server'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { MatchScoreboard } from '@/components/matches/MatchScoreboard'
+import { PageLayout } from '@/components/PageLayout'
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>
+}): Promise<Metadata> {
+  const { locale } = await params
+  const t = await getTranslations({ locale, namespace: 'Matches' })
+
+  return {
+    title: t('metaTitle'),
+    description: t('metaDescription'),
+  }
+}
+
+function formatDuration(from: Date, to: Date | null) {
+  if (!to) return '—'
+  const seconds = Math.max(0, Math.round((to.getTime() - from.getTime()) / 1000))
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+}
+
+export default async function MatchPage({
+  params,
+}: {
+  params: Promise<{ locale: string; id: string }>
+}) {
+  const { locale, id } = await params
+  const t = await getTranslations({ locale, namespace: 'Matches' })
+
+  const match = await getMatchScoreboard(id)
+  if (!match) notFound()
+
+  return (
+    <PageLayout title={t('title')} description={t('description')}>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/control">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            {match.project.name}
+          </Link>
+        </Button>
+        <Badge variant="outline">{match.ruleset.gameModeName}</Badge>
+        <Badge
+          variant={
+            match.status === 'finished'
+              ? 'success'
+              : match.status === 'running'
+                ? 'info'
+                : 'secondary'
+          }
+        >
+          {match.status}
+        </Badge>
+        {match.result && (
+          <Badge variant="outline" className="gap-1">
+            <Trophy className="w-3 h-3" />
+            {match.result.winner ? t('winner', { name: match.result.winner.name }) : t('draw')}
+            <span className="text-muted-foreground">· {t(`reason_${match.result.reason}`)}</span>
+          </Badge>
+        )}
+        <span className="text-muted-foreground">
+          {match.startedAt.toLocaleString(locale)} ·{' '}
+          {formatDuration(match.startedAt, match.endedAt)}
+        </span>
+        {match.status !== 'running' && (
+          <Button variant="outline" size="sm" className="ml-auto" asChild>
+            <Link href={`/matches/${match.id}/replay`}>
+              <PlayCircle className="w-4 h-4 mr-1" />
+              {t('replay')}
+            </Link>
+          </Button>
+        )}
+      </div>
+      <MatchScoreboard scoreboard={match.scoreboard} />
+    </PageLayout>
+  )
+}
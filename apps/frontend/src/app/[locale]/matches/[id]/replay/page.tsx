@@ -0,0 +1,59 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { getMatchReplay } from '@/features/matches/actions'
+import { Link } from '@/i18n/routing'
+import { ArrowLeft } from 'lucide-react'
+import { getTranslations } from 'next-intl/server'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { MatchReplay } from '@/components/matches/MatchReplay'
+import { PageLayout } from '@/components/PageLayout'
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>
+}): Promise<Metadata> {
+  const { locale } = await params
+  const t = await getTranslations({ locale, namespace: 'Matches' })
+
+  return {
+    title: t('replayMetaTitle'),
+    description: t('replayDescription'),
+  }
+}
+
+export default async function MatchReplayPage({
+  params,
+}: {
+  params: Promise<{ locale: string; id: string }>
+}) {
+  const { locale, id } = await params
+  const t = await getTranslations({ locale, namespace: 'Matches' })
+
+  const match = await getMatchReplay(id)
+  if (!match) notFound()
+
+  return (
+    <PageLayout title={t('replayTitle')} description={t('replayDescription')}>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href={`/matches/${match.id}`}>
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            {t('title')}
+          </Link>
+        </Button>
+        <Badge variant="outline">{match.ruleset.gameModeName}</Badge>
+        <span className="text-muted-foreground">
+          {match.startedAt.toLocaleString(locale)} · {match.events.length} {t('events')}
+        </span>
+      </div>
+      {match.events.length > 0 ? (
+        <MatchReplay match={match} />
+      ) : (
+        <p className="text-sm text-muted-foreground">{t('noEvents')}</p>
+      )}
+    </PageLayout>
+  )
+}
@@ -11,19 +11,22 @@ import { Input } from '@/components/ui/input'
 
 type SignInCardProps = {
   locale: string
+  /** Where to go after signing in; defaults to the control panel */
+  callbackUrl?: string
 }
 
 type Mode = 'magic' | 'password'
 
-export default function SignInCard({ locale }: SignInCardProps) {
+export default function SignInCard({
+  locale,
+  callbackUrl = `/${locale}/control`,
+}: SignInCardProps) {
   const [mode, setMode] = useState<Mode>('password')
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
-  const callbackUrl = `/${locale}/control`
-
   async function handleCredentialsSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault()
     setError(null)
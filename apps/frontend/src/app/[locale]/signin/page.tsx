@@ -7,12 +7,21 @@ export const metadata: Metadata = {
   description: 'Access your RayZ account.',
 }
 
-export default async function SignInPage({ params }: { params: Promise<{ locale: string }> }) {
+export default async function SignInPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>
+  searchParams: Promise<{ callbackUrl?: string }>
+}) {
   const { locale } = await params
+  const { callbackUrl } = await searchParams
+  // Only same-site paths, never another origin
+  const isLocalPath = callbackUrl?.startsWith('/') && !callbackUrl.startsWith('//')
 
   return (
     <div className="relative flex items-center justify-center px-4 min-h-[80vh]">
-      <SignInCard locale={locale} />
+      <SignInCard locale={locale} callbackUrl={isLocalPath ? callbackUrl : undefined} />
     </div>
   )
 }
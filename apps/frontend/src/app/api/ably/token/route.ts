@@ -1,16 +1,26 @@
 /**
  * Ably Token Authentication Endpoint
  *
- * This endpoint creates Ably tokens for browser clients.
- * In production, never expose the API key directly to the browser.
+ * Creates Ably token requests for browser clients. The API key never leaves
+ * the server: every token is limited to one game session's channels and its
+ * clientId is bound to the signed-in user.
+ *
+ * GET /api/ably/token?sessionId=<projectId>
+ * GET /api/ably/token?liveToken=<token>  (public spectator screen, read-only)
  */
 
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
+import * as Ably from 'ably'
+
+import { sessionCapability } from '@/lib/comm/channels'
+import { authorizeRealtimeSession } from '@/lib/server/realtime-session'
+
+export const runtime = 'nodejs'
 
-// Note: Install ably package: pnpm add ably
-// import Ably from 'ably'
+// Ably renews tokens through this endpoint before they expire
+const TOKEN_TTL_MS = 60 * 60 * 1000
 
-export async function GET(request: Request) {
+export async function GET(request: NextRequest) {
   const apiKey = process.env.ABLY_API_KEY
 
   if (!apiKey) {
@@ -18,28 +28,17 @@ export async function GET(request: Request) {
   }
 
   try {
-    // Uncomment when ably is installed:
-    // const ably = new Ably.Rest(apiKey)
-    // const tokenRequest = await ably.auth.createTokenRequest({
-    //   clientId: `browser-${Date.now()}`,
-    //   capability: {
-    //     'rayz-game:*': ['subscribe', 'publish', 'presence'],
-    //   },
-    // })
-    // return NextResponse.json(tokenRequest)
-
-    // Placeholder response until ably is installed
-    return NextResponse.json(
-      {
-        error: 'Ably package not installed. Run: pnpm add ably',
-        instructions: [
-          '1. Install ably: pnpm add ably',
-          '2. Set ABLY_API_KEY in .env.local',
-          '3. Uncomment the token creation code above',
-        ],
-      },
-      { status: 501 }
-    )
+    const session = await authorizeRealtimeSession(request)
+    if (session instanceof NextResponse) return session
+
+    const rest = new Ably.Rest({ key: apiKey })
+    const tokenRequest = await rest.auth.createTokenRequest({
+      clientId: session.clientId,
+      ttl: TOKEN_TTL_MS,
+      capability: sessionCapability(session.sessionId, { control: session.canControl }),
+    })
+
+    return NextResponse.json(tokenRequest)
   } catch (error) {
     console.error('[Ably Token] Error creating token:', error)
     return NextResponse.json({ error: 'Failed to create Ably token' }, { status: 500 })
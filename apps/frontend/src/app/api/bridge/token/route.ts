@@ -0,0 +1,54 @@
+/**
+ * ws-bridge Token Endpoint
+ *
+ * Mints short-lived HS256 tokens for the local ws-bridge (apps/ws-bridge),
+ * signed with the secret shared with it. The bridge checks them when a
+ * browser connects and tags the connection with the token's role: users who
+ * may control the game get `admin`, everyone else `spectator` (read-only).
+ *
+ * GET /api/bridge/token?sessionId=<projectId> -> { token, expiresAt }
+ * GET /api/bridge/token?liveToken=<token> -> { token, expiresAt }  (public spectator screen)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { SignJWT } from 'jose'
+
+import { authorizeRealtimeSession } from '@/lib/server/realtime-session'
+
+export const runtime = 'nodejs'
+
+// Keep in sync with TOKEN_AUDIENCE in apps/ws-bridge/src/auth.ts
+const TOKEN_AUDIENCE = 'rayz-bridge'
+// Only needed for the handshake; open connections keep their role
+const TOKEN_TTL_SECONDS = 120
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.BRIDGE_TOKEN_SECRET
+
+  // Tells the browser to connect without a token (bridge with WS_BRIDGE_AUTH=false)
+  if (!secret) {
+    return NextResponse.json({ error: 'Bridge token secret not configured' }, { status: 501 })
+  }
+
+  try {
+    const session = await authorizeRealtimeSession(request)
+    if (session instanceof NextResponse) return session
+
+    const expiresAt = Date.now() + TOKEN_TTL_SECONDS * 1000
+    const token = await new SignJWT({
+      sid: session.sessionId,
+      role: session.canControl ? 'admin' : 'spectator',
+    })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setSubject(session.clientId)
+      .setAudience(TOKEN_AUDIENCE)
+      .setIssuedAt()
+      .setExpirationTime(Math.floor(expiresAt / 1000))
+      .sign(new TextEncoder().encode(secret))
+
+    return NextResponse.json({ token, expiresAt })
+  } catch (error) {
+    console.error('[Bridge Token] Error creating token:', error)
+    return NextResponse.json({ error: 'Failed to create bridge token' }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Realtime Relay Token Endpoint
+ *
+ * Mints short-lived HS256 tokens for the self-hosted relay (apps/realtime-relay),
+ * signed with the secret shared with it. Like Ably tokens, they are limited to
+ * one game session's channels and bound to the signed-in user.
+ *
+ * GET /api/relay/token?sessionId=<projectId> -> { token }
+ * GET /api/relay/token?liveToken=<token> -> { token }  (public spectator screen, read-only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { SignJWT } from 'jose'
+
+import { sessionCapability } from '@/lib/comm/channels'
+import { authorizeRealtimeSession } from '@/lib/server/realtime-session'
+
+export const runtime = 'nodejs'
+
+// Keep in sync with TOKEN_AUDIENCE in apps/realtime-relay/src/auth.ts
+const TOKEN_AUDIENCE = 'rayz-relay'
+// The relay closes the connection at expiry; RelayTransport reconnects with a new token
+const TOKEN_TTL = '1h'
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.RELAY_TOKEN_SECRET
+
+  if (!secret) {
+    return NextResponse.json({ error: 'Relay token secret not configured' }, { status: 500 })
+  }
+
+  try {
+    const session = await authorizeRealtimeSession(request)
+    if (session instanceof NextResponse) return session
+
+    const token = await new SignJWT({
+      cap: sessionCapability(session.sessionId, { control: session.canControl }),
+    })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setSubject(session.clientId)
+      .setAudience(TOKEN_AUDIENCE)
+      .setIssuedAt()
+      .setExpirationTime(TOKEN_TTL)
+      .sign(new TextEncoder().encode(secret))
+
+    return NextResponse.json({ token })
+  } catch (error) {
+    console.error('[Relay Token] Error creating token:', error)
+    return NextResponse.json({ error: 'Failed to create relay token' }, { status: 500 })
+  }
+}
@@ -10,13 +10,14 @@
  * Uses DeviceConfigManager to build and send complete device configuration
  */
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Send, SendHorizonal, CheckCircle2, XCircle, Loader2, Settings } from 'lucide-react'
-import { useGameCommContext } from '@/lib/comm/GameCommContext'
+import { useDeviceStates, useGameCommContext } from '@/lib/comm/GameCommContext'
 import { DeviceConfigManager } from '@/lib/comm/DeviceConfigManager'
+import { devicesWithoutRevive, respawnTimeOf } from '@/lib/game/revive'
 import type { Device, Player, Team, Project } from './project-manager/types'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 
@@ -33,7 +34,8 @@ interface SendStatus {
 
 export function DeviceConfigPanel({ project }: DeviceConfigPanelProps) {
   const { comm } = useGameCommContext()
-  const [configManager] = useState(() => new DeviceConfigManager(comm))
+  const configManager = useMemo(() => new DeviceConfigManager(comm), [comm])
+  const deviceStates = useDeviceStates()
   const [sendStatuses, setSendStatuses] = useState<SendStatus[]>([])
   const [isSendingAll, setIsSendingAll] = useState(false)
 
@@ -62,6 +64,10 @@ export function DeviceConfigPanel({ project }: DeviceConfigPanelProps) {
 
     // Get game mode settings
     const gameSettings = project.gameMode
+    // Manual respawn needs every player device to handle REVIVE
+    const canRevive =
+      devicesWithoutRevive(project.devices || [], (ip) => deviceStates.get(ip)?.capabilities)
+        .length === 0
 
     // Build full configuration
     const config = {
@@ -75,7 +81,7 @@ export function DeviceConfigPanel({ project }: DeviceConfigPanelProps) {
       enableHearts: gameSettings?.enableHearts ?? true,
       maxHearts: gameSettings?.maxHearts ?? 10,
       spawnHearts: gameSettings?.spawnHearts ?? 10,
-      respawnTimeS: gameSettings?.respawnTimeSec ?? 5,
+      respawnTimeS: respawnTimeOf(gameSettings, canRevive),
       friendlyFire: gameSettings?.friendlyFire ?? false,
       
       enableAmmo: gameSettings?.enableAmmo ?? true,
@@ -168,7 +174,7 @@ export function DeviceConfigPanel({ project }: DeviceConfigPanelProps) {
             ? {
                 ...s,
                 status: success ? 'success' : 'error',
-                message: success ? 'Configuration sent' : 'Failed to send',
+                message: success ? 'Acknowledged by device' : 'No configuration to send',
               }
             : s
         )
@@ -192,11 +198,13 @@ export function DeviceConfigPanel({ project }: DeviceConfigPanelProps) {
     setIsSendingAll(true)
 
     const devices = project.devices || []
-    for (const device of devices) {
-      await sendToDevice(device)
-      // Small delay between sends to avoid overwhelming devices
-      await new Promise((resolve) => setTimeout(resolve, 200))
-    }
+    await Promise.all(
+      devices.map(async (device, index) => {
+        // Stagger sends to avoid overwhelming devices; ACKs are awaited in parallel
+        await new Promise((resolve) => setTimeout(resolve, index * 200))
+        await sendToDevice(device)
+      })
+    )
 
     setIsSendingAll(false)
   }
@@ -257,6 +265,7 @@ export function DeviceConfigPanel({ project }: DeviceConfigPanelProps) {
               const team = player
                 ? (project.teams || []).find((t) => t.id === player.teamId)
                 : undefined
+              const isOnline = deviceStates.get(status.deviceIp)?.connectionState === 'connected'
 
               return (
                 <div
@@ -266,6 +275,9 @@ export function DeviceConfigPanel({ project }: DeviceConfigPanelProps) {
                   <div className="flex-1">
                     <div className="flex items-center gap-2">
                       <span className="font-medium">{status.deviceName}</span>
+                      <Badge variant={isOnline ? 'success' : 'outline'} className="text-xs">
+                        {isOnline ? 'Online' : 'Offline'}
+                      </Badge>
                       {player && (
                         <Badge variant="secondary" className="text-xs">
                           Player: {player.name}
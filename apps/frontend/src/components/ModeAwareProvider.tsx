@@ -6,17 +6,23 @@
  * Wraps the ProjectManager with the appropriate communication provider
  * based on the current app mode (local vs cloud).
  */
-import { type ReactNode } from 'react'
+import { useEffect, useState, useTransition, type ReactNode } from 'react'
+import { getMatchHistory } from '@/features/matches/actions'
+import { Link } from '@/i18n/routing'
 
 import {
   CloudOnly,
   CommModeIndicator,
+  Feature,
   GameCommProvider,
   LocalOnly,
   useAppMode,
   useFeatureFlags,
 } from '@/lib/comm'
 import { DeviceConnectionsProvider } from '@/lib/websocket'
+import { useBridgeHealth } from '@/hooks/useBridgeHealth'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 
 import { Device } from './project-manager/types'
 
@@ -28,10 +34,11 @@ interface ModeAwareProviderProps {
 }
 
 /**
- * Provides the appropriate connection context based on mode
+ * Provides the device connection contexts for the current mode
  *
- * - Local mode: Uses DeviceConnectionsProvider (direct WS to devices)
- * - Cloud mode: Uses GameCommProvider (Ably pub/sub)
+ * GameCommProvider owns the one connection subsystem (LocalComm: WebSocket to
+ * devices or the ws-bridge; CloudComm: Ably pub/sub). DeviceConnectionsProvider
+ * exposes it per device to the game UI.
  */
 export function ModeAwareConnectionProvider({
   children,
@@ -41,28 +48,17 @@ export function ModeAwareConnectionProvider({
 }: ModeAwareProviderProps) {
   const { isLocal } = useAppMode()
 
-  const gameCommProvider = (
+  return (
     <GameCommProvider
       mode={isLocal ? 'local' : 'cloud'}
       sessionId={sessionId ?? projectId}
       autoConnect={true}
     >
-      {children}
+      <DeviceConnectionsProvider key={projectId} initialDevices={devices.map((d) => d.ipAddress)}>
+        {children}
+      </DeviceConnectionsProvider>
     </GameCommProvider>
   )
-
-  // Always provide DeviceConnectionsProvider so useDeviceConnections is safe in any mode.
-  // In cloud mode, we keep it idle with no initial devices and no auto-connect.
-  return (
-    <DeviceConnectionsProvider
-      key={projectId}
-      initialDevices={isLocal ? devices.map((d) => d.ipAddress) : []}
-      autoConnect={isLocal}
-      autoReconnect={isLocal}
-    >
-      {gameCommProvider}
-    </DeviceConnectionsProvider>
-  )
 }
 
 /**
@@ -135,43 +131,159 @@ export function LeaderboardWidget() {
   )
 }
 
-export function MatchHistoryWidget() {
+type MatchHistory = Awaited<ReturnType<typeof getMatchHistory>>
+
+const MATCH_STATUS_VARIANT = {
+  running: 'info',
+  finished: 'success',
+  aborted: 'secondary',
+} as const
+
+/**
+ * Paginated list of recorded matches for a project
+ */
+export function MatchHistoryWidget({ projectId }: { projectId: string }) {
+  const [page, setPage] = useState(1)
+  const [history, setHistory] = useState<MatchHistory | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  useEffect(() => {
+    startTransition(async () => {
+      setHistory(await getMatchHistory(projectId, page))
+    })
+  }, [projectId, page])
+
   return (
-    <CloudOnly
-      fallback={
-        <CloudFeaturePlaceholder
-          title="Match History"
-          description="View your past games and statistics"
-        />
-      }
-    >
-      <div className="p-4 border rounded-lg">
-        <h3 className="font-semibold mb-2">📊 Match History</h3>
-        <p className="text-sm text-muted-foreground">Match history would load here from cloud...</p>
+    <Feature name="matchHistory">
+      <div className="p-4 border rounded-lg space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">📊 Match History</h3>
+          {history && history.total > 0 && (
+            <span className="text-xs text-muted-foreground">{history.total} matches</span>
+          )}
+        </div>
+
+        {!history ? (
+          <p className="text-sm text-muted-foreground">Loading matches...</p>
+        ) : history.matches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No matches recorded yet. Start a game to record one.
+          </p>
+        ) : (
+          <ul className={`divide-y ${isPending ? 'opacity-60' : ''}`}>
+            {history.matches.map((match) => (
+              <li key={match.id}>
+                <Link
+                  href={`/matches/${match.id}`}
+                  className="flex items-center justify-between gap-2 py-2 text-sm hover:bg-muted/50 rounded px-2"
+                >
+                  <div className="flex flex-col">
+                    <span className="font-medium">{match.gameModeName}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(match.startedAt).toLocaleString()} · {match.participantCount}{' '}
+                      players
+                      {match.result && ` · ${match.result.winner?.name ?? 'Draw'}`}
+                    </span>
+                  </div>
+                  <Badge variant={MATCH_STATUS_VARIANT[match.status]}>{match.status}</Badge>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {history && history.pageCount > 1 && (
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isPending || page <= 1}
+              onClick={() => setPage((p) => p - 1)}
+            >
+              Previous
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              Page {history.page} of {history.pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isPending || page >= history.pageCount}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        )}
       </div>
-    </CloudOnly>
+    </Feature>
   )
 }
 
+function formatUptime(seconds: number) {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  return h > 0 ? `${h}h ${m}m` : `${m}m ${seconds % 60}s`
+}
+
 /**
  * Local-only components
  */
 export function LocalServerControl() {
+  const { available, online, health, error, metricsUrl, refresh } = useBridgeHealth()
+
   return (
     <LocalOnly>
       <div className="p-4 border rounded-lg bg-green-50 dark:bg-green-950/20">
-        <h3 className="font-semibold mb-2">🖥️ Local Server Control</h3>
-        <p className="text-sm text-muted-foreground mb-4">
-          Manage your local WebSocket bridge server
-        </p>
-        <div className="flex gap-2">
-          <button className="px-3 py-1 text-sm bg-green-500 text-white rounded hover:bg-green-600">
-            Start Server
-          </button>
-          <button className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600">
-            View Logs
-          </button>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold">🖥️ Local Server Control</h3>
+          {available && (
+            <Badge variant={online ? 'success' : 'destructive'}>
+              {online ? 'Online' : 'Offline'}
+            </Badge>
+          )}
         </div>
+
+        {!available ? (
+          <p className="text-sm text-muted-foreground">
+            Devices are connected directly. Set NEXT_PUBLIC_WS_BRIDGE_URL to use the WebSocket
+            bridge.
+          </p>
+        ) : health ? (
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm mb-4">
+            <dt className="text-muted-foreground">Uptime</dt>
+            <dd>{formatUptime(health.uptimeSeconds)}</dd>
+            <dt className="text-muted-foreground">Devices</dt>
+            <dd>
+              {health.devices.connected} / {health.devices.total} connected
+            </dd>
+            <dt className="text-muted-foreground">Browsers</dt>
+            <dd>{health.browsers}</dd>
+            <dt className="text-muted-foreground">Discovery</dt>
+            <dd>{health.discovery ? 'On' : 'Off'}</dd>
+            <dt className="text-muted-foreground">Cloud upstream</dt>
+            <dd>{health.upstream ? 'On' : 'Off'}</dd>
+          </dl>
+        ) : (
+          <p className="text-sm text-muted-foreground mb-4">
+            {error ? `Bridge unreachable: ${error}` : 'Checking bridge...'}
+          </p>
+        )}
+
+        {available && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={refresh}>
+              Refresh
+            </Button>
+            {online && metricsUrl && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={metricsUrl} target="_blank" rel="noreferrer">
+                  Metrics
+                </a>
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     </LocalOnly>
   )
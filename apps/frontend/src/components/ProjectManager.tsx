@@ -1,13 +1,17 @@
 'use client'
 
 import { useEffect, useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { acceptInvite, leaveProject } from '@/features/members/actions'
 import { createProject, deleteProject } from '@/features/projects/actions'
 import {
   ArrowUpRightIcon,
   ChevronDown,
   FolderX,
   Gamepad2,
+  History,
   LayoutDashboard,
+  LogIn,
   Monitor,
   Plug,
   Plus,
@@ -29,7 +33,11 @@ import {
 } from '@/components/ui/empty'
 import { Input } from '@/components/ui/input'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { ModeAwareConnectionProvider, ModeStatusBar } from '@/components/ModeAwareProvider'
+import {
+  MatchHistoryWidget,
+  ModeAwareConnectionProvider,
+  ModeStatusBar,
+} from '@/components/ModeAwareProvider'
 
 import { GameModeManager } from './project-manager/GameModeManager'
 import { GameOverview } from './project-manager/GameOverviewDnd'
@@ -51,6 +59,9 @@ export function ProjectManager({ projects, availableDevices, gameModes }: Projec
   const [isPending, startTransition] = useTransition()
   const [newProjectName, setNewProjectName] = useState('')
   const [menuOpen, setMenuOpen] = useState(false)
+  const [joinCode, setJoinCode] = useState('')
+  const [joinError, setJoinError] = useState<string | null>(null)
+  const router = useRouter()
 
   const [localProjects, setLocalProjects] = useState<Project[]>(projects)
   const [localGameModes, setLocalGameModes] = useState<GameMode[]>(gameModes)
@@ -88,12 +99,64 @@ export function ProjectManager({ projects, availableDevices, gameModes }: Projec
     })
   }
 
+  const handleLeaveProject = (id: string) => {
+    if (!confirm('Leave this project?')) return
+    startTransition(async () => {
+      const res = await leaveProject(id)
+      if (res.error) return
+      setLocalProjects((prev) => prev.filter((p) => p.id !== id))
+      if (selectedProjectId === id) setSelectedProjectId(null)
+    })
+  }
+
+  const handleJoinProject = () => {
+    if (!joinCode) return
+    startTransition(async () => {
+      const res = await acceptInvite(joinCode)
+      if (res.error) {
+        setJoinError(res.error)
+        return
+      }
+      setJoinCode('')
+      setJoinError(null)
+      setMenuOpen(false)
+      if (res.projectId) setSelectedProjectId(res.projectId)
+      // Shared projects come with their roster, so reload rather than patch
+      router.refresh()
+    })
+  }
+
   useEffect(() => {
     if (!selectedProject && localProjects.length > 0) {
       setSelectedProjectId(localProjects[0].id)
     }
   }, [localProjects, selectedProject])
 
+  const joinForm = (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Join code..."
+          value={joinCode}
+          onChange={(e) => {
+            setJoinCode(e.target.value)
+            setJoinError(null)
+          }}
+          className="flex-1 font-mono uppercase"
+        />
+        <Button
+          size="icon"
+          variant="outline"
+          onClick={handleJoinProject}
+          disabled={isPending || !joinCode}
+        >
+          <LogIn className="w-4 h-4" />
+        </Button>
+      </div>
+      {joinError && <div className="text-xs text-destructive">{joinError}</div>}
+    </div>
+  )
+
   return (
     <div className="flex-1 min-h-screen">
       {localProjects.length === 0 ? (
@@ -106,7 +169,7 @@ export function ProjectManager({ projects, availableDevices, gameModes }: Projec
               <EmptyTitle>No Projects Yet</EmptyTitle>
               <EmptyDescription>
                 You haven&apos;t created any projects yet. Get started by creating your first
-                project.
+                project, or join one with the code you were given.
               </EmptyDescription>
             </EmptyHeader>
             <EmptyContent>
@@ -127,6 +190,7 @@ export function ProjectManager({ projects, availableDevices, gameModes }: Projec
                   <Plus className="w-4 h-4" />
                 </Button>
               </div>
+              {joinForm}
             </EmptyContent>
             <Button variant="link" asChild className="text-muted-foreground" size="sm">
               <a href="#">
@@ -194,6 +258,7 @@ export function ProjectManager({ projects, availableDevices, gameModes }: Projec
                           <Plus className="w-4 h-4" />
                         </Button>
                       </div>
+                      <div className="p-2 border-t">{joinForm}</div>
                     </div>
                   )}
                 </div>
@@ -239,6 +304,12 @@ export function ProjectManager({ projects, availableDevices, gameModes }: Projec
                         Players
                       </span>
                     </TabsTrigger>
+                    <TabsTrigger value="history" className="group flex-1 sm:flex-none">
+                      <History className="w-4 h-4 lg:mr-2" />
+                      <span className="hidden lg:inline group-data-[state=active]:inline">
+                        History
+                      </span>
+                    </TabsTrigger>
                     <TabsTrigger value="project" className="group flex-1 sm:flex-none">
                       <Settings className="w-4 h-4 lg:mr-2" />
                       <span className="hidden lg:inline group-data-[state=active]:inline">
@@ -276,11 +347,16 @@ export function ProjectManager({ projects, availableDevices, gameModes }: Projec
                     />
                   </TabsContent>
 
+                  <TabsContent value="history" className="mt-4">
+                    <MatchHistoryWidget projectId={selectedProject.id} />
+                  </TabsContent>
+
                   <TabsContent value="project" className="mt-4">
                     <ProjectSettingsManager
                       project={selectedProject}
                       gameModes={localGameModes}
                       onDeleteAction={() => handleDeleteProject(selectedProject.id)}
+                      onLeaveAction={() => handleLeaveProject(selectedProject.id)}
                     />
                   </TabsContent>
                 </Tabs>
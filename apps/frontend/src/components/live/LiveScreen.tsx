@@ -0,0 +1,208 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Heart, RotateCcw, Skull, Timer, Wifi, Zap } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+
+import { createCloudTransport, fetchBridgeToken, useAppMode } from '@/lib/comm'
+import { GameCommProvider } from '@/lib/comm/GameCommContext'
+import {
+  buildLiveScoreboard,
+  type LivePlayerRow,
+  type LiveProject,
+} from '@/lib/game/liveScoreboard'
+import { cn } from '@/lib/utils'
+import { DeviceConnectionsProvider, useDeviceConnections } from '@/lib/websocket'
+import { useKillFeed } from '@/hooks/useKillFeed'
+import { Badge } from '@/components/ui/badge'
+import { KillFeed } from '@/components/project-manager/KillFeed'
+
+interface LiveScreenProps {
+  project: LiveProject
+  /** The project's spectator token, used for read-only bridge and cloud access */
+  liveToken: string
+}
+
+function formatClock(seconds: number) {
+  const total = Math.max(0, Math.ceil(seconds))
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`
+}
+
+function PlayerCard({ player, eliminated }: { player: LivePlayerRow; eliminated: boolean }) {
+  const t = useTranslations('Live')
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border bg-card p-3 space-y-2',
+        (!player.online || eliminated) && 'opacity-50',
+        player.isRespawning && !eliminated && 'border-red-500/60'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-lg font-semibold truncate">{player.name}</span>
+        <Badge variant="outline" className="font-mono">
+          #{player.number}
+        </Badge>
+      </div>
+      <div className="flex items-center justify-between text-base tabular-nums">
+        {eliminated ? (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Skull className="w-4 h-4" /> {t('eliminated')}
+          </span>
+        ) : player.isRespawning ? (
+          <span className="flex items-center gap-1 text-red-500">
+            <RotateCcw className="w-4 h-4 animate-spin" /> {t('respawning')}
+          </span>
+        ) : (
+          <span className="flex items-center gap-3">
+            {player.hearts !== null && (
+              <span className="flex items-center gap-1">
+                <Heart className="w-4 h-4 fill-red-500 text-red-500" />
+                {player.hearts}/{player.maxHearts}
+              </span>
+            )}
+            {player.ammo !== null && (
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <Zap className="w-4 h-4" />
+                {player.ammo}/{player.maxAmmo}
+              </span>
+            )}
+          </span>
+        )}
+        <span className="font-semibold">
+          {player.kills}
+          <span className="text-muted-foreground">/{player.deaths}</span>
+        </span>
+      </div>
+    </div>
+  )
+}
+
+function LiveScoreboardView({ project }: { project: LiveProject }) {
+  const t = useTranslations('Live')
+  const { getDeviceState, connectedDevices } = useDeviceConnections()
+  // Spectators only watch: no HIT_FORWARD / KILL_CONFIRMED to devices
+  const killFeed = useKillFeed(project, { notifyShooter: false, maxEntries: 20 })
+
+  // Re-render every second so the clock counts down between status reports
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const { teams, remainingTimeS } = buildLiveScoreboard(project, getDeviceState, now)
+  // Spectators have no hit history; the deaths the devices report tell who is out
+  const lives = project.gameMode?.lives ?? 0
+  const isEliminated = (player: LivePlayerRow) => lives > 0 && player.deaths >= lives
+
+  return (
+    <div className="flex min-h-full flex-col gap-6 p-6 lg:p-10">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold lg:text-5xl">{project.name}</h1>
+        <div className="flex items-center gap-4">
+          {remainingTimeS !== null && (
+            <span className="flex items-center gap-2 text-4xl font-bold tabular-nums lg:text-6xl">
+              <Timer className="w-8 h-8 lg:w-12 lg:h-12" />
+              {formatClock(remainingTimeS)}
+            </span>
+          )}
+          <Badge variant="secondary" className="gap-1 text-sm">
+            <Wifi className="w-4 h-4" />
+            {t('online', { count: connectedDevices.length })}
+          </Badge>
+        </div>
+      </header>
+
+      <div className="grid flex-1 gap-6 lg:grid-cols-[1fr_22rem]">
+        <div className="space-y-6">
+          {/* Team totals */}
+          <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-4">
+            {teams.map((team) => (
+              <div
+                key={team.id ?? 'no-team'}
+                className="rounded-xl border-l-8 bg-muted/40 p-4"
+                style={{ borderLeftColor: team.color ?? undefined }}
+              >
+                <div className="text-lg font-medium truncate">
+                  {team.id === null ? t('noTeam') : team.name}
+                </div>
+                <div className="flex items-baseline gap-3 tabular-nums">
+                  <span className="text-5xl font-bold">{team.kills}</span>
+                  <span className="text-xl text-muted-foreground">
+                    {t('deaths', { count: team.deaths })}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Players */}
+          {teams.map((team) => (
+            <section key={team.id ?? 'no-team'} className="space-y-2">
+              <h2 className="text-xl font-semibold" style={{ color: team.color ?? undefined }}>
+                {team.id === null ? t('noTeam') : team.name}
+              </h2>
+              <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4">
+                {team.players.map((player) => (
+                  <PlayerCard key={player.id} player={player} eliminated={isEliminated(player)} />
+                ))}
+              </div>
+            </section>
+          ))}
+
+          {teams.length === 0 && (
+            <p className="py-16 text-center text-xl text-muted-foreground">
+              {t('waitingForPlayers')}
+            </p>
+          )}
+        </div>
+
+        <aside className="space-y-2">
+          <h2 className="text-xl font-semibold">{t('killFeed')}</h2>
+          <KillFeed entries={killFeed.entries} killsOnly className="text-base" />
+        </aside>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Full-screen, read-only scoreboard for a TV at the field
+ *
+ * Follows the devices through the bridge in local mode and through the
+ * session's channels in cloud mode, with tokens that cannot control them.
+ */
+export function LiveScreen({ project, liveToken }: LiveScreenProps) {
+  const { isLocal } = useAppMode()
+  const deviceIps = useMemo(() => project.devices.map((d) => d.ipAddress), [project])
+  const cloudConfig = useMemo(
+    () =>
+      isLocal
+        ? undefined
+        : { transport: createCloudTransport(project.id, undefined, { liveToken }) },
+    [isLocal, project.id, liveToken]
+  )
+  // Viewers are not signed in; the live token gets them a spectator bridge token
+  const localConfig = useMemo(
+    () =>
+      isLocal ? { bridgeToken: () => fetchBridgeToken(project.id, { liveToken }) } : undefined,
+    [isLocal, project.id, liveToken]
+  )
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-auto bg-background">
+      <GameCommProvider
+        mode={isLocal ? 'local' : 'cloud'}
+        sessionId={project.id}
+        localConfig={localConfig}
+        cloudConfig={cloudConfig}
+      >
+        <DeviceConnectionsProvider initialDevices={deviceIps}>
+          <LiveScoreboardView project={project} />
+        </DeviceConnectionsProvider>
+      </GameCommProvider>
+    </div>
+  )
+}
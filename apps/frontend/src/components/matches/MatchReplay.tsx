@@ -0,0 +1,170 @@
+'use client'
+
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import { Pause, Play, Wifi } from 'lucide-react'
+
+import { GameCommProvider, useGameCommContext } from '@/lib/comm/GameCommContext'
+import { REPLAY_SPEEDS, ReplayComm, type ReplaySpeed } from '@/lib/comm/ReplayComm'
+import {
+  buildReplayProject,
+  countEventsUntil,
+  protocolEvents,
+  type RecordedEvent,
+  type ReplayParticipant,
+} from '@/lib/match/replay'
+import { buildScoreboard } from '@/lib/match/scoreboard'
+import { DeviceConnectionsProvider, useDeviceConnections } from '@/lib/websocket'
+import { useKillFeed } from '@/hooks/useKillFeed'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Slider } from '@/components/ui/slider'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { ReadOnlyRoster } from '@/components/project-manager/GameOverviewDnd'
+import { KillFeed } from '@/components/project-manager/KillFeed'
+import { LiveStats } from '@/components/project-manager/LiveStats'
+import type { Project } from '@/components/project-manager/types'
+
+import { MatchScoreboard } from './MatchScoreboard'
+
+interface MatchReplayProps {
+  match: {
+    id: string
+    startedAt: Date
+    durationMs: number
+    project: { id: string; name: string }
+    participants: ReplayParticipant[]
+    /** Sorted by offset */
+    events: RecordedEvent[]
+  }
+}
+
+function formatClock(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`
+}
+
+function ReplayControls({ replay }: { replay: ReplayComm }) {
+  const clock = useSyncExternalStore(replay.subscribeClock, replay.getClock, replay.getClock)
+
+  return (
+    <Card>
+      <CardContent className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <Button
+          size="icon"
+          onClick={() => (clock.playing ? replay.pause() : replay.play())}
+          title={clock.playing ? 'Pause' : 'Play'}
+        >
+          {clock.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Slider
+          className="flex-1"
+          min={0}
+          max={Math.max(1, clock.durationMs)}
+          step={100}
+          value={[clock.positionMs]}
+          onValueChange={([value]) => replay.seek(value)}
+        />
+        <span className="text-sm tabular-nums text-muted-foreground">
+          {formatClock(clock.positionMs)} / {formatClock(clock.durationMs)}
+        </span>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={String(clock.speed)}
+          onValueChange={(value) => value && replay.setSpeed(Number(value) as ReplaySpeed)}
+        >
+          {REPLAY_SPEEDS.map((speed) => (
+            <ToggleGroupItem key={speed} value={String(speed)} className="px-3">
+              {speed}x
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </CardContent>
+    </Card>
+  )
+}
+
+function ReplayViewer({
+  match,
+  project,
+  replay,
+}: MatchReplayProps & { project: Project; replay: ReplayComm }) {
+  const { deviceStore } = useGameCommContext()
+  const { connectedDevices } = useDeviceConnections()
+  const clock = useSyncExternalStore(replay.subscribeClock, replay.getClock, replay.getClock)
+
+  const startedAt = new Date(match.startedAt).getTime()
+  const killFeed = useKillFeed(project, {
+    notifyShooter: false,
+    now: () => startedAt + replay.eventOffsetMs,
+  })
+
+  // Seeking backwards replays from the start
+  const { clear: clearKillFeed } = killFeed
+  useEffect(
+    () =>
+      replay.onReset(() => {
+        deviceStore.reset()
+        clearKillFeed()
+      }),
+    [replay, deviceStore, clearKillFeed]
+  )
+
+  const appliedEvents = countEventsUntil(match.events, clock.positionMs)
+  const scoreboard = useMemo(
+    () =>
+      buildScoreboard(
+        match.participants.map((p) => ({ ...p, stats: null })),
+        match.events
+          .slice(0, appliedEvents)
+          .map((e) => ({ type: e.payload.type, deviceIp: e.deviceIp, payload: e.payload }))
+      ),
+    [match.participants, match.events, appliedEvents]
+  )
+
+  return (
+    <div className="space-y-6">
+      <ReplayControls replay={replay} />
+
+      <Card className="gap-2">
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center justify-between">
+            <span>{match.project.name}</span>
+            <Badge variant="secondary" className="gap-1">
+              <Wifi className="w-3 h-3" />
+              {connectedDevices.length} Devices
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <LiveStats devices={connectedDevices} />
+          <KillFeed entries={killFeed.entries} />
+        </CardContent>
+      </Card>
+
+      <ReadOnlyRoster project={project} />
+
+      <MatchScoreboard scoreboard={scoreboard} />
+    </div>
+  )
+}
+
+/**
+ * Plays a recorded match back through the live comm stack
+ */
+export function MatchReplay({ match }: MatchReplayProps) {
+  // The log also holds app events, which are no messages a device sent
+  const [replay] = useState(() => new ReplayComm(protocolEvents(match.events), match.durationMs))
+  const project = useMemo(() => buildReplayProject(match, match.participants), [match])
+  const deviceIps = useMemo(() => project.devices.map((d) => d.ipAddress), [project])
+
+  return (
+    <GameCommProvider comm={replay}>
+      <DeviceConnectionsProvider initialDevices={deviceIps}>
+        <ReplayViewer match={match} project={project} replay={replay} />
+      </DeviceConnectionsProvider>
+    </GameCommProvider>
+  )
+}
@@ -0,0 +1,164 @@
+import { Crosshair, Skull, Trophy } from 'lucide-react'
+
+import type { Scoreboard, ScoreboardPlayerRow, ScoreboardTotals } from '@/lib/match/scoreboard'
+import { cn } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface MatchScoreboardProps {
+  scoreboard: Scoreboard
+}
+
+const formatAccuracy = (accuracy: number) => `${Math.round(accuracy * 100)}%`
+const formatKd = (kd: number) => kd.toFixed(2)
+
+function StatCells({ totals }: { totals: ScoreboardTotals }) {
+  return (
+    <>
+      <td className="px-3 py-2 text-right tabular-nums">{totals.kills}</td>
+      <td className="px-3 py-2 text-right tabular-nums">{totals.deaths}</td>
+      <td className="px-3 py-2 text-right tabular-nums">{totals.friendlyKills}</td>
+      <td className="px-3 py-2 text-right tabular-nums">{totals.shots}</td>
+      <td className="px-3 py-2 text-right tabular-nums">{formatAccuracy(totals.accuracy)}</td>
+      <td className="px-3 py-2 text-right tabular-nums font-semibold">{formatKd(totals.kd)}</td>
+    </>
+  )
+}
+
+function StatHeader({ label }: { label: string }) {
+  return (
+    <tr className="border-b text-xs uppercase text-muted-foreground">
+      <th className="px-3 py-2 text-left font-medium">{label}</th>
+      <th className="px-3 py-2 text-right font-medium">Kills</th>
+      <th className="px-3 py-2 text-right font-medium">Deaths</th>
+      <th className="px-3 py-2 text-right font-medium">Friendly</th>
+      <th className="px-3 py-2 text-right font-medium">Shots</th>
+      <th className="px-3 py-2 text-right font-medium">Accuracy</th>
+      <th className="px-3 py-2 text-right font-medium">K/D</th>
+    </tr>
+  )
+}
+
+function PlayerRow({ row, rank }: { row: ScoreboardPlayerRow; rank?: number }) {
+  return (
+    <tr className="border-b last:border-0">
+      <td className="px-3 py-2">
+        <div className="flex items-center gap-2">
+          {rank !== undefined && (
+            <span className="w-5 text-xs text-muted-foreground tabular-nums">{rank}.</span>
+          )}
+          <span className="font-medium">{row.playerName}</span>
+          <Badge variant="outline" className="text-[10px] font-mono">
+            #{row.playerNumber}
+          </Badge>
+        </div>
+      </td>
+      <StatCells totals={row} />
+    </tr>
+  )
+}
+
+export function MatchScoreboard({ scoreboard }: MatchScoreboardProps) {
+  const ranking = [...scoreboard.players].sort(
+    (a, b) => b.kills - a.kills || b.kd - a.kd || a.deaths - b.deaths
+  )
+  // Players without a team (number 0) never win as a team
+  const realTeams = scoreboard.teams.filter((t) => t.teamNumber !== 0)
+  const winner = realTeams.length > 1 ? realTeams[0] : undefined
+
+  if (scoreboard.players.length === 0) {
+    return (
+      <Card className="border-dashed">
+        <CardContent className="py-8 text-center text-sm text-muted-foreground">
+          No players took part in this match.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Team Totals */}
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {scoreboard.teams.map((team) => (
+          <Card
+            key={team.teamNumber}
+            className={cn('border-l-4', team === winner && 'ring-2 ring-primary/30')}
+            style={{ borderLeftColor: team.teamColor ?? undefined }}
+          >
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center justify-between text-base">
+                <span>{team.teamName}</span>
+                {team === winner && <Trophy className="w-4 h-4 text-yellow-500" />}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="flex gap-4 text-sm">
+              <span className="flex items-center gap-1">
+                <Crosshair className="w-4 h-4 text-muted-foreground" />
+                {team.kills}
+              </span>
+              <span className="flex items-center gap-1">
+                <Skull className="w-4 h-4 text-muted-foreground" />
+                {team.deaths}
+              </span>
+              <span className="text-muted-foreground">K/D {formatKd(team.kd)}</span>
+              <span className="text-muted-foreground">{formatAccuracy(team.accuracy)}</span>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Per-Team Breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Teams</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <StatHeader label="Team / Player" />
+            </thead>
+            {scoreboard.teams.map((team) => (
+              <tbody key={team.teamNumber}>
+                <tr className="border-b bg-muted/40 font-semibold">
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: team.teamColor ?? '#9ca3af' }}
+                      />
+                      {team.teamName}
+                    </div>
+                  </td>
+                  <StatCells totals={team} />
+                </tr>
+                {team.players.map((row) => (
+                  <PlayerRow key={row.playerNumber} row={row} />
+                ))}
+              </tbody>
+            ))}
+          </table>
+        </CardContent>
+      </Card>
+
+      {/* Player Ranking */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Players</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <StatHeader label="Player" />
+            </thead>
+            <tbody>
+              {ranking.map((row, index) => (
+                <PlayerRow key={row.playerNumber} row={row} rank={index + 1} />
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -155,6 +155,16 @@ export function DeviceConnectionCard({
   }
 
   const getConnectionBadge = () => {
+    // Refused in the handshake; retrying only helps after a firmware update
+    if (state.compatibility === 'too_old' || state.compatibility === 'too_new') {
+      return (
+        <Badge variant="destructive" className="gap-1 text-xs">
+          <AlertCircle className="w-3 h-3" />
+          {state.compatibility === 'too_old' ? 'Firmware too old' : 'Firmware too new'}
+        </Badge>
+      )
+    }
+
     switch (connectionState) {
       case 'connected':
         return (
@@ -422,6 +432,19 @@ export function DeviceConnectionCard({
         <div className="text-[10px] text-muted-foreground truncate" title={url}>
           {url && `Using: ${url}`}
         </div>
+        {state.capabilities && (
+          <div className="text-[10px] text-muted-foreground truncate">
+            Protocol {state.capabilities.protocolVersion}
+            {state.capabilities.legacy
+              ? ' (no handshake)'
+              : ` · FW ${state.capabilities.firmwareBuild} · ${state.capabilities.macAddress}`}
+          </div>
+        )}
+        {state.invalidFrames > 0 && (
+          <div className="text-[10px] text-amber-600 truncate" title={state.lastInvalidFrame}>
+            {state.invalidFrames} invalid {state.invalidFrames === 1 ? 'frame' : 'frames'} dropped
+          </div>
+        )}
         {state.lastError && (
           <div
             className="text-xs text-destructive bg-destructive/5 p-1 rounded"
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { renderToStaticMarkup } from 'react-dom/server'
+
+import type { ProjectRole } from '@/lib/project/roles'
+
+import { GameControls } from './GameControls'
+
+const transition = async () => true
+
+const render = (role: ProjectRole, state: 'idle' | 'running' | 'paused' = 'idle') =>
+  renderToStaticMarkup(
+    <GameControls
+      role={role}
+      session={{
+        state,
+        isPending: false,
+        can: () => true,
+        start: transition,
+        stop: transition,
+        pause: transition,
+        resume: transition,
+        reset: transition,
+      }}
+      gameMode="free"
+      onGameModeChange={() => {}}
+      onlineCount={1}
+      hasDevices
+      isSendingConfig={false}
+      onSendConfig={() => {}}
+    />
+  )
+
+test('shows the game controls to admins and referees', () => {
+  for (const role of ['admin', 'referee'] as const) {
+    const idle = render(role)
+    assert.match(idle, /Start Game/, role)
+    assert.match(idle, /Reset/, role)
+    assert.match(idle, /Send Config/, role)
+
+    const running = render(role, 'running')
+    assert.match(running, /Stop Game/, role)
+    assert.match(running, /Pause/, role)
+    assert.match(render(role, 'paused'), /Resume/, role)
+  }
+})
+
+test('renders nothing for players and spectators', () => {
+  for (const role of ['player', 'spectator'] as const) {
+    for (const state of ['idle', 'running', 'paused'] as const) {
+      assert.equal(render(role, state), '', `${role} while ${state}`)
+    }
+  }
+})
@@ -0,0 +1,184 @@
+'use client'
+
+import {
+  Activity,
+  Gamepad2,
+  Loader2,
+  Pause,
+  Play,
+  RotateCcw,
+  Send,
+  Shield,
+  Square,
+  Target,
+  Users,
+  Zap,
+} from 'lucide-react'
+
+import { can, type ProjectRole } from '@/lib/project/roles'
+import type { GameMode as WSGameMode } from '@/lib/websocket/types'
+import type { GameSessionControls } from '@/hooks/useGameSession'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+/** A control panel preset, or the win conditions of the project's game mode */
+export type GameModePick = WSGameMode | 'project'
+
+const GAME_MODES: { value: WSGameMode; label: string; icon: React.ReactNode }[] = [
+  { value: 'free', label: 'Free Play', icon: <Zap className="w-4 h-4" /> },
+  { value: 'deathmatch', label: 'Deathmatch', icon: <Target className="w-4 h-4" /> },
+  { value: 'team', label: 'Team Battle', icon: <Users className="w-4 h-4" /> },
+  { value: 'capture_flag', label: 'Capture Flag', icon: <Shield className="w-4 h-4" /> },
+  { value: 'timed', label: 'Timed Match', icon: <Activity className="w-4 h-4" /> },
+]
+
+interface GameControlsProps {
+  role: ProjectRole
+  session: Pick<
+    GameSessionControls,
+    'state' | 'isPending' | 'can' | 'start' | 'stop' | 'pause' | 'resume' | 'reset'
+  >
+  gameMode: GameModePick
+  /** Name of the project's game mode, the first choice */
+  gameModeName?: string
+  onGameModeChange: (mode: GameModePick) => void
+  onlineCount: number
+  hasDevices: boolean
+  isSendingConfig: boolean
+  onSendConfig: () => void
+}
+
+/**
+ * Game mode picker, session buttons and Send Config.
+ * Renders nothing for roles that cannot control the game.
+ */
+export function GameControls({
+  role,
+  session,
+  gameMode,
+  gameModeName,
+  onGameModeChange,
+  onlineCount,
+  hasDevices,
+  isSendingConfig,
+  onSendConfig,
+}: GameControlsProps) {
+  if (!can(role, 'controlGame')) return null
+
+  const isGameActive =
+    session.state === 'running' || session.state === 'paused' || session.state === 'countdown'
+
+  return (
+    <>
+      {/* Game Mode Selection */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Select
+          value={gameMode}
+          onValueChange={(v) => onGameModeChange(v as GameModePick)}
+          disabled={isGameActive}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="project">
+              <div className="flex items-center gap-2">
+                <Gamepad2 className="w-4 h-4" />
+                <span>{gameModeName ?? 'Game mode rules'}</span>
+              </div>
+            </SelectItem>
+            {GAME_MODES.map((mode) => (
+              <SelectItem key={mode.value} value={mode.value}>
+                <div className="flex items-center gap-2">
+                  {mode.icon}
+                  <span>{mode.label}</span>
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Game Controls */}
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        {!isGameActive ? (
+          <Button
+            size="lg"
+            className="col-span-2 h-12 gap-2"
+            onClick={session.start}
+            disabled={onlineCount === 0 || !session.can('start') || session.isPending}
+          >
+            <Play className="w-5 h-5" />
+            Start Game
+          </Button>
+        ) : (
+          <Button
+            size="lg"
+            variant="destructive"
+            className="col-span-2 h-12 gap-2"
+            onClick={session.stop}
+            disabled={session.isPending}
+          >
+            <Square className="w-5 h-5" />
+            {session.state === 'countdown' ? 'Cancel' : 'Stop Game'}
+          </Button>
+        )}
+        {session.state === 'running' ? (
+          <Button
+            variant="outline"
+            className="h-12 gap-2"
+            onClick={session.pause}
+            disabled={session.isPending}
+          >
+            <Pause className="w-4 h-4" />
+            <span className="hidden sm:inline">Pause</span>
+          </Button>
+        ) : session.state === 'paused' ? (
+          <Button
+            variant="outline"
+            className="h-12 gap-2"
+            onClick={session.resume}
+            disabled={session.isPending}
+          >
+            <Play className="w-4 h-4" />
+            <span className="hidden sm:inline">Resume</span>
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            className="h-12 gap-2"
+            onClick={session.reset}
+            disabled={!session.can('reset') || session.isPending}
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span className="hidden sm:inline">Reset</span>
+          </Button>
+        )}
+        <Button
+          variant="secondary"
+          className="col-span-2 h-12 gap-2"
+          onClick={onSendConfig}
+          disabled={!hasDevices || isSendingConfig}
+        >
+          {isSendingConfig ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span className="hidden sm:inline">Sending...</span>
+            </>
+          ) : (
+            <>
+              <Send className="w-4 h-4" />
+              <span className="hidden sm:inline">Send Config</span>
+            </>
+          )}
+        </Button>
+      </div>
+    </>
+  )
+}
@@ -4,6 +4,14 @@ import { useEffect, useMemo, useState, useTransition } from 'react'
 import { createCustomGameMode } from '@/features/projects/actions'
 import { AlertCircle, Wand2 } from 'lucide-react'
 
+import { objectiveRulesOf } from '@/lib/game/objectives'
+import { respawnModeOf, type RespawnMode } from '@/lib/game/revive'
+import {
+  NO_WIN_CONDITIONS,
+  winConditionsOf,
+  type Scoring,
+  type Tiebreaker,
+} from '@/lib/game/winConditions'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -25,12 +33,22 @@ type GameModeConfig = {
   maxHearts: number
   spawnHearts: number
   respawnTimeSec: number
+  lives: number
+  respawnMode: RespawnMode
   friendlyFire: boolean
   damageIn: number
   damageOut: number
   enableAmmo: boolean
   maxAmmo: number
   reloadTimeMs: number
+  scoring: Scoring
+  killLimit: number
+  teamScoreLimit: number
+  lastTeamStanding: boolean
+  objectiveScoreLimit: number
+  tiebreaker: Tiebreaker
+  captureHits: number
+  holdSecondsPerPoint: number
 }
 
 const buildConfigFromBase = (base?: GameMode): GameModeConfig => ({
@@ -39,12 +57,16 @@ const buildConfigFromBase = (base?: GameMode): GameModeConfig => ({
   maxHearts: base?.maxHearts ?? 5,
   spawnHearts: base?.spawnHearts ?? 3,
   respawnTimeSec: base?.respawnTimeSec ?? 10,
+  lives: base?.lives ?? 0,
+  respawnMode: respawnModeOf(base),
   friendlyFire: base?.friendlyFire ?? false,
   damageIn: base?.damageIn ?? 1,
   damageOut: base?.damageOut ?? 1,
   enableAmmo: base?.enableAmmo ?? true,
   maxAmmo: base?.maxAmmo ?? 30,
   reloadTimeMs: base?.reloadTimeMs ?? 2500,
+  ...objectiveRulesOf(base),
+  ...(base ? winConditionsOf(base) : NO_WIN_CONDITIONS),
 })
 
 interface GameModeManagerProps {
@@ -195,6 +217,34 @@ export function GameModeManager({ gameModes, onCreated }: GameModeManagerProps)
                     onChange={(e) => handleNumberChange('respawnTimeSec')(e.target.value)}
                   />
                 </div>
+                <div className="grid gap-1.5">
+                  <label className="text-xs font-medium text-muted-foreground">
+                    Lives (0 = unlimited)
+                  </label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={config.lives}
+                    onChange={(e) => handleNumberChange('lives')(e.target.value)}
+                  />
+                </div>
+                <div className="grid gap-1.5">
+                  <label className="text-xs font-medium text-muted-foreground">Respawn</label>
+                  <Select
+                    value={config.respawnMode}
+                    onValueChange={(value) =>
+                      setConfig((prev) => ({ ...prev, respawnMode: value as RespawnMode }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Automatic (after respawn time)</SelectItem>
+                      <SelectItem value="manual">Manual (referee or medic revives)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div className="grid gap-1.5">
                   <label className="text-xs font-medium text-muted-foreground">Max hearts</label>
                   <Input
@@ -294,6 +344,125 @@ export function GameModeManager({ gameModes, onCreated }: GameModeManagerProps)
                   />
                 </div>
               </div>
+
+              <div className="grid gap-3">
+                <label className="text-sm font-medium">Win conditions</label>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="grid gap-1.5">
+                    <label className="text-xs font-medium text-muted-foreground">Scoring</label>
+                    <Select
+                      value={config.scoring}
+                      onValueChange={(value) =>
+                        setConfig((prev) => ({ ...prev, scoring: value as Scoring }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="team">Team</SelectItem>
+                        <SelectItem value="individual">Individual</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-1.5">
+                    <label className="text-xs font-medium text-muted-foreground">
+                      Tie on time expiry
+                    </label>
+                    <Select
+                      value={config.tiebreaker}
+                      onValueChange={(value) =>
+                        setConfig((prev) => ({ ...prev, tiebreaker: value as Tiebreaker }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="deaths">Fewer deaths wins</SelectItem>
+                        <SelectItem value="draw">Draw</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-1.5">
+                    <label className="text-xs font-medium text-muted-foreground">
+                      Kill limit (0 = off)
+                    </label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={config.killLimit}
+                      onChange={(e) => handleNumberChange('killLimit')(e.target.value)}
+                    />
+                  </div>
+                  <div className="grid gap-1.5">
+                    <label className="text-xs font-medium text-muted-foreground">
+                      Team score limit (0 = off)
+                    </label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={config.teamScoreLimit}
+                      disabled={config.scoring === 'individual'}
+                      onChange={(e) => handleNumberChange('teamScoreLimit')(e.target.value)}
+                    />
+                  </div>
+                  <div className="grid gap-1.5">
+                    <label className="text-xs font-medium text-muted-foreground">
+                      Objective score limit (0 = off)
+                    </label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={config.objectiveScoreLimit}
+                      disabled={config.scoring === 'individual'}
+                      onChange={(e) => handleNumberChange('objectiveScoreLimit')(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between rounded-md border px-3 py-2">
+                  <div>
+                    <p className="text-sm font-medium">Last team standing</p>
+                    <p className="text-xs text-muted-foreground">
+                      Win when every other team is out of lives or waiting for a revive
+                    </p>
+                  </div>
+                  <Switch
+                    checked={config.lastTeamStanding}
+                    onCheckedChange={(checked) =>
+                      setConfig((prev) => ({ ...prev, lastTeamStanding: checked }))
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-3">
+                <label className="text-sm font-medium">Objectives</label>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="grid gap-1.5">
+                    <label className="text-xs font-medium text-muted-foreground">
+                      Hits to capture
+                    </label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={config.captureHits}
+                      onChange={(e) => handleNumberChange('captureHits')(e.target.value)}
+                    />
+                  </div>
+                  <div className="grid gap-1.5">
+                    <label className="text-xs font-medium text-muted-foreground">
+                      Hold seconds per point
+                    </label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={config.holdSecondsPerPoint}
+                      onChange={(e) => handleNumberChange('holdSecondsPerPoint')(e.target.value)}
+                    />
+                  </div>
+                </div>
+              </div>
             </div>
           </div>
 
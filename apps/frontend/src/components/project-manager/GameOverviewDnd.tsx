@@ -17,6 +17,8 @@ import {
   KeyboardSensor,
   PointerSensor,
   pointerWithin,
+  SensorDescriptor,
+  SensorOptions,
   UniqueIdentifier,
   useDroppable,
   useSensor,
@@ -32,59 +34,66 @@ import {
 import { CSS } from '@dnd-kit/utilities'
 import {
   Activity,
+  AlertTriangle,
   ChevronDown,
   ChevronRight,
   ChevronsDownUp,
   ChevronsUpDown,
   Gamepad2,
   GripVertical,
+  Heart,
+  HeartPulse,
   Monitor,
-  Play,
-  RotateCcw,
-  Shield,
-  Square,
-  Target,
+  Skull,
   Users,
   Wifi,
   WifiOff,
-  Zap,
-  Send,
-  Loader2,
 } from 'lucide-react'
 
+import { isObjectiveType } from '@/lib/game/objectives'
+import { respawnModeOf } from '@/lib/game/revive'
+import {
+  GAME_MODE_WIN_CONDITIONS,
+  gameModeOf,
+  sameWinConditions,
+  winConditionsOf,
+} from '@/lib/game/winConditions'
+import { can } from '@/lib/project/roles'
 import { cn } from '@/lib/utils'
 import { useDeviceConnections } from '@/lib/websocket'
-import type { GameMode as WSGameMode } from '@/lib/websocket/types'
+import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select'
 import { useDeviceConfig } from '@/hooks/useDeviceConfig'
+import { useGameSession } from '@/hooks/useGameSession'
+import { useKillFeed } from '@/hooks/useKillFeed'
+import { useLives } from '@/hooks/useLives'
+import { useObjectives } from '@/hooks/useObjectives'
+import { useRevive } from '@/hooks/useRevive'
+import { useMatchRecorder } from '@/hooks/useMatchRecorder'
+import { useWinConditions } from '@/hooks/useWinConditions'
 
 import { AddDeviceDialog, AddPlayerDialog, AddTeamDialog } from './AddDialogs'
+import { GameControls, type GameModePick } from './GameControls'
+import { KillFeed } from './KillFeed'
+import { LiveStats } from './LiveStats'
+import { ObjectivesPanel } from './ObjectivesPanel'
+import { SessionStatus } from './SessionStatus'
 import type { Device, Player, Project, Team } from './types'
+import { WinnerBanner } from './WinnerBanner'
 
 interface GameOverviewProps {
   project: Project
   availableDevices?: Device[]
 }
 
-const GAME_MODES: { value: WSGameMode; label: string; icon: React.ReactNode }[] = [
-  { value: 'free', label: 'Free Play', icon: <Zap className="w-4 h-4" /> },
-  { value: 'deathmatch', label: 'Deathmatch', icon: <Target className="w-4 h-4" /> },
-  { value: 'team', label: 'Team Battle', icon: <Users className="w-4 h-4" /> },
-  { value: 'capture_flag', label: 'Capture Flag', icon: <Shield className="w-4 h-4" /> },
-  { value: 'timed', label: 'Timed Match', icon: <Activity className="w-4 h-4" /> },
-]
 
 type DraggableType = 'team' | 'player' | 'device'
 
+// Stable, or DndContext re-creates its sensor setup on every render
+const NO_SENSORS: SensorDescriptor<SensorOptions>[] = []
+
 // ==================== DROPPABLE ZONE ====================
 
 function DroppableZone({
@@ -213,6 +222,9 @@ function SortablePlayer({
   activeId,
   overId,
   project,
+  livesLeft = null,
+  onRevive,
+  readOnly = false,
 }: {
   player: Player
   teamColor?: string
@@ -221,6 +233,12 @@ function SortablePlayer({
   activeId: UniqueIdentifier | null
   overId: UniqueIdentifier | null
   project: Project
+  /** Null when lives are unlimited */
+  livesLeft?: number | null
+  /** Set while the player is down and can be revived */
+  onRevive?: () => void
+  /** No drag handle and no drop hints */
+  readOnly?: boolean
 }) {
   const isBeingDragged = activeId === `player-${player.id}`
 
@@ -258,18 +276,45 @@ function SortablePlayer({
       className={cn(
         'flex flex-col gap-1 p-2 rounded bg-muted/30 border',
         'transition-opacity',
+        livesLeft === 0 && 'opacity-60',
         isDragging && 'opacity-20' // Make it very faint when dragging
       )}
     >
       <div className="flex items-center gap-2">
-        <button {...attributes} {...listeners} className="cursor-grab touch-none">
-          <GripVertical className="w-4 h-4 text-muted-foreground" />
-        </button>
+        {!readOnly && (
+          <button {...attributes} {...listeners} className="cursor-grab touch-none">
+            <GripVertical className="w-4 h-4 text-muted-foreground" />
+          </button>
+        )}
         <Gamepad2 className="w-4 h-4" style={{ color: teamColor }} />
-        <span className="font-medium">{player.name}</span>
+        <span className={cn('font-medium', livesLeft === 0 && 'line-through')}>{player.name}</span>
         <Badge variant="outline" className="text-xs">
           ID: {player.number}
         </Badge>
+        {livesLeft === 0 ? (
+          <Badge variant="destructive" className="text-xs gap-1">
+            <Skull className="w-3 h-3" />
+            Eliminated
+          </Badge>
+        ) : (
+          livesLeft !== null && (
+            <Badge variant="secondary" className="text-xs gap-1" title="Lives left">
+              <Heart className="w-3 h-3" />
+              {livesLeft}
+            </Badge>
+          )
+        )}
+        {onRevive && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto h-6 gap-1 px-2 text-xs"
+            onClick={onRevive}
+          >
+            <HeartPulse className="w-3 h-3" />
+            Revive
+          </Button>
+        )}
       </div>
 
       {/* Devices droppable area */}
@@ -303,7 +348,7 @@ function SortablePlayer({
                 getDeviceConnectionState={getDeviceConnectionState}
               />
             )}
-          {devices.length === 0 && overId !== `player-devices-${player.id}` && (
+          {!readOnly && devices.length === 0 && overId !== `player-devices-${player.id}` && (
             <span className="text-xs text-muted-foreground italic">Drop devices here</span>
           )}
         </SortableContext>
@@ -324,6 +369,9 @@ function SortableTeam({
   activeId,
   overId,
   project,
+  getLivesLeft,
+  getReviveHandler,
+  readOnly = false,
 }: {
   team: Team
   players: Player[]
@@ -334,6 +382,9 @@ function SortableTeam({
   activeId: UniqueIdentifier | null
   overId: UniqueIdentifier | null
   project: Project
+  getLivesLeft?: (playerId: string) => number | null
+  getReviveHandler?: (player: Player) => (() => void) | undefined
+  readOnly?: boolean
 }) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: `team-${team.id}`,
@@ -412,9 +463,11 @@ function SortableTeam({
     >
       {/* Team Header */}
       <div className="flex items-center gap-2 px-3 py-2 bg-muted/30">
-        <button {...attributes} {...listeners} className="cursor-grab touch-none">
-          <GripVertical className="w-4 h-4 text-muted-foreground" />
-        </button>
+        {!readOnly && (
+          <button {...attributes} {...listeners} className="cursor-grab touch-none">
+            <GripVertical className="w-4 h-4 text-muted-foreground" />
+          </button>
+        )}
         <button onClick={onToggle} className="flex items-center gap-2 flex-1">
           {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
           <div className="w-3 h-3 rounded-full" style={{ backgroundColor: team.color }} />
@@ -460,6 +513,9 @@ function SortableTeam({
                       activeId={activeId}
                       overId={overId}
                       project={project}
+                      livesLeft={getLivesLeft?.(player.id)}
+                      onRevive={getReviveHandler?.(player)}
+                      readOnly={readOnly}
                     />
                   </Fragment>
                 ))}
@@ -470,7 +526,7 @@ function SortableTeam({
               </div>
             ) : (
               <div className="text-sm text-muted-foreground text-center py-4 border-2 border-dashed rounded">
-                Drop players here
+                {readOnly ? 'No players' : 'Drop players here'}
               </div>
             )}
             {/* Show preview even if empty list */}
@@ -484,6 +540,84 @@ function SortableTeam({
   )
 }
 
+// ==================== READ-ONLY ROSTER ====================
+
+/**
+ * Teams, players and their devices as the overview shows them, without editing
+ */
+export function ReadOnlyRoster({ project }: { project: Project }) {
+  const { connections } = useDeviceConnections()
+  const [collapsedTeams, setCollapsedTeams] = useState<Set<string>>(new Set())
+
+  const getDevicesForPlayer = useCallback(
+    (player: Player) => project.devices?.filter((d) => d.assignedPlayerId === player.id) || [],
+    [project.devices]
+  )
+
+  const getDeviceConnectionState = useCallback(
+    (ipAddress: string) => connections.get(ipAddress)?.state.connectionState || 'disconnected',
+    [connections]
+  )
+
+  const toggleTeam = (teamId: string) => {
+    const newCollapsed = new Set(collapsedTeams)
+    if (newCollapsed.has(teamId)) {
+      newCollapsed.delete(teamId)
+    } else {
+      newCollapsed.add(teamId)
+    }
+    setCollapsedTeams(newCollapsed)
+  }
+
+  const playersWithoutTeam = project.players?.filter((p) => !p.teamId) || []
+
+  return (
+    <DndContext sensors={NO_SENSORS}>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 space-y-2">
+          {project.teams?.map((team) => (
+            <SortableTeam
+              key={team.id}
+              team={team}
+              players={project.players?.filter((p) => p.teamId === team.id) || []}
+              isExpanded={!collapsedTeams.has(team.id)}
+              onToggle={() => toggleTeam(team.id)}
+              getDevicesForPlayer={getDevicesForPlayer}
+              getDeviceConnectionState={getDeviceConnectionState}
+              activeId={null}
+              overId={null}
+              project={project}
+              readOnly
+            />
+          ))}
+        </div>
+        {playersWithoutTeam.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+              <Gamepad2 className="w-4 h-4" />
+              No Team
+            </h4>
+            <div className="space-y-1">
+              {playersWithoutTeam.map((player) => (
+                <SortablePlayer
+                  key={player.id}
+                  player={player}
+                  devices={getDevicesForPlayer(player)}
+                  getDeviceConnectionState={getDeviceConnectionState}
+                  activeId={null}
+                  overId={null}
+                  project={project}
+                  readOnly
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </DndContext>
+  )
+}
+
 // ==================== MAIN COMPONENT ====================
 
 type OptimisticAction =
@@ -550,8 +684,8 @@ export function GameOverview({ project, availableDevices = [] }: GameOverviewPro
     }
   )
 
-  const [selectedGameMode, setSelectedGameMode] = useState<WSGameMode>('free')
-  const [isGameRunning, setIsGameRunning] = useState(false)
+  // Win conditions for the next game; a running one keeps those it started with
+  const [selectedGameMode, setSelectedGameMode] = useState<GameModePick>('project')
   const [expandedTeams, setExpandedTeams] = useState<Set<string>>(
     () => new Set(project.teams?.map((t) => t.id) || [])
   )
@@ -560,9 +694,90 @@ export function GameOverview({ project, availableDevices = [] }: GameOverviewPro
   const [isPending, startTransition] = useTransition()
   const [isSendingConfig, setIsSendingConfig] = useState(false)
 
-  const { broadcastCommand, connectAll, disconnectAll, connectedDevices, connections } =
-    useDeviceConnections()
+  const { connectAll, disconnectAll, connectedDevices, connections } = useDeviceConnections()
   const { sendToAllDevices, hasDevices } = useDeviceConfig(project)
+  // Projects without a role are the user's own
+  const role = project.role ?? 'admin'
+  const canControl = can(role, 'controlGame')
+  const canEditRoster = can(role, 'editRoster')
+  const gameSession = useGameSession(project, {
+    claimHost: canControl,
+    onTransition: async (action) => {
+      if (action === 'start') {
+        killFeed.clear()
+        await matchRecorder.start(pickedConditions)
+      }
+    },
+  })
+  // The host tab records; stopping in any tab finishes or cancels the match
+  const matchRecorder = useMatchRecorder(project, {
+    enabled: canControl,
+    isHost: gameSession.isHost,
+    state: gameSession.state,
+    getOutcome: () => gameSession.session.result,
+  })
+  // Every tab shows the feed; devices get hit feedback from the host only
+  const killFeed = useKillFeed(optimisticProject, { notifyShooter: gameSession.isHost })
+  const isGameRunning = gameSession.state === 'running' || gameSession.state === 'paused'
+  const isGameActive = isGameRunning || gameSession.state === 'countdown'
+
+  const lives = useLives(optimisticProject, {
+    lives: matchRecorder.match?.ruleset.lives ?? project.gameMode?.lives ?? 0,
+    state: gameSession.state,
+    sendConfig: gameSession.isHost,
+  })
+
+  // Manual respawn mode: referees revive from here, medics by tagging teammates
+  const revive = useRevive(optimisticProject, {
+    enabled: canControl && gameSession.state === 'running',
+    watchMedics: gameSession.isHost,
+    eliminated: lives.eliminated,
+    onRevive: (deviceIp, event) => matchRecorder.record(deviceIp, event),
+  })
+  const getReviveHandler = (player: Player) =>
+    revive.canRevive(player.id) ? () => revive.revive(player.id) : undefined
+  const isReviveFallback =
+    respawnModeOf(project.gameMode) === 'manual' && revive.unsupportedDevices.length > 0
+
+  // Shots at objective devices capture them for the shooter's team
+  const objectives = useObjectives(optimisticProject, {
+    state: gameSession.state,
+    elapsedMs: gameSession.elapsedMs,
+    isHost: gameSession.isHost,
+    saved: gameSession.objectives,
+    onChange: gameSession.saveObjectives,
+  })
+
+  // The host judges the game by the rules stored with the match and stops it
+  // with the result, which every viewer then reads from the session
+  const projectConditions = project.gameMode
+    ? winConditionsOf(project.gameMode)
+    : GAME_MODE_WIN_CONDITIONS.free
+  const pickedConditions =
+    selectedGameMode === 'project' ? projectConditions : GAME_MODE_WIN_CONDITIONS[selectedGameMode]
+  const matchRuleset = matchRecorder.match?.ruleset
+  const matchConditions = matchRuleset?.winConditions
+  useWinConditions(optimisticProject, {
+    conditions: matchConditions ?? pickedConditions,
+    enabled: gameSession.isHost && gameSession.state === 'running',
+    elapsedMs: gameSession.elapsedMs,
+    durationSeconds: matchRuleset?.durationSeconds ?? project.gameMode?.durationSeconds ?? 0,
+    eliminated: lives.eliminated,
+    manualRespawn: revive.isManual,
+    objectiveScores: objectives.scores,
+    // Broadcasts STOP to the devices
+    onWin: (result) => {
+      if (gameSession.can('stop')) gameSession.end(result)
+    },
+  })
+  const winResult = gameSession.session.result
+
+  // The picker shows what the running match was started with
+  const shownGameMode: GameModePick = !matchConditions
+    ? selectedGameMode
+    : sameWinConditions(matchConditions, projectConditions)
+      ? 'project'
+      : (gameModeOf(matchConditions) ?? 'project')
 
   // Handle send config to all devices
   const handleSendConfigToAll = async () => {
@@ -590,8 +805,6 @@ export function GameOverview({ project, availableDevices = [] }: GameOverviewPro
   // Computed values
   const totalDevices = optimisticProject.devices?.length || 0
   const onlineCount = connectedDevices.length
-  const totalKills = connectedDevices.reduce((sum, d) => sum + (d.kills || 0), 0)
-  const totalDeaths = connectedDevices.reduce((sum, d) => sum + (d.deaths || 0), 0)
 
   // Helper functions
   const getPlayersInTeam = useCallback(
@@ -614,8 +827,13 @@ export function GameOverview({ project, availableDevices = [] }: GameOverviewPro
     [optimisticProject.devices]
   )
 
+  // Objective devices are not weapons waiting for a player
   const getUnassignedDevices = useCallback((): Device[] => {
-    return optimisticProject.devices?.filter((d: Device) => !d.assignedPlayerId) || []
+    return (
+      optimisticProject.devices?.filter(
+        (d: Device) => !d.assignedPlayerId && !isObjectiveType(d.objectiveType)
+      ) || []
+    )
   }, [optimisticProject.devices])
 
   const getDeviceConnectionState = useCallback(
@@ -644,21 +862,6 @@ export function GameOverview({ project, availableDevices = [] }: GameOverviewPro
     setExpandedTeams(new Set())
   }
 
-  // Game controls
-  const handleStartGame = () => {
-    broadcastCommand('start')
-    setIsGameRunning(true)
-  }
-
-  const handleStopGame = () => {
-    broadcastCommand('stop')
-    setIsGameRunning(false)
-  }
-
-  const handleResetStats = () => {
-    broadcastCommand('reset')
-  }
-
   // Drag and drop handlers
   const handleDragStart = (event: DragStartEvent) => {
     setActiveId(event.active.id)
@@ -824,7 +1027,8 @@ export function GameOverview({ project, availableDevices = [] }: GameOverviewPro
 
   return (
     <DndContext
-      sensors={sensors}
+      // Without sensors nothing can be dragged
+      sensors={canEditRoster ? sensors : NO_SENSORS}
       collisionDetection={pointerWithin} // Use pointerWithin for more precise mouse targeting
       onDragStart={handleDragStart}
       onDragOver={handleDragOver}
@@ -854,93 +1058,56 @@ export function GameOverview({ project, availableDevices = [] }: GameOverviewPro
             </div>
           </CardHeader>
           <CardContent className="space-y-2 px-0">
-            {/* Game Mode Selection */}
-            <div className="flex flex-col sm:flex-row gap-3">
-              <Select
-                value={selectedGameMode}
-                onValueChange={(v) => setSelectedGameMode(v as WSGameMode)}
-                disabled={isGameRunning}
-              >
-                <SelectTrigger className="flex-1">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {GAME_MODES.map((mode) => (
-                    <SelectItem key={mode.value} value={mode.value}>
-                      <div className="flex items-center gap-2">
-                        {mode.icon}
-                        <span>{mode.label}</span>
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+            <GameControls
+              role={role}
+              session={gameSession}
+              gameMode={shownGameMode}
+              gameModeName={project.gameMode?.name}
+              onGameModeChange={setSelectedGameMode}
+              onlineCount={onlineCount}
+              hasDevices={hasDevices}
+              isSendingConfig={isSendingConfig}
+              onSendConfig={handleSendConfigToAll}
+            />
+
+            {winResult && <WinnerBanner result={winResult} />}
+
+            {/* Manual respawn needs REVIVE on every player device */}
+            {isReviveFallback && (
+              <Alert>
+                <AlertTriangle className="w-4 h-4" />
+                <AlertDescription>
+                  {revive.unsupportedDevices.map((d) => d.name || d.ipAddress).join(', ')}{' '}
+                  cannot be revived by this firmware. Players respawn automatically; send the
+                  config again to apply.
+                </AlertDescription>
+              </Alert>
+            )}
 
-            {/* Game Controls */}
-            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
-              {!isGameRunning ? (
-                <Button
-                  size="lg"
-                  className="col-span-2 h-12 gap-2"
-                  onClick={handleStartGame}
-                  disabled={onlineCount === 0}
-                >
-                  <Play className="w-5 h-5" />
-                  Start Game
-                </Button>
-              ) : (
-                <Button
-                  size="lg"
-                  variant="destructive"
-                  className="col-span-2 h-12 gap-2"
-                  onClick={handleStopGame}
-                >
-                  <Square className="w-5 h-5" />
-                  Stop Game
-                </Button>
-              )}
-              <Button
-                variant="outline"
-                className="h-12 gap-2"
-                onClick={handleResetStats}
-                disabled={isGameRunning}
-              >
-                <RotateCcw className="w-4 h-4" />
-                <span className="hidden sm:inline">Reset</span>
-              </Button>
-              <Button
-                variant="secondary"
-                className="col-span-2 h-12 gap-2"
-                onClick={handleSendConfigToAll}
-                disabled={!hasDevices || isSendingConfig}
-              >
-                {isSendingConfig ? (
-                  <>
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    <span className="hidden sm:inline">Sending...</span>
-                  </>
-                ) : (
-                  <>
-                    <Send className="w-4 h-4" />
-                    <span className="hidden sm:inline">Send Config</span>
-                  </>
-                )}
-              </Button>
-            </div>
+            {/* Objectives */}
+            {objectives.hasObjectives && (
+              <ObjectivesPanel
+                objectives={objectives.objectives}
+                scores={objectives.scores}
+                rules={objectives.rules}
+                teams={optimisticProject.teams || []}
+              />
+            )}
+
+            <SessionStatus
+              session={gameSession.session}
+              elapsedMs={gameSession.elapsedMs}
+              countdownRemainingMs={gameSession.countdownRemainingMs}
+              durationSeconds={project.gameMode?.durationSeconds}
+              error={gameSession.error}
+            />
 
             {/* Live Stats */}
-            {isGameRunning && (
-              <div className="grid grid-cols-2 gap-4 pt-2">
-                <div className="text-center">
-                  <p className="text-2xl font-bold text-green-600">{totalKills}</p>
-                  <p className="text-xs text-muted-foreground">Total Kills</p>
-                </div>
-                <div className="text-center">
-                  <p className="text-2xl font-bold text-red-600">{totalDeaths}</p>
-                  <p className="text-xs text-muted-foreground">Total Deaths</p>
-                </div>
-              </div>
+            {isGameRunning && <LiveStats devices={connectedDevices} />}
+
+            {/* Kill Feed */}
+            {(isGameRunning || killFeed.entries.length > 0) && (
+              <KillFeed entries={killFeed.entries} />
             )}
           </CardContent>
         </Card>
@@ -971,11 +1138,15 @@ export function GameOverview({ project, availableDevices = [] }: GameOverviewPro
             >
               <ChevronsDownUp className="w-4 h-4" />
             </Button>
-            <div className="w-px h-6 bg-border mx-1" />
-            {/* Add buttons */}
-            <AddTeamDialog projectId={optimisticProject.id} />
-            <AddPlayerDialog project={optimisticProject} />
-            <AddDeviceDialog project={optimisticProject} availableDevices={availableDevices} />
+            {canEditRoster && (
+              <>
+                <div className="w-px h-6 bg-border mx-1" />
+                {/* Add buttons */}
+                <AddTeamDialog projectId={optimisticProject.id} />
+                <AddPlayerDialog project={optimisticProject} />
+                <AddDeviceDialog project={optimisticProject} availableDevices={availableDevices} />
+              </>
+            )}
           </div>
         </div>
 
@@ -1005,6 +1176,8 @@ export function GameOverview({ project, availableDevices = [] }: GameOverviewPro
                       activeId={activeId}
                       overId={overId}
                       project={optimisticProject}
+                      getLivesLeft={lives.livesLeft}
+                      getReviveHandler={getReviveHandler}
                     />
                   ))}
                 </div>
@@ -1048,6 +1221,8 @@ export function GameOverview({ project, availableDevices = [] }: GameOverviewPro
                           activeId={activeId}
                           overId={overId}
                           project={optimisticProject}
+                          livesLeft={lives.livesLeft(player.id)}
+                          onRevive={getReviveHandler(player)}
                         />
                       ))}
                     {/* Player Preview - Only if NOT in this list already */}
@@ -0,0 +1,72 @@
+'use client'
+
+import { Crosshair, HeartCrack, ShieldAlert, Skull } from 'lucide-react'
+
+import type { KillFeedEntry, KillFeedPlayer } from '@/lib/game/killFeed'
+import { cn } from '@/lib/utils'
+
+interface KillFeedProps {
+  entries: KillFeedEntry[]
+  className?: string
+  /** Only show fatal hits (default: false) */
+  killsOnly?: boolean
+}
+
+function PlayerName({ player, fallback }: { player: KillFeedPlayer | null; fallback: string }) {
+  return (
+    <span className="font-medium truncate" style={{ color: player?.color ?? undefined }}>
+      {player?.name ?? fallback}
+    </span>
+  )
+}
+
+function EntryIcon({ entry }: { entry: KillFeedEntry }) {
+  if (entry.kind === 'suicide') return <Skull className="w-3.5 h-3.5 text-muted-foreground" />
+  if (entry.kind === 'friendly') return <ShieldAlert className="w-3.5 h-3.5 text-orange-500" />
+  if (entry.fatal) return <Crosshair className="w-3.5 h-3.5 text-red-500" />
+  return <HeartCrack className="w-3.5 h-3.5 text-muted-foreground" />
+}
+
+export function KillFeed({ entries, className, killsOnly = false }: KillFeedProps) {
+  const visible = killsOnly ? entries.filter((e) => e.fatal) : entries
+
+  return (
+    <div className={cn('rounded-md border bg-muted/30', className)}>
+      <div className="max-h-48 overflow-y-auto divide-y text-sm">
+        {visible.length === 0 ? (
+          <p className="px-3 py-4 text-center text-xs text-muted-foreground">No hits yet</p>
+        ) : (
+          visible.map((entry) => (
+            <div
+              key={entry.id}
+              className={cn(
+                'flex items-center gap-2 px-3 py-1.5 animate-in fade-in slide-in-from-top-1',
+                !entry.fatal && 'opacity-70'
+              )}
+            >
+              <span className="text-[10px] text-muted-foreground tabular-nums w-14 shrink-0">
+                {new Date(entry.receivedAt).toLocaleTimeString()}
+              </span>
+              {entry.kind === 'suicide' ? (
+                <>
+                  <EntryIcon entry={entry} />
+                  <PlayerName player={entry.victim} fallback={entry.victimDeviceIp} />
+                  <span className="text-xs text-muted-foreground">self-hit</span>
+                </>
+              ) : (
+                <>
+                  <PlayerName player={entry.shooter} fallback={`#${entry.shooterNumber}`} />
+                  <EntryIcon entry={entry} />
+                  <PlayerName player={entry.victim} fallback={entry.victimDeviceIp} />
+                  {entry.kind === 'friendly' && (
+                    <span className="text-xs text-orange-500">friendly fire</span>
+                  )}
+                </>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import type { DeviceState } from './types'
+
+interface LiveStatsProps {
+  /** Devices whose counters are summed up */
+  devices: DeviceState[]
+}
+
+export function LiveStats({ devices }: LiveStatsProps) {
+  const totalKills = devices.reduce((sum, d) => sum + (d.kills || 0), 0)
+  const totalDeaths = devices.reduce((sum, d) => sum + (d.deaths || 0), 0)
+
+  return (
+    <div className="grid grid-cols-2 gap-4 pt-2">
+      <div className="text-center">
+        <p className="text-2xl font-bold text-green-600">{totalKills}</p>
+        <p className="text-xs text-muted-foreground">Total Kills</p>
+      </div>
+      <div className="text-center">
+        <p className="text-2xl font-bold text-red-600">{totalDeaths}</p>
+        <p className="text-xs text-muted-foreground">Total Deaths</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { Castle, Flag, MapPin } from 'lucide-react'
+
+import type { ObjectiveRules, ObjectiveState, ObjectiveType } from '@/lib/game/objectives'
+
+import type { Team } from './types'
+
+const OBJECTIVE_ICONS: Record<ObjectiveType, typeof Flag> = {
+  control_point: MapPin,
+  flag: Flag,
+  base: Castle,
+}
+
+interface ObjectivesPanelProps {
+  objectives: ObjectiveState[]
+  /** Objective points per team ID */
+  scores: Record<string, number>
+  rules: ObjectiveRules
+  teams: Team[]
+}
+
+/**
+ * Capture state of the objective devices and the teams' objective points
+ */
+export function ObjectivesPanel({ objectives, scores, rules, teams }: ObjectivesPanelProps) {
+  const teamOf = (teamId: string | null) => teams.find((t) => t.id === teamId)
+
+  return (
+    <div className="rounded-md border bg-muted/30 p-3 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs font-medium text-muted-foreground">Objective points</span>
+        {teams.map((team) => (
+          <span key={team.id} className="flex items-center gap-1 font-medium">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: team.color }} />
+            {team.name}
+            <span className="tabular-nums">{scores[team.id] ?? 0}</span>
+          </span>
+        ))}
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {objectives.map((objective) => {
+          const Icon = OBJECTIVE_ICONS[objective.type]
+          const owner = teamOf(
+            objective.type === 'base' ? objective.homeTeamId : objective.ownerTeamId
+          )
+          const capturing = teamOf(objective.capturingTeamId)
+          return (
+            <div
+              key={objective.deviceIp}
+              className="flex flex-col gap-1 rounded border bg-background px-2 py-1.5"
+              style={{ borderColor: owner?.color }}
+            >
+              <div className="flex items-center gap-2">
+                <Icon className="w-4 h-4" style={{ color: owner?.color }} />
+                <span className="font-medium truncate">{objective.name}</span>
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {owner?.name ?? 'Neutral'}
+                </span>
+              </div>
+              {capturing && (
+                <div className="flex items-center gap-2 text-xs">
+                  <div className="h-1.5 flex-1 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className="h-full"
+                      style={{
+                        width: `${(objective.progress / rules.captureHits) * 100}%`,
+                        backgroundColor: capturing.color,
+                      }}
+                    />
+                  </div>
+                  <span className="tabular-nums text-muted-foreground">
+                    {capturing.name} {objective.progress}/{rules.captureHits}
+                  </span>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -8,7 +8,7 @@ import {
   updatePlayerDevices,
   updatePlayerTeam,
 } from '@/features/projects/actions'
-import { AlertCircle, Edit2, Monitor, Plus, Trash2, X } from 'lucide-react'
+import { AlertCircle, Edit2, HeartPulse, Monitor, Plus, Trash2, X } from 'lucide-react'
 
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
@@ -101,6 +101,13 @@ export function PlayerManager({ project, devices }: { project: Project; devices:
     })
   }
 
+  const handleMedicToggle = (player: Player) => {
+    startTransition(async () => {
+      const result = await updatePlayer(player.id, { isMedic: !player.isMedic })
+      handleActionResult(result)
+    })
+  }
+
   const handleTeamChange = (playerId: string, teamId: string) => {
     startTransition(async () => {
       const result = await updatePlayerTeam(playerId, teamId === 'none' ? null : teamId)
@@ -221,6 +228,19 @@ export function PlayerManager({ project, devices }: { project: Project; devices:
                     >
                       <Edit2 className="w-3 h-3" />
                     </Button>
+                    <Button
+                      variant={player.isMedic ? 'secondary' : 'ghost'}
+                      size="sm"
+                      className="h-6 gap-1 px-1.5 text-xs"
+                      title="Medics revive downed teammates by tagging them"
+                      onClick={() => handleMedicToggle(player)}
+                      disabled={isPending}
+                    >
+                      <HeartPulse
+                        className={player.isMedic ? 'w-3 h-3 text-emerald-600' : 'w-3 h-3'}
+                      />
+                      {player.isMedic && 'Medic'}
+                    </Button>
                   </div>
                 )}
 
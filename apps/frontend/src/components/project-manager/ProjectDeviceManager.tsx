@@ -1,9 +1,13 @@
 'use client'
 
 import { useState, useTransition } from 'react'
-import { addDevice } from '@/features/devices/actions'
-import { addDeviceToProject, removeDeviceFromProject } from '@/features/projects/actions'
-import { AlertCircle, Plus, Trash2, Send, Loader2, CheckCircle2 } from 'lucide-react'
+import { addDevice, adoptDevice } from '@/features/devices/actions'
+import {
+  addDeviceToProject,
+  removeDeviceFromProject,
+  updateDeviceObjective,
+} from '@/features/projects/actions'
+import { AlertCircle, Plus, Trash2, Send, Loader2, CheckCircle2, Radar } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import {
@@ -13,7 +17,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import { useBridgeDiscovery, type DiscoveredDevice } from '@/hooks/useBridgeDiscovery'
 import { useDeviceConfig } from '@/hooks/useDeviceConfig'
+import { isObjectiveType, OBJECTIVE_LABELS, OBJECTIVE_TYPES } from '@/lib/game/objectives'
 
 import { IpAddressInput } from '../IpAddressInput'
 import { DeviceConnectionCard } from './DeviceConnectionCard'
@@ -29,6 +35,7 @@ function ProjectDeviceManagerInner({ project, availableDevices }: ProjectDeviceM
   const [ipAddress, setIpAddress] = useState('')
   const [error, setError] = useState<string | null>(null)
   const { sendToDevice, getStatus } = useDeviceConfig(project)
+  const discovery = useBridgeDiscovery(project.id)
 
   // Filter devices that are NOT in this project
   const devicesToAdd = availableDevices.filter((d: Device) => d.projectId !== project.id)
@@ -38,6 +45,15 @@ function ProjectDeviceManagerInner({ project, availableDevices }: ProjectDeviceM
     return project.devices?.some((d: Device) => d.ipAddress === ip) || false
   }
 
+  // Discovered devices not yet in this project (MAC survives DHCP changes)
+  const discoveredToAdd = discovery.devices.filter(
+    (d: DiscoveredDevice) =>
+      !project.devices?.some(
+        (device: Device) =>
+          device.ipAddress === d.address || (!!d.macAddress && device.macAddress === d.macAddress)
+      )
+  )
+
   // Helper to find player assigned to a device
   const getAssignedPlayer = (deviceId: string): Player | null => {
     const device = project.devices?.find((d: Device) => d.id === deviceId)
@@ -72,6 +88,28 @@ function ProjectDeviceManagerInner({ project, availableDevices }: ProjectDeviceM
     })
   }
 
+  const handleAdoptDevice = (discovered: DiscoveredDevice) => {
+    setError(null)
+    startTransition(async () => {
+      const res = await adoptDevice(project.id, {
+        ipAddress: discovered.address,
+        name: discovered.name,
+        macAddress: discovered.macAddress,
+      })
+      if (res.error) setError(res.error)
+    })
+  }
+
+  // Objective devices are shot to capture them instead of being played with
+  const handleObjectiveChange = (device: Device, value: string, teamId: string | null = null) => {
+    setError(null)
+    startTransition(async () => {
+      const objectiveType = isObjectiveType(value) ? value : null
+      const res = await updateDeviceObjective(device.id, objectiveType, teamId)
+      if (res.error) setError(res.error)
+    })
+  }
+
   const handleRemoveDevice = (deviceId: string) => {
     startTransition(async () => {
       await removeDeviceFromProject(deviceId)
@@ -141,6 +179,69 @@ function ProjectDeviceManagerInner({ project, availableDevices }: ProjectDeviceM
         )}
       </div>
 
+      {/* Discovered Devices (via ws-bridge) */}
+      {discovery.available && (
+        <div className="rounded-md border p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Discovered Devices</span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 gap-1"
+              onClick={() => discovery.scan()}
+              disabled={!discovery.connected || discovery.scanning}
+            >
+              {discovery.scanning ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <Radar className="w-3 h-3" />
+              )}
+              Scan
+            </Button>
+          </div>
+          {discovery.error && (
+            <div className="flex items-center gap-2 text-xs text-destructive">
+              <AlertCircle className="w-3 h-3" />
+              {discovery.error}
+            </div>
+          )}
+          {!discovery.connected ? (
+            <div className="text-xs text-muted-foreground">Bridge not reachable</div>
+          ) : discoveredToAdd.length === 0 ? (
+            <div className="text-xs text-muted-foreground">
+              {discovery.scanning ? 'Scanning...' : 'No new devices found'}
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {discoveredToAdd.map((d: DiscoveredDevice) => (
+                <div key={d.address} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-mono">{d.address}</span>
+                    {d.name && <span className="ml-2 text-muted-foreground">{d.name}</span>}
+                    {(d.macAddress || d.firmwareBuild) && (
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {[d.macAddress, d.firmwareBuild && `FW ${d.firmwareBuild}`]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </span>
+                    )}
+                  </div>
+                  <Button
+                    size="sm"
+                    className="h-7 gap-1"
+                    onClick={() => handleAdoptDevice(d)}
+                    disabled={isPending}
+                  >
+                    <Plus className="w-3 h-3" />
+                    Add
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Device Cards Grid */}
       <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
         {project.devices?.map((device: Device) => {
@@ -159,6 +260,46 @@ function ProjectDeviceManagerInner({ project, availableDevices }: ProjectDeviceM
                 teams={project.teams}
                 onRemove={() => handleRemoveDevice(device.id)}
               />
+              <div className="mt-1 flex gap-1">
+                <Select
+                  value={device.objectiveType ?? 'weapon'}
+                  onValueChange={(val) => handleObjectiveChange(device, val)}
+                  disabled={isPending}
+                >
+                  <SelectTrigger className="h-7 flex-1 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="weapon">Player weapon</SelectItem>
+                    {OBJECTIVE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {OBJECTIVE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {device.objectiveType === 'base' && (
+                  <Select
+                    value={device.objectiveTeamId ?? 'none'}
+                    onValueChange={(val) =>
+                      handleObjectiveChange(device, 'base', val === 'none' ? null : val)
+                    }
+                    disabled={isPending}
+                  >
+                    <SelectTrigger className="h-7 flex-1 text-xs">
+                      <SelectValue placeholder="Defending team" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No team</SelectItem>
+                      {project.teams?.map((team: Team) => (
+                        <SelectItem key={team.id} value={team.id}>
+                          {team.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
               <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                 <Button
                   variant="secondary"
@@ -0,0 +1,275 @@
+'use client'
+
+import { useCallback, useEffect, useState, useTransition } from 'react'
+import {
+  createInvite,
+  getProjectMembers,
+  removeMember,
+  revokeInvite,
+  updateMember,
+} from '@/features/members/actions'
+import { Check, Link2, Trash2, UserPlus } from 'lucide-react'
+import { useLocale } from 'next-intl'
+
+import { PROJECT_ROLES, type ProjectRole } from '@/lib/project/roles'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+import { Project } from './types'
+
+type MembersData = Extract<Awaited<ReturnType<typeof getProjectMembers>>, { owner: object }>
+
+const NO_PLAYER = 'none'
+
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '1 hour' },
+  { value: '24', label: '1 day' },
+  { value: '168', label: '7 days' },
+  { value: '0', label: 'Never' },
+]
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: ProjectRole
+  onChange: (role: ProjectRole) => void
+  disabled?: boolean
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as ProjectRole)} disabled={disabled}>
+      <SelectTrigger className="w-32 capitalize">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {PROJECT_ROLES.map((role) => (
+          <SelectItem key={role} value={role} className="capitalize">
+            {role}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export function ProjectMembersManager({ project }: { project: Project }) {
+  const locale = useLocale()
+  const [data, setData] = useState<MembersData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('referee')
+  const [inviteExpiry, setInviteExpiry] = useState('24')
+  const [inviteMaxUses, setInviteMaxUses] = useState('')
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    const res = await getProjectMembers(project.id)
+    if (res.success) {
+      setData(res)
+      setError(null)
+    } else {
+      setError(res.error ?? 'Failed to load members')
+    }
+  }, [project.id])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const run = (action: () => Promise<{ error?: string }>) => {
+    startTransition(async () => {
+      const res = await action()
+      if (res.error) setError(res.error)
+      await load()
+    })
+  }
+
+  const handleCreateInvite = () =>
+    run(() =>
+      createInvite(project.id, {
+        role: inviteRole,
+        expiresInHours: Number(inviteExpiry),
+        maxUses: inviteMaxUses ? Number(inviteMaxUses) : null,
+      })
+    )
+
+  const copyLink = async (invite: MembersData['invites'][number]) => {
+    const url = `${window.location.origin}/${locale}/join/${invite.code}`
+    await navigator.clipboard.writeText(url)
+    setCopiedId(invite.id)
+    setTimeout(() => setCopiedId((id) => (id === invite.id ? null : id)), 2000)
+  }
+
+  if (!data) {
+    return <div className="text-sm text-muted-foreground">{error ?? 'Loading members...'}</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Members */}
+      <div className="space-y-2">
+        <h3 className="text-lg font-medium">Members</h3>
+        <div className="divide-y rounded-md border">
+          <div className="flex items-center justify-between gap-2 p-3">
+            <div className="min-w-0">
+              <div className="truncate text-sm font-medium">
+                {data.owner.name || data.owner.email}
+              </div>
+              <div className="truncate text-xs text-muted-foreground">{data.owner.email}</div>
+            </div>
+            <Badge variant="secondary">Owner</Badge>
+          </div>
+          {data.members.map((member) => (
+            <div key={member.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+              <div className="min-w-0">
+                <div className="truncate text-sm font-medium">{member.name || member.email}</div>
+                <div className="truncate text-xs text-muted-foreground">{member.email}</div>
+              </div>
+              <div className="flex items-center gap-2">
+                {member.role === 'player' && (
+                  <Select
+                    value={member.playerId ?? NO_PLAYER}
+                    onValueChange={(v) =>
+                      run(() => updateMember(member.id, { playerId: v === NO_PLAYER ? null : v }))
+                    }
+                    disabled={isPending}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue placeholder="Plays as..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PLAYER}>No player</SelectItem>
+                      {project.players.map((player) => (
+                        <SelectItem key={player.id} value={player.id}>
+                          {player.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <RoleSelect
+                  value={member.role}
+                  onChange={(role) => run(() => updateMember(member.id, { role }))}
+                  disabled={isPending}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => run(() => removeMember(member.id))}
+                  disabled={isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {data.members.length === 0 && (
+            <div className="p-3 text-sm text-muted-foreground">
+              Not shared with anyone yet. Create an invite below.
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Invites */}
+      <div className="space-y-2">
+        <h3 className="text-lg font-medium">Invites</h3>
+        <p className="text-sm text-muted-foreground">
+          Share the link, or have people enter the join code under &quot;Join project&quot;.
+        </p>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="grid gap-1">
+            <label className="text-xs text-muted-foreground">Role</label>
+            <RoleSelect value={inviteRole} onChange={setInviteRole} disabled={isPending} />
+          </div>
+          <div className="grid gap-1">
+            <label className="text-xs text-muted-foreground">Expires</label>
+            <Select value={inviteExpiry} onValueChange={setInviteExpiry} disabled={isPending}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1">
+            <label className="text-xs text-muted-foreground">Max uses</label>
+            <Input
+              type="number"
+              min={1}
+              className="w-24"
+              placeholder="Unlimited"
+              value={inviteMaxUses}
+              onChange={(e) => setInviteMaxUses(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleCreateInvite} disabled={isPending}>
+            <UserPlus className="mr-2 h-4 w-4" /> Create Invite
+          </Button>
+        </div>
+
+        {data.invites.length > 0 && (
+          <div className="divide-y rounded-md border">
+            {data.invites.map((invite) => (
+              <div
+                key={invite.id}
+                className="flex flex-wrap items-center justify-between gap-2 p-3"
+              >
+                <div className="flex items-center gap-3">
+                  <code className="rounded bg-muted px-2 py-1 font-mono text-sm tracking-widest">
+                    {invite.code}
+                  </code>
+                  <Badge variant="outline" className="capitalize">
+                    {invite.role}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {invite.uses}
+                    {invite.maxUses !== null && `/${invite.maxUses}`} used
+                    {invite.expiresAt &&
+                      ` · expires ${new Date(invite.expiresAt).toLocaleString()}`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="outline" size="sm" onClick={() => copyLink(invite)}>
+                    {copiedId === invite.id ? (
+                      <Check className="mr-1 h-4 w-4" />
+                    ) : (
+                      <Link2 className="mr-1 h-4 w-4" />
+                    )}
+                    {copiedId === invite.id ? 'Copied' : 'Copy Link'}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => run(() => revokeInvite(invite.id))}
+                    disabled={isPending}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+    </div>
+  )
+}
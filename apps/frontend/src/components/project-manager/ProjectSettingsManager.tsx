@@ -1,9 +1,11 @@
 'use client'
 
 import { useState, useTransition } from 'react'
-import { updateProject } from '@/features/projects/actions'
-import { Trash2 } from 'lucide-react'
+import { setLiveScreen, updateProject } from '@/features/projects/actions'
+import { Check, ExternalLink, Link2, LogOut, MonitorPlay, RefreshCw, Trash2 } from 'lucide-react'
+import { useLocale } from 'next-intl'
 
+import { can } from '@/lib/project/roles'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import {
@@ -14,22 +16,95 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 
+import { ProjectMembersManager } from './ProjectMembersManager'
 import { GameMode, Project } from './types'
 
+function LiveScreenSettings({ project }: { project: Project }) {
+  const locale = useLocale()
+  const [liveToken, setLiveToken] = useState(project.liveToken)
+  const [copied, setCopied] = useState(false)
+  const [isPending, startTransition] = useTransition()
+
+  const liveUrl =
+    liveToken && typeof window !== 'undefined'
+      ? `${window.location.origin}/${locale}/live/${liveToken}`
+      : null
+
+  const update = (enabled: boolean) => {
+    startTransition(async () => {
+      const res = await setLiveScreen(project.id, enabled)
+      if (res.success) setLiveToken(res.liveToken)
+    })
+  }
+
+  const copyLink = async () => {
+    if (!liveUrl) return
+    await navigator.clipboard.writeText(liveUrl)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-medium">Spectator Screen</h3>
+      <p className="text-sm text-muted-foreground">
+        A full-screen live scoreboard for a TV at the field. Anyone with the link can watch, no
+        sign-in needed, but nobody can control the game from it.
+      </p>
+      {liveUrl ? (
+        <div className="space-y-2">
+          <Input value={liveUrl} readOnly className="font-mono text-xs" />
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={copyLink}>
+              {copied ? <Check className="w-4 h-4 mr-1" /> : <Link2 className="w-4 h-4 mr-1" />}
+              {copied ? 'Copied' : 'Copy Link'}
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={liveUrl} target="_blank" rel="noreferrer">
+                <ExternalLink className="w-4 h-4 mr-1" /> Open
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => update(true)} disabled={isPending}>
+              <RefreshCw className="w-4 h-4 mr-1" /> New Link
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-destructive"
+              onClick={() => update(false)}
+              disabled={isPending}
+            >
+              Turn Off
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" onClick={() => update(true)} disabled={isPending}>
+          <MonitorPlay className="w-4 h-4 mr-2" /> Create Spectator Link
+        </Button>
+      )}
+    </div>
+  )
+}
+
 export function ProjectSettingsManager({
   project,
   gameModes,
   onDeleteAction,
+  onLeaveAction,
 }: {
   project: Project
   gameModes: GameMode[]
   onDeleteAction: () => void
+  onLeaveAction: () => void
 }) {
   const [name, setName] = useState(project.name)
   const [description, setDescription] = useState(project.description || '')
   const [gameModeId, setGameModeId] = useState(project.gameModeId)
   // const [duration, setDuration] = useState(project.duration || 0)
   const [isPending, startTransition] = useTransition()
+  const canManage = can(project.role ?? 'admin', 'manageProject')
+  const isOwner = project.isOwner ?? true
 
   const handleSave = () => {
     startTransition(async () => {
@@ -47,16 +122,20 @@ export function ProjectSettingsManager({
       <div className="space-y-4">
         <div className="grid gap-2">
           <label className="text-sm font-medium">Project Name</label>
-          <Input value={name} onChange={(e) => setName(e.target.value)} />
+          <Input value={name} onChange={(e) => setName(e.target.value)} disabled={!canManage} />
         </div>
         <div className="grid gap-2">
           <label className="text-sm font-medium">Description</label>
-          <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+          <Input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            disabled={!canManage}
+          />
         </div>
         <div className="grid grid-cols-2 gap-4">
           <div className="grid gap-2">
             <label className="text-sm font-medium">Game Mode</label>
-            <Select value={gameModeId} onValueChange={setGameModeId}>
+            <Select value={gameModeId} onValueChange={setGameModeId} disabled={!canManage}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
@@ -78,20 +157,48 @@ export function ProjectSettingsManager({
             />
           </div> */}
         </div>
-        <Button onClick={handleSave} disabled={isPending}>
-          Save Changes
-        </Button>
+        {canManage && (
+          <Button onClick={handleSave} disabled={isPending}>
+            Save Changes
+          </Button>
+        )}
       </div>
 
+      {canManage && (
+        <div className="pt-6 border-t">
+          <ProjectMembersManager project={project} />
+        </div>
+      )}
+
+      {canManage && (
+        <div className="pt-6 border-t">
+          <LiveScreenSettings project={project} />
+        </div>
+      )}
+
       <div className="pt-6 border-t">
         <h3 className="text-lg font-medium text-destructive mb-2">Danger Zone</h3>
-        <p className="text-sm text-muted-foreground mb-4">
-          Deleting a project is irreversible. All teams, players, and data associated with this
-          project will be permanently removed.
-        </p>
-        <Button variant="destructive" onClick={onDeleteAction}>
-          <Trash2 className="w-4 h-4 mr-2" /> Delete Project
-        </Button>
+        {isOwner ? (
+          <>
+            <p className="text-sm text-muted-foreground mb-4">
+              Deleting a project is irreversible. All teams, players, and data associated with this
+              project will be permanently removed.
+            </p>
+            <Button variant="destructive" onClick={onDeleteAction}>
+              <Trash2 className="w-4 h-4 mr-2" /> Delete Project
+            </Button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground mb-4">
+              This project is shared with you. Leaving it removes your access until you are invited
+              again.
+            </p>
+            <Button variant="destructive" onClick={onLeaveAction}>
+              <LogOut className="w-4 h-4 mr-2" /> Leave Project
+            </Button>
+          </>
+        )}
       </div>
     </div>
   )
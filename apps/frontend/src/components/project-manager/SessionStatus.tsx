@@ -0,0 +1,92 @@
+'use client'
+
+import { CheckCircle2, Clock, Timer } from 'lucide-react'
+
+import type { SessionSnapshot } from '@/lib/game/sessionMachine'
+import { Badge } from '@/components/ui/badge'
+
+interface SessionStatusProps {
+  session: SessionSnapshot
+  elapsedMs: number
+  countdownRemainingMs: number
+  /** Game duration in seconds; 0 = manual stop */
+  durationSeconds?: number
+  error?: string | null
+}
+
+const STATE_LABELS: Record<SessionSnapshot['state'], string> = {
+  idle: 'Idle',
+  countdown: 'Starting',
+  running: 'Running',
+  paused: 'Paused',
+  finished: 'Finished',
+}
+
+const COMMAND_LABELS: Record<string, string> = {
+  start: 'Start',
+  stop: 'Stop',
+  reset: 'Reset',
+  pause: 'Pause',
+  unpause: 'Resume',
+}
+
+function formatClock(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+export function SessionStatus({
+  session,
+  elapsedMs,
+  countdownRemainingMs,
+  durationSeconds = 0,
+  error,
+}: SessionStatusProps) {
+  const { state, command } = session
+  const remainingMs = durationSeconds > 0 ? durationSeconds * 1000 - elapsedMs : null
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <Badge variant={state === 'running' ? 'success' : state === 'paused' ? 'warning' : 'outline'}>
+        {STATE_LABELS[state]}
+      </Badge>
+
+      {state === 'countdown' && (
+        <span className="flex items-center gap-1 font-semibold tabular-nums text-primary">
+          <Timer className="w-4 h-4" />
+          Starting in {Math.ceil(countdownRemainingMs / 1000)}
+        </span>
+      )}
+
+      {(state === 'running' || state === 'paused' || state === 'finished') && (
+        <span className="flex items-center gap-1 tabular-nums">
+          <Clock className="w-4 h-4 text-muted-foreground" />
+          {remainingMs !== null ? `${formatClock(remainingMs)} left` : formatClock(elapsedMs)}
+        </span>
+      )}
+
+      {command && command.targets.length > 0 && (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <CheckCircle2
+            className={
+              command.acks.length >= command.targets.length
+                ? 'w-3.5 h-3.5 text-green-600'
+                : 'w-3.5 h-3.5'
+            }
+          />
+          {COMMAND_LABELS[command.name] ?? command.name}: {command.acks.length}/
+          {command.targets.length} acknowledged
+          {command.failed.length > 0 && (
+            <span className="text-destructive" title={command.failed.join(', ')}>
+              , {command.failed.length} failed
+            </span>
+          )}
+        </span>
+      )}
+
+      {error && <span className="text-xs text-destructive">{error}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+'use client'
+
+import { Trophy } from 'lucide-react'
+
+import type { WinResult } from '@/lib/game/winConditions'
+
+const WIN_REASON_LABELS: Record<WinResult['reason'], string> = {
+  kill_limit: 'Kill limit reached',
+  team_score: 'Score limit reached',
+  objective_score: 'Objective limit reached',
+  last_team_standing: 'Last team standing',
+  time: 'Time is up',
+}
+
+/**
+ * Announces the winner once a win condition ended the game
+ */
+export function WinnerBanner({ result }: { result: WinResult }) {
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 p-3 text-sm">
+      <Trophy className="w-4 h-4 text-amber-500" />
+      <span className="font-semibold" style={{ color: result.winner?.color ?? undefined }}>
+        {result.winner ? `${result.winner.name} wins` : 'Draw'}
+      </span>
+      <span className="text-muted-foreground">· {WIN_REASON_LABELS[result.reason]}</span>
+    </div>
+  )
+}
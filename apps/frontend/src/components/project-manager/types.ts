@@ -1,3 +1,4 @@
+import type { ProjectRole } from '@/lib/project/roles'
 import type {
   ConnectionState,
   DeviceRole,
@@ -23,6 +24,10 @@ export type Project = PrismaProject & {
   players: Player[]
   teams: Team[]
   gameMode?: GameMode
+  /** The current user's role in the project; owners are admins */
+  role?: ProjectRole
+  /** Whether the current user owns the project, rather than having it shared */
+  isOwner?: boolean
 }
 
 export type Team = PrismaTeam
@@ -4,6 +4,7 @@ import { revalidatePath } from 'next/cache'
 import { auth } from '@/auth'
 
 import { prisma } from '@/lib/server/prisma'
+import { authorizeProject } from '@/lib/server/project-access'
 
 export async function addDevice(ipAddress: string, name?: string) {
   const session = await auth()
@@ -41,6 +42,66 @@ export async function addDevice(ipAddress: string, name?: string) {
   }
 }
 
+/**
+ * Add a device found by bridge discovery to a project in one step.
+ * A device the user already owns (same MAC, else same address) is moved
+ * into the project and gets its new address instead of being duplicated.
+ */
+export async function adoptDevice(
+  projectId: string,
+  discovered: { ipAddress: string; name?: string; macAddress?: string }
+) {
+  const access = await authorizeProject(projectId, 'editRoster')
+  if ('error' in access) {
+    return { error: access.error }
+  }
+
+  try {
+    let profile = await prisma.profile.findUnique({
+      where: { userId: access.userId },
+    })
+    if (!profile) {
+      profile = await prisma.profile.create({
+        data: { userId: access.userId },
+      })
+    }
+
+    const existing =
+      (discovered.macAddress &&
+        (await prisma.device.findFirst({
+          where: { profileId: profile.id, macAddress: discovered.macAddress },
+        }))) ||
+      (await prisma.device.findFirst({
+        where: { profileId: profile.id, ipAddress: discovered.ipAddress },
+      }))
+
+    const device = existing
+      ? await prisma.device.update({
+          where: { id: existing.id },
+          data: {
+            ipAddress: discovered.ipAddress,
+            macAddress: discovered.macAddress ?? existing.macAddress,
+            projectId,
+          },
+        })
+      : await prisma.device.create({
+          data: {
+            ipAddress: discovered.ipAddress,
+            macAddress: discovered.macAddress,
+            name: discovered.name || `Device ${discovered.ipAddress}`,
+            profileId: profile.id,
+            projectId,
+          },
+        })
+
+    revalidatePath('/control')
+    return { success: true, device }
+  } catch (error) {
+    console.error('Error adopting device:', error)
+    return { error: 'Failed to adopt device' }
+  }
+}
+
 export async function removeDevice(deviceId: string) {
   const session = await auth()
   if (!session?.user?.id) {
@@ -0,0 +1,493 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/auth'
+import type { Device, GameMode, Prisma } from '@rayz/database'
+import type { DeviceLiveStats } from '@rayz/types'
+
+import { livesLostByPlayer } from '@/lib/game/lives'
+import { getObjectiveDevices, objectiveRulesOf } from '@/lib/game/objectives'
+import { respawnModeOf } from '@/lib/game/revive'
+import { winConditionsOf, type WinConditions } from '@/lib/game/winConditions'
+import { isValidEvent, matchDeviceIps } from '@/lib/match/events'
+import { buildScoreboard, type Scoreboard } from '@/lib/match/scoreboard'
+import {
+  type FinalDeviceStats,
+  type MatchEventInput,
+  type MatchObjective,
+  type MatchResult,
+  type MatchRuleset,
+  type MatchStatus,
+} from '@/lib/match/types'
+import { can } from '@/lib/project/roles'
+import { prisma } from '@/lib/server/prisma'
+import { authorizeProject } from '@/lib/server/project-access'
+
+// Upper bound for a single recordMatchEvents batch
+const MAX_EVENTS_PER_BATCH = 500
+
+function snapshotRuleset(
+  gameMode: GameMode,
+  objectiveDevices: Device[],
+  winConditions?: WinConditions
+): MatchRuleset {
+  const objectiveRules = objectiveRulesOf(gameMode)
+  return {
+    gameModeName: gameMode.name,
+    durationSeconds: gameMode.durationSeconds,
+    enableHearts: gameMode.enableHearts,
+    maxHearts: gameMode.maxHearts,
+    spawnHearts: gameMode.spawnHearts,
+    respawnTimeSec: gameMode.respawnTimeSec,
+    lives: gameMode.lives,
+    respawnMode: respawnModeOf(gameMode),
+    friendlyFire: gameMode.friendlyFire,
+    damageIn: gameMode.damageIn,
+    damageOut: gameMode.damageOut,
+    enableAmmo: gameMode.enableAmmo,
+    maxAmmo: gameMode.maxAmmo,
+    reloadTimeMs: gameMode.reloadTimeMs,
+    winConditions: winConditions ?? winConditionsOf(gameMode),
+    captureHits: objectiveRules.captureHits,
+    holdSecondsPerPoint: objectiveRules.holdSecondsPerPoint,
+    objectives: getObjectiveDevices(objectiveDevices).map(
+      (device): MatchObjective => ({
+        deviceIp: device.ipAddress,
+        name: device.name || device.ipAddress,
+        type: device.objectiveType as MatchObjective['type'],
+        homeTeamId: device.objectiveType === 'base' ? device.objectiveTeamId : null,
+      })
+    ),
+  }
+}
+
+function sumStats(stats: DeviceLiveStats[]): DeviceLiveStats {
+  return stats.reduce<DeviceLiveStats>(
+    (total, s) => ({
+      shots: total.shots + (s.shots || 0),
+      enemy_kills: total.enemy_kills + (s.enemy_kills || 0),
+      friendly_kills: total.friendly_kills + (s.friendly_kills || 0),
+      deaths: total.deaths + (s.deaths || 0),
+      hits_received: (total.hits_received || 0) + (s.hits_received || 0),
+    }),
+    { shots: 0, enemy_kills: 0, friendly_kills: 0, deaths: 0, hits_received: 0 }
+  )
+}
+
+// Loads a match the current user may run (start, record, finish) in its project
+async function getControlledMatch(matchId: string) {
+  const match = await prisma.match.findUnique({ where: { id: matchId } })
+  if (!match) return null
+  const access = await authorizeProject(match.projectId, 'controlGame')
+  if ('error' in access) return null
+  return match
+}
+
+// Matches of a project the current user may look at: all of them, or only the
+// ones they played in when they can just see their own stats
+async function authorizeMatchView(projectId: string) {
+  const access = await authorizeProject(projectId, 'viewOwnStats')
+  if ('error' in access) return null
+  if (can(access.role, 'viewMatches')) return { access, playerId: null }
+  if (!access.playerId) return null
+  return { access, playerId: access.playerId }
+}
+
+// --- Lifecycle ---
+
+/**
+ * @param winConditions The conditions picked in the control panel, if they differ
+ * from the project's GameMode
+ */
+export async function startMatch(projectId: string, winConditions?: WinConditions) {
+  const access = await authorizeProject(projectId, 'controlGame')
+  if ('error' in access) return { error: access.error }
+
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: {
+        gameMode: true,
+        players: {
+          include: { team: true, devices: true },
+        },
+        devices: { where: { objectiveType: { not: null } } },
+      },
+    })
+    if (!project) return { error: 'Project not found' }
+
+    const match = await prisma.$transaction(async (tx) => {
+      // Only one match can run per project; a dangling one is aborted
+      await tx.match.updateMany({
+        where: { projectId, status: 'running' },
+        data: { status: 'aborted', endedAt: new Date() },
+      })
+
+      return tx.match.create({
+        data: {
+          projectId,
+          gameModeId: project.gameModeId,
+          ruleset: snapshotRuleset(
+            project.gameMode,
+            project.devices,
+            winConditions
+          ) as unknown as Prisma.InputJsonValue,
+          participants: {
+            create: project.players.map((player) => ({
+              playerId: player.id,
+              teamId: player.teamId,
+              playerName: player.name,
+              playerNumber: player.number,
+              teamName: player.team?.name ?? null,
+              teamNumber: player.team?.number ?? 0,
+              teamColor: player.team?.color ?? null,
+              deviceIps: player.devices.map((d) => d.ipAddress),
+            })),
+          },
+        },
+      })
+    })
+
+    revalidatePath('/control')
+    return {
+      success: true,
+      match: {
+        id: match.id,
+        startedAt: match.startedAt,
+        ruleset: match.ruleset as unknown as MatchRuleset,
+      },
+    }
+  } catch (error) {
+    console.error('Error starting match:', error)
+    return { error: 'Failed to start match' }
+  }
+}
+
+export async function recordMatchEvents(matchId: string, events: MatchEventInput[]) {
+  const session = await auth()
+  if (!session?.user?.id) return { error: 'Unauthorized' }
+
+  if (events.length === 0) return { success: true, count: 0 }
+  if (events.length > MAX_EVENTS_PER_BATCH) return { error: 'Too many events in one batch' }
+
+  try {
+    const match = await getControlledMatch(matchId)
+    if (!match) return { error: 'Match not found' }
+    if (match.status !== 'running') return { error: 'Match is not running' }
+
+    // Only the devices snapshotted at start belong to the match
+    const participants = await prisma.matchParticipant.findMany({
+      where: { matchId },
+      select: { deviceIps: true },
+    })
+    const deviceIps = matchDeviceIps(participants, match.ruleset as unknown as MatchRuleset)
+
+    const startedAt = match.startedAt.getTime()
+    const valid = events.filter((e) => isValidEvent(e, deviceIps))
+    if (valid.length < events.length) {
+      console.warn(`Dropped ${events.length - valid.length} invalid events for match ${matchId}`)
+    }
+
+    const result = await prisma.matchEvent.createMany({
+      data: valid.map((e) => ({
+        matchId,
+        type: e.type,
+        deviceIp: e.deviceIp,
+        payload: e.payload as unknown as Prisma.InputJsonValue,
+        receivedAt: new Date(e.receivedAt),
+        offsetMs: Math.max(0, e.receivedAt - startedAt),
+      })),
+    })
+
+    return { success: true, count: result.count }
+  } catch (error) {
+    console.error('Error recording match events:', error)
+    // The other errors reject the events for good; this one is worth another try
+    return { error: 'Failed to record match events', retryable: true }
+  }
+}
+
+export async function finishMatch(
+  matchId: string,
+  finalStats: FinalDeviceStats = {},
+  result: MatchResult | null = null
+) {
+  const session = await auth()
+  if (!session?.user?.id) return { error: 'Unauthorized' }
+
+  try {
+    const match = await getControlledMatch(matchId)
+    if (!match) return { error: 'Match not found' }
+    if (match.status !== 'running') return { error: 'Match is not running' }
+
+    const participants = await prisma.matchParticipant.findMany({ where: { matchId } })
+
+    await prisma.$transaction([
+      ...participants.map((participant) => {
+        const deviceStats = participant.deviceIps
+          .map((ip) => finalStats[ip])
+          .filter((s): s is DeviceLiveStats => !!s)
+        return prisma.matchParticipant.update({
+          where: { id: participant.id },
+          data: {
+            stats:
+              deviceStats.length > 0
+                ? (sumStats(deviceStats) as unknown as Prisma.InputJsonValue)
+                : undefined,
+          },
+        })
+      }),
+      prisma.match.update({
+        where: { id: matchId },
+        data: {
+          status: 'finished',
+          endedAt: new Date(),
+          result: result ? (result as unknown as Prisma.InputJsonValue) : undefined,
+        },
+      }),
+    ])
+
+    revalidatePath('/control')
+    return { success: true }
+  } catch (error) {
+    console.error('Error finishing match:', error)
+    return { error: 'Failed to finish match' }
+  }
+}
+
+export async function abortMatch(matchId: string) {
+  const session = await auth()
+  if (!session?.user?.id) return { error: 'Unauthorized' }
+
+  try {
+    const match = await getControlledMatch(matchId)
+    if (!match) return { error: 'Match not found' }
+    if (match.status !== 'running') return { error: 'Match is not running' }
+
+    await prisma.match.update({
+      where: { id: matchId },
+      data: { status: 'aborted', endedAt: new Date() },
+    })
+
+    revalidatePath('/control')
+    return { success: true }
+  } catch (error) {
+    console.error('Error aborting match:', error)
+    return { error: 'Failed to abort match' }
+  }
+}
+
+/**
+ * The running match and the rules it was started with, for the tabs that control it
+ */
+export async function getActiveMatch(projectId: string) {
+  const access = await authorizeProject(projectId, 'controlGame')
+  if ('error' in access) return null
+
+  const match = await prisma.match.findFirst({
+    where: { projectId, status: 'running' },
+    select: { id: true, startedAt: true, ruleset: true },
+    orderBy: { startedAt: 'desc' },
+  })
+  return match && { ...match, ruleset: match.ruleset as unknown as MatchRuleset }
+}
+
+/**
+ * Lives lost per player ID in the running match, for tabs that join it late
+ */
+export async function getActiveMatchLivesLost(projectId: string) {
+  const access = await authorizeProject(projectId, 'viewLive')
+  if ('error' in access) return { error: access.error }
+
+  try {
+    const match = await prisma.match.findFirst({
+      where: { projectId, status: 'running' },
+      select: { id: true },
+      orderBy: { startedAt: 'desc' },
+    })
+    if (!match) return { success: true, livesLost: {} }
+
+    const [participants, fatalHits] = await Promise.all([
+      prisma.matchParticipant.findMany({
+        where: { matchId: match.id },
+        select: { playerId: true, deviceIps: true },
+      }),
+      prisma.matchEvent.groupBy({
+        by: ['deviceIp'],
+        where: {
+          matchId: match.id,
+          type: 'hit_report',
+          payload: { path: ['fatal'], equals: true },
+        },
+        _count: { _all: true },
+      }),
+    ])
+    const fatalHitsByDevice = Object.fromEntries(
+      fatalHits.map((row) => [row.deviceIp, row._count._all])
+    )
+    return { success: true, livesLost: livesLostByPlayer(participants, fatalHitsByDevice) }
+  } catch (error) {
+    console.error('Error loading lives lost:', error)
+    return { error: 'Failed to load lives lost' }
+  }
+}
+
+// --- History ---
+
+const HISTORY_PAGE_SIZE = 10
+
+export async function getMatchHistory(projectId: string, page = 1) {
+  const view = await authorizeMatchView(projectId)
+  if (!view) return { matches: [], page: 1, pageCount: 0, total: 0 }
+
+  const where = {
+    projectId,
+    ...(view.playerId && { participants: { some: { playerId: view.playerId } } }),
+  }
+  const currentPage = Math.max(1, Math.floor(page))
+
+  const [total, matches] = await Promise.all([
+    prisma.match.count({ where }),
+    prisma.match.findMany({
+      where,
+      orderBy: { startedAt: 'desc' },
+      skip: (currentPage - 1) * HISTORY_PAGE_SIZE,
+      take: HISTORY_PAGE_SIZE,
+      select: {
+        id: true,
+        status: true,
+        ruleset: true,
+        result: true,
+        startedAt: true,
+        endedAt: true,
+        _count: { select: { participants: true } },
+      },
+    }),
+  ])
+
+  return {
+    matches: matches.map((match) => ({
+      id: match.id,
+      status: match.status as MatchStatus,
+      gameModeName: (match.ruleset as unknown as MatchRuleset).gameModeName,
+      result: match.result as unknown as MatchResult | null,
+      startedAt: match.startedAt,
+      endedAt: match.endedAt,
+      participantCount: match._count.participants,
+    })),
+    page: currentPage,
+    pageCount: Math.ceil(total / HISTORY_PAGE_SIZE),
+    total,
+  }
+}
+
+export async function getMatchScoreboard(matchId: string) {
+  const session = await auth()
+  if (!session?.user?.id) return null
+
+  const match = await prisma.match.findUnique({
+    where: { id: matchId },
+    include: {
+      project: { select: { id: true, name: true } },
+      participants: true,
+      events: {
+        where: { type: { in: ['status', 'shot_fired', 'hit_report'] } },
+        orderBy: { offsetMs: 'asc' },
+        select: { type: true, deviceIp: true, payload: true },
+      },
+    },
+  })
+  if (!match) return null
+
+  const view = await authorizeMatchView(match.projectId)
+  if (!view) return null
+  const own = view.playerId
+    ? match.participants.find((p) => p.playerId === view.playerId)
+    : undefined
+  if (view.playerId && !own) return null
+
+  const scoreboard = buildScoreboard(
+    match.participants.map((p) => ({
+      playerNumber: p.playerNumber,
+      playerName: p.playerName,
+      teamNumber: p.teamNumber,
+      teamName: p.teamName,
+      teamColor: p.teamColor,
+      deviceIps: p.deviceIps,
+      stats: p.stats as unknown as DeviceLiveStats | null,
+    })),
+    match.events
+  )
+
+  return {
+    id: match.id,
+    status: match.status as MatchStatus,
+    ruleset: match.ruleset as unknown as MatchRuleset,
+    result: match.result as unknown as MatchResult | null,
+    startedAt: match.startedAt,
+    endedAt: match.endedAt,
+    project: { id: match.project.id, name: match.project.name },
+    // Players only see their own row
+    scoreboard: own ? ownScoreboard(scoreboard, own.playerNumber) : scoreboard,
+  }
+}
+
+function ownScoreboard(scoreboard: Scoreboard, playerNumber: number): Scoreboard {
+  const players = scoreboard.players.filter((row) => row.playerNumber === playerNumber)
+  return {
+    players,
+    teams: scoreboard.teams
+      .filter((team) => team.players.some((row) => row.playerNumber === playerNumber))
+      .map((team) => ({ ...team, players })),
+  }
+}
+
+// --- Replay ---
+
+export async function getMatchReplay(matchId: string) {
+  const session = await auth()
+  if (!session?.user?.id) return null
+
+  const match = await prisma.match.findUnique({
+    where: { id: matchId },
+    include: {
+      project: { select: { id: true, name: true } },
+      participants: true,
+      events: {
+        orderBy: { offsetMs: 'asc' },
+        select: { deviceIp: true, payload: true, offsetMs: true },
+      },
+    },
+  })
+  if (!match) return null
+
+  const access = await authorizeProject(match.projectId, 'viewMatches')
+  if ('error' in access) return null
+
+  const lastOffset = match.events[match.events.length - 1]?.offsetMs ?? 0
+
+  return {
+    id: match.id,
+    status: match.status as MatchStatus,
+    ruleset: match.ruleset as unknown as MatchRuleset,
+    startedAt: match.startedAt,
+    endedAt: match.endedAt,
+    durationMs: match.endedAt
+      ? Math.max(lastOffset, match.endedAt.getTime() - match.startedAt.getTime())
+      : lastOffset,
+    project: { id: match.project.id, name: match.project.name },
+    participants: match.participants.map((p) => ({
+      playerNumber: p.playerNumber,
+      playerName: p.playerName,
+      teamNumber: p.teamNumber,
+      teamName: p.teamName,
+      teamColor: p.teamColor,
+      deviceIps: p.deviceIps,
+    })),
+    events: match.events.map((e) => ({
+      deviceIp: e.deviceIp,
+      offsetMs: e.offsetMs,
+      payload: e.payload as unknown as MatchEventInput['payload'],
+    })),
+  }
+}
@@ -0,0 +1,313 @@
+'use server'
+
+import { randomInt } from 'crypto'
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/auth'
+
+import { isProjectRole, type ProjectRole } from '@/lib/project/roles'
+import { prisma } from '@/lib/server/prisma'
+import { authorizeProject } from '@/lib/server/project-access'
+
+// Join codes are read aloud and typed on phones: no 0/O, 1/I/L
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 8
+
+function generateInviteCode() {
+  return Array.from(
+    { length: CODE_LENGTH },
+    () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+  ).join('')
+}
+
+function normalizeInviteCode(code: string) {
+  return code.replace(/[\s-]/g, '').toUpperCase()
+}
+
+// --- Members ---
+
+export async function getProjectMembers(projectId: string) {
+  const access = await authorizeProject(projectId, 'manageProject')
+  if ('error' in access) return { error: access.error }
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      user: { select: { id: true, name: true, email: true } },
+      members: {
+        orderBy: { createdAt: 'asc' },
+        include: {
+          user: { select: { name: true, email: true } },
+          player: { select: { name: true } },
+        },
+      },
+      invites: {
+        where: {
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+        orderBy: { createdAt: 'desc' },
+      },
+    },
+  })
+  if (!project) return { error: 'Project not found' }
+
+  return {
+    success: true,
+    owner: project.user,
+    members: project.members.map((member) => ({
+      id: member.id,
+      userId: member.userId,
+      name: member.user.name,
+      email: member.user.email,
+      role: member.role as ProjectRole,
+      playerId: member.playerId,
+      playerName: member.player?.name ?? null,
+      createdAt: member.createdAt,
+    })),
+    // Used-up invites stay listed so they can be revoked or looked up
+    invites: project.invites.map((invite) => ({
+      id: invite.id,
+      code: invite.code,
+      role: invite.role as ProjectRole,
+      uses: invite.uses,
+      maxUses: invite.maxUses,
+      expiresAt: invite.expiresAt,
+      createdAt: invite.createdAt,
+    })),
+  }
+}
+
+export async function updateMember(
+  memberId: string,
+  data: { role?: ProjectRole; playerId?: string | null }
+) {
+  const member = await prisma.projectMember.findUnique({
+    where: { id: memberId },
+    select: { projectId: true },
+  })
+  if (!member) return { error: 'Member not found' }
+  const access = await authorizeProject(member.projectId, 'manageProject')
+  if ('error' in access) return { error: access.error }
+
+  if (data.role !== undefined && !isProjectRole(data.role)) return { error: 'Invalid role' }
+  if (data.playerId) {
+    const player = await prisma.player.findUnique({
+      where: { id: data.playerId },
+      select: { projectId: true },
+    })
+    if (!player || player.projectId !== member.projectId) return { error: 'Player not found' }
+  }
+
+  try {
+    const updated = await prisma.projectMember.update({
+      where: { id: memberId },
+      data,
+    })
+    revalidatePath('/control')
+    return { success: true, member: updated }
+  } catch (error) {
+    console.error('Error updating member:', error)
+    return { error: 'Failed to update member' }
+  }
+}
+
+/**
+ * Remove a member; members may also remove themselves (leave the project)
+ */
+export async function removeMember(memberId: string) {
+  const session = await auth()
+  if (!session?.user?.id) return { error: 'Unauthorized' }
+
+  const member = await prisma.projectMember.findUnique({
+    where: { id: memberId },
+    select: { projectId: true, userId: true },
+  })
+  if (!member) return { error: 'Member not found' }
+
+  if (member.userId !== session.user.id) {
+    const access = await authorizeProject(member.projectId, 'manageProject')
+    if ('error' in access) return { error: access.error }
+  }
+
+  try {
+    await prisma.projectMember.delete({ where: { id: memberId } })
+    revalidatePath('/control')
+    return { success: true }
+  } catch (error) {
+    console.error('Error removing member:', error)
+    return { error: 'Failed to remove member' }
+  }
+}
+
+export async function leaveProject(projectId: string) {
+  const session = await auth()
+  if (!session?.user?.id) return { error: 'Unauthorized' }
+
+  try {
+    const { count } = await prisma.projectMember.deleteMany({
+      where: { projectId, userId: session.user.id },
+    })
+    if (count === 0) return { error: 'Project not found' }
+
+    revalidatePath('/control')
+    return { success: true }
+  } catch (error) {
+    console.error('Error leaving project:', error)
+    return { error: 'Failed to leave project' }
+  }
+}
+
+// --- Invites ---
+
+export async function createInvite(
+  projectId: string,
+  {
+    role,
+    expiresInHours,
+    maxUses,
+  }: { role: ProjectRole; expiresInHours?: number | null; maxUses?: number | null }
+) {
+  const access = await authorizeProject(projectId, 'manageProject')
+  if ('error' in access) return { error: access.error }
+
+  if (!isProjectRole(role)) return { error: 'Invalid role' }
+
+  const expiresAt =
+    expiresInHours && expiresInHours > 0
+      ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000)
+      : null
+
+  // A clash of random codes is rare; retry a few times rather than fail
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      const invite = await prisma.projectInvite.create({
+        data: {
+          projectId,
+          code: generateInviteCode(),
+          role,
+          createdById: access.userId,
+          maxUses: maxUses && maxUses > 0 ? Math.floor(maxUses) : null,
+          expiresAt,
+        },
+      })
+      revalidatePath('/control')
+      return { success: true, invite }
+    } catch (error: any) {
+      if (error?.code === 'P2002') continue
+      console.error('Error creating invite:', error)
+      return { error: 'Failed to create invite' }
+    }
+  }
+  return { error: 'Failed to create invite' }
+}
+
+export async function revokeInvite(inviteId: string) {
+  const invite = await prisma.projectInvite.findUnique({
+    where: { id: inviteId },
+    select: { projectId: true },
+  })
+  if (!invite) return { error: 'Invite not found' }
+  const access = await authorizeProject(invite.projectId, 'manageProject')
+  if ('error' in access) return { error: access.error }
+
+  try {
+    await prisma.projectInvite.update({
+      where: { id: inviteId },
+      data: { revokedAt: new Date() },
+    })
+    revalidatePath('/control')
+    return { success: true }
+  } catch (error) {
+    console.error('Error revoking invite:', error)
+    return { error: 'Failed to revoke invite' }
+  }
+}
+
+async function findUsableInvite(code: string) {
+  const invite = await prisma.projectInvite.findUnique({
+    where: { code: normalizeInviteCode(code) },
+    include: { project: { select: { id: true, name: true, userId: true } } },
+  })
+  if (!invite || invite.revokedAt) return { error: 'Invite not found' }
+  if (invite.expiresAt && invite.expiresAt.getTime() <= Date.now()) {
+    return { error: 'Invite has expired' }
+  }
+  if (invite.maxUses !== null && invite.uses >= invite.maxUses) {
+    return { error: 'Invite has been used up' }
+  }
+  return { invite }
+}
+
+/**
+ * What an invite grants, shown before it is accepted
+ */
+export async function getInvite(code: string) {
+  const session = await auth()
+  if (!session?.user?.id) return { error: 'Unauthorized' }
+
+  const result = await findUsableInvite(code)
+  if ('error' in result) return { error: result.error }
+
+  const { invite } = result
+  return {
+    success: true,
+    invite: {
+      code: invite.code,
+      role: invite.role as ProjectRole,
+      projectName: invite.project.name,
+      expiresAt: invite.expiresAt,
+    },
+  }
+}
+
+/**
+ * Join the project of an invite link or join code.
+ * Existing members keep their role; the owner is never added as a member.
+ */
+export async function acceptInvite(code: string) {
+  const session = await auth()
+  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const userId = session.user.id
+
+  const result = await findUsableInvite(code)
+  if ('error' in result) return { error: result.error }
+  const { invite } = result
+
+  if (invite.project.userId === userId) {
+    return { success: true, projectId: invite.projectId }
+  }
+
+  try {
+    const joined = await prisma.$transaction(async (tx) => {
+      const existing = await tx.projectMember.findUnique({
+        where: { projectId_userId: { projectId: invite.projectId, userId } },
+      })
+      if (existing) return false
+
+      // Guard against the last use being taken concurrently
+      const { count } = await tx.projectInvite.updateMany({
+        where: {
+          id: invite.id,
+          revokedAt: null,
+          ...(invite.maxUses !== null && { uses: { lt: invite.maxUses } }),
+        },
+        data: { uses: { increment: 1 } },
+      })
+      if (count === 0) throw new Error('Invite has been used up')
+
+      await tx.projectMember.create({
+        data: { projectId: invite.projectId, userId, role: invite.role },
+      })
+      return true
+    })
+
+    revalidatePath('/control')
+    return { success: true, projectId: invite.projectId, joined }
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invite has been used up') {
+      return { error: error.message }
+    }
+    console.error('Error accepting invite:', error)
+    return { error: 'Failed to join project' }
+  }
+}
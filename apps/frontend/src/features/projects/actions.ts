@@ -1,9 +1,16 @@
 'use server'
 
+import { randomBytes } from 'crypto'
 import { revalidatePath } from 'next/cache'
 import { auth } from '@/auth'
 
+import type { LiveProject } from '@/lib/game/liveScoreboard'
+import { isObjectiveType, objectiveRulesOf, type ObjectiveType } from '@/lib/game/objectives'
+import { respawnModeOf, type RespawnMode } from '@/lib/game/revive'
+import { winConditionsOf, type Scoring, type Tiebreaker } from '@/lib/game/winConditions'
+import { isProjectRole } from '@/lib/project/roles'
 import { prisma } from '@/lib/server/prisma'
+import { authorizeProject } from '@/lib/server/project-access'
 
 type GameModeOverrides = {
   durationSeconds?: number
@@ -11,12 +18,22 @@ type GameModeOverrides = {
   maxHearts?: number
   spawnHearts?: number
   respawnTimeSec?: number
+  lives?: number
+  respawnMode?: RespawnMode
   friendlyFire?: boolean
   damageIn?: number
   damageOut?: number
   enableAmmo?: boolean
   maxAmmo?: number
   reloadTimeMs?: number
+  scoring?: Scoring
+  killLimit?: number
+  teamScoreLimit?: number
+  lastTeamStanding?: boolean
+  objectiveScoreLimit?: number
+  tiebreaker?: Tiebreaker
+  captureHits?: number
+  holdSecondsPerPoint?: number
 }
 
 // --- Projects ---
@@ -25,10 +42,15 @@ export async function getProjects() {
   const session = await auth()
   if (!session?.user?.id) return []
 
-  return prisma.project.findMany({
-    where: { userId: session.user.id },
+  const userId = session.user.id
+  const projects = await prisma.project.findMany({
+    where: { OR: [{ userId }, { members: { some: { userId } } }] },
     include: {
       gameMode: true,
+      members: {
+        where: { userId },
+        select: { role: true },
+      },
       teams: {
         orderBy: { order: 'asc' },
       },
@@ -47,6 +69,17 @@ export async function getProjects() {
     },
     orderBy: { updatedAt: 'desc' },
   })
+
+  // The UI hides controls the user's role does not allow
+  return projects.map(({ members, ...project }) => {
+    const isOwner = project.userId === userId
+    const role = isOwner ? 'admin' : members[0]?.role
+    return {
+      ...project,
+      role: isProjectRole(role) ? role : ('spectator' as const),
+      isOwner,
+    }
+  })
 }
 
 export async function createProject(name: string, gameModeName: string = 'Standard') {
@@ -80,12 +113,12 @@ export async function updateProject(
   projectId: string,
   data: { name?: string; description?: string; gameModeId?: string }
 ) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const access = await authorizeProject(projectId, 'manageProject')
+  if ('error' in access) return { error: access.error }
 
   try {
     const project = await prisma.project.update({
-      where: { id: projectId, userId: session.user.id },
+      where: { id: projectId },
       data,
     })
     revalidatePath('/control')
@@ -145,12 +178,28 @@ export async function createCustomGameMode({
         maxHearts: overrides.maxHearts ?? base.maxHearts,
         spawnHearts: overrides.spawnHearts ?? base.spawnHearts,
         respawnTimeSec: overrides.respawnTimeSec ?? base.respawnTimeSec,
+        lives: Math.max(0, overrides.lives ?? base.lives),
+        respawnMode: respawnModeOf({ respawnMode: overrides.respawnMode ?? base.respawnMode }),
         friendlyFire: overrides.friendlyFire ?? base.friendlyFire,
         damageIn: overrides.damageIn ?? base.damageIn,
         damageOut: overrides.damageOut ?? base.damageOut,
         enableAmmo: overrides.enableAmmo ?? base.enableAmmo,
         maxAmmo: overrides.maxAmmo ?? base.maxAmmo,
         reloadTimeMs: overrides.reloadTimeMs ?? base.reloadTimeMs,
+        ...objectiveRulesOf({
+          captureHits: overrides.captureHits ?? base.captureHits,
+          holdSecondsPerPoint: overrides.holdSecondsPerPoint ?? base.holdSecondsPerPoint,
+        }),
+        // Validates the scoring and tiebreaker names
+        ...winConditionsOf({
+          ...base,
+          scoring: overrides.scoring ?? base.scoring,
+          killLimit: overrides.killLimit ?? base.killLimit,
+          teamScoreLimit: overrides.teamScoreLimit ?? base.teamScoreLimit,
+          lastTeamStanding: overrides.lastTeamStanding ?? base.lastTeamStanding,
+          objectiveScoreLimit: overrides.objectiveScoreLimit ?? base.objectiveScoreLimit,
+          tiebreaker: overrides.tiebreaker ?? base.tiebreaker,
+        }),
       },
     })
 
@@ -170,6 +219,7 @@ export async function deleteProject(projectId: string) {
   if (!session?.user?.id) return { error: 'Unauthorized' }
 
   try {
+    // Only the owner can delete a project, not its admins
     await prisma.project.delete({
       where: { id: projectId, userId: session.user.id },
     })
@@ -180,19 +230,67 @@ export async function deleteProject(projectId: string) {
   }
 }
 
-// --- Teams ---
+// --- Spectator Screen ---
 
-export async function addTeam(projectId: string, name: string, color: string) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+/**
+ * Turn the public spectator screen on with a fresh link (old links stop
+ * working), or off
+ */
+export async function setLiveScreen(projectId: string, enabled: boolean) {
+  const access = await authorizeProject(projectId, 'manageProject')
+  if ('error' in access) return { error: access.error }
 
   try {
-    // Verify project ownership
-    const project = await prisma.project.findUnique({
-      where: { id: projectId, userId: session.user.id },
+    const project = await prisma.project.update({
+      where: { id: projectId },
+      data: { liveToken: enabled ? randomBytes(24).toString('base64url') : null },
+      select: { liveToken: true },
     })
-    if (!project) return { error: 'Project not found' }
+    revalidatePath('/control')
+    return { success: true, liveToken: project.liveToken }
+  } catch (error) {
+    console.error('Error updating spectator screen:', error)
+    return { error: 'Failed to update spectator screen' }
+  }
+}
+
+/**
+ * The project behind a spectator screen link. Public: anyone with the token
+ * sees the roster, so nothing else about the project is returned.
+ */
+export async function getLiveProject(liveToken: string): Promise<LiveProject | null> {
+  if (!liveToken) return null
+
+  // The screen is public: only what the scoreboard renders leaves the server
+  return prisma.project.findUnique({
+    where: { liveToken },
+    select: {
+      id: true,
+      name: true,
+      gameMode: { select: { lives: true } },
+      teams: {
+        orderBy: { order: 'asc' },
+        select: { id: true, name: true, color: true },
+      },
+      players: {
+        orderBy: { order: 'asc' },
+        select: { id: true, name: true, number: true, teamId: true },
+      },
+      devices: {
+        orderBy: { order: 'asc' },
+        select: { ipAddress: true, assignedPlayerId: true, objectiveType: true },
+      },
+    },
+  })
+}
+
+// --- Teams ---
+
+export async function addTeam(projectId: string, name: string, color: string) {
+  const access = await authorizeProject(projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
+  try {
     // Assign the lowest available team number between 1-255 within the project
     const existingTeams = await prisma.team.findMany({
       where: { projectId },
@@ -221,16 +319,12 @@ export async function addTeam(projectId: string, name: string, color: string) {
 }
 
 export async function updateTeam(teamId: string, data: { name?: string; color?: string }) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const team = await prisma.team.findUnique({ where: { id: teamId }, select: { projectId: true } })
+  if (!team) return { error: 'Team not found' }
+  const access = await authorizeProject(team.projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
   try {
-    const team = await prisma.team.findUnique({
-      where: { id: teamId },
-      include: { project: true },
-    })
-    if (!team || team.project.userId !== session.user.id) return { error: 'Unauthorized' }
-
     await prisma.team.update({
       where: { id: teamId },
       data,
@@ -243,17 +337,12 @@ export async function updateTeam(teamId: string, data: { name?: string; color?:
 }
 
 export async function removeTeam(teamId: string) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const team = await prisma.team.findUnique({ where: { id: teamId }, select: { projectId: true } })
+  if (!team) return { error: 'Team not found' }
+  const access = await authorizeProject(team.projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
   try {
-    // Verify ownership via project
-    const team = await prisma.team.findUnique({
-      where: { id: teamId },
-      include: { project: true },
-    })
-    if (!team || team.project.userId !== session.user.id) return { error: 'Unauthorized' }
-
     await prisma.team.delete({ where: { id: teamId } })
     revalidatePath('/control')
     return { success: true }
@@ -265,15 +354,10 @@ export async function removeTeam(teamId: string) {
 // --- Players ---
 
 export async function addPlayer(projectId: string, name: string, playerNumber: number) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const access = await authorizeProject(projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
   try {
-    const project = await prisma.project.findUnique({
-      where: { id: projectId, userId: session.user.id },
-    })
-    if (!project) return { error: 'Project not found' }
-
     const player = await prisma.player.create({
       data: {
         name,
@@ -288,17 +372,19 @@ export async function addPlayer(projectId: string, name: string, playerNumber: n
   }
 }
 
-export async function updatePlayer(playerId: string, data: { name?: string; number?: number }) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+export async function updatePlayer(
+  playerId: string,
+  data: { name?: string; number?: number; isMedic?: boolean }
+) {
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+    select: { projectId: true },
+  })
+  if (!player) return { error: 'Player not found' }
+  const access = await authorizeProject(player.projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
   try {
-    const player = await prisma.player.findUnique({
-      where: { id: playerId },
-      include: { project: true },
-    })
-    if (!player || player.project.userId !== session.user.id) return { error: 'Unauthorized' }
-
     await prisma.player.update({
       where: { id: playerId },
       data,
@@ -311,16 +397,15 @@ export async function updatePlayer(playerId: string, data: { name?: string; numb
 }
 
 export async function removePlayer(playerId: string) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+    select: { projectId: true },
+  })
+  if (!player) return { error: 'Player not found' }
+  const access = await authorizeProject(player.projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
   try {
-    const player = await prisma.player.findUnique({
-      where: { id: playerId },
-      include: { project: true },
-    })
-    if (!player || player.project.userId !== session.user.id) return { error: 'Unauthorized' }
-
     await prisma.player.delete({ where: { id: playerId } })
     revalidatePath('/control')
     return { success: true }
@@ -330,16 +415,15 @@ export async function removePlayer(playerId: string) {
 }
 
 export async function updatePlayerTeam(playerId: string, teamId: string | null) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+    select: { projectId: true },
+  })
+  if (!player) return { error: 'Player not found' }
+  const access = await authorizeProject(player.projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
   try {
-    const player = await prisma.player.findUnique({
-      where: { id: playerId },
-      include: { project: true },
-    })
-    if (!player || player.project.userId !== session.user.id) return { error: 'Unauthorized' }
-
     await prisma.player.update({
       where: { id: playerId },
       data: { teamId },
@@ -352,16 +436,15 @@ export async function updatePlayerTeam(playerId: string, teamId: string | null)
 }
 
 export async function updatePlayerDevice(playerId: string, deviceId: string | null) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+    select: { projectId: true },
+  })
+  if (!player) return { error: 'Player not found' }
+  const access = await authorizeProject(player.projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
   try {
-    const player = await prisma.player.findUnique({
-      where: { id: playerId },
-      include: { project: true },
-    })
-    if (!player || player.project.userId !== session.user.id) return { error: 'Unauthorized' }
-
     await updatePlayerDevices(playerId, deviceId ? [deviceId] : [])
     revalidatePath('/control')
     return { success: true }
@@ -372,23 +455,25 @@ export async function updatePlayerDevice(playerId: string, deviceId: string | nu
 }
 
 export async function updatePlayerDevices(playerId: string, deviceIds: string[]) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+    select: { projectId: true },
+  })
+  if (!player) return { error: 'Player not found' }
+  const access = await authorizeProject(player.projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
   try {
-    const player = await prisma.player.findUnique({
-      where: { id: playerId },
-      include: { project: true },
-    })
-    if (!player || player.project.userId !== session.user.id) return { error: 'Unauthorized' }
-
     if (deviceIds.length > 0) {
       const devices = await prisma.device.findMany({
         where: { id: { in: deviceIds } },
         include: { profile: true },
       })
       if (devices.length !== deviceIds.length) return { error: 'Device not found' }
-      if (devices.some((d) => d.profile.userId !== session.user.id))
+      // Devices already in the project, or the caller's own
+      if (
+        devices.some((d) => d.projectId !== player.projectId && d.profile.userId !== access.userId)
+      )
         return { error: 'Device not found or unauthorized' }
       if (devices.some((d) => d.assignedPlayerId && d.assignedPlayerId !== playerId))
         return { error: 'One or more devices already assigned' }
@@ -412,11 +497,11 @@ export async function updatePlayerDevices(playerId: string, deviceIds: string[])
         data: { assignedPlayerId: null },
       })
 
-      // Assign current devices
+      // Assign current devices; weapons are no longer objectives
       if (deviceIds.length > 0) {
         await tx.device.updateMany({
           where: { id: { in: deviceIds } },
-          data: { assignedPlayerId: playerId },
+          data: { assignedPlayerId: playerId, objectiveType: null, objectiveTeamId: null },
         })
       }
     })
@@ -432,20 +517,15 @@ export async function updatePlayerDevices(playerId: string, deviceIds: string[])
 // --- Devices in Project ---
 
 export async function addDeviceToProject(projectId: string, deviceId: string) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const access = await authorizeProject(projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
   try {
-    const project = await prisma.project.findUnique({
-      where: { id: projectId, userId: session.user.id },
-    })
-    if (!project) return { error: 'Project not found' }
-
     const device = await prisma.device.findUnique({
       where: { id: deviceId },
       include: { profile: true },
     })
-    if (!device || device.profile.userId !== session.user.id) return { error: 'Device not found' }
+    if (!device || device.profile.userId !== access.userId) return { error: 'Device not found' }
 
     await prisma.device.update({
       where: { id: deviceId },
@@ -467,11 +547,18 @@ export async function removeDeviceFromProject(deviceId: string) {
       where: { id: deviceId },
       include: { profile: true },
     })
-    if (!device || device.profile.userId !== session.user.id) return { error: 'Unauthorized' }
+    if (!device) return { error: 'Unauthorized' }
+
+    // Owners may always take their device back; otherwise the roster must be editable
+    if (device.profile.userId !== session.user.id) {
+      if (!device.projectId) return { error: 'Unauthorized' }
+      const access = await authorizeProject(device.projectId, 'editRoster')
+      if ('error' in access) return { error: access.error }
+    }
 
     await prisma.device.update({
       where: { id: deviceId },
-      data: { projectId: null, assignedPlayerId: null },
+      data: { projectId: null, assignedPlayerId: null, objectiveType: null, objectiveTeamId: null },
     })
     revalidatePath('/control')
     return { success: true }
@@ -480,18 +567,60 @@ export async function removeDeviceFromProject(deviceId: string) {
   }
 }
 
+/**
+ * Flag a device as an objective (or back as a player weapon with null).
+ * Objectives are not played with, so the device leaves its player.
+ */
+export async function updateDeviceObjective(
+  deviceId: string,
+  objectiveType: ObjectiveType | null,
+  teamId: string | null = null
+) {
+  const device = await prisma.device.findUnique({
+    where: { id: deviceId },
+    select: { projectId: true },
+  })
+  if (!device?.projectId) return { error: 'Device not found' }
+  const access = await authorizeProject(device.projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
+  if (objectiveType !== null && !isObjectiveType(objectiveType)) {
+    return { error: 'Invalid objective type' }
+  }
+
+  try {
+    // Only bases are defended by a team
+    const objectiveTeamId = objectiveType === 'base' ? teamId : null
+    if (objectiveTeamId) {
+      const team = await prisma.team.findUnique({
+        where: { id: objectiveTeamId },
+        select: { projectId: true },
+      })
+      if (team?.projectId !== device.projectId) return { error: 'Team not found' }
+    }
+
+    await prisma.device.update({
+      where: { id: deviceId },
+      data: {
+        objectiveType,
+        objectiveTeamId,
+        ...(objectiveType ? { assignedPlayerId: null } : {}),
+      },
+    })
+    revalidatePath('/control')
+    return { success: true }
+  } catch (error) {
+    console.error('Error updating device objective:', error)
+    return { error: 'Failed to update device objective' }
+  }
+}
+
 // --- Reordering ---
 
 export async function reorderTeams(projectId: string, teamIds: string[]) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const access = await authorizeProject(projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
   try {
-    const project = await prisma.project.findUnique({
-      where: { id: projectId, userId: session.user.id },
-    })
-    if (!project) return { error: 'Project not found' }
-
     await prisma.$transaction(
       teamIds.map((id, index) =>
         prisma.team.update({
@@ -508,15 +637,10 @@ export async function reorderTeams(projectId: string, teamIds: string[]) {
 }
 
 export async function reorderPlayers(projectId: string, playerIds: string[]) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const access = await authorizeProject(projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
   try {
-    const project = await prisma.project.findUnique({
-      where: { id: projectId, userId: session.user.id },
-    })
-    if (!project) return { error: 'Project not found' }
-
     await prisma.$transaction(
       playerIds.map((id, index) =>
         prisma.player.update({
@@ -533,15 +657,10 @@ export async function reorderPlayers(projectId: string, playerIds: string[]) {
 }
 
 export async function reorderDevices(projectId: string, deviceIds: string[]) {
-  const session = await auth()
-  if (!session?.user?.id) return { error: 'Unauthorized' }
+  const access = await authorizeProject(projectId, 'editRoster')
+  if ('error' in access) return { error: access.error }
 
   try {
-    const project = await prisma.project.findUnique({
-      where: { id: projectId, userId: session.user.id },
-    })
-    if (!project) return { error: 'Project not found' }
-
     await prisma.$transaction(
       deviceIds.map((id, index) =>
         prisma.device.update({
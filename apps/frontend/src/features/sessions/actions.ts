@@ -0,0 +1,252 @@
+'use server'
+
+import { Prisma, type GameSession } from '@rayz/database'
+
+import type { ObjectivesState } from '@/lib/game/objectives'
+import {
+  applyTransition,
+  INITIAL_SESSION,
+  type SessionAction,
+  type SessionSnapshot,
+  type SessionState,
+} from '@/lib/game/sessionMachine'
+import type { WinResult } from '@/lib/game/winConditions'
+import { prisma } from '@/lib/server/prisma'
+import { authorizeProject } from '@/lib/server/project-access'
+import type { GameCommandName } from '@/lib/websocket'
+
+// The host renews every few seconds; a closed or frozen tab is replaced after this
+const HOST_LEASE_MS = 10000
+
+function toSnapshot(session: GameSession | null): SessionSnapshot {
+  if (!session) return INITIAL_SESSION
+  return {
+    state: session.state as SessionState,
+    version: session.version,
+    countdownEndsAt: session.countdownEndsAt?.getTime() ?? null,
+    startedAt: session.startedAt?.getTime() ?? null,
+    elapsedMs: session.elapsedMs,
+    result: session.result as unknown as WinResult | null,
+    command:
+      session.lastCommand && session.commandReqId
+        ? {
+            name: session.lastCommand as GameCommandName,
+            reqId: session.commandReqId,
+            targets: session.commandTargets,
+            acks: session.commandAcks,
+            failed: session.commandFailed,
+          }
+        : null,
+  }
+}
+
+export async function getGameSession(projectId: string) {
+  const access = await authorizeProject(projectId, 'viewLive')
+  if ('error' in access) return { error: access.error }
+
+  const gameSession = await prisma.gameSession.findUnique({ where: { projectId } })
+  return {
+    success: true,
+    session: toSnapshot(gameSession),
+    // Outside the versioned snapshot: the host saves it as the game goes on
+    objectives: (gameSession?.objectives ?? null) as unknown as ObjectivesState | null,
+  }
+}
+
+/**
+ * Apply a transition if the caller saw the latest version.
+ * On a version conflict the current session is returned so the caller can resync.
+ * @param options.result The win condition that stops the game, with `stop`
+ */
+export async function transitionGameSession(
+  projectId: string,
+  action: SessionAction,
+  expectedVersion: number,
+  options: { countdownSeconds?: number; result?: WinResult | null } = {}
+) {
+  const access = await authorizeProject(projectId, 'controlGame')
+  if ('error' in access) return { error: access.error }
+
+  try {
+    const existing = await prisma.gameSession.findUnique({ where: { projectId } })
+    const current = toSnapshot(existing)
+
+    if (current.version !== expectedVersion) {
+      return { error: 'Session was changed by another operator', session: current }
+    }
+
+    const result = applyTransition(current, action, {
+      countdownSeconds: options.countdownSeconds,
+      result: options.result,
+    })
+    if (!result) {
+      return { error: `Cannot ${action} while ${current.state}`, session: current }
+    }
+
+    const { snapshot, command } = result
+    const reqId = command ? `${projectId.slice(-6)}-${snapshot.version}` : null
+    const data = {
+      state: snapshot.state,
+      version: snapshot.version,
+      countdownEndsAt: snapshot.countdownEndsAt ? new Date(snapshot.countdownEndsAt) : null,
+      startedAt: snapshot.startedAt ? new Date(snapshot.startedAt) : null,
+      elapsedMs: snapshot.elapsedMs,
+      result: snapshot.result
+        ? (snapshot.result as unknown as Prisma.InputJsonValue)
+        : Prisma.DbNull,
+      updatedById: access.userId,
+      // Objectives start from neutral with every game
+      ...((snapshot.state === 'countdown' || snapshot.state === 'idle') && {
+        objectives: Prisma.DbNull,
+      }),
+      // A transition without a command keeps the previous delivery report
+      ...(command && {
+        lastCommand: command,
+        commandReqId: reqId,
+        commandTargets: [],
+        commandAcks: [],
+        commandFailed: [],
+      }),
+    }
+
+    let updated: GameSession | null
+    if (existing) {
+      // Guard against a concurrent transition between read and write
+      const { count } = await prisma.gameSession.updateMany({
+        where: { projectId, version: expectedVersion },
+        data,
+      })
+      updated = count > 0 ? await prisma.gameSession.findUnique({ where: { projectId } }) : null
+    } else {
+      updated = await prisma.gameSession.create({ data: { projectId, ...data } })
+    }
+
+    if (!updated) {
+      const latest = await prisma.gameSession.findUnique({ where: { projectId } })
+      return { error: 'Session was changed by another operator', session: toSnapshot(latest) }
+    }
+
+    return { success: true, session: toSnapshot(updated), command }
+  } catch (error) {
+    console.error('Error updating game session:', error)
+    return { error: 'Failed to update game session' }
+  }
+}
+
+/**
+ * Record where the last command was sent and which devices acknowledged it or failed to
+ */
+export async function recordCommandDelivery(
+  projectId: string,
+  reqId: string,
+  delivery: { targets?: string[]; acks?: string[]; failed?: string[] }
+) {
+  const access = await authorizeProject(projectId, 'controlGame')
+  if ('error' in access) return { error: access.error }
+
+  try {
+    const gameSession = await prisma.gameSession.findUnique({ where: { projectId } })
+    if (!gameSession || gameSession.commandReqId !== reqId) {
+      return { error: 'Command is no longer current' }
+    }
+
+    const acks = [...new Set([...gameSession.commandAcks, ...(delivery.acks ?? [])])]
+    // A late ACK clears an earlier failure
+    const failed = [...new Set([...gameSession.commandFailed, ...(delivery.failed ?? [])])].filter(
+      (ip) => !acks.includes(ip)
+    )
+    const updated = await prisma.gameSession.update({
+      where: { projectId },
+      data: {
+        commandAcks: acks,
+        commandFailed: failed,
+        ...(delivery.targets && { commandTargets: delivery.targets }),
+      },
+    })
+
+    return { success: true, session: toSnapshot(updated) }
+  } catch (error) {
+    console.error('Error recording command delivery:', error)
+    return { error: 'Failed to record command delivery' }
+  }
+}
+
+/**
+ * Save the objective state of the running game; only the host tab may
+ */
+export async function saveSessionObjectives(
+  projectId: string,
+  tabId: string,
+  objectives: ObjectivesState
+) {
+  const access = await authorizeProject(projectId, 'controlGame')
+  if ('error' in access) return { error: access.error }
+
+  try {
+    const { count } = await prisma.gameSession.updateMany({
+      where: { projectId, hostId: tabId, state: { in: ['running', 'paused'] } },
+      data: { objectives: objectives as unknown as Prisma.InputJsonValue },
+    })
+    if (count === 0) return { error: 'Not the host of a running game' }
+    return { success: true }
+  } catch (error) {
+    console.error('Error saving session objectives:', error)
+    return { error: 'Failed to save session objectives' }
+  }
+}
+
+/**
+ * Claim or renew the host lease for a control tab.
+ * The host is the one tab that records the match and judges the game.
+ * @returns isHost false while another tab holds an unexpired lease
+ */
+export async function claimSessionHost(projectId: string, tabId: string) {
+  const access = await authorizeProject(projectId, 'controlGame')
+  if ('error' in access) return { error: access.error }
+
+  try {
+    const now = new Date()
+    const lease = { hostId: tabId, hostLeaseUntil: new Date(now.getTime() + HOST_LEASE_MS) }
+    const { count } = await prisma.gameSession.updateMany({
+      where: {
+        projectId,
+        OR: [{ hostId: tabId }, { hostId: null }, { hostLeaseUntil: { lt: now } }],
+      },
+      data: lease,
+    })
+    if (count > 0) return { success: true, isHost: true }
+
+    const existing = await prisma.gameSession.findUnique({ where: { projectId } })
+    if (existing) return { success: true, isHost: false }
+
+    // First tab of a project without a session yet; a concurrent create wins the race
+    try {
+      await prisma.gameSession.create({ data: { projectId, ...lease } })
+      return { success: true, isHost: true }
+    } catch {
+      return { success: true, isHost: false }
+    }
+  } catch (error) {
+    console.error('Error claiming session host:', error)
+    return { error: 'Failed to claim session host' }
+  }
+}
+
+/**
+ * Give up the host lease so another tab takes over right away
+ */
+export async function releaseSessionHost(projectId: string, tabId: string) {
+  const access = await authorizeProject(projectId, 'controlGame')
+  if ('error' in access) return { error: access.error }
+
+  try {
+    await prisma.gameSession.updateMany({
+      where: { projectId, hostId: tabId },
+      data: { hostId: null, hostLeaseUntil: null },
+    })
+    return { success: true }
+  } catch (error) {
+    console.error('Error releasing session host:', error)
+    return { error: 'Failed to release session host' }
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Hook for devices discovered by the ws-bridge
+ *
+ * Keeps a control connection to the bridge (no target device) and collects
+ * the devices it finds via mDNS or a subnet probe. Only available in local
+ * mode with NEXT_PUBLIC_WS_BRIDGE_URL set. Scanning needs an admin token,
+ * so the connection is authorized for the project being edited.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { fetchBridgeToken } from '@/lib/comm/bridgeToken'
+import { getAppMode, getBridgeUrl } from '@/lib/comm/mode'
+
+const RECONNECT_DELAY = 5000
+
+export interface DiscoveredDevice {
+  /** "ip" or "ip:port", usable as a Device.ipAddress */
+  address: string
+  source: 'mdns' | 'probe'
+  name?: string
+  macAddress?: string
+  firmwareBuild?: string
+  protocolVersion?: string
+  deviceId?: number
+  lastSeen: number
+}
+
+type BridgeDiscoveryMessage =
+  | { type: 'discovered_devices'; devices: DiscoveredDevice[] }
+  | { type: 'device_discovered'; device: DiscoveredDevice }
+  | { type: 'scan_started' }
+  | { type: 'scan_finished'; found: number; error?: string }
+  | { type: 'error'; code: string; message: string }
+
+/**
+ * @param sessionId - Project the bridge token is minted for
+ */
+export function useBridgeDiscovery(sessionId: string) {
+  const [bridgeUrl] = useState(() => (getAppMode() === 'local' ? getBridgeUrl() : undefined))
+  const [devices, setDevices] = useState<Map<string, DiscoveredDevice>>(new Map())
+  const [connected, setConnected] = useState(false)
+  const [scanning, setScanning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const wsRef = useRef<WebSocket | null>(null)
+
+  useEffect(() => {
+    if (!bridgeUrl) return
+
+    let closed = false
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+    const connect = async () => {
+      let url = bridgeUrl
+      try {
+        const token = await fetchBridgeToken(sessionId)
+        if (token) url = `${bridgeUrl}?token=${encodeURIComponent(token)}`
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Bridge token request failed')
+        if (!closed) reconnectTimer = setTimeout(connect, RECONNECT_DELAY)
+        return
+      }
+      if (closed) return
+
+      const ws = new WebSocket(url)
+      wsRef.current = ws
+
+      ws.onopen = () => setConnected(true)
+
+      ws.onmessage = (event) => {
+        let message: BridgeDiscoveryMessage
+        try {
+          message = JSON.parse(event.data)
+        } catch {
+          return
+        }
+
+        switch (message.type) {
+          case 'discovered_devices':
+            setDevices(new Map(message.devices.map((d) => [d.address, d])))
+            break
+          case 'device_discovered':
+            setDevices((prev) => new Map(prev).set(message.device.address, message.device))
+            break
+          case 'scan_started':
+            setScanning(true)
+            setError(null)
+            break
+          case 'scan_finished':
+            setScanning(false)
+            setError(message.error ?? null)
+            break
+          // Spectator connections may not scan
+          case 'error':
+            setScanning(false)
+            setError(message.message)
+            break
+        }
+      }
+
+      ws.onclose = () => {
+        wsRef.current = null
+        setConnected(false)
+        setScanning(false)
+        if (!closed) reconnectTimer = setTimeout(connect, RECONNECT_DELAY)
+      }
+    }
+
+    connect()
+
+    return () => {
+      closed = true
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      wsRef.current?.close()
+      wsRef.current = null
+    }
+  }, [bridgeUrl, sessionId])
+
+  /**
+   * Ask the bridge to re-query mDNS and probe a subnet
+   * @param subnet - CIDR range; defaults to the bridge's WS_BRIDGE_SCAN_SUBNET
+   */
+  const scan = useCallback((subnet?: string) => {
+    const ws = wsRef.current
+    if (ws?.readyState !== WebSocket.OPEN) return false
+    ws.send(JSON.stringify({ type: 'scan', ...(subnet && { subnet }) }))
+    return true
+  }, [])
+
+  return {
+    available: !!bridgeUrl,
+    connected,
+    devices: Array.from(devices.values()),
+    scanning,
+    error,
+    scan,
+  }
+}
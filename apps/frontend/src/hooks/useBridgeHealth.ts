@@ -0,0 +1,61 @@
+/**
+ * Hook for the ws-bridge's health
+ *
+ * Polls the bridge's public `GET /health` endpoint. Only available in local
+ * mode with NEXT_PUBLIC_WS_BRIDGE_URL set; a failed request means the bridge
+ * is down or unreachable.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+
+import { getAppMode, getBridgeHttpUrl } from '@/lib/comm/mode'
+
+const POLL_INTERVAL = 10000
+
+export interface BridgeHealth {
+  status: 'ok'
+  uptimeSeconds: number
+  browsers: number
+  devices: { total: number; connected: number }
+  discovery: boolean
+  upstream: boolean
+}
+
+export function useBridgeHealth() {
+  const [baseUrl] = useState(() => (getAppMode() === 'local' ? getBridgeHttpUrl() : undefined))
+  const [health, setHealth] = useState<BridgeHealth | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [checkedAt, setCheckedAt] = useState<number | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!baseUrl) return
+    try {
+      const response = await fetch(`${baseUrl}/health`, { cache: 'no-store' })
+      if (!response.ok) throw new Error(`Bridge responded with ${response.status}`)
+      setHealth((await response.json()) as BridgeHealth)
+      setError(null)
+    } catch (err) {
+      setHealth(null)
+      setError(err instanceof Error ? err.message : 'Bridge unreachable')
+    } finally {
+      setCheckedAt(Date.now())
+    }
+  }, [baseUrl])
+
+  useEffect(() => {
+    if (!baseUrl) return
+    refresh()
+    const timer = setInterval(refresh, POLL_INTERVAL)
+    return () => clearInterval(timer)
+  }, [baseUrl, refresh])
+
+  return {
+    available: !!baseUrl,
+    online: !!health,
+    health,
+    error,
+    checkedAt,
+    metricsUrl: baseUrl ? `${baseUrl}/metrics` : undefined,
+    refresh,
+  }
+}
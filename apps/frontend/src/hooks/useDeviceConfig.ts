@@ -5,9 +5,11 @@
  * with automatic building from project data
  */
 
-import { useState, useCallback } from 'react'
-import { useGameCommContext } from '@/lib/comm/GameCommContext'
+import { useState, useCallback, useMemo } from 'react'
+import { useDeviceStates, useGameCommContext } from '@/lib/comm/GameCommContext'
 import { DeviceConfigManager } from '@/lib/comm/DeviceConfigManager'
+import { isObjectiveType } from '@/lib/game/objectives'
+import { devicesWithoutRevive, respawnTimeOf } from '@/lib/game/revive'
 import type { Device, Project } from '@/components/project-manager/types'
 
 export interface ConfigStatus {
@@ -17,8 +19,16 @@ export interface ConfigStatus {
 
 export function useDeviceConfig(project: Project) {
   const { comm } = useGameCommContext()
-  const [configManager] = useState(() => new DeviceConfigManager(comm))
+  const configManager = useMemo(() => new DeviceConfigManager(comm), [comm])
   const [statuses, setStatuses] = useState<Map<string, ConfigStatus>>(new Map())
+  const deviceStates = useDeviceStates()
+  // Manual respawn needs every player device to handle REVIVE
+  const canRevive = useMemo(
+    () =>
+      devicesWithoutRevive(project.devices || [], (ip) => deviceStates.get(ip)?.capabilities)
+        .length === 0,
+    [project.devices, deviceStates]
+  )
 
   /**
    * Build configuration for a device from project data
@@ -29,6 +39,8 @@ export function useDeviceConfig(project: Project) {
     )
     const team = player ? (project.teams || []).find((t) => t.id === player.teamId) : undefined
     const gameSettings = project.gameMode
+    // Objectives are shot, never killed
+    const isObjective = isObjectiveType(device.objectiveType)
 
     return {
       deviceName: device.name || `Device ${device.id}`,
@@ -37,10 +49,10 @@ export function useDeviceConfig(project: Project) {
       teamId: team?.id ? parseInt(team.id) : 0,
       colorRgb: team?.color ? parseInt(team.color.replace('#', ''), 16) : 0xFFFFFF,
       
-      enableHearts: gameSettings?.enableHearts ?? true,
+      enableHearts: isObjective ? false : gameSettings?.enableHearts ?? true,
       maxHearts: gameSettings?.maxHearts ?? 10,
       spawnHearts: gameSettings?.spawnHearts ?? 10,
-      respawnTimeS: gameSettings?.respawnTimeSec ?? 5,
+      respawnTimeS: respawnTimeOf(gameSettings, canRevive),
       friendlyFire: gameSettings?.friendlyFire ?? false,
       
       enableAmmo: gameSettings?.enableAmmo ?? true,
@@ -53,7 +65,7 @@ export function useDeviceConfig(project: Project) {
       volume: 80,
       hapticEnabled: true,
     }
-  }, [project])
+  }, [project, canRevive])
 
   const buildEspNowPeers = useCallback((currentDevice: Device): string[] => {
     const devices = project.devices || []
@@ -105,7 +117,7 @@ export function useDeviceConfig(project: Project) {
       setStatuses((prev) => 
         new Map(prev).set(deviceIp, {
           status: success ? 'success' : 'error',
-          message: success ? 'Configuration sent' : 'Failed to send',
+          message: success ? 'Acknowledged by device' : 'No configuration to send',
         })
       )
       return success
@@ -123,16 +135,16 @@ export function useDeviceConfig(project: Project) {
 
   const sendToAllDevices = useCallback(async (): Promise<{ sent: number; failed: number }> => {
     const devices = project.devices || []
-    let sent = 0
-    let failed = 0
-
-    for (const device of devices) {
-      const success = await sendToDevice(device)
-      if (success) sent++
-      else failed++
-      await new Promise((resolve) => setTimeout(resolve, 200))
-    }
-    return { sent, failed }
+
+    // Stagger the sends, but wait for the ACKs in parallel
+    const results = await Promise.all(
+      devices.map(async (device, index) => {
+        await new Promise((resolve) => setTimeout(resolve, index * 200))
+        return sendToDevice(device)
+      })
+    )
+    const sent = results.filter(Boolean).length
+    return { sent, failed: results.length - sent }
   }, [project.devices, sendToDevice])
 
   const getStatus = useCallback((deviceIp: string): ConfigStatus => {
@@ -0,0 +1,277 @@
+/**
+ * Hook for the shared game session
+ *
+ * Reads the server-side session state machine, keeps every open tab in sync
+ * (BroadcastChannel for this browser, polling for other operators), ends the
+ * countdown and broadcasts the resulting GAME_COMMAND with ACK tracking.
+ *
+ * Of all control tabs, across browsers, one holds the host lease. Work that
+ * must happen once per game (recording, kill feed feedback, win conditions)
+ * runs only where `isHost` is true.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  claimSessionHost,
+  getGameSession,
+  recordCommandDelivery,
+  releaseSessionHost,
+  saveSessionObjectives,
+  transitionGameSession,
+} from '@/features/sessions/actions'
+
+import type { ObjectivesState } from '@/lib/game/objectives'
+import {
+  canTransition,
+  DEFAULT_COUNTDOWN_SECONDS,
+  getCountdownRemainingMs,
+  getElapsedMs,
+  INITIAL_SESSION,
+  type SessionAction,
+  type SessionSnapshot,
+} from '@/lib/game/sessionMachine'
+import type { WinResult } from '@/lib/game/winConditions'
+import { useDeviceConnections } from '@/lib/websocket'
+import type { Project } from '@/components/project-manager/types'
+
+const POLL_INTERVAL_MS = 3000
+const TICK_INTERVAL_MS = 250
+const GO_RETRY_MS = 2000
+const HOST_RENEW_MS = 3000
+
+interface UseGameSessionOptions {
+  countdownSeconds?: number
+  /** Compete for the host lease; only for users who may control the game */
+  claimHost?: boolean
+  /**
+   * Called after a transition initiated by this tab succeeded,
+   * before the command is broadcast to devices
+   */
+  onTransition?: (action: SessionAction, session: SessionSnapshot) => void | Promise<void>
+}
+
+export function useGameSession(project: Project, options: UseGameSessionOptions = {}) {
+  const { countdownSeconds = DEFAULT_COUNTDOWN_SECONDS, claimHost = false, onTransition } = options
+  const { broadcastCommandWithAck } = useDeviceConnections()
+
+  const [session, setSession] = useState<SessionSnapshot>(INITIAL_SESSION)
+  const [now, setNow] = useState(() => Date.now())
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isHost, setIsHost] = useState(false)
+  const [tabId] = useState(() => crypto.randomUUID())
+  // Saved by the host; polled, not versioned like the session
+  const [objectives, setObjectives] = useState<ObjectivesState | null>(null)
+
+  const sessionRef = useRef(session)
+  const channelRef = useRef<BroadcastChannel | null>(null)
+  const onTransitionRef = useRef(onTransition)
+  const broadcastCommandRef = useRef(broadcastCommandWithAck)
+  useEffect(() => {
+    onTransitionRef.current = onTransition
+    broadcastCommandRef.current = broadcastCommandWithAck
+  }, [onTransition, broadcastCommandWithAck])
+
+  // Only ever move forward; stale poll results are ignored
+  const applySnapshot = useCallback((next: SessionSnapshot, share = false) => {
+    const current = sessionRef.current
+    const settled = (snapshot: SessionSnapshot) =>
+      (snapshot.command?.acks.length ?? 0) + (snapshot.command?.failed.length ?? 0)
+    const isNewer =
+      next.version > current.version ||
+      (next.version === current.version && settled(next) >= settled(current))
+    if (!isNewer) return
+
+    sessionRef.current = next
+    setSession(next)
+    // The server clears them with every new game
+    if (next.state === 'countdown' || next.state === 'idle') setObjectives(null)
+    if (share) channelRef.current?.postMessage(next)
+  }, [])
+
+  const refresh = useCallback(async () => {
+    const result = await getGameSession(project.id)
+    if (result.session) applySnapshot(result.session)
+    if (result.success) setObjectives(result.objectives)
+  }, [project.id, applySnapshot])
+
+  // Cross-tab sync + polling
+  useEffect(() => {
+    sessionRef.current = INITIAL_SESSION
+    setSession(INITIAL_SESSION)
+    refresh()
+
+    const channel =
+      typeof BroadcastChannel !== 'undefined'
+        ? new BroadcastChannel(`rayz-session:${project.id}`)
+        : null
+    if (channel) {
+      channel.onmessage = (event: MessageEvent<SessionSnapshot>) => applySnapshot(event.data)
+    }
+    channelRef.current = channel
+
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') refresh()
+    }, POLL_INTERVAL_MS)
+
+    return () => {
+      clearInterval(interval)
+      channel?.close()
+      channelRef.current = null
+    }
+  }, [project.id, refresh, applySnapshot])
+
+  // Host lease, renewed even while hidden so recording goes on in the background
+  useEffect(() => {
+    if (!claimHost) return
+    let cancelled = false
+
+    const claim = () =>
+      claimSessionHost(project.id, tabId)
+        .then((result) => {
+          if (!cancelled && !result.error) setIsHost(result.isHost === true)
+        })
+        // Unreachable server: keep the role until a claim gets through
+        .catch(() => {})
+    const release = () => {
+      releaseSessionHost(project.id, tabId).catch(() => {})
+    }
+
+    claim()
+    const interval = setInterval(claim, HOST_RENEW_MS)
+    window.addEventListener('pagehide', release)
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+      window.removeEventListener('pagehide', release)
+      release()
+      setIsHost(false)
+    }
+  }, [project.id, tabId, claimHost])
+
+  // Only the latest state is worth saving; older ones are skipped while a save runs
+  const savingObjectivesRef = useRef(false)
+  const nextObjectivesRef = useRef<ObjectivesState | null>(null)
+  const saveObjectives = useCallback(
+    (state: ObjectivesState) => {
+      setObjectives(state)
+      nextObjectivesRef.current = state
+      if (savingObjectivesRef.current) return
+      savingObjectivesRef.current = true
+      void (async () => {
+        while (nextObjectivesRef.current) {
+          const next = nextObjectivesRef.current
+          nextObjectivesRef.current = null
+          const result = await saveSessionObjectives(project.id, tabId, next).catch(
+            (err: unknown) => ({ error: err instanceof Error ? err.message : String(err) })
+          )
+          if (result.error) console.warn('[Session] Objectives not saved:', result.error)
+        }
+        savingObjectivesRef.current = false
+      })()
+    },
+    [project.id, tabId]
+  )
+
+  // Delivery updates are applied one at a time so none overwrites another
+  const deliveryQueueRef = useRef<Promise<void>>(Promise.resolve())
+  const recordDelivery = useCallback(
+    (reqId: string, delivery: Parameters<typeof recordCommandDelivery>[2]) => {
+      const next = deliveryQueueRef.current.then(async () => {
+        const result = await recordCommandDelivery(project.id, reqId, delivery)
+        if (result.session) applySnapshot(result.session, true)
+      })
+      deliveryQueueRef.current = next.catch((err) =>
+        console.error('Failed to record command delivery:', err)
+      )
+      return deliveryQueueRef.current
+    },
+    [project.id, applySnapshot]
+  )
+
+  const transition = useCallback(
+    async (action: SessionAction, outcome?: WinResult) => {
+      const current = sessionRef.current
+      if (!canTransition(current.state, action)) return false
+
+      setIsPending(true)
+      setError(null)
+      try {
+        const result = await transitionGameSession(project.id, action, current.version, {
+          countdownSeconds,
+          result: outcome,
+        })
+        if (!result.success || !result.session) {
+          // `go` races between tabs; losing it is expected
+          if (action !== 'go') setError(result.error ?? 'Transition failed')
+          if (result.session) applySnapshot(result.session, true)
+          return false
+        }
+
+        applySnapshot(result.session, true)
+        await onTransitionRef.current?.(action, result.session)
+
+        const command = result.session.command
+        if (result.command && command) {
+          const deliveries = broadcastCommandRef.current(result.command, command.reqId)
+          const pending = recordDelivery(command.reqId, { targets: [...deliveries.keys()] })
+          // Each device settles on its own ACK, timeout or rejection
+          deliveries.forEach((delivery, ip) => {
+            delivery.then(
+              () => recordDelivery(command.reqId, { acks: [ip] }),
+              () => recordDelivery(command.reqId, { failed: [ip] })
+            )
+          })
+          await pending
+        }
+        return true
+      } finally {
+        setIsPending(false)
+      }
+    },
+    [project.id, countdownSeconds, applySnapshot, recordDelivery]
+  )
+
+  // Clock for countdown/elapsed display; also ends the countdown
+  useEffect(() => {
+    if (session.state !== 'countdown' && session.state !== 'running') return
+    const interval = setInterval(() => setNow(Date.now()), TICK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [session.state])
+
+  // Every tab tries to end the countdown; the version guard picks one winner.
+  // A rejected attempt (clock skew) is retried after GO_RETRY_MS.
+  const countdownRemainingMs = getCountdownRemainingMs(session, now)
+  const goAttemptRef = useRef<{ version: number; at: number } | null>(null)
+  useEffect(() => {
+    if (session.state !== 'countdown' || countdownRemainingMs > 0) return
+    const last = goAttemptRef.current
+    if (last?.version === session.version && now - last.at < GO_RETRY_MS) return
+    goAttemptRef.current = { version: session.version, at: now }
+    transition('go')
+  }, [session.state, session.version, countdownRemainingMs, now, transition])
+
+  return {
+    session,
+    state: session.state,
+    elapsedMs: getElapsedMs(session, now),
+    countdownRemainingMs,
+    isPending,
+    error,
+    isHost,
+    objectives,
+    saveObjectives,
+    can: (action: SessionAction) => canTransition(session.state, action),
+    start: () => transition('start'),
+    pause: () => transition('pause'),
+    resume: () => transition('resume'),
+    stop: () => transition('stop'),
+    /** Stop because a win condition triggered; every viewer sees the result */
+    end: (result: WinResult) => transition('stop', result),
+    reset: () => transition('reset'),
+    refresh,
+  }
+}
+
+export type GameSessionControls = ReturnType<typeof useGameSession>
@@ -0,0 +1,85 @@
+/**
+ * Hook for the live kill feed
+ *
+ * Resolves every hit_report from the project's devices and sends
+ * HIT_FORWARD / KILL_CONFIRMED feedback to the shooter's devices.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { HitReportMessage } from '@rayz/types'
+
+import {
+  getShooterDeviceIps,
+  resolveHit,
+  type KillFeedEntry,
+  type KillFeedProject,
+} from '@/lib/game/killFeed'
+import { isObjectiveType } from '@/lib/game/objectives'
+import { isDownedTag } from '@/lib/game/revive'
+import { useDeviceConnections } from '@/lib/websocket'
+
+interface UseKillFeedOptions {
+  /** Number of entries kept in the feed (default: 50) */
+  maxEntries?: number
+  /** Send HIT_FORWARD / KILL_CONFIRMED to the shooter (default: true) */
+  notifyShooter?: boolean
+  /** Called for every resolved hit */
+  onEntry?: (entry: KillFeedEntry) => void
+  /** Clock for entry timestamps (default: Date.now; replays pass their virtual clock) */
+  now?: () => number
+}
+
+export function useKillFeed(project: KillFeedProject, options: UseKillFeedOptions = {}) {
+  const { maxEntries = 50, notifyShooter = true, onEntry, now = Date.now } = options
+  const { subscribe, getConnection } = useDeviceConnections()
+  const [entries, setEntries] = useState<KillFeedEntry[]>([])
+
+  // Keep latest values without resubscribing on every device state change
+  const projectRef = useRef(project)
+  const getConnectionRef = useRef(getConnection)
+  const onEntryRef = useRef(onEntry)
+  const nowRef = useRef(now)
+  useEffect(() => {
+    projectRef.current = project
+    getConnectionRef.current = getConnection
+    onEntryRef.current = onEntry
+    nowRef.current = now
+  }, [project, getConnection, onEntry, now])
+
+  const sendFeedback = useCallback((entry: KillFeedEntry) => {
+    if (entry.kind === 'suicide' || entry.kind === 'unknown') return
+
+    for (const ip of getShooterDeviceIps(entry, projectRef.current)) {
+      const connection = getConnectionRef.current(ip)
+      if (!connection) continue
+      // Friendly kills are not confirmed as kills
+      if (entry.fatal && entry.kind === 'enemy') connection.confirmKill()
+      else connection.forwardHit(entry.shooterNumber)
+    }
+  }, [])
+
+  // Shots at objectives capture them (useObjectives) and are not part of the feed
+  const deviceIps = (project.devices || [])
+    .filter((d) => !isObjectiveType(d.objectiveType))
+    .map((d) => d.ipAddress)
+    .join(',')
+
+  useEffect(() => {
+    const ips = deviceIps ? deviceIps.split(',') : []
+    const unsubscribes = ips.map((ip) =>
+      subscribe(ip, 'hit', (hit: HitReportMessage) => {
+        // Tags on downed players are revive attempts, not part of the fight
+        if (isDownedTag(hit)) return
+        const entry = resolveHit(hit, ip, projectRef.current, nowRef.current())
+        setEntries((prev) => [entry, ...prev].slice(0, maxEntries))
+        if (notifyShooter) sendFeedback(entry)
+        onEntryRef.current?.(entry)
+      })
+    )
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [deviceIps, subscribe, maxEntries, notifyShooter, sendFeedback])
+
+  const clear = useCallback(() => setEntries([]), [])
+
+  return { entries, clear }
+}
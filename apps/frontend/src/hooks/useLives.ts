@@ -0,0 +1,140 @@
+/**
+ * Hook for the lives budget
+ *
+ * Counts fatal hit_reports per player while a game runs, keeps eliminated
+ * players down with STAY_DEAD_CONFIG and restores normal respawns on every
+ * player device once the game is over. A tab that joins a running game
+ * starts from the fatal hits recorded with the match so far.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { getActiveMatchLivesLost } from '@/features/matches/actions'
+import type { ConfigUpdateMessage, HitReportMessage } from '@rayz/types'
+
+import { getLivesLeft, respawnConfigOf, STAY_DEAD_CONFIG } from '@/lib/game/lives'
+import type { SessionState } from '@/lib/game/sessionMachine'
+import { useDeviceConnections } from '@/lib/websocket'
+import type { Project } from '@/components/project-manager/types'
+
+interface UseLivesOptions {
+  /** Lives per player, 0 = Unlimited */
+  lives: number
+  /** The game session state; counting restarts with each countdown */
+  state: SessionState
+  /** Send the stay-dead and restore configs; true in the host tab only */
+  sendConfig: boolean
+}
+
+export function useLives(project: Project, { lives, state, sendConfig }: UseLivesOptions) {
+  const { subscribe, getConnection } = useDeviceConnections()
+  // Fatal hits taken per player ID, seen here and recorded before this tab joined
+  const [counted, setCounted] = useState<Record<string, number>>({})
+  const [restored, setRestored] = useState<Record<string, number>>({})
+
+  const projectRef = useRef(project)
+  const getConnectionRef = useRef(getConnection)
+  useEffect(() => {
+    projectRef.current = project
+    getConnectionRef.current = getConnection
+  }, [project, getConnection])
+
+  const sendToPlayer = useCallback(
+    (playerId: string, config: Omit<ConfigUpdateMessage, 'op' | 'type'>) => {
+      for (const device of projectRef.current.devices) {
+        if (device.assignedPlayerId !== playerId) continue
+        getConnectionRef.current(device.ipAddress)?.updateConfig(config)
+      }
+    },
+    []
+  )
+
+  // A new game starts with full lives
+  const sawCountdownRef = useRef(false)
+  useEffect(() => {
+    if (state !== 'countdown') return
+    sawCountdownRef.current = true
+    setCounted({})
+    setRestored({})
+  }, [state])
+
+  const isCounting = lives > 0 && (state === 'running' || state === 'paused')
+  const deviceIps = (project.devices || []).map((d) => d.ipAddress).join(',')
+
+  // Joined after the countdown (reload, another operator): catch up on the match log
+  useEffect(() => {
+    if (!isCounting || sawCountdownRef.current) return
+    let cancelled = false
+    getActiveMatchLivesLost(projectRef.current.id).then((result) => {
+      if (!cancelled && result.livesLost) setRestored(result.livesLost)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [isCounting])
+
+  useEffect(() => {
+    if (!isCounting) return
+    const ips = deviceIps ? deviceIps.split(',') : []
+    const unsubscribes = ips.map((ip) =>
+      subscribe(ip, 'hit', (hit: HitReportMessage) => {
+        if (!hit.fatal) return
+        const device = projectRef.current.devices.find((d) => d.ipAddress === ip)
+        const playerId = device?.assignedPlayerId
+        if (!playerId) return
+        setCounted((prev) => ({ ...prev, [playerId]: (prev[playerId] ?? 0) + 1 }))
+      })
+    )
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [isCounting, deviceIps, subscribe])
+
+  const livesLost = useMemo(() => {
+    const total = { ...restored }
+    for (const [playerId, lost] of Object.entries(counted)) {
+      total[playerId] = (total[playerId] ?? 0) + lost
+    }
+    return total
+  }, [counted, restored])
+
+  const eliminated = useMemo(
+    () =>
+      new Set(
+        lives > 0 ? Object.keys(livesLost).filter((playerId) => livesLost[playerId] >= lives) : []
+      ),
+    [lives, livesLost]
+  )
+
+  // Players whose devices were sent STAY_DEAD_CONFIG and must be restored
+  const keptDownRef = useRef<Set<string>>(new Set())
+
+  useEffect(() => {
+    if (!sendConfig || !isCounting) return
+    for (const playerId of eliminated) {
+      if (keptDownRef.current.has(playerId)) continue
+      keptDownRef.current.add(playerId)
+      sendToPlayer(playerId, STAY_DEAD_CONFIG)
+    }
+  }, [sendConfig, isCounting, eliminated, sendToPlayer])
+
+  // Restore everyone, not only who this tab kept down: another tab may have
+  // sent STAY_DEAD_CONFIG before this one became the host
+  const wasCountingRef = useRef(false)
+  useEffect(() => {
+    if (isCounting) {
+      wasCountingRef.current = true
+      return
+    }
+    if (!wasCountingRef.current) return
+    wasCountingRef.current = false
+    keptDownRef.current.clear()
+    if (!sendConfig) return
+    const config = respawnConfigOf(projectRef.current.gameMode)
+    projectRef.current.players.forEach((player) => sendToPlayer(player.id, config))
+  }, [isCounting, sendConfig, sendToPlayer])
+
+  const livesLeft = useCallback(
+    (playerId: string) => getLivesLeft(lives, livesLost[playerId] ?? 0),
+    [lives, livesLost]
+  )
+
+  return { eliminated, livesLeft }
+}
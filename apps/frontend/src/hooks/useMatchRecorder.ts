@@ -0,0 +1,240 @@
+/**
+ * Hook for recording a match
+ *
+ * Starts/finishes Match records on the server and streams every
+ * gameplay protocol event from the project's devices into the match log.
+ *
+ * Every control tab follows the session's active match, but only the host tab
+ * captures device events and finishes or aborts it, so each event is recorded
+ * once. Other tabs only send what they produce themselves (referee revives).
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  abortMatch,
+  finishMatch,
+  getActiveMatch,
+  recordMatchEvents,
+  startMatch,
+} from '@/features/matches/actions'
+import type { DeviceLiveStats, DeviceStatusMessage, ServerMessage } from '@rayz/types'
+
+import type { SessionState } from '@/lib/game/sessionMachine'
+import type { WinConditions } from '@/lib/game/winConditions'
+import {
+  isProtocolEventType,
+  type MatchEventInput,
+  type MatchResult,
+  type MatchRuleset,
+  type ReviveEvent,
+} from '@/lib/match/types'
+import { useDeviceConnections } from '@/lib/websocket'
+import type { Project } from '@/components/project-manager/types'
+
+const FLUSH_INTERVAL_MS = 2000
+const FLUSH_BATCH_SIZE = 50
+/** Events kept while the server is unreachable; the oldest are dropped beyond that */
+const MAX_BUFFERED_EVENTS = 5000
+/** How long finishing waits for the devices' game_over and last status after STOP */
+const FINAL_MESSAGES_GRACE_MS = 1500
+
+function trimBuffer(buffer: MatchEventInput[]) {
+  const excess = buffer.length - MAX_BUFFERED_EVENTS
+  if (excess <= 0) return
+  buffer.splice(0, excess)
+  console.warn(`[Match] Buffer full, dropped the ${excess} oldest events`)
+}
+
+export interface ActiveMatch {
+  id: string
+  startedAt: Date
+  ruleset: MatchRuleset
+}
+
+interface UseMatchRecorderOptions {
+  /** Record only where the user may control the game; others are rejected by the server */
+  enabled: boolean
+  /** Capture device events and end the match; true in one tab only */
+  isHost: boolean
+  /** The shared session, which tells when a match started in another tab ends */
+  state: SessionState
+  /** The win condition that ended the game, if any; read when the host finishes */
+  getOutcome?: () => MatchResult | null
+}
+
+const isMatchState = (state: SessionState) =>
+  state === 'countdown' || state === 'running' || state === 'paused'
+
+export function useMatchRecorder(project: Project, options: UseMatchRecorderOptions) {
+  const { enabled, isHost, state, getOutcome } = options
+  const { subscribe } = useDeviceConnections()
+  const [match, setMatch] = useState<ActiveMatch | null>(null)
+
+  const bufferRef = useRef<MatchEventInput[]>([])
+  const flushingRef = useRef<Promise<boolean> | null>(null)
+  const lastStatsRef = useRef<Map<string, DeviceLiveStats>>(new Map())
+  const endingRef = useRef<string | null>(null)
+  const getOutcomeRef = useRef(getOutcome)
+  useEffect(() => {
+    getOutcomeRef.current = getOutcome
+  }, [getOutcome])
+
+  // Follow the running match: after a reload, or when another tab started it.
+  // Retried until found, since the session changes before the match is created.
+  const isFollowing = enabled && isMatchState(state) && match === null
+  useEffect(() => {
+    if (!isFollowing) return
+    let cancelled = false
+    const find = () =>
+      getActiveMatch(project.id).then((active) => {
+        if (!cancelled && active) setMatch(active)
+      })
+    find()
+    const interval = setInterval(find, FLUSH_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [project.id, isFollowing])
+
+  /**
+   * Send the buffered events; joins the flush in flight instead of starting another
+   * @returns false when recording failed and the events are still buffered
+   */
+  const flush = useCallback((matchId: string): Promise<boolean> => {
+    if (flushingRef.current) return flushingRef.current
+    if (bufferRef.current.length === 0) return Promise.resolve(true)
+
+    const batch = bufferRef.current.splice(0, bufferRef.current.length)
+    const flushing = recordMatchEvents(matchId, batch)
+      .then((result) => {
+        if (!result.error) return true
+        if (result.retryable) throw new Error(result.error)
+        // Not allowed, or the match is over: trying again cannot help.
+        // Letting go of the match picks up the one that replaced it, if any.
+        console.error(`[Match] Dropped ${batch.length} events:`, result.error)
+        setMatch((current) => (current?.id === matchId ? null : current))
+        return false
+      })
+      .catch((error) => {
+        console.error('[Match] Failed to record events:', error)
+        // Keep the events for the next attempt
+        bufferRef.current.unshift(...batch)
+        trimBuffer(bufferRef.current)
+        return false
+      })
+      .finally(() => {
+        flushingRef.current = null
+      })
+    flushingRef.current = flushing
+    return flushing
+  }, [])
+
+  /**
+   * Flush until the buffer is empty, including events that arrive meanwhile
+   */
+  const drain = useCallback(
+    async (matchId: string) => {
+      while (flushingRef.current || bufferRef.current.length > 0) {
+        if (!(await flush(matchId))) return
+      }
+    },
+    [flush]
+  )
+
+  // The host captures device events while a match is active
+  useEffect(() => {
+    if (!match || !isHost) return
+
+    const deviceIps = (project.devices || []).map((d) => d.ipAddress)
+    const unsubscribes = deviceIps.map((ip) =>
+      subscribe(ip, 'message', (message: ServerMessage) => {
+        if (!isProtocolEventType(message.type)) return
+
+        if (message.type === 'status') {
+          lastStatsRef.current.set(ip, (message as DeviceStatusMessage).stats)
+        }
+
+        bufferRef.current.push({
+          type: message.type,
+          deviceIp: ip,
+          payload: message,
+          receivedAt: Date.now(),
+        })
+        trimBuffer(bufferRef.current)
+        if (bufferRef.current.length >= FLUSH_BATCH_SIZE) flush(match.id)
+      })
+    )
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [match, isHost, project.devices, subscribe, flush])
+
+  useEffect(() => {
+    if (!match) return
+    const interval = setInterval(() => flush(match.id), FLUSH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [match, flush])
+
+  const start = useCallback(
+    async (winConditions?: WinConditions) => {
+      const result = await startMatch(project.id, winConditions)
+      if (result.error || !result.match) {
+        console.error('[Match] Failed to start match:', result.error)
+        return null
+      }
+      bufferRef.current = []
+      lastStatsRef.current = new Map()
+      setMatch(result.match)
+      return result.match
+    },
+    [project.id]
+  )
+
+  /**
+   * Add an event the app itself produced (not a device message) to the log
+   */
+  const record = useCallback(
+    (deviceIp: string, payload: ReviveEvent) => {
+      if (!match) return
+      bufferRef.current.push({ type: payload.type, deviceIp, payload, receivedAt: Date.now() })
+    },
+    [match]
+  )
+
+  // The session ended, in this tab or another: the host closes the match with
+  // the devices' final messages, the other tabs send what they have left
+  useEffect(() => {
+    if (!match || isMatchState(state) || endingRef.current === match.id) return
+    endingRef.current = match.id
+    const release = () => setMatch((current) => (current?.id === match.id ? null : current))
+
+    const end = async () => {
+      if (!isHost) {
+        await drain(match.id)
+      } else if (state === 'finished') {
+        // Devices answer STOP with game_over and a final status
+        await new Promise((resolve) => setTimeout(resolve, FINAL_MESSAGES_GRACE_MS))
+        await drain(match.id)
+        const outcome = getOutcomeRef.current?.() ?? null
+        const stats = Object.fromEntries(lastStatsRef.current)
+        lastStatsRef.current = new Map()
+        const result = await finishMatch(match.id, stats, outcome)
+        if (result.error) console.error('[Match] Failed to finish match:', result.error)
+      } else {
+        // Stopping during the countdown cancels the game
+        bufferRef.current = []
+        const result = await abortMatch(match.id)
+        if (result.error) console.error('[Match] Failed to abort match:', result.error)
+      }
+    }
+    // A new match may have started while this one was wrapping up
+    end().finally(release)
+  }, [match, state, isHost, drain])
+
+  return {
+    match,
+    isRecording: match !== null,
+    start,
+    record,
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Hook for objective devices
+ *
+ * Credits hit_reports on the project's objective devices to the shooter's
+ * team while the game runs and keeps the capture state and objective points.
+ * The host tab keeps the state and saves it with the game session; every
+ * other tab shows the saved state, and a new host carries on from it.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { HitReportMessage } from '@rayz/types'
+
+import {
+  applyObjectiveHit,
+  getObjectiveDevices,
+  getObjectiveScores,
+  initialObjectivesState,
+  objectiveRulesOf,
+  type ObjectivesState,
+} from '@/lib/game/objectives'
+import type { SessionState } from '@/lib/game/sessionMachine'
+import { useDeviceConnections } from '@/lib/websocket'
+import type { Project } from '@/components/project-manager/types'
+
+interface UseObjectivesOptions {
+  /** The game session state; captures restart with each countdown */
+  state: SessionState
+  /** Game time so far, excluding pauses; hold time is counted on it */
+  elapsedMs: number
+  /** Credit hits here; true in the host tab only */
+  isHost: boolean
+  /** The state saved with the session, null before the first capture */
+  saved: ObjectivesState | null
+  /** Called by the host with every new state */
+  onChange?: (state: ObjectivesState) => void
+}
+
+export function useObjectives(project: Project, options: UseObjectivesOptions) {
+  const { state, elapsedMs, isHost, saved, onChange } = options
+  const { subscribe } = useDeviceConnections()
+  const captureHits = project.gameMode?.captureHits
+  const holdSecondsPerPoint = project.gameMode?.holdSecondsPerPoint
+  const rules = useMemo(
+    () => objectiveRulesOf({ captureHits, holdSecondsPerPoint }),
+    [captureHits, holdSecondsPerPoint]
+  )
+
+  const objectiveDevices = getObjectiveDevices(project.devices)
+  // Changes when a device is flagged, unflagged or given another base team
+  const objectivesKey = objectiveDevices
+    .map((d) => `${d.ipAddress}:${d.objectiveType}:${d.objectiveTeamId ?? ''}`)
+    .join(',')
+  // Addresses may be host:port, so they are kept apart from the key above
+  const objectiveIpsKey = objectiveDevices.map((d) => d.ipAddress).join(',')
+  const objectiveIps = useMemo(
+    () => (objectiveIpsKey ? objectiveIpsKey.split(',') : []),
+    [objectiveIpsKey]
+  )
+  const [objectivesState, setObjectivesState] = useState(() =>
+    initialObjectivesState(project.devices)
+  )
+
+  const projectRef = useRef(project)
+  const rulesRef = useRef(rules)
+  const elapsedMsRef = useRef(elapsedMs)
+  const savedRef = useRef(saved)
+  const onChangeRef = useRef(onChange)
+  useEffect(() => {
+    projectRef.current = project
+    rulesRef.current = rules
+    elapsedMsRef.current = elapsedMs
+    savedRef.current = saved
+    onChangeRef.current = onChange
+  }, [project, rules, elapsedMs, saved, onChange])
+
+  // A new game (or another set of objectives) starts from neutral
+  useEffect(() => {
+    if (state === 'countdown' || state === 'idle') {
+      setObjectivesState(initialObjectivesState(projectRef.current.devices))
+    }
+  }, [state, objectivesKey])
+
+  const isRunning = state === 'running'
+  const isGameOn = isRunning || state === 'paused'
+
+  // Taking over a game in progress: carry on from what the last host saved.
+  // Read once when this tab becomes the host, not on every save.
+  useEffect(() => {
+    if (isHost && isGameOn && savedRef.current) setObjectivesState(savedRef.current)
+  }, [isHost, isGameOn])
+
+  const changedRef = useRef(false)
+  useEffect(() => {
+    if (!isRunning || !isHost) return
+    const unsubscribes = objectiveIps.map((ip) =>
+      subscribe(ip, 'hit', (hit: HitReportMessage) => {
+        const shooter = projectRef.current.players.find((p) => p.number === hit.shooter_id)
+        changedRef.current = true
+        setObjectivesState((prev) =>
+          applyObjectiveHit(prev, ip, shooter?.teamId, rulesRef.current, elapsedMsRef.current)
+        )
+      })
+    )
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [isRunning, isHost, objectiveIps, subscribe])
+
+  useEffect(() => {
+    if (!changedRef.current) return
+    changedRef.current = false
+    onChangeRef.current?.(objectivesState)
+  }, [objectivesState])
+
+  const shownState = isHost ? objectivesState : (saved ?? objectivesState)
+  const scores = useMemo(
+    () => getObjectiveScores(shownState, rules, elapsedMs),
+    [shownState, rules, elapsedMs]
+  )
+
+  return {
+    objectives: Object.values(shownState.objectives),
+    scores,
+    rules,
+    hasObjectives: objectiveDevices.length > 0,
+  }
+}
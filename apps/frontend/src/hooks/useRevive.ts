@@ -0,0 +1,103 @@
+/**
+ * Hook for manual respawns
+ *
+ * In manual respawn mode, sends REVIVE to a downed player's devices when a
+ * referee revives them or a medic of their team tags them, and reports every
+ * revive so it can be recorded in the match log. Falls back to auto respawns
+ * while a player's device cannot be revived.
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react'
+import type { HitReportMessage } from '@rayz/types'
+
+import { devicesWithoutRevive, findReviver, respawnModeOf } from '@/lib/game/revive'
+import type { ReviveEvent } from '@/lib/match/types'
+import { useDeviceConnections } from '@/lib/websocket'
+import type { Project } from '@/components/project-manager/types'
+
+interface UseReviveOptions {
+  /** Revive only while the game is running and the user may control it */
+  enabled: boolean
+  /** Revive on medic tags; true in the host tab only, so each tag revives once */
+  watchMedics?: boolean
+  /** Player IDs out of lives, who cannot be revived */
+  eliminated?: ReadonlySet<string>
+  /** Called for every device a REVIVE was sent to */
+  onRevive?: (deviceIp: string, event: ReviveEvent) => void
+}
+
+export function useRevive(project: Project, options: UseReviveOptions) {
+  const { enabled, watchMedics = true, eliminated, onRevive } = options
+  const { subscribe, getConnection, getDeviceState } = useDeviceConnections()
+  // Player devices that cannot be revived force auto respawns
+  const unsupportedDevices = useMemo(
+    () => devicesWithoutRevive(project.devices || [], (ip) => getDeviceState(ip)?.capabilities),
+    [project.devices, getDeviceState]
+  )
+  const isManual = respawnModeOf(project.gameMode, unsupportedDevices.length === 0) === 'manual'
+  const isActive = enabled && isManual
+
+  // Keep latest values without resubscribing on every device state change
+  const projectRef = useRef(project)
+  const eliminatedRef = useRef(eliminated)
+  const onReviveRef = useRef(onRevive)
+  useEffect(() => {
+    projectRef.current = project
+    eliminatedRef.current = eliminated
+    onReviveRef.current = onRevive
+  }, [project, eliminated, onRevive])
+
+  const isDown = useCallback(
+    (playerId: string) =>
+      projectRef.current.devices.some(
+        (d) => d.assignedPlayerId === playerId && getDeviceState(d.ipAddress)?.isRespawning
+      ),
+    [getDeviceState]
+  )
+
+  const canRevive = useCallback(
+    (playerId: string) => isActive && !eliminatedRef.current?.has(playerId) && isDown(playerId),
+    [isActive, isDown]
+  )
+
+  const revive = useCallback(
+    (playerId: string, event: ReviveEvent = { type: 'revive', by: 'referee' }) => {
+      if (!canRevive(playerId)) return false
+      let sent = false
+      for (const device of projectRef.current.devices) {
+        if (device.assignedPlayerId !== playerId) continue
+        if (!getConnection(device.ipAddress)?.sendGameCommand('revive')) continue
+        sent = true
+        onReviveRef.current?.(device.ipAddress, event)
+      }
+      return sent
+    },
+    [canRevive, getConnection]
+  )
+
+  // Medics revive teammates by tagging them
+  const deviceIps = (project.devices || []).map((d) => d.ipAddress).join(',')
+  const reviveRef = useRef(revive)
+  useEffect(() => {
+    reviveRef.current = revive
+  }, [revive])
+
+  useEffect(() => {
+    if (!isActive || !watchMedics) return
+    const ips = deviceIps ? deviceIps.split(',') : []
+    const unsubscribes = ips.map((ip) =>
+      subscribe(ip, 'hit', (hit: HitReportMessage) => {
+        const { devices, players } = projectRef.current
+        const victimId = devices.find((d) => d.ipAddress === ip)?.assignedPlayerId
+        const victim = players.find((p) => p.id === victimId)
+        if (!victim) return
+        const medic = findReviver(hit, victim, players)
+        if (!medic) return
+        reviveRef.current(victim.id, { type: 'revive', by: 'medic', medic_id: medic.number })
+      })
+    )
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [isActive, watchMedics, deviceIps, subscribe])
+
+  return { isManual, unsupportedDevices, canRevive, revive }
+}
@@ -0,0 +1,84 @@
+/**
+ * Hook for evaluating win conditions
+ *
+ * Checks the live device state against the match's win conditions while
+ * the game runs and reports the result once, when the first one triggers.
+ */
+
+import { useEffect, useRef } from 'react'
+
+import { buildLiveScoreboard } from '@/lib/game/liveScoreboard'
+import { evaluateWinConditions, type WinConditions, type WinResult } from '@/lib/game/winConditions'
+import { useDeviceConnections } from '@/lib/websocket'
+import type { Project } from '@/components/project-manager/types'
+
+interface UseWinConditionsOptions {
+  conditions: WinConditions
+  /** Evaluate only while the game is running */
+  enabled: boolean
+  /** Game time so far, excluding pauses */
+  elapsedMs: number
+  /** 0 = Manual Stop, the match never runs out of time */
+  durationSeconds: number
+  /** Player IDs out of lives */
+  eliminated?: ReadonlySet<string>
+  /** Downed players wait for a revive (manual respawn mode) */
+  manualRespawn?: boolean
+  /** Objective points per team ID */
+  objectiveScores?: Record<string, number>
+  onWin: (result: WinResult) => void
+}
+
+export function useWinConditions(
+  project: Project,
+  {
+    conditions,
+    enabled,
+    elapsedMs,
+    durationSeconds,
+    eliminated,
+    manualRespawn,
+    objectiveScores,
+    onWin,
+  }: UseWinConditionsOptions
+) {
+  const { getDeviceState, connectedDevices } = useDeviceConnections()
+  const firedRef = useRef(false)
+  const onWinRef = useRef(onWin)
+  useEffect(() => {
+    onWinRef.current = onWin
+  }, [onWin])
+
+  const timeExpired = durationSeconds > 0 && elapsedMs >= durationSeconds * 1000
+
+  useEffect(() => {
+    // Arm again for the next game
+    if (!enabled) {
+      firedRef.current = false
+      return
+    }
+    if (firedRef.current) return
+
+    const scoreboard = buildLiveScoreboard(project, getDeviceState)
+    const result = evaluateWinConditions(conditions, scoreboard, {
+      timeExpired,
+      eliminated,
+      manualRespawn,
+      objectiveScores,
+    })
+    if (!result) return
+
+    firedRef.current = true
+    onWinRef.current(result)
+  }, [
+    enabled,
+    conditions,
+    timeExpired,
+    eliminated,
+    manualRespawn,
+    objectiveScores,
+    project,
+    getDeviceState,
+    connectedDevices,
+  ])
+}
@@ -0,0 +1,149 @@
+/**
+ * AblyTransport - CloudTransport on Ably
+ *
+ * Authenticates through the token endpoint only, so the API key never reaches
+ * the browser. The SDK is loaded on demand; local mode never ships it.
+ */
+
+import type * as Ably from 'ably'
+
+import type {
+  CloudTransport,
+  TransportChannel,
+  TransportMessage,
+  TransportPresenceMember,
+} from './types'
+
+const CONNECT_TIMEOUT = 10000
+
+export interface AblyTransportConfig {
+  /** Token endpoint; called with `?sessionId=` and must return an Ably TokenRequest */
+  authUrl: string
+  sessionId: string
+  /** Public spectator screens authenticate with the project's live token */
+  liveToken?: string
+}
+
+export class AblyTransport implements CloudTransport {
+  readonly kind = 'ably' as const
+
+  private client: Ably.Realtime | null = null
+  private stateHandlers: Set<(state: 'connected' | 'disconnected') => void> = new Set()
+
+  constructor(private readonly config: AblyTransportConfig) {}
+
+  async connect(): Promise<void> {
+    const { Realtime } = await import('ably')
+
+    // The endpoint scopes the token to this session's channels and binds its
+    // clientId to the signed-in user
+    const client = new Realtime({
+      authUrl: this.config.authUrl,
+      authParams: {
+        sessionId: this.config.sessionId,
+        ...(this.config.liveToken && { liveToken: this.config.liveToken }),
+      },
+      autoConnect: true,
+    })
+    this.client = client
+
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error('Ably connection timeout'))
+      }, CONNECT_TIMEOUT)
+
+      client.connection.once('connected', () => {
+        clearTimeout(timeout)
+        resolve()
+      })
+
+      client.connection.once('failed', (stateChange) => {
+        clearTimeout(timeout)
+        reject(new Error(`Ably connection failed: ${stateChange.reason?.message ?? 'unknown'}`))
+      })
+    })
+
+    client.connection.on('disconnected', () => this.emitState('disconnected'))
+    client.connection.on('connected', () => this.emitState('connected'))
+  }
+
+  close(): void {
+    this.client?.close()
+    this.client = null
+  }
+
+  channel(name: string): TransportChannel {
+    if (!this.client) {
+      throw new Error('Ably is not connected')
+    }
+    return new AblyChannel(this.client.channels.get(name))
+  }
+
+  onStateChange(callback: (state: 'connected' | 'disconnected') => void): () => void {
+    this.stateHandlers.add(callback)
+    return () => this.stateHandlers.delete(callback)
+  }
+
+  private emitState(state: 'connected' | 'disconnected'): void {
+    this.stateHandlers.forEach((handler) => handler(state))
+  }
+}
+
+class AblyChannel implements TransportChannel {
+  private unsubscribers: Set<() => void> = new Set()
+
+  constructor(private readonly channel: Ably.RealtimeChannel) {}
+
+  readonly presence: TransportChannel['presence'] = {
+    enter: (data) => this.channel.presence.enter(data),
+    leave: () => this.channel.presence.leave(),
+    get: async () => (await this.channel.presence.get()).map(toMember),
+    subscribe: (event, callback) => {
+      const listener = (member: Ably.PresenceMessage) => callback(toMember(member))
+      this.channel.presence.subscribe(event, listener)
+      return this.track(() => this.channel.presence.unsubscribe(event, listener))
+    },
+  }
+
+  subscribe(name: string, callback: (message: TransportMessage) => void): () => void {
+    const listener = (message: Ably.InboundMessage) => callback(toMessage(message))
+    this.channel.subscribe(name, listener)
+    return this.track(() => this.channel.unsubscribe(name, listener))
+  }
+
+  async publish(name: string, data: unknown): Promise<void> {
+    await this.channel.publish(name, data)
+  }
+
+  async history(limit: number): Promise<TransportMessage[]> {
+    const page = await this.channel.history({ limit, direction: 'backwards' })
+    return page.items.map(toMessage)
+  }
+
+  unsubscribeAll(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+    this.unsubscribers.clear()
+  }
+
+  private track(unsubscribe: () => void): () => void {
+    const once = () => {
+      unsubscribe()
+      this.unsubscribers.delete(once)
+    }
+    this.unsubscribers.add(once)
+    return once
+  }
+}
+
+function toMessage(message: Ably.InboundMessage): TransportMessage {
+  return {
+    name: message.name ?? '',
+    data: message.data,
+    clientId: message.clientId,
+    timestamp: message.timestamp ?? Date.now(),
+  }
+}
+
+function toMember(member: Ably.PresenceMessage): TransportPresenceMember {
+  return { clientId: member.clientId, data: member.data }
+}
@@ -0,0 +1,163 @@
+/**
+ * AckTracker - Request/ACK correlation for device messages
+ *
+ * Tags outgoing messages with a `req_id`, waits for the matching
+ * `ack.reply_to` and retries with exponential backoff.
+ * Retries reuse the same `req_id`, so a late ACK for an earlier attempt
+ * still settles the request. Requests are keyed by device and `req_id`, so
+ * one command can be sent to many devices under a shared `req_id`.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new AckTracker((deviceId, msg) => comm.send(deviceId, msg))
+ * comm.onMessage('*', (msg, ip) => tracker.handleMessage(msg, ip))
+ * await tracker.sendWithAck('192.168.1.100', configMessage, { timeout: 1000, retries: 2 })
+ * ```
+ */
+
+import type { AckMessage, ClientMessage, ServerMessage } from '@rayz/types'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SendWithAckOptions {
+  /** Time to wait for the first ACK in ms (default: 1500) */
+  timeout?: number
+  /** Additional attempts after the first one (default: 2) */
+  retries?: number
+  /** Timeout multiplier applied on every retry (default: 2) */
+  backoff?: number
+}
+
+export type SendWithAck = (
+  deviceId: string,
+  message: ClientMessage,
+  options?: SendWithAckOptions
+) => Promise<AckMessage>
+
+export class AckTimeoutError extends Error {
+  constructor(
+    readonly deviceId: string,
+    readonly reqId: string,
+    readonly attempts: number
+  ) {
+    super(`No ACK from ${deviceId} after ${attempts} attempt${attempts === 1 ? '' : 's'}`)
+    this.name = 'AckTimeoutError'
+  }
+}
+
+export class AckRejectedError extends Error {
+  constructor(
+    readonly deviceId: string,
+    readonly reqId: string
+  ) {
+    super(`${deviceId} rejected request ${reqId}`)
+    this.name = 'AckRejectedError'
+  }
+}
+
+interface PendingRequest {
+  resolve: (ack: AckMessage) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+const DEFAULT_OPTIONS: Required<SendWithAckOptions> = {
+  timeout: 1500,
+  retries: 2,
+  backoff: 2,
+}
+
+// ============================================================================
+// MAIN CLASS
+// ============================================================================
+
+export class AckTracker {
+  private readonly pending = new Map<string, PendingRequest>()
+
+  constructor(private readonly send: (deviceId: string, message: ClientMessage) => boolean) {}
+
+  static createReqId(): string {
+    return crypto.randomUUID().slice(0, 8)
+  }
+
+  private static key(deviceId: string, reqId: string): string {
+    return `${deviceId}|${reqId}`
+  }
+
+  /**
+   * Send a message and resolve once the device acknowledges it.
+   * Rejects with AckTimeoutError or AckRejectedError.
+   */
+  sendWithAck: SendWithAck = (deviceId, message, options = {}) => {
+    const { timeout, retries, backoff } = { ...DEFAULT_OPTIONS, ...options }
+    const reqId = message.req_id ?? AckTracker.createReqId()
+    const tagged = { ...message, req_id: reqId } as ClientMessage
+    const key = AckTracker.key(deviceId, reqId)
+
+    // Supersede an identical request still in flight
+    const previous = this.pending.get(key)
+    if (previous) {
+      if (previous.timer) clearTimeout(previous.timer)
+      previous.reject(new Error(`Request ${reqId} to ${deviceId} was resent`))
+    }
+
+    return new Promise<AckMessage>((resolve, reject) => {
+      const request: PendingRequest = { resolve, reject, timer: null }
+      this.pending.set(key, request)
+
+      const attempt = (n: number) => {
+        if (this.pending.get(key) !== request) return
+
+        // A closed socket counts as a failed attempt; the device may come back
+        this.send(deviceId, tagged)
+
+        request.timer = setTimeout(
+          () => {
+            if (n < retries) {
+              attempt(n + 1)
+            } else {
+              this.pending.delete(key)
+              reject(new AckTimeoutError(deviceId, reqId, n + 1))
+            }
+          },
+          timeout * Math.pow(backoff, n)
+        )
+      }
+
+      attempt(0)
+    })
+  }
+
+  /**
+   * Feed incoming messages; settles the matching request on ACK
+   */
+  handleMessage(message: ServerMessage, fromDevice: string): void {
+    if (message.type !== 'ack' || !message.reply_to) return
+
+    const key = AckTracker.key(fromDevice, message.reply_to)
+    const request = this.pending.get(key)
+    if (!request) return
+
+    if (request.timer) clearTimeout(request.timer)
+    this.pending.delete(key)
+
+    if (message.success) {
+      request.resolve(message)
+    } else {
+      request.reject(new AckRejectedError(fromDevice, message.reply_to))
+    }
+  }
+
+  /**
+   * Reject every outstanding request (e.g. on disconnect)
+   */
+  cancelAll(reason = 'Connection closed'): void {
+    for (const [key, request] of this.pending) {
+      if (request.timer) clearTimeout(request.timer)
+      request.reject(new Error(`${reason} (${key})`))
+    }
+    this.pending.clear()
+  }
+}
@@ -1,66 +1,53 @@
 /**
- * CloudComm - Ably-based Communication for Cloud Mode
+ * CloudComm - Channel-based Communication for Cloud Mode
  *
- * Uses Ably pub/sub channels for real-time communication.
+ * Uses pub/sub channels for real-time communication, on whichever
+ * CloudTransport it is given (Ably or the self-hosted relay).
  * Used when the app runs on Vercel or other cloud environments.
  */
 
-import type { ClientMessage, ServerMessage } from '@rayz/types'
-
-import type { CloudCommConfig, CommConnectionState, GameComm } from './types'
-
-// Ably types (minimal for this implementation)
-interface AblyMessage {
-  name: string
-  data: unknown
-  clientId?: string
-}
-
-interface AblyChannel {
-  name: string
-  subscribe(callback: (message: AblyMessage) => void): void
-  subscribe(name: string, callback: (message: AblyMessage) => void): void
-  unsubscribe(): void
-  publish(name: string, data: unknown): Promise<void>
-  presence: {
-    enter(data?: unknown): Promise<void>
-    leave(): Promise<void>
-    get(): Promise<Array<{ clientId: string; data?: unknown }>>
-    subscribe(
-      event: 'enter' | 'leave' | 'update',
-      callback: (member: { clientId: string; data?: unknown }) => void
-    ): void
-  }
-}
-
-interface AblyRealtime {
-  connection: {
-    state: string
-    on(event: string, callback: (stateChange: { current: string }) => void): void
-    close(): void
-  }
-  channels: {
-    get(name: string): AblyChannel
-  }
-  close(): void
-}
-
-declare const Ably: {
-  Realtime: new (options: { key?: string; authUrl?: string; clientId: string }) => AblyRealtime
-}
+import {
+  decodeServerMessage,
+  validateClientMessage,
+  type AckMessage,
+  type ClientMessage,
+  type ServerMessage,
+} from '@rayz/types'
+
+import { AckTracker, type SendWithAckOptions } from './AckTracker'
+import { CHANNEL_PREFIX, deviceChannelName, gameChannelName } from './channels'
+import {
+  capabilitiesFromMessage,
+  createHello,
+  negotiate,
+  supportsGameCommand,
+  supportsOpcode,
+} from './handshake'
+import type {
+  CloudCommConfig,
+  CommConnectionState,
+  DeviceConnectionInfo,
+  GameComm,
+  TransportChannel,
+  TransportMessage,
+  TransportPresenceMember,
+} from './types'
 
 const DEFAULT_CONFIG: Partial<CloudCommConfig> = {
-  channelPrefix: 'rayz-game',
+  channelPrefix: CHANNEL_PREFIX,
   enableHistory: false,
 }
 
+/** Device messages fetched to prime state when history is enabled */
+const HISTORY_LIMIT = 100
+
 export class CloudComm implements GameComm {
   readonly mode = 'cloud' as const
 
   private config: CloudCommConfig
-  private ably: AblyRealtime | null = null
-  private gameChannel: AblyChannel | null = null
-  private deviceChannel: AblyChannel | null = null
+  private gameChannel: TransportChannel | null = null
+  private deviceChannel: TransportChannel | null = null
+  private unsubscribeTransport: (() => void) | null = null
   private _state: CommConnectionState = 'disconnected'
   private connectedDevices: Set<string> = new Set()
 
@@ -69,6 +56,10 @@ export class CloudComm implements GameComm {
     new Map()
   private stateHandlers: Set<(state: CommConnectionState) => void> = new Set()
   private errorHandlers: Set<(error: Error) => void> = new Set()
+  private deviceHandlers: Set<(deviceId: string, info: DeviceConnectionInfo) => void> = new Set()
+  // Devices the UI manages; presence decides whether they are connected
+  private trackedDevices: Map<string, DeviceConnectionInfo> = new Map()
+  private ackTracker = new AckTracker((deviceId, message) => this.send(deviceId, message))
 
   constructor(config: CloudCommConfig) {
     this.config = { ...DEFAULT_CONFIG, ...config } as CloudCommConfig
@@ -86,48 +77,12 @@ export class CloudComm implements GameComm {
     this.setState('connecting')
 
     try {
-      // Dynamically load Ably if not already loaded
-      if (typeof Ably === 'undefined') {
-        await this.loadAblyScript()
-      }
-
-      // Initialize Ably connection
-      const ablyOptions: { key?: string; authUrl?: string; clientId: string } = {
-        clientId: `browser-${Date.now()}`,
-      }
-
-      // Use API key directly or token authentication
-      if (this.config.apiKeyOrToken.includes(':')) {
-        // Looks like an API key
-        ablyOptions.key = this.config.apiKeyOrToken
-      } else {
-        // Use token authentication URL
-        ablyOptions.authUrl = this.config.apiKeyOrToken
-      }
-
-      this.ably = new Ably.Realtime(ablyOptions)
-
-      // Wait for connection
-      await new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          reject(new Error('Ably connection timeout'))
-        }, 10000)
-
-        this.ably!.connection.on('connected', () => {
-          clearTimeout(timeout)
-          resolve()
-        })
-
-        this.ably!.connection.on('failed', () => {
-          clearTimeout(timeout)
-          reject(new Error('Ably connection failed'))
-        })
-      })
+      const { transport, sessionId, channelPrefix } = this.config
+      await transport.connect()
 
       // Subscribe to channels
-      const channelName = `${this.config.channelPrefix}:${this.config.sessionId}`
-      this.gameChannel = this.ably.channels.get(channelName)
-      this.deviceChannel = this.ably.channels.get(`${channelName}:devices`)
+      this.gameChannel = transport.channel(gameChannelName(sessionId, channelPrefix))
+      this.deviceChannel = transport.channel(deviceChannelName(sessionId, channelPrefix))
 
       // Subscribe to device messages
       this.deviceChannel.subscribe('message', (msg) => {
@@ -136,30 +91,42 @@ export class CloudComm implements GameComm {
 
       // Subscribe to presence to track connected devices
       this.deviceChannel.presence.subscribe('enter', (member) => {
+        if (!isDevicePresence(member)) return
         this.connectedDevices.add(member.clientId)
+        this.updateDevice(member.clientId, { state: 'connected', lastConnected: new Date() })
+        this.send(member.clientId, createHello(['json']))
       })
 
       this.deviceChannel.presence.subscribe('leave', (member) => {
+        if (!isDevicePresence(member)) return
         this.connectedDevices.delete(member.clientId)
+        this.updateDevice(member.clientId, { state: 'disconnected' })
       })
 
       // Get current presence
-      const members = await this.deviceChannel.presence.get()
-      members.forEach((m) => this.connectedDevices.add(m.clientId))
+      await this.syncPresence()
+
+      if (this.config.enableHistory) {
+        await this.primeFromHistory()
+      }
 
       // Enter presence as browser client
       await this.gameChannel.presence.enter({ type: 'browser' })
 
-      // Listen for connection state changes
-      this.ably.connection.on('disconnected', () => {
-        this.setState('disconnected')
-      })
-
-      this.ably.connection.on('connected', () => {
-        this.setState('connected')
+      // Listen for connection state changes; presence may have changed while away
+      this.unsubscribeTransport = transport.onStateChange((state) => {
+        this.setState(state)
+        if (state === 'connected') {
+          this.syncPresence().catch((err) => {
+            console.warn('[CloudComm] Failed to refresh presence:', err)
+          })
+        }
       })
 
       this.setState('connected')
+
+      // Devices already present negotiate now that publishing is possible
+      this.connectedDevices.forEach((deviceId) => this.send(deviceId, createHello(['json'])))
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err))
       this.handleError(error)
@@ -170,40 +137,78 @@ export class CloudComm implements GameComm {
   disconnect(): void {
     if (this.gameChannel) {
       this.gameChannel.presence.leave().catch(() => {})
-      this.gameChannel.unsubscribe()
+      this.gameChannel.unsubscribeAll()
+      this.gameChannel = null
     }
 
     if (this.deviceChannel) {
-      this.deviceChannel.unsubscribe()
+      this.deviceChannel.unsubscribeAll()
+      this.deviceChannel = null
     }
 
-    if (this.ably) {
-      this.ably.close()
-      this.ably = null
-    }
+    this.unsubscribeTransport?.()
+    this.unsubscribeTransport = null
+    this.config.transport.close()
 
+    this.connectedDevices.forEach((deviceId) =>
+      this.updateDevice(deviceId, { state: 'disconnected' })
+    )
     this.connectedDevices.clear()
+    this.ackTracker.cancelAll('Disconnected')
     this.setState('disconnected')
   }
 
+  addDevice(deviceId: string): void {
+    if (this.trackedDevices.has(deviceId)) return
+    this.updateDevice(deviceId, {
+      state: this.connectedDevices.has(deviceId) ? 'connected' : 'disconnected',
+    })
+  }
+
+  removeDevice(deviceId: string): void {
+    this.trackedDevices.delete(deviceId)
+  }
+
+  /** Devices join through presence; there is nothing to retry from the browser */
+  retryDevice(deviceId: string): void {
+    this.addDevice(deviceId)
+  }
+
   send(deviceId: string, message: ClientMessage): boolean {
     if (!this.deviceChannel || this._state !== 'connected') {
       return false
     }
 
-    try {
-      // Publish to the device channel with target device ID
-      this.deviceChannel.publish('command', {
+    const capabilities = this.trackedDevices.get(deviceId)?.capabilities
+    if (!supportsOpcode(capabilities, message.op)) {
+      console.warn(`[CloudComm] ${deviceId} does not support '${message.type}'`)
+      return false
+    }
+    if (message.type === 'game_command' && !supportsGameCommand(capabilities, message.command)) {
+      console.warn(`[CloudComm] ${deviceId} does not support game command ${message.command}`)
+      return false
+    }
+
+    const payload = this.validate(message)
+    if (!payload) return false
+
+    // Publish to the device channel with target device ID
+    this.deviceChannel
+      .publish('command', {
         target: deviceId,
-        payload: message,
+        payload,
         timestamp: Date.now(),
       })
-      return true
-    } catch (err) {
-      const error = err instanceof Error ? err : new Error(String(err))
-      this.handleError(error)
-      return false
-    }
+      .catch((err) => this.handleError(err instanceof Error ? err : new Error(String(err))))
+    return true
+  }
+
+  sendWithAck(
+    deviceId: string,
+    message: ClientMessage,
+    options?: SendWithAckOptions
+  ): Promise<AckMessage> {
+    return this.ackTracker.sendWithAck(deviceId, message, options)
   }
 
   broadcast(message: ClientMessage): void {
@@ -211,15 +216,15 @@ export class CloudComm implements GameComm {
       return
     }
 
-    try {
-      this.deviceChannel.publish('broadcast', {
-        payload: message,
+    const payload = this.validate(message)
+    if (!payload) return
+
+    this.deviceChannel
+      .publish('broadcast', {
+        payload,
         timestamp: Date.now(),
       })
-    } catch (err) {
-      const error = err instanceof Error ? err : new Error(String(err))
-      this.handleError(error)
-    }
+      .catch((err) => this.handleError(err instanceof Error ? err : new Error(String(err))))
   }
 
   onMessage(
@@ -250,6 +255,15 @@ export class CloudComm implements GameComm {
     }
   }
 
+  onDeviceConnection(callback: (deviceId: string, info: DeviceConnectionInfo) => void): () => void {
+    this.deviceHandlers.add(callback)
+    return () => this.deviceHandlers.delete(callback)
+  }
+
+  getDeviceConnection(deviceId: string): DeviceConnectionInfo | undefined {
+    return this.trackedDevices.get(deviceId)
+  }
+
   getConnectedDevices(): string[] {
     return Array.from(this.connectedDevices)
   }
@@ -273,6 +287,65 @@ export class CloudComm implements GameComm {
     }
   }
 
+  private updateDevice(deviceId: string, update: Partial<DeviceConnectionInfo>): void {
+    const info = {
+      ...(this.trackedDevices.get(deviceId) ?? { state: 'disconnected' }),
+      ...update,
+    }
+    this.trackedDevices.set(deviceId, info)
+    this.deviceHandlers.forEach((handler) => handler(deviceId, info))
+  }
+
+  /** Reconcile connected devices with the device channel's presence set */
+  private async syncPresence(): Promise<void> {
+    if (!this.deviceChannel) return
+
+    const members = (await this.deviceChannel.presence.get()).filter(isDevicePresence)
+    const present = new Set(members.map((m) => m.clientId))
+
+    this.connectedDevices.forEach((deviceId) => {
+      if (present.has(deviceId)) return
+      this.connectedDevices.delete(deviceId)
+      this.updateDevice(deviceId, { state: 'disconnected' })
+    })
+    present.forEach((deviceId) => {
+      if (this.connectedDevices.has(deviceId)) return
+      this.connectedDevices.add(deviceId)
+      this.updateDevice(deviceId, { state: 'connected', lastConnected: new Date() })
+    })
+  }
+
+  /** Emit each device's most recent status so the UI does not start blank */
+  private async primeFromHistory(): Promise<void> {
+    if (!this.deviceChannel) return
+
+    try {
+      const history = await this.deviceChannel.history(HISTORY_LIMIT)
+      const seen = new Set<string>()
+      // Newest first: keep the first status per device, then replay oldest first
+      const latest = history.filter((msg) => {
+        const data = msg.data as { source?: string; payload?: { type?: string } } | undefined
+        if (msg.name !== 'message' || !data?.source || data.payload?.type !== 'status') return false
+        if (seen.has(data.source)) return false
+        seen.add(data.source)
+        return true
+      })
+      latest.reverse().forEach((msg) => this.handleDeviceMessage(msg))
+    } catch (err) {
+      console.warn('[CloudComm] Failed to load history:', err)
+    }
+  }
+
+  /** Invalid outgoing messages are a bug on our side, not a connection error */
+  private validate(message: ClientMessage): ClientMessage | null {
+    try {
+      return validateClientMessage(message)
+    } catch (err) {
+      console.error('[CloudComm]', err instanceof Error ? err.message : err)
+      return null
+    }
+  }
+
   private handleError(error: Error): void {
     this.setState('error')
     this.errorHandlers.forEach((handler) => {
@@ -284,18 +357,41 @@ export class CloudComm implements GameComm {
     })
   }
 
-  private handleDeviceMessage(msg: AblyMessage): void {
+  private handleDeviceMessage(msg: TransportMessage): void {
     try {
       const data = msg.data as {
         source: string
-        payload: ServerMessage
+        payload: unknown
       }
 
       if (!data || typeof data !== 'object' || !data.source || !data.payload) {
         return
       }
 
-      const { source: deviceId, payload: message } = data
+      const deviceId = data.source
+      const decoded = decodeServerMessage(data.payload)
+      if (!decoded.success) {
+        console.warn(`[CloudComm] Invalid frame from ${deviceId}: ${decoded.error}`)
+        this.updateDevice(deviceId, {
+          invalidFrames: (this.trackedDevices.get(deviceId)?.invalidFrames ?? 0) + 1,
+          lastInvalidFrame: decoded.error,
+        })
+        return
+      }
+
+      const message = decoded.message
+
+      if (message.type === 'capabilities') {
+        this.updateDevice(deviceId, negotiate(capabilitiesFromMessage(message)))
+      }
+
+      // Refused devices stay visible, but their traffic is ignored
+      const compatibility = this.trackedDevices.get(deviceId)?.compatibility
+      if (compatibility && compatibility !== 'compatible') {
+        return
+      }
+
+      this.ackTracker.handleMessage(message, deviceId)
 
       // Emit to specific device handlers
       this.messageHandlers.get(deviceId)?.forEach((handler) => {
@@ -318,20 +414,10 @@ export class CloudComm implements GameComm {
       console.error('[CloudComm] Failed to handle device message:', err)
     }
   }
+}
 
-  private async loadAblyScript(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (typeof document === 'undefined') {
-        reject(new Error('Cannot load Ably script in non-browser environment'))
-        return
-      }
-
-      const script = document.createElement('script')
-      script.src = 'https://cdn.ably.com/lib/ably.min-1.js'
-      script.async = true
-      script.onload = () => resolve()
-      script.onerror = () => reject(new Error('Failed to load Ably SDK'))
-      document.head.appendChild(script)
-    })
-  }
+/** Device channel presence is entered by gateways on behalf of their devices */
+function isDevicePresence(member: TransportPresenceMember): boolean {
+  const data = member.data as { type?: string } | undefined
+  return !data?.type || data.type === 'device'
 }
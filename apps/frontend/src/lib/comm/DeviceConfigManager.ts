@@ -23,6 +23,7 @@
  */
 
 import type { ClientMessage, OpCode } from '@rayz/types'
+import type { SendWithAckOptions } from './AckTracker'
 import type { GameComm } from './types'
 
 // ============================================================================
@@ -264,9 +265,10 @@ export class DeviceConfigManager {
 
   /**
    * Send full configuration to a device
-   * @returns true if sent successfully
+   * @returns true once the device acknowledged it, false if it has no config;
+   * rejects with AckTimeoutError / AckRejectedError otherwise
    */
-  async sendFullConfig(deviceIp: string): Promise<boolean> {
+  async sendFullConfig(deviceIp: string, options?: SendWithAckOptions): Promise<boolean> {
     const config = this.devices.get(deviceIp)
     if (!config) {
       console.warn(`[DeviceConfig] No config found for ${deviceIp}`)
@@ -274,26 +276,21 @@ export class DeviceConfigManager {
     }
 
     const message = this.buildConfigMessage(config)
-    return this.comm.send(deviceIp, message)
+    await this.comm.sendWithAck(deviceIp, message, options)
+    return true
   }
 
   /**
-   * Send configuration to all devices
+   * Send configuration to all devices in parallel
+   * @returns counts of acknowledged and failed devices
    */
   async sendToAllDevices(): Promise<{ sent: number; failed: number }> {
-    let sent = 0
-    let failed = 0
+    const results = await Promise.allSettled(
+      Array.from(this.devices.keys()).map((deviceIp) => this.sendFullConfig(deviceIp))
+    )
+    const sent = results.filter((r) => r.status === 'fulfilled' && r.value).length
 
-    for (const [deviceIp, config] of this.devices) {
-      const success = await this.sendFullConfig(deviceIp)
-      if (success) {
-        sent++
-      } else {
-        failed++
-      }
-    }
-
-    return { sent, failed }
+    return { sent, failed: results.length - sent }
   }
 
   /**
@@ -312,7 +309,8 @@ export class DeviceConfigManager {
       espnow_peers: config.espnowPeers.join(','),
     } as ClientMessage
 
-    return this.comm.send(deviceIp, message)
+    await this.comm.sendWithAck(deviceIp, message)
+    return true
   }
 
   /**
@@ -325,7 +323,8 @@ export class DeviceConfigManager {
       reset_to_defaults: true,
     } as ClientMessage
 
-    return this.comm.send(deviceIp, message)
+    await this.comm.sendWithAck(deviceIp, message)
+    return true
   }
 
   // ============================================================================
@@ -0,0 +1,171 @@
+/**
+ * DeviceStateStore - Per-device state derived from a GameComm
+ *
+ * Folds incoming protocol messages and connection changes into one
+ * `DeviceState` per device. The store owns no connections; it only listens,
+ * so every UI reads the same state from the same transport.
+ *
+ * Snapshots are immutable, which makes the store usable with
+ * React's `useSyncExternalStore`.
+ *
+ * @example
+ * ```typescript
+ * const store = new DeviceStateStore(comm)
+ * const detach = store.attach()
+ * store.track('192.168.1.100')
+ * store.subscribe(() => console.log(store.getSnapshot()))
+ * ```
+ */
+
+import { initialDeviceState, type DeviceState, type ServerMessage } from '@rayz/types'
+
+import type { DeviceConnectionInfo, GameComm } from './types'
+
+/**
+ * State changes caused by a single server message
+ */
+export function reduceDeviceMessage(
+  state: DeviceState,
+  message: ServerMessage
+): Partial<DeviceState> | null {
+  switch (message.type) {
+    case 'status':
+      return {
+        deviceId: message.config.device_id,
+        playerId: message.config.player_id,
+        teamId: message.config.team_id,
+        colorRgb: message.config.color_rgb,
+        kills: message.stats.enemy_kills,
+        deaths: message.stats.deaths,
+        shots: message.stats.shots,
+        friendlyKills: message.stats.friendly_kills,
+        hitsReceived: message.stats.hits_received || 0,
+        hearts: message.state.current_hearts,
+        isRespawning: message.state.is_respawning,
+        lastStatusUpdate: new Date(),
+      }
+
+    case 'heartbeat_ack':
+      return {
+        batteryVoltage: message.batt_voltage,
+        rssi: message.rssi,
+        lastHeartbeat: new Date(),
+      }
+
+    case 'shot_fired':
+      return { shots: state.shots + 1 }
+
+    case 'hit_report':
+      // Downed until the device reports its respawn
+      return message.fatal ? { hearts: 0, isRespawning: true } : null
+
+    case 'respawn':
+      return { hearts: message.current_hearts, isRespawning: false }
+
+    case 'reload_event':
+      return { isReloading: false, ammo: message.current_ammo }
+
+    default:
+      return null
+  }
+}
+
+export class DeviceStateStore {
+  private states = new Map<string, DeviceState>()
+  private readonly listeners = new Set<() => void>()
+
+  constructor(private readonly comm: GameComm) {}
+
+  /**
+   * Start listening to the comm
+   * @returns Function that stops listening
+   */
+  attach(): () => void {
+    const unsubscribes = [
+      this.comm.onMessage('*', (message, deviceId) => {
+        const current = this.states.get(deviceId) ?? initialDeviceState(deviceId)
+        const update = reduceDeviceMessage(current, message)
+        if (update) this.update(deviceId, update)
+      }),
+      this.comm.onDeviceConnection((deviceId, info) => this.applyConnection(deviceId, info)),
+    ]
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }
+
+  /**
+   * Start tracking a device; its state appears right away as disconnected
+   */
+  track(deviceId: string): void {
+    if (this.states.has(deviceId)) return
+    const info = this.comm.getDeviceConnection(deviceId)
+    this.update(deviceId, info ? this.fromConnection(info) : {})
+  }
+
+  /**
+   * Forget a device's state
+   */
+  untrack(deviceId: string): void {
+    if (!this.states.has(deviceId)) return
+    const next = new Map(this.states)
+    next.delete(deviceId)
+    this.commit(next)
+  }
+
+  /**
+   * Drop everything learned from messages; tracked devices keep their connection
+   * state. Used when a replay seeks backwards.
+   */
+  reset(): void {
+    const next = new Map<string, DeviceState>()
+    this.states.forEach((_, deviceId) => {
+      const info = this.comm.getDeviceConnection(deviceId)
+      next.set(deviceId, {
+        ...initialDeviceState(deviceId),
+        ...(info && this.fromConnection(info)),
+      })
+    })
+    this.commit(next)
+  }
+
+  get(deviceId: string): DeviceState | undefined {
+    return this.states.get(deviceId)
+  }
+
+  /** Current immutable snapshot of all device states */
+  getSnapshot = (): Map<string, DeviceState> => this.states
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private applyConnection(deviceId: string, info: DeviceConnectionInfo): void {
+    this.update(deviceId, this.fromConnection(info))
+  }
+
+  private fromConnection(info: DeviceConnectionInfo): Partial<DeviceState> {
+    return {
+      connectionState: info.state,
+      lastError: info.lastError,
+      ...(info.lastConnected && { lastConnected: info.lastConnected }),
+      ...(info.capabilities && { capabilities: info.capabilities }),
+      compatibility: info.compatibility,
+      ...(info.invalidFrames && {
+        invalidFrames: info.invalidFrames,
+        lastInvalidFrame: info.lastInvalidFrame,
+      }),
+    }
+  }
+
+  private update(deviceId: string, update: Partial<DeviceState>): void {
+    const current = this.states.get(deviceId) ?? initialDeviceState(deviceId)
+    const next = new Map(this.states)
+    next.set(deviceId, { ...current, ...update })
+    this.commit(next)
+  }
+
+  private commit(next: Map<string, DeviceState>): void {
+    this.states = next
+    this.listeners.forEach((listener) => listener())
+  }
+}
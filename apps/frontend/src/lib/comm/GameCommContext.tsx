@@ -4,8 +4,8 @@
  * GameComm React Context
  *
  * Provides the GameComm instance throughout the app with mode-aware setup.
- * This is a higher-level abstraction over the device connections that
- * automatically selects the appropriate communication backend.
+ * This is the single connection subsystem of the app: it owns the device
+ * connections (LocalComm or CloudComm) and the derived per-device state store.
  */
 import {
   createContext,
@@ -15,10 +15,12 @@ import {
   useMemo,
   useRef,
   useState,
+  useSyncExternalStore,
   type ReactNode,
 } from 'react'
-import type { ClientMessage, ServerMessage } from '@rayz/types'
+import type { ClientMessage, DeviceState, ServerMessage } from '@rayz/types'
 
+import { DeviceStateStore } from './DeviceStateStore'
 import { createGameComm, type CommConnectionState, type GameComm } from './index'
 import { getAppMode } from './mode'
 import type { AppMode, CloudCommConfig, LocalCommConfig } from './types'
@@ -29,6 +31,9 @@ export interface GameCommContextValue {
   /** The GameComm instance */
   comm: GameComm
 
+  /** Per-device state derived from the comm */
+  deviceStore: DeviceStateStore
+
   /** Current connection state */
   state: CommConnectionState
 
@@ -112,6 +117,9 @@ export interface GameCommProviderProps {
   /** Override automatic mode detection */
   mode?: AppMode
 
+  /** Use this comm instead of creating one (e.g. a ReplayComm) */
+  comm?: GameComm
+
   /** Session ID for cloud mode */
   sessionId?: string
 
@@ -137,6 +145,7 @@ export interface GameCommProviderProps {
 export function GameCommProvider({
   children,
   mode,
+  comm: providedComm,
   sessionId,
   localConfig,
   cloudConfig,
@@ -162,13 +171,17 @@ export function GameCommProvider({
 
   // Create comm instance
   const comm = useMemo(() => {
+    if (providedComm) return providedComm
     return createGameComm({
       mode,
       sessionId,
       localConfig,
       cloudConfig,
     })
-  }, [mode, sessionId, localConfig, cloudConfig])
+  }, [providedComm, mode, sessionId, localConfig, cloudConfig])
+
+  const deviceStore = useMemo(() => new DeviceStateStore(comm), [comm])
+  useEffect(() => deviceStore.attach(), [deviceStore])
 
   // Subscribe to comm events
   useEffect(() => {
@@ -187,10 +200,17 @@ export function GameCommProvider({
       onMessageRef.current?.(message, fromDevice)
     })
 
+    // The overall state stays 'connected' while individual devices come and go
+    const unsubDevices = comm.onDeviceConnection(() => {
+      const next = comm.getConnectedDevices()
+      setConnectedDevices((prev) => (prev.join(',') === next.join(',') ? prev : next))
+    })
+
     return () => {
       unsubState()
       unsubError()
       unsubMessage()
+      unsubDevices()
     }
   }, [comm])
 
@@ -240,6 +260,7 @@ export function GameCommProvider({
   const value: GameCommContextValue = useMemo(
     () => ({
       comm,
+      deviceStore,
       state,
       mode: comm.mode,
       connectedDevices,
@@ -252,12 +273,37 @@ export function GameCommProvider({
       broadcast,
       onMessage: subscribeToMessage,
     }),
-    [comm, state, connectedDevices, error, connect, disconnect, send, broadcast, subscribeToMessage]
+    [
+      comm,
+      deviceStore,
+      state,
+      connectedDevices,
+      error,
+      connect,
+      disconnect,
+      send,
+      broadcast,
+      subscribeToMessage,
+    ]
   )
 
   return <GameCommContext.Provider value={value}>{children}</GameCommContext.Provider>
 }
 
+// ============= Device State =============
+
+/**
+ * Hook for the derived per-device state of the current GameComm
+ */
+export function useDeviceStates(): Map<string, DeviceState> {
+  const { deviceStore } = useGameCommContext()
+  return useSyncExternalStore(
+    deviceStore.subscribe,
+    deviceStore.getSnapshot,
+    deviceStore.getSnapshot
+  )
+}
+
 // ============= Mode Indicator =============
 
 export function CommModeIndicator({ className }: { className?: string }) {
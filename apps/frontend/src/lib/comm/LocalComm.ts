@@ -1,41 +1,65 @@
 /**
  * LocalComm - Direct WebSocket Communication for Local Mode
  *
- * Connects DIRECTLY to ESP32 devices on the local network.
- * No bridge server required - reduced latency and simpler architecture.
+ * Connects to ESP32 devices on the local network, either directly at
+ * ws://<device-ip>/ws or through the ws-bridge (required on HTTPS pages,
+ * since the firmware only speaks plain ws://).
  *
  * Features:
- * - Per-device WebSocket connections at ws://<device-ip>/ws
- * - MessagePack binary protocol with JSON fallback
- * - Auto-reconnection with exponential backoff
- * - Connection state aggregation
+ * - One WebSocket per device, never opened twice
+ * - Hello/capabilities handshake; incompatible firmware is refused
+ * - JSON protocol (as spoken by firmware v2.2 and the bridge), MessagePack for
+ *   devices that announce it
+ * - Auto-reconnection with exponential backoff and a retry budget
+ * - Application-level heartbeat
+ * - Per-device connection info and aggregated connection state
  *
  * @example
  * ```typescript
- * const comm = new LocalComm({ useBinaryProtocol: true })
+ * const comm = new LocalComm({ bridgeUrl: 'ws://localhost:8080' })
  * comm.addDevice('192.168.1.100')
  * comm.send('192.168.1.100', { op: OpCode.GET_STATUS, type: 'get_status' })
  * comm.onMessage('*', (msg, ip) => console.log('From', ip, msg))
  * ```
  */
 
-import type { ClientMessage, ServerMessage } from '@rayz/types'
-import { encode, decode } from '@msgpack/msgpack'
-
-import type { CommConnectionState, GameComm, LocalCommConfig } from './types'
+import { decode, encode } from '@msgpack/msgpack'
+import {
+  decodeServerMessage,
+  isStatusFrame,
+  OpCode,
+  validateClientMessage,
+  type AckMessage,
+  type ClientMessage,
+  type DeviceCapabilities,
+  type ServerMessage,
+} from '@rayz/types'
+
+import { AckTracker, type SendWithAckOptions } from './AckTracker'
+import {
+  capabilitiesFromMessage,
+  createHello,
+  legacyCapabilities,
+  negotiate,
+  supportsGameCommand,
+  supportsOpcode,
+} from './handshake'
+import type { CommConnectionState, DeviceConnectionInfo, GameComm, LocalCommConfig } from './types'
 
 // ============================================================================
 // CONSTANTS & CONFIGURATION
 // ============================================================================
 
-const DEFAULT_CONFIG: Required<LocalCommConfig> = {
-  serverUrl: '', // Not used - kept for interface compatibility
+const DEFAULT_CONFIG: Required<Omit<LocalCommConfig, 'bridgeUrl' | 'bridgeToken'>> = {
   autoReconnect: true,
-  reconnectDelay: 3000,
-  maxRetries: Infinity,
+  reconnectDelay: 1000,
+  maxReconnectDelay: 30000,
+  maxRetries: 10,
   connectionTimeout: 5000,
-  heartbeatInterval: 0, // Native WebSocket ping/pong
-  useBinaryProtocol: true,
+  heartbeatInterval: 30000,
+  handshakeTimeout: 3000,
+  useBinaryProtocol: false,
+  logging: process.env.NODE_ENV !== 'production',
 } as const
 
 const LOG_PREFIX = '[LocalComm]' as const
@@ -47,34 +71,34 @@ const LOG_PREFIX = '[LocalComm]' as const
 interface DeviceConnection {
   readonly ip: string
   ws: WebSocket | null
-  connected: boolean
-  reconnecting: boolean
-  reconnectTimeout: NodeJS.Timeout | null
+  info: DeviceConnectionInfo
+  retries: number
+  shouldReconnect: boolean
+  reconnectTimeout: ReturnType<typeof setTimeout> | null
+  connectionTimeout: ReturnType<typeof setTimeout> | null
+  heartbeatInterval: ReturnType<typeof setInterval> | null
+  handshakeTimeout: ReturnType<typeof setTimeout> | null
+  handshaking: boolean
+  /** Waiting for a ws-bridge token before connecting */
+  authorizing: boolean
   lastActivity: number
 }
 
+/** Envelope used by the ws-bridge for device -> browser frames */
+interface BridgeEnvelope {
+  source: string
+  payload: unknown
+}
+
 type MessageHandler = (message: ServerMessage, device: string) => void
 type StateHandler = (state: CommConnectionState) => void
 type ErrorHandler = (error: Error) => void
+type DeviceConnectionHandler = (deviceId: string, info: DeviceConnectionInfo) => void
 
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
 
-/**
- * Safe console logger with prefix
- */
-const log = {
-  info: (msg: string, ...args: unknown[]) => console.log(`${LOG_PREFIX}`, msg, ...args),
-  warn: (msg: string, ...args: unknown[]) => console.warn(`${LOG_PREFIX}`, msg, ...args),
-  error: (msg: string, ...args: unknown[]) => console.error(`${LOG_PREFIX}`, msg, ...args),
-  debug: (msg: string, ...args: unknown[]) => {
-    if (process.env.NODE_ENV === 'development') {
-      console.debug(`${LOG_PREFIX}`, msg, ...args)
-    }
-  },
-}
-
 /**
  * Create a new device connection instance
  */
@@ -82,21 +106,47 @@ function createDeviceConnection(ip: string): DeviceConnection {
   return {
     ip,
     ws: null,
-    connected: false,
-    reconnecting: false,
+    info: { state: 'disconnected' },
+    retries: 0,
+    shouldReconnect: true,
     reconnectTimeout: null,
+    connectionTimeout: null,
+    heartbeatInterval: null,
+    handshakeTimeout: null,
+    handshaking: false,
+    authorizing: false,
     lastActivity: Date.now(),
   }
 }
 
 /**
- * Cleanup device connection resources
+ * Clear pending timers of a device connection
  */
-function cleanupDeviceConnection(device: DeviceConnection): void {
+function clearDeviceTimers(device: DeviceConnection): void {
   if (device.reconnectTimeout) {
     clearTimeout(device.reconnectTimeout)
     device.reconnectTimeout = null
   }
+  if (device.connectionTimeout) {
+    clearTimeout(device.connectionTimeout)
+    device.connectionTimeout = null
+  }
+  if (device.heartbeatInterval) {
+    clearInterval(device.heartbeatInterval)
+    device.heartbeatInterval = null
+  }
+  if (device.handshakeTimeout) {
+    clearTimeout(device.handshakeTimeout)
+    device.handshakeTimeout = null
+  }
+}
+
+/**
+ * Cleanup device connection resources
+ */
+function cleanupDeviceConnection(device: DeviceConnection): void {
+  device.shouldReconnect = false
+  clearDeviceTimers(device)
 
   if (device.ws) {
     device.ws.close()
@@ -104,6 +154,27 @@ function cleanupDeviceConnection(device: DeviceConnection): void {
   }
 }
 
+function isBridgeEnvelope(data: unknown): data is BridgeEnvelope {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as BridgeEnvelope).source === 'string' &&
+    typeof (data as BridgeEnvelope).payload === 'object'
+  )
+}
+
+/**
+ * Bridge status frames (device_list, device_discovered, ...) carry no opcode
+ */
+function isBridgeControlFrame(data: unknown): boolean {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    !('op' in data) &&
+    typeof (data as { type?: unknown }).type === 'string'
+  )
+}
+
 // ============================================================================
 // MAIN CLASS
 // ============================================================================
@@ -111,7 +182,8 @@ function cleanupDeviceConnection(device: DeviceConnection): void {
 export class LocalComm implements GameComm {
   readonly mode = 'local' as const
 
-  private readonly config: Required<LocalCommConfig>
+  private readonly config: Required<Omit<LocalCommConfig, 'bridgeUrl' | 'bridgeToken'>> &
+    Pick<LocalCommConfig, 'bridgeUrl' | 'bridgeToken'>
   private readonly devices = new Map<string, DeviceConnection>()
   private _state: CommConnectionState = 'disconnected'
 
@@ -119,10 +191,12 @@ export class LocalComm implements GameComm {
   private readonly messageHandlers = new Map<string, Set<MessageHandler>>()
   private readonly stateHandlers = new Set<StateHandler>()
   private readonly errorHandlers = new Set<ErrorHandler>()
+  private readonly deviceHandlers = new Set<DeviceConnectionHandler>()
+  private readonly ackTracker = new AckTracker((deviceId, message) => this.send(deviceId, message))
 
   constructor(config: LocalCommConfig = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config }
-    log.debug('Initialized with config:', this.config)
+    this.log('debug', 'Initialized with config:', this.config)
   }
 
   // ============================================================================
@@ -138,21 +212,20 @@ export class LocalComm implements GameComm {
    * @param ip - Device IP address (e.g., '192.168.1.100')
    */
   addDevice(ip: string): void {
-    if (!this.isValidIp(ip)) {
-      log.error(`Invalid IP address: ${ip}`)
+    if (!this.isValidAddress(ip)) {
+      this.log('error', `Invalid device address: ${ip}`)
       return
     }
 
     if (this.devices.has(ip)) {
-      log.info(`Device ${ip} already managed`)
       return
     }
 
     const device = createDeviceConnection(ip)
+    device.shouldReconnect = this.config.autoReconnect
     this.devices.set(ip, device)
-    this.connectToDevice(ip)
-    this.updateGlobalState()
-    log.info(`✓ Device ${ip} added`)
+    this.connectToDevice(device)
+    this.log('debug', `Device ${ip} added`)
   }
 
   /**
@@ -161,37 +234,66 @@ export class LocalComm implements GameComm {
    */
   removeDevice(ip: string): void {
     const device = this.devices.get(ip)
-    if (!device) {
-      log.warn(`Device ${ip} not found`)
-      return
-    }
+    if (!device) return
 
     cleanupDeviceConnection(device)
+    this.setDeviceInfo(device, { state: 'disconnected' })
     this.devices.delete(ip)
     this.updateGlobalState()
-    log.info(`Device ${ip} removed`)
+    this.log('debug', `Device ${ip} removed`)
   }
 
   /**
-   * Connect to all devices (compatibility method)
+   * Reconnect a device now, resetting its retry budget
+   * @param ip - Device IP address
+   */
+  retryDevice(ip: string): void {
+    const device = this.devices.get(ip)
+    if (!device) {
+      this.addDevice(ip)
+      return
+    }
+
+    clearDeviceTimers(device)
+    device.retries = 0
+    device.shouldReconnect = this.config.autoReconnect
+
+    if (device.ws) {
+      // onclose of the old socket must not schedule another reconnect
+      const ws = device.ws
+      device.ws = null
+      ws.onclose = null
+      ws.close()
+    }
+
+    this.connectToDevice(device)
+  }
+
+  /**
+   * (Re)connect every managed device that has no open connection
    */
   async connect(): Promise<void> {
-    this.setState('connected')
-    log.debug('Global connect called (no-op in direct mode)')
+    for (const device of this.devices.values()) {
+      if (device.ws) continue
+      device.retries = 0
+      device.shouldReconnect = this.config.autoReconnect
+      this.connectToDevice(device)
+    }
   }
 
   /**
-   * Disconnect from all devices
+   * Close all device connections; devices stay managed until removed
    */
   disconnect(): void {
-    log.info(`Disconnecting ${this.devices.size} devices`)
+    this.log('debug', `Disconnecting ${this.devices.size} devices`)
 
-    for (const [ip, device] of this.devices) {
+    for (const device of this.devices.values()) {
       cleanupDeviceConnection(device)
+      this.setDeviceInfo(device, { state: 'disconnected' })
     }
 
-    this.devices.clear()
-    this.setState('disconnected')
+    this.ackTracker.cancelAll('Disconnected')
+    this.updateGlobalState()
   }
 
   // ============================================================================
@@ -208,51 +310,74 @@ export class LocalComm implements GameComm {
     const device = this.devices.get(deviceId)
 
     if (!device?.ws || device.ws.readyState !== WebSocket.OPEN) {
-      log.warn(`Cannot send to ${deviceId} - not connected`)
+      if (device && device.info.lastError !== 'Cannot send: socket not open') {
+        this.setDeviceInfo(device, { lastError: 'Cannot send: socket not open' })
+      }
+      return false
+    }
+
+    if (!supportsOpcode(device.info.capabilities, message.op)) {
+      this.log('warn', `${deviceId} does not support '${message.type}' (opcode ${message.op})`)
+      return false
+    }
+    if (
+      message.type === 'game_command' &&
+      !supportsGameCommand(device.info.capabilities, message.command)
+    ) {
+      this.log('warn', `${deviceId} does not support game command ${message.command}`)
+      return false
+    }
+
+    let validated: ClientMessage
+    try {
+      validated = validateClientMessage(message)
+    } catch (err) {
+      this.handleError(err instanceof Error ? err : new Error(String(err)))
       return false
     }
 
     try {
-      const data = this.encodeMessage(message)
-      device.ws.send(data)
+      device.ws.send(this.encodeMessage(device, validated))
       device.lastActivity = Date.now()
       return true
     } catch (err) {
-      this.handleError(new Error(`Send error to ${deviceId}: ${err}`))
+      const msg = err instanceof Error ? err.message : String(err)
+      this.setDeviceInfo(device, { state: 'error', lastError: `Send failed: ${msg}` })
+      this.handleError(new Error(`Send error to ${deviceId}: ${msg}`))
       return false
     }
   }
 
+  /**
+   * Send message and wait for the device's ACK, retrying with backoff
+   * @param deviceId - Target device IP
+   * @param message - Protocol message
+   * @param options - Timeout, retries and backoff
+   */
+  sendWithAck(
+    deviceId: string,
+    message: ClientMessage,
+    options?: SendWithAckOptions
+  ): Promise<AckMessage> {
+    return this.ackTracker.sendWithAck(deviceId, message, options)
+  }
+
   /**
    * Broadcast message to all connected devices
    * @param message - Protocol message
    */
   broadcast(message: ClientMessage): void {
-    const data = this.encodeMessage(message)
-    let sentCount = 0
-    const totalDevices = this.devices.size
-
-    for (const [ip, device] of this.devices) {
-      if (device.ws?.readyState === WebSocket.OPEN) {
-        try {
-          device.ws.send(data)
-          device.lastActivity = Date.now()
-          sentCount++
-        } catch (err) {
-          log.error(`Broadcast error to ${ip}:`, err)
-        }
-      }
+    for (const ip of this.getConnectedDevices()) {
+      this.send(ip, message)
     }
-
-    log.debug(`Broadcast sent to ${sentCount}/${totalDevices} devices`)
   }
 
   // ============================================================================
-  // PUBLIC API - Event Handlers
+  // PUBLIC API - Event Subscriptions
   // ============================================================================
 
   /**
-   * Subscribe to messages from specific device or all devices
+   * Subscribe to messages from a device
    * @param deviceId - Device IP or '*' for all devices
    * @param callback - Message handler
    * @returns Unsubscribe function
@@ -289,149 +414,383 @@ export class LocalComm implements GameComm {
     return () => this.errorHandlers.delete(callback)
   }
 
+  /**
+   * Subscribe to per-device connection changes
+   * @param callback - Handler receiving the device IP and its connection info
+   * @returns Unsubscribe function
+   */
+  onDeviceConnection(callback: DeviceConnectionHandler): () => void {
+    this.deviceHandlers.add(callback)
+    return () => this.deviceHandlers.delete(callback)
+  }
+
   // ============================================================================
   // PUBLIC API - Status
   // ============================================================================
 
+  /**
+   * Get connection info for a managed device
+   */
+  getDeviceConnection(deviceId: string): DeviceConnectionInfo | undefined {
+    return this.devices.get(deviceId)?.info
+  }
+
   /**
    * Get list of connected device IPs
    */
   getConnectedDevices(): string[] {
-    return Array.from(this.devices.entries())
-      .filter(([_, device]) => device.connected)
-      .map(([ip, _]) => ip)
+    return Array.from(this.devices.values())
+      .filter((device) => device.info.state === 'connected')
+      .map((device) => device.ip)
   }
 
   /**
    * Check if specific device is connected
    */
   isDeviceConnected(deviceId: string): boolean {
-    return this.devices.get(deviceId)?.connected ?? false
+    return this.devices.get(deviceId)?.info.state === 'connected'
   }
 
   // ============================================================================
   // PRIVATE METHODS - Connection Management
   // ============================================================================
 
+  /**
+   * Resolve the WebSocket URL for a device, or null when it cannot be reached
+   */
+  private getDeviceUrl(ip: string): string | null {
+    if (this.config.bridgeUrl) {
+      // The bridge relays device frames to us in the encoding we ask for
+      const encoding = this.config.useBinaryProtocol ? '&encoding=msgpack' : ''
+      return `${this.config.bridgeUrl}?target=${encodeURIComponent(ip)}${encoding}`
+    }
+
+    // HTTPS pages cannot open ws:// and the firmware has no wss://
+    if (typeof window !== 'undefined' && window.location.protocol === 'https:') {
+      return null
+    }
+
+    return `ws://${ip}/ws`
+  }
+
   /**
    * Establish WebSocket connection to a device
    */
-  private connectToDevice(ip: string): void {
-    const device = this.devices.get(ip)
-    if (!device || device.connected || device.reconnecting) {
+  private connectToDevice(device: DeviceConnection): void {
+    const state = device.ws?.readyState
+    if (state === WebSocket.OPEN || state === WebSocket.CONNECTING || device.authorizing) {
+      return
+    }
+
+    const { maxRetries } = this.config
+    if (maxRetries > 0 && device.retries >= maxRetries) {
+      device.shouldReconnect = false
+      this.setDeviceInfo(device, {
+        state: 'error',
+        lastError: `Device offline (${maxRetries} attempts failed)`,
+      })
       return
     }
 
-    device.reconnecting = true
-    const wsUrl = `ws://${ip}/ws`
+    const wsUrl = this.getDeviceUrl(device.ip)
+    if (!wsUrl) {
+      if (device.retries === 0) {
+        this.log(
+          'warn',
+          `Cannot connect to ${device.ip}: HTTPS page cannot open ws:// (ESP32 does not support wss://). ` +
+            'Set NEXT_PUBLIC_WS_BRIDGE_URL or access this page over HTTP.'
+        )
+      }
+      device.shouldReconnect = false
+      this.setDeviceInfo(device, {
+        state: 'error',
+        lastError: 'HTTPS requires WebSocket bridge (ESP32 only supports ws://)',
+      })
+      return
+    }
+
+    if (device.retries === 0) {
+      this.log('debug', `Connecting to ${device.ip} via ${wsUrl}...`)
+    }
+    this.setDeviceInfo(device, { state: 'connecting', lastError: undefined })
+
+    if (this.config.bridgeUrl && this.config.bridgeToken) {
+      this.authorizeAndOpen(device, wsUrl, this.config.bridgeToken)
+    } else {
+      this.openWebSocket(device, wsUrl)
+    }
+  }
+
+  /**
+   * The bridge only accepts browsers with a token minted by the app
+   */
+  private async authorizeAndOpen(
+    device: DeviceConnection,
+    wsUrl: string,
+    getToken: () => Promise<string | null>
+  ): Promise<void> {
+    device.authorizing = true
+    let token: string | null
+    try {
+      token = await getToken()
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err)
+      device.authorizing = false
+      if (this.devices.get(device.ip) !== device) return
+      this.setDeviceInfo(device, { state: 'error', lastError: msg })
+      if (device.shouldReconnect && this.config.autoReconnect) {
+        device.retries++
+        this.scheduleReconnect(device)
+      }
+      return
+    }
+    device.authorizing = false
 
-    log.info(`Connecting to ${ip}...`)
+    // Removed or disconnected while the token was requested
+    if (this.devices.get(device.ip) !== device || device.info.state !== 'connecting') return
+    this.openWebSocket(device, token ? `${wsUrl}&token=${encodeURIComponent(token)}` : wsUrl)
+  }
 
+  /**
+   * Open the WebSocket of a device connection
+   */
+  private openWebSocket(device: DeviceConnection, wsUrl: string): void {
     try {
       const ws = new WebSocket(wsUrl)
-      const timeout = this.setupConnectionTimeout(device, ws)
+      ws.binaryType = 'arraybuffer'
+      device.ws = ws
+
+      device.connectionTimeout = setTimeout(() => {
+        if (ws.readyState === WebSocket.CONNECTING) {
+          // Triggers onclose, which schedules the reconnect
+          ws.close()
+        }
+      }, this.config.connectionTimeout)
 
-      ws.onopen = () => this.handleWebSocketOpen(device, ws, timeout)
-      ws.onmessage = (event) => this.handleWebSocketMessage(device, event)
-      ws.onclose = () => this.handleWebSocketClose(device)
-      ws.onerror = (err) => this.handleWebSocketError(device, err, timeout)
+      ws.onopen = () => this.handleWebSocketOpen(device, ws)
+      ws.onmessage = (event) => this.handleWebSocketMessage(device, ws, event)
+      ws.onclose = () => this.handleWebSocketClose(device, ws)
+      ws.onerror = () => this.handleWebSocketError(device, wsUrl)
     } catch (err) {
-      log.error(`Failed to create WebSocket for ${ip}:`, err)
-      device.reconnecting = false
+      const msg = err instanceof Error ? err.message : String(err)
+      device.ws = null
+      this.setDeviceInfo(device, {
+        state: 'error',
+        lastError: `Failed to create connection: ${msg}`,
+      })
       this.scheduleReconnect(device)
     }
   }
 
   /**
-   * Setup connection timeout
+   * Handle WebSocket open event
    */
-  private setupConnectionTimeout(
-    device: DeviceConnection,
-    ws: WebSocket
-  ): NodeJS.Timeout {
-    return setTimeout(() => {
-      if (!device.connected) {
-        log.warn(`Connection timeout for ${device.ip}`)
-        ws.close()
+  private handleWebSocketOpen(device: DeviceConnection, ws: WebSocket): void {
+    if (device.ws !== ws) return
+
+    if (device.connectionTimeout) {
+      clearTimeout(device.connectionTimeout)
+      device.connectionTimeout = null
+    }
+
+    this.log('debug', `Connected to ${device.ip}, negotiating...`)
+    device.retries = 0
+    device.lastActivity = Date.now()
+
+    // The device counts as connected once the handshake completes; firmware
+    // without HELLO support ignores it and only answers GET_STATUS
+    device.handshaking = true
+    this.send(device.ip, createHello())
+    this.send(device.ip, { op: OpCode.GET_STATUS, type: 'get_status' })
+
+    device.handshakeTimeout = setTimeout(() => {
+      device.handshakeTimeout = null
+      if (device.ws === ws && device.handshaking) {
+        this.completeHandshake(device, legacyCapabilities())
       }
-    }, this.config.connectionTimeout)
+    }, this.config.handshakeTimeout)
   }
 
   /**
-   * Handle WebSocket open event
+   * Apply negotiated capabilities: adapt to the device or refuse it
+   * @returns false when the device was refused
    */
-  private handleWebSocketOpen(
-    device: DeviceConnection,
-    ws: WebSocket,
-    timeout: NodeJS.Timeout
-  ): void {
-    clearTimeout(timeout)
-    log.info(`✓ Connected to ${device.ip}`)
+  private completeHandshake(device: DeviceConnection, capabilities: DeviceCapabilities): boolean {
+    device.handshaking = false
+    if (device.handshakeTimeout) {
+      clearTimeout(device.handshakeTimeout)
+      device.handshakeTimeout = null
+    }
 
-    device.ws = ws
-    device.connected = true
-    device.reconnecting = false
-    device.lastActivity = Date.now()
+    const update = negotiate(capabilities)
+
+    if (update.state === 'error') {
+      this.log('warn', `Refusing ${device.ip}: ${update.lastError}`)
+      device.shouldReconnect = false
+      clearDeviceTimers(device)
+      if (device.ws) {
+        // Close without triggering the reconnect in onclose
+        const ws = device.ws
+        device.ws = null
+        ws.onclose = null
+        ws.close()
+      }
+      this.setDeviceInfo(device, update)
+      return false
+    }
 
-    // Request initial status
-    this.send(device.ip, { op: 1, type: 'get_status' } as ClientMessage)
+    this.log(
+      'debug',
+      `${device.ip} speaks protocol ${capabilities.protocolVersion}` +
+        (capabilities.legacy ? ' (no handshake)' : ` (firmware ${capabilities.firmwareBuild})`)
+    )
+    this.setDeviceInfo(device, {
+      ...update,
+      ...(device.info.state !== 'connected' && { lastConnected: new Date() }),
+    })
 
-    this.updateGlobalState()
+    if (this.config.heartbeatInterval > 0 && !device.heartbeatInterval) {
+      device.heartbeatInterval = setInterval(() => {
+        this.send(device.ip, { op: OpCode.HEARTBEAT, type: 'heartbeat' })
+      }, this.config.heartbeatInterval)
+    }
+    return true
   }
 
   /**
    * Handle WebSocket message event
    */
-  private handleWebSocketMessage(device: DeviceConnection, event: MessageEvent): void {
+  private handleWebSocketMessage(
+    device: DeviceConnection,
+    ws: WebSocket,
+    event: MessageEvent
+  ): void {
+    if (device.ws !== ws) return
     device.lastActivity = Date.now()
 
+    let frame: unknown
     try {
-      const message = this.decodeMessage(event.data)
-      this.emitMessage(device.ip, message)
+      frame = this.decodeFrame(event.data)
     } catch (err) {
-      log.error(`Failed to handle message from ${device.ip}:`, err)
+      this.recordInvalidFrame(
+        device,
+        `Undecodable frame: ${err instanceof Error ? err.message : String(err)}`
+      )
+      return
+    }
+
+    // The bridge wraps device frames and only routes the ?target device to this
+    // connection; older bridges relay every device, so check the source
+    if (isBridgeEnvelope(frame)) {
+      if (frame.source !== device.ip) return
+      frame = frame.payload
+    } else if (this.config.bridgeUrl && isBridgeControlFrame(frame)) {
+      // The bridge kept a message while the device was away and gave up on it
+      const control = frame as { type: string; messageType?: string; reason?: string }
+      if (control.type === 'expired') {
+        this.log(
+          'warn',
+          `Bridge dropped ${control.messageType} for ${device.ip} (${control.reason})`
+        )
+      }
+      return
     }
+
+    const decoded = decodeServerMessage(frame)
+    if (!decoded.success) {
+      // A pre-v2.2 status fails validation but still identifies the firmware
+      if (device.handshaking && isStatusFrame(frame)) {
+        if (!this.completeHandshake(device, legacyCapabilities(frame))) return
+      }
+      this.recordInvalidFrame(device, decoded.error)
+      return
+    }
+
+    const message = decoded.message
+    if (message.type === 'capabilities') {
+      if (!this.completeHandshake(device, capabilitiesFromMessage(message))) return
+    } else if (device.handshaking && message.type === 'status') {
+      if (!this.completeHandshake(device, legacyCapabilities(message))) return
+    }
+
+    this.emitMessage(device.ip, message)
+  }
+
+  /**
+   * Count a frame that failed to decode or validate; it is not delivered
+   */
+  private recordInvalidFrame(device: DeviceConnection, error: string): void {
+    this.log('warn', `Invalid frame from ${device.ip}: ${error}`)
+    this.setDeviceInfo(device, {
+      invalidFrames: (device.info.invalidFrames ?? 0) + 1,
+      lastInvalidFrame: error,
+    })
   }
 
   /**
    * Handle WebSocket close event
    */
-  private handleWebSocketClose(device: DeviceConnection): void {
-    log.info(`Disconnected from ${device.ip}`)
+  private handleWebSocketClose(device: DeviceConnection, ws: WebSocket): void {
+    if (device.ws !== ws) return
 
+    clearDeviceTimers(device)
     device.ws = null
-    device.connected = false
-    device.reconnecting = false
 
-    this.updateGlobalState()
+    // Removed devices stay silent
+    if (this.devices.get(device.ip) !== device) return
+
+    this.setDeviceInfo(device, { state: 'disconnected' })
 
-    if (this.config.autoReconnect && this.devices.has(device.ip)) {
+    if (device.shouldReconnect && this.config.autoReconnect) {
+      device.retries++
       this.scheduleReconnect(device)
     }
   }
 
   /**
    * Handle WebSocket error event
+   * Browsers hide error details; add a hint for mixed content
    */
-  private handleWebSocketError(
-    device: DeviceConnection,
-    err: Event,
-    timeout: NodeJS.Timeout
-  ): void {
-    clearTimeout(timeout)
-    log.error(`WebSocket error for ${device.ip}:`, err)
-    device.reconnecting = false
+  private handleWebSocketError(device: DeviceConnection, wsUrl: string): void {
+    const isHttps = typeof window !== 'undefined' && window.location.protocol === 'https:'
+    const lastError =
+      isHttps && wsUrl.startsWith('ws://')
+        ? 'Blocked: insecure ws:// from HTTPS page'
+        : 'Connection failed'
+    this.setDeviceInfo(device, { lastError })
   }
 
   /**
-   * Schedule reconnection attempt
+   * Schedule reconnection attempt with exponential backoff
    */
   private scheduleReconnect(device: DeviceConnection): void {
+    const { maxRetries, reconnectDelay, maxReconnectDelay } = this.config
+
+    if (maxRetries > 0 && device.retries >= maxRetries) {
+      this.log('debug', `Max retries (${maxRetries}) reached for ${device.ip}. Device offline.`)
+      device.shouldReconnect = false
+      this.setDeviceInfo(device, {
+        state: 'error',
+        lastError: `Device offline (${maxRetries} attempts failed)`,
+      })
+      return
+    }
+
+    const delay = Math.min(reconnectDelay * Math.pow(2, device.retries), maxReconnectDelay)
+    // Only log every 3rd retry to reduce noise
+    if (device.retries <= 1 || device.retries % 3 === 0) {
+      this.log(
+        'debug',
+        `Reconnecting to ${device.ip} in ${delay}ms (attempt ${device.retries}/${maxRetries || '∞'})`
+      )
+    }
+
     device.reconnectTimeout = setTimeout(() => {
-      if (this.devices.has(device.ip)) {
-        this.connectToDevice(device.ip)
+      device.reconnectTimeout = null
+      if (this.devices.get(device.ip) === device && device.shouldReconnect) {
+        this.connectToDevice(device)
       }
-    }, this.config.reconnectDelay)
+    }, delay)
   }
 
   // ============================================================================
@@ -439,43 +798,47 @@ export class LocalComm implements GameComm {
   // ============================================================================
 
   /**
-   * Encode message to binary or JSON
+   * Encode message to JSON, or MessagePack when enabled and the device accepts it.
+   * The bridge translates MessagePack for devices that only speak JSON.
    */
-  private encodeMessage(message: ClientMessage): string | ArrayBuffer {
-    if (!this.config.useBinaryProtocol) {
+  private encodeMessage(device: DeviceConnection, message: ClientMessage): string | ArrayBuffer {
+    const msgpack =
+      this.config.useBinaryProtocol &&
+      (!!this.config.bridgeUrl || device.info.capabilities?.encodings.includes('msgpack'))
+    if (!msgpack) {
       return JSON.stringify(message)
     }
 
     try {
       const encoded = encode(message)
       // Convert Uint8Array to ArrayBuffer for WebSocket
-      return encoded.buffer.slice(encoded.byteOffset, encoded.byteOffset + encoded.byteLength)
+      return encoded.buffer.slice(
+        encoded.byteOffset,
+        encoded.byteOffset + encoded.byteLength
+      ) as ArrayBuffer
     } catch (err) {
-      log.warn('MessagePack encode failed, falling back to JSON:', err)
+      this.log('warn', 'MessagePack encode failed, falling back to JSON:', err)
       return JSON.stringify(message)
     }
   }
 
   /**
-   * Decode message from binary or JSON
+   * Decode a frame: text frames are JSON, binary frames are MessagePack
    */
-  private decodeMessage(data: string | ArrayBuffer): ServerMessage {
+  private decodeFrame(data: string | ArrayBuffer): unknown {
     if (data instanceof ArrayBuffer) {
-      try {
-        return decode(new Uint8Array(data)) as ServerMessage
-      } catch (err) {
-        log.error('MessagePack decode failed:', err)
-        throw err
-      }
+      return decode(new Uint8Array(data))
     }
 
-    return JSON.parse(data) as ServerMessage
+    return JSON.parse(data)
   }
 
   /**
    * Emit message to handlers
    */
   private emitMessage(deviceIp: string, message: ServerMessage): void {
+    this.ackTracker.handleMessage(message, deviceIp)
+
     // Device-specific handlers
     this.invokeHandlers(this.messageHandlers.get(deviceIp), message, deviceIp)
 
@@ -495,7 +858,7 @@ export class LocalComm implements GameComm {
       try {
         handler(message, deviceIp)
       } catch (err) {
-        log.error(`Error in message handler for ${deviceIp}:`, err)
+        this.log('error', `Error in message handler for ${deviceIp}:`, err)
       }
     })
   }
@@ -504,22 +867,38 @@ export class LocalComm implements GameComm {
   // PRIVATE METHODS - State Management
   // ============================================================================
 
+  /**
+   * Update a device's connection info and notify handlers
+   */
+  private setDeviceInfo(device: DeviceConnection, update: Partial<DeviceConnectionInfo>): void {
+    device.info = { ...device.info, ...update }
+
+    this.deviceHandlers.forEach((handler) => {
+      try {
+        handler(device.ip, device.info)
+      } catch (err) {
+        this.log('error', 'Error in device connection handler:', err)
+      }
+    })
+
+    if (update.state) this.updateGlobalState()
+  }
+
   /**
    * Update global connection state based on device states
    */
   private updateGlobalState(): void {
-    const hasDevices = this.devices.size > 0
-    const anyConnected = Array.from(this.devices.values()).some((d) => d.connected)
-    const allReconnecting = Array.from(this.devices.values()).every((d) => d.reconnecting)
+    const devices = Array.from(this.devices.values())
 
     let newState: CommConnectionState
-
-    if (!hasDevices) {
+    if (devices.length === 0) {
       newState = 'disconnected'
-    } else if (anyConnected) {
+    } else if (devices.some((d) => d.info.state === 'connected')) {
       newState = 'connected'
-    } else if (allReconnecting) {
+    } else if (devices.some((d) => d.info.state === 'connecting' || d.reconnectTimeout)) {
       newState = 'connecting'
+    } else if (devices.every((d) => d.info.state === 'error')) {
+      newState = 'error'
     } else {
       newState = 'disconnected'
     }
@@ -534,13 +913,13 @@ export class LocalComm implements GameComm {
    */
   private setState(state: CommConnectionState): void {
     this._state = state
-    log.debug(`State changed: ${state}`)
+    this.log('debug', `State changed: ${state}`)
 
     this.stateHandlers.forEach((handler) => {
       try {
         handler(state)
       } catch (err) {
-        log.error('Error in state handler:', err)
+        this.log('error', 'Error in state handler:', err)
       }
     })
   }
@@ -549,33 +928,45 @@ export class LocalComm implements GameComm {
    * Handle error and notify handlers
    */
   private handleError(error: Error): void {
-    log.error(error.message)
+    this.log('error', error.message)
 
     this.errorHandlers.forEach((handler) => {
       try {
         handler(error)
       } catch (err) {
-        log.error('Error in error handler:', err)
+        this.log('error', 'Error in error handler:', err)
       }
     })
   }
 
+  /**
+   * Prefixed console logger; debug and warn output follow the `logging` option
+   */
+  private log(level: 'debug' | 'warn' | 'error', msg: string, ...args: unknown[]): void {
+    if (level === 'error') {
+      console.error(LOG_PREFIX, msg, ...args)
+    } else if (level === 'warn' && this.config.logging) {
+      console.warn(LOG_PREFIX, msg, ...args)
+    } else if (this.config.logging) {
+      console.log(LOG_PREFIX, msg, ...args)
+    }
+  }
+
   // ============================================================================
   // PRIVATE METHODS - Validation
   // ============================================================================
 
   /**
-   * Validate IP address format (basic validation)
+   * Validate device address: IPv4 or hostname, optionally with a port
    */
-  private isValidIp(ip: string): boolean {
-    const ipRegex = /^(\d{1,3}\.){3}\d{1,3}$/
-    if (!ipRegex.test(ip)) {
-      return false
-    }
+  private isValidAddress(address: string): boolean {
+    const [host, port, ...rest] = address.split(':')
+    if (rest.length > 0 || !host) return false
+    if (port !== undefined && !/^\d{1,5}$/.test(port)) return false
 
-    return ip.split('.').every((octet) => {
-      const num = parseInt(octet, 10)
-      return num >= 0 && num <= 255
-    })
+    if (/^(\d{1,3}\.){3}\d{1,3}$/.test(host)) {
+      return host.split('.').every((octet) => parseInt(octet, 10) <= 255)
+    }
+    return /^[a-z0-9]([a-z0-9.-]*[a-z0-9])?$/i.test(host)
   }
 }
@@ -0,0 +1,342 @@
+/**
+ * RelayTransport - CloudTransport on the self-hosted realtime relay
+ *
+ * Speaks the relay's JSON protocol (apps/realtime-relay) over one WebSocket.
+ * Tokens come from the token endpoint and are renewed by reconnecting, so a
+ * token expiry looks like a short disconnect. After every reconnect channels
+ * are re-attached and presence is re-entered.
+ */
+
+import type {
+  CloudTransport,
+  TransportChannel,
+  TransportMessage,
+  TransportPresenceMember,
+} from './types'
+
+const CONNECT_TIMEOUT = 10000
+const REQUEST_TIMEOUT = 10000
+const RECONNECT_DELAY = 1000
+const MAX_RECONNECT_DELAY = 30000
+
+export interface RelayTransportConfig {
+  /** Relay WebSocket URL, e.g. wss://relay.example.com */
+  url: string
+  /** Token endpoint; called with `?sessionId=` and must return `{ token }` */
+  tokenUrl: string
+  sessionId: string
+  /** Public spectator screens authenticate with the project's live token */
+  liveToken?: string
+}
+
+type RelayFrame =
+  | { action: 'connected'; clientId: string }
+  | { action: 'reply'; id: number; result?: unknown; error?: string }
+  | { action: 'message'; channel: string; message: TransportMessage }
+  | {
+      action: 'presence'
+      channel: string
+      event: 'enter' | 'leave'
+      member: TransportPresenceMember
+    }
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+export class RelayTransport implements CloudTransport {
+  readonly kind = 'relay' as const
+
+  private ws: WebSocket | null = null
+  private connected = false
+  private closed = false
+  private nextRequestId = 1
+  private reconnectDelay = RECONNECT_DELAY
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private pending: Map<number, PendingRequest> = new Map()
+  private channels: Map<string, RelayChannel> = new Map()
+  private stateHandlers: Set<(state: 'connected' | 'disconnected') => void> = new Set()
+
+  constructor(private readonly config: RelayTransportConfig) {}
+
+  async connect(): Promise<void> {
+    this.closed = false
+    await this.open()
+  }
+
+  close(): void {
+    this.closed = true
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = null
+    this.ws?.close()
+    this.ws = null
+    this.connected = false
+    this.failPending('Relay connection closed')
+  }
+
+  channel(name: string): TransportChannel {
+    let channel = this.channels.get(name)
+    if (!channel) {
+      channel = new RelayChannel(name, this)
+      this.channels.set(name, channel)
+    }
+    return channel
+  }
+
+  onStateChange(callback: (state: 'connected' | 'disconnected') => void): () => void {
+    this.stateHandlers.add(callback)
+    return () => this.stateHandlers.delete(callback)
+  }
+
+  /**
+   * Send a request and wait for its reply
+   * @throws Error when disconnected, on timeout, or when the relay refuses it
+   */
+  request(action: string, params: Record<string, unknown>): Promise<unknown> {
+    if (!this.connected || this.ws?.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Relay is not connected'))
+    }
+
+    const id = this.nextRequestId++
+    const ws = this.ws
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new Error(`Relay request '${action}' timed out`))
+      }, REQUEST_TIMEOUT)
+      this.pending.set(id, { resolve, reject, timer })
+      ws.send(JSON.stringify({ action, id, ...params }))
+    })
+  }
+
+  // ============= Private Methods =============
+
+  private async open(): Promise<void> {
+    const token = await this.fetchToken()
+    const url = new URL(this.config.url)
+    url.searchParams.set('token', token)
+
+    const ws = new WebSocket(url)
+    this.ws = ws
+
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        ws.close()
+        reject(new Error('Relay connection timeout'))
+      }, CONNECT_TIMEOUT)
+
+      ws.onmessage = (event) => {
+        const frame = parseFrame(event.data)
+        if (frame?.action === 'connected') {
+          clearTimeout(timeout)
+          this.connected = true
+          this.reconnectDelay = RECONNECT_DELAY
+          ws.onmessage = (e) => this.handleFrame(e.data)
+          resolve()
+        }
+      }
+
+      ws.onclose = (event) => {
+        clearTimeout(timeout)
+        reject(new Error(`Relay connection failed: ${event.reason || `code ${event.code}`}`))
+      }
+    })
+
+    ws.onclose = () => this.handleClose(ws)
+  }
+
+  private async fetchToken(): Promise<string> {
+    const url = new URL(this.config.tokenUrl, window.location.origin)
+    url.searchParams.set('sessionId', this.config.sessionId)
+    if (this.config.liveToken) url.searchParams.set('liveToken', this.config.liveToken)
+
+    const response = await fetch(url)
+    const body = (await response.json().catch(() => ({}))) as { token?: string; error?: string }
+    if (!response.ok || !body.token) {
+      throw new Error(`Relay token request failed: ${body.error ?? response.status}`)
+    }
+    return body.token
+  }
+
+  private handleClose(ws: WebSocket): void {
+    if (ws !== this.ws) return
+
+    this.ws = null
+    this.connected = false
+    this.failPending('Relay connection lost')
+    if (this.closed) return
+
+    this.stateHandlers.forEach((handler) => handler('disconnected'))
+    this.scheduleReconnect()
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null
+      try {
+        await this.open()
+        await Promise.all([...this.channels.values()].map((channel) => channel.restore()))
+        this.stateHandlers.forEach((handler) => handler('connected'))
+      } catch (err) {
+        console.warn('[RelayTransport] Reconnect failed:', err instanceof Error ? err.message : err)
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY)
+        if (!this.closed) this.scheduleReconnect()
+      }
+    }, this.reconnectDelay)
+  }
+
+  private handleFrame(raw: unknown): void {
+    const frame = parseFrame(raw)
+    if (!frame) return
+
+    switch (frame.action) {
+      case 'reply': {
+        const request = this.pending.get(frame.id)
+        if (!request) return
+        this.pending.delete(frame.id)
+        clearTimeout(request.timer)
+        if (frame.error) request.reject(new Error(frame.error))
+        else request.resolve(frame.result)
+        break
+      }
+      case 'message':
+        this.channels.get(frame.channel)?.handleMessage(frame.message)
+        break
+      case 'presence':
+        this.channels.get(frame.channel)?.handlePresence(frame.event, frame.member)
+        break
+    }
+  }
+
+  private failPending(reason: string): void {
+    this.pending.forEach((request) => {
+      clearTimeout(request.timer)
+      request.reject(new Error(reason))
+    })
+    this.pending.clear()
+  }
+}
+
+class RelayChannel implements TransportChannel {
+  private attached = false
+  private messageHandlers: Map<string, Set<(message: TransportMessage) => void>> = new Map()
+  private presenceHandlers = {
+    enter: new Set<(member: TransportPresenceMember) => void>(),
+    leave: new Set<(member: TransportPresenceMember) => void>(),
+  }
+  /** Our own presence data, re-entered after a reconnect */
+  private entered: { data?: unknown } | null = null
+
+  constructor(
+    private readonly name: string,
+    private readonly transport: RelayTransport
+  ) {}
+
+  readonly presence: TransportChannel['presence'] = {
+    enter: async (data) => {
+      this.entered = { data }
+      await this.transport.request('presence.enter', { channel: this.name, data })
+    },
+    leave: async () => {
+      this.entered = null
+      await this.transport.request('presence.leave', { channel: this.name })
+    },
+    get: async () =>
+      (await this.transport.request('presence.get', {
+        channel: this.name,
+      })) as TransportPresenceMember[],
+    subscribe: (event, callback) => {
+      this.presenceHandlers[event].add(callback)
+      this.attach()
+      return () => this.presenceHandlers[event].delete(callback)
+    },
+  }
+
+  subscribe(name: string, callback: (message: TransportMessage) => void): () => void {
+    if (!this.messageHandlers.has(name)) {
+      this.messageHandlers.set(name, new Set())
+    }
+    this.messageHandlers.get(name)!.add(callback)
+    this.attach()
+
+    return () => {
+      this.messageHandlers.get(name)?.delete(callback)
+    }
+  }
+
+  async publish(name: string, data: unknown): Promise<void> {
+    await this.transport.request('publish', { channel: this.name, name, data })
+  }
+
+  async history(limit: number): Promise<TransportMessage[]> {
+    return (await this.transport.request('history', {
+      channel: this.name,
+      limit,
+    })) as TransportMessage[]
+  }
+
+  unsubscribeAll(): void {
+    this.messageHandlers.clear()
+    this.presenceHandlers.enter.clear()
+    this.presenceHandlers.leave.clear()
+    if (this.attached) {
+      this.attached = false
+      this.transport.request('detach', { channel: this.name }).catch(() => {})
+    }
+  }
+
+  /** Re-attach and re-enter presence on a fresh connection */
+  async restore(): Promise<void> {
+    this.attached = false
+    const hasHandlers =
+      [...this.messageHandlers.values()].some((handlers) => handlers.size > 0) ||
+      this.presenceHandlers.enter.size > 0 ||
+      this.presenceHandlers.leave.size > 0
+    if (hasHandlers) {
+      this.attach()
+    }
+    if (this.entered) {
+      await this.presence.enter(this.entered.data)
+    }
+  }
+
+  handleMessage(message: TransportMessage): void {
+    this.messageHandlers.get(message.name)?.forEach((handler) => {
+      try {
+        handler(message)
+      } catch (e) {
+        console.error(`[RelayTransport] Error in message handler for ${this.name}:`, e)
+      }
+    })
+  }
+
+  handlePresence(event: 'enter' | 'leave', member: TransportPresenceMember): void {
+    this.presenceHandlers[event].forEach((handler) => {
+      try {
+        handler(member)
+      } catch (e) {
+        console.error(`[RelayTransport] Error in presence handler for ${this.name}:`, e)
+      }
+    })
+  }
+
+  private attach(): void {
+    if (this.attached) return
+    this.attached = true
+    this.transport.request('attach', { channel: this.name }).catch((err: Error) => {
+      this.attached = false
+      console.error(`[RelayTransport] Failed to attach to ${this.name}:`, err.message)
+    })
+  }
+}
+
+function parseFrame(raw: unknown): RelayFrame | null {
+  if (typeof raw !== 'string') return null
+  try {
+    return JSON.parse(raw) as RelayFrame
+  } catch {
+    return null
+  }
+}
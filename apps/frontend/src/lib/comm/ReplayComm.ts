@@ -0,0 +1,303 @@
+/**
+ * ReplayComm - Recorded match played back as a GameComm
+ *
+ * Emits the protocol messages of a match log against a virtual clock, so the
+ * regular consumers (DeviceStateStore, DeviceConnectionsProvider, kill feed)
+ * render a replay exactly like the live game. Sending is not possible.
+ *
+ * Seeking backwards fires the reset handlers, then re-emits every event up to
+ * the new position; consumers that accumulate state must clear it on reset.
+ *
+ * @example
+ * ```typescript
+ * const replay = new ReplayComm(events)
+ * replay.onReset(() => store.reset())
+ * replay.setSpeed(4)
+ * replay.play()
+ * ```
+ */
+
+import type { AckMessage, ClientMessage, ServerMessage } from '@rayz/types'
+
+import { getAppMode } from './mode'
+import type { AppMode, CommConnectionState, DeviceConnectionInfo, GameComm } from './types'
+
+/** Real milliseconds between clock ticks */
+const TICK_MS = 50
+
+export const REPLAY_SPEEDS = [1, 4, 16] as const
+
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number]
+
+export interface ReplayEvent {
+  deviceIp: string
+  /** Milliseconds since the match started */
+  offsetMs: number
+  payload: ServerMessage
+}
+
+export interface ReplayClock {
+  positionMs: number
+  durationMs: number
+  playing: boolean
+  speed: ReplaySpeed
+}
+
+export class ReplayComm implements GameComm {
+  readonly mode: AppMode
+
+  private readonly events: ReplayEvent[]
+  private _state: CommConnectionState = 'disconnected'
+  /** Index of the next event to emit */
+  private cursor = 0
+  private _eventOffsetMs = 0
+  private timer: ReturnType<typeof setInterval> | null = null
+  private lastTick = 0
+  private clock: ReplayClock
+
+  // Event handlers
+  private messageHandlers: Map<string, Set<(message: ServerMessage, device: string) => void>> =
+    new Map()
+  private stateHandlers: Set<(state: CommConnectionState) => void> = new Set()
+  private deviceHandlers: Set<(deviceId: string, info: DeviceConnectionInfo) => void> = new Set()
+  private resetHandlers: Set<() => void> = new Set()
+  private clockHandlers: Set<() => void> = new Set()
+  // Every recorded device counts as connected while the replay is open
+  private trackedDevices: Map<string, DeviceConnectionInfo> = new Map()
+
+  /**
+   * @param events - Recorded messages (sorted by offset here)
+   * @param durationMs - Match length; defaults to the offset of the last event
+   */
+  constructor(events: ReplayEvent[], durationMs?: number, mode: AppMode = getAppMode()) {
+    this.mode = mode
+    this.events = [...events].sort((a, b) => a.offsetMs - b.offsetMs)
+    const lastOffset = this.events[this.events.length - 1]?.offsetMs ?? 0
+    this.clock = {
+      positionMs: 0,
+      durationMs: Math.max(durationMs ?? 0, lastOffset),
+      playing: false,
+      speed: 1,
+    }
+  }
+
+  get state(): CommConnectionState {
+    return this._state
+  }
+
+  /** Offset of the event being (or last) emitted; the match time handlers should use */
+  get eventOffsetMs(): number {
+    return this._eventOffsetMs
+  }
+
+  // ============= Playback =============
+
+  /** Current clock; a new object after every change (usable with useSyncExternalStore) */
+  getClock = (): ReplayClock => this.clock
+
+  /** Subscribe to clock changes (position, play state, speed) */
+  subscribeClock = (listener: () => void): (() => void) => {
+    this.clockHandlers.add(listener)
+    return () => this.clockHandlers.delete(listener)
+  }
+
+  /**
+   * Subscribe to resets, fired before events are re-emitted after seeking backwards
+   */
+  onReset(callback: () => void): () => void {
+    this.resetHandlers.add(callback)
+    return () => this.resetHandlers.delete(callback)
+  }
+
+  play(): void {
+    if (this.clock.playing) return
+    // Playing from the end starts over
+    if (this.clock.positionMs >= this.clock.durationMs) this.seek(0)
+
+    this.lastTick = performance.now()
+    this.timer = setInterval(() => this.tick(), TICK_MS)
+    this.updateClock({ playing: true })
+  }
+
+  pause(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+    if (this.clock.playing) this.updateClock({ playing: false })
+  }
+
+  setSpeed(speed: ReplaySpeed): void {
+    if (speed !== this.clock.speed) this.updateClock({ speed })
+  }
+
+  /**
+   * Jump to a position; all events up to it are applied
+   */
+  seek(positionMs: number): void {
+    const target = Math.min(Math.max(0, positionMs), this.clock.durationMs)
+
+    if (target < this.clock.positionMs) {
+      this.cursor = 0
+      this._eventOffsetMs = 0
+      this.resetHandlers.forEach((handler) => {
+        try {
+          handler()
+        } catch (e) {
+          console.error('[ReplayComm] Error in reset handler:', e)
+        }
+      })
+    }
+
+    this.emitUntil(target)
+    this.updateClock({ positionMs: target })
+  }
+
+  private tick(): void {
+    const now = performance.now()
+    const elapsed = (now - this.lastTick) * this.clock.speed
+    this.lastTick = now
+
+    const target = Math.min(this.clock.positionMs + elapsed, this.clock.durationMs)
+    this.emitUntil(target)
+    this.updateClock({ positionMs: target })
+
+    if (target >= this.clock.durationMs) this.pause()
+  }
+
+  private emitUntil(positionMs: number): void {
+    while (this.cursor < this.events.length && this.events[this.cursor].offsetMs <= positionMs) {
+      const event = this.events[this.cursor++]
+      this._eventOffsetMs = event.offsetMs
+      this.emit(event.payload, event.deviceIp)
+    }
+  }
+
+  private updateClock(update: Partial<ReplayClock>): void {
+    this.clock = { ...this.clock, ...update }
+    this.clockHandlers.forEach((handler) => handler())
+  }
+
+  // ============= GameComm =============
+
+  async connect(): Promise<void> {
+    this.setState('connected')
+    this.trackedDevices.forEach((_, deviceId) => this.updateDevice(deviceId, 'connected'))
+  }
+
+  disconnect(): void {
+    this.pause()
+    this.setState('disconnected')
+    this.trackedDevices.forEach((_, deviceId) => this.updateDevice(deviceId, 'disconnected'))
+  }
+
+  addDevice(deviceId: string): void {
+    if (this.trackedDevices.has(deviceId)) return
+    this.updateDevice(deviceId, this._state === 'connected' ? 'connected' : 'disconnected')
+  }
+
+  removeDevice(deviceId: string): void {
+    this.trackedDevices.delete(deviceId)
+  }
+
+  retryDevice(deviceId: string): void {
+    this.addDevice(deviceId)
+  }
+
+  /** A replay cannot talk to devices */
+  send(_deviceId: string, _message: ClientMessage): boolean {
+    return false
+  }
+
+  sendWithAck(deviceId: string): Promise<AckMessage> {
+    return Promise.reject(new Error(`Cannot send to ${deviceId} during a replay`))
+  }
+
+  broadcast(_message: ClientMessage): void {}
+
+  onMessage(
+    deviceId: string,
+    callback: (message: ServerMessage, fromDevice: string) => void
+  ): () => void {
+    if (!this.messageHandlers.has(deviceId)) {
+      this.messageHandlers.set(deviceId, new Set())
+    }
+    this.messageHandlers.get(deviceId)!.add(callback)
+
+    return () => {
+      this.messageHandlers.get(deviceId)?.delete(callback)
+    }
+  }
+
+  onStateChange(callback: (state: CommConnectionState) => void): () => void {
+    this.stateHandlers.add(callback)
+    return () => {
+      this.stateHandlers.delete(callback)
+    }
+  }
+
+  /** Playback never fails */
+  onError(_callback: (error: Error) => void): () => void {
+    return () => {}
+  }
+
+  onDeviceConnection(callback: (deviceId: string, info: DeviceConnectionInfo) => void): () => void {
+    this.deviceHandlers.add(callback)
+    return () => this.deviceHandlers.delete(callback)
+  }
+
+  getDeviceConnection(deviceId: string): DeviceConnectionInfo | undefined {
+    return this.trackedDevices.get(deviceId)
+  }
+
+  getConnectedDevices(): string[] {
+    return Array.from(this.trackedDevices.entries())
+      .filter(([, info]) => info.state === 'connected')
+      .map(([deviceId]) => deviceId)
+  }
+
+  isDeviceConnected(deviceId: string): boolean {
+    return this.trackedDevices.get(deviceId)?.state === 'connected'
+  }
+
+  // ============= Private Methods =============
+
+  private setState(state: CommConnectionState): void {
+    if (this._state !== state) {
+      this._state = state
+      this.stateHandlers.forEach((handler) => {
+        try {
+          handler(state)
+        } catch (e) {
+          console.error('[ReplayComm] Error in state handler:', e)
+        }
+      })
+    }
+  }
+
+  private updateDevice(deviceId: string, state: DeviceConnectionInfo['state']): void {
+    const info: DeviceConnectionInfo = {
+      ...this.trackedDevices.get(deviceId),
+      state,
+      ...(state === 'connected' && { lastConnected: new Date() }),
+    }
+    this.trackedDevices.set(deviceId, info)
+    this.deviceHandlers.forEach((handler) => handler(deviceId, info))
+  }
+
+  private emit(message: ServerMessage, deviceId: string): void {
+    this.messageHandlers.get(deviceId)?.forEach((handler) => {
+      try {
+        handler(message, deviceId)
+      } catch (e) {
+        console.error(`[ReplayComm] Error in message handler for ${deviceId}:`, e)
+      }
+    })
+
+    this.messageHandlers.get('*')?.forEach((handler) => {
+      try {
+        handler(message, deviceId)
+      } catch (e) {
+        console.error('[ReplayComm] Error in wildcard message handler:', e)
+      }
+    })
+  }
+}
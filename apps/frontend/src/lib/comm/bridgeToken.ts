@@ -0,0 +1,61 @@
+/**
+ * ws-bridge tokens
+ *
+ * The bridge checks a token only when a browser connects, and LocalComm opens
+ * one bridge connection per device, so a token is reused until shortly
+ * before it expires instead of being minted for every device.
+ *
+ * Without BRIDGE_TOKEN_SECRET the app cannot mint tokens (501), and browsers
+ * connect without one; only a bridge running with WS_BRIDGE_AUTH=false accepts that.
+ */
+
+import { getBridgeTokenUrl } from './mode'
+
+// Renew this long before expiry so a token never runs out mid-handshake
+const RENEW_MARGIN_MS = 15_000
+
+const cache = new Map<string, { token: string; expiresAt: number }>()
+const inFlight = new Map<string, Promise<string | null>>()
+
+/**
+ * Get a bridge token for a game session (project ID)
+ * @param liveToken - Public spectator screens pass their live token instead of signing in
+ * @returns The token, or null when the app does not mint bridge tokens
+ */
+export async function fetchBridgeToken(
+  sessionId: string,
+  { liveToken }: { liveToken?: string } = {}
+): Promise<string | null> {
+  const key = `${sessionId}:${liveToken ?? ''}`
+  const cached = cache.get(key)
+  if (cached && cached.expiresAt - RENEW_MARGIN_MS > Date.now()) return cached.token
+
+  const pending = inFlight.get(key)
+  if (pending) return pending
+
+  const request = (async () => {
+    const url = new URL(getBridgeTokenUrl(), window.location.origin)
+    url.searchParams.set('sessionId', sessionId)
+    if (liveToken) url.searchParams.set('liveToken', liveToken)
+
+    const response = await fetch(url)
+    if (response.status === 501) return null
+    const body = (await response.json().catch(() => ({}))) as {
+      token?: string
+      expiresAt?: number
+      error?: string
+    }
+    if (!response.ok || !body.token) {
+      throw new Error(`Bridge token request failed: ${body.error ?? response.status}`)
+    }
+    cache.set(key, { token: body.token, expiresAt: body.expiresAt ?? 0 })
+    return body.token
+  })()
+
+  inFlight.set(key, request)
+  try {
+    return await request
+  } finally {
+    inFlight.delete(key)
+  }
+}
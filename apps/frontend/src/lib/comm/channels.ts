@@ -0,0 +1,40 @@
+/**
+ * Channel names of a game session (Ably or the realtime relay)
+ *
+ * - `rayz-game:<sessionId>`: browsers (operators, spectators)
+ * - `rayz-game:<sessionId>:devices`: device traffic; gateways such as the ws-bridge
+ *   enter presence for each device they relay
+ *
+ * The session ID is the project ID. Keep in sync with the ws-bridge upstream.
+ */
+
+export const CHANNEL_PREFIX = 'rayz-game'
+
+export function gameChannelName(sessionId: string, prefix = CHANNEL_PREFIX): string {
+  return `${prefix}:${sessionId}`
+}
+
+export function deviceChannelName(sessionId: string, prefix = CHANNEL_PREFIX): string {
+  return `${gameChannelName(sessionId, prefix)}:devices`
+}
+
+/**
+ * Channel capabilities of a browser in a session (Ably and relay tokens alike).
+ * Devices are entered into presence by their gateway, never by browsers.
+ * Without `control` (players, spectators) the session is read-only.
+ */
+export function sessionCapability(
+  sessionId: string,
+  { control = true, prefix = CHANNEL_PREFIX }: { control?: boolean; prefix?: string } = {}
+): Record<string, ('subscribe' | 'publish' | 'presence' | 'history')[]> {
+  if (!control) {
+    return {
+      [gameChannelName(sessionId, prefix)]: ['subscribe', 'presence', 'history'],
+      [deviceChannelName(sessionId, prefix)]: ['subscribe', 'history'],
+    }
+  }
+  return {
+    [gameChannelName(sessionId, prefix)]: ['subscribe', 'publish', 'presence', 'history'],
+    [deviceChannelName(sessionId, prefix)]: ['subscribe', 'publish', 'history'],
+  }
+}
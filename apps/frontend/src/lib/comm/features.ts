@@ -16,7 +16,6 @@ export interface FeatureFlags {
   globalStats: boolean
   adminDashboard: boolean
   userAccounts: boolean
-  matchHistory: boolean
   achievements: boolean
   cloudBackup: boolean
 
@@ -30,6 +29,7 @@ export interface FeatureFlags {
   deviceManagement: boolean
   teamSetup: boolean
   gameRules: boolean
+  matchHistory: boolean
 }
 
 /**
@@ -44,13 +44,13 @@ export function getFeatureFlags(): FeatureFlags {
     deviceManagement: true,
     teamSetup: true,
     gameRules: true,
+    matchHistory: true, // Matches are stored server-side in both modes
 
     // Cloud-only - disabled by default
     leaderboards: false,
     globalStats: false,
     adminDashboard: false,
     userAccounts: false,
-    matchHistory: false,
     achievements: false,
     cloudBackup: false,
 
@@ -67,7 +67,6 @@ export function getFeatureFlags(): FeatureFlags {
       globalStats: true,
       adminDashboard: true,
       userAccounts: true,
-      matchHistory: true,
       achievements: true,
       cloudBackup: true,
     }
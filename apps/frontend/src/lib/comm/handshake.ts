@@ -0,0 +1,142 @@
+/**
+ * Handshake - Protocol version and capability negotiation
+ *
+ * Right after connecting, the browser sends HELLO with its protocol version.
+ * Firmware v2.3+ answers with CAPABILITIES (version, build, MAC, opcodes,
+ * encodings). Older firmware ignores HELLO; its first STATUS reply tells
+ * whether it speaks v2.2 (nested config/stats/state) or something older.
+ *
+ * The comm layer adapts to what the device supports, or refuses the device
+ * when its protocol is incompatible.
+ */
+
+import {
+  checkProtocolCompatibility,
+  GameCommandType,
+  MIN_PROTOCOL_VERSION,
+  OpCode,
+  PROTOCOL_VERSION,
+  type CapabilitiesMessage,
+  type DeviceCapabilities,
+  type DeviceStatusMessage,
+  type HelloMessage,
+  type WireEncoding,
+} from '@rayz/types'
+
+import type { DeviceConnectionInfo } from './types'
+
+/** Client -> ESP32 opcodes of firmware v2.2 */
+const LEGACY_OPCODES: OpCode[] = [
+  OpCode.GET_STATUS,
+  OpCode.HEARTBEAT,
+  OpCode.CONFIG_UPDATE,
+  OpCode.GAME_COMMAND,
+  OpCode.HIT_FORWARD,
+  OpCode.KILL_CONFIRMED,
+  OpCode.REMOTE_SOUND,
+]
+
+/** Game commands of firmware that does not list them */
+const LEGACY_GAME_COMMANDS: GameCommandType[] = [
+  GameCommandType.STOP,
+  GameCommandType.START,
+  GameCommandType.RESET,
+  GameCommandType.PAUSE,
+  GameCommandType.UNPAUSE,
+]
+
+/** Version reported for firmware that predates the nested v2.2 status */
+const PRE_V22_VERSION = '2.1'
+
+/**
+ * Build the HELLO message; the browser always decodes JSON and MessagePack
+ */
+export function createHello(encodings: WireEncoding[] = ['json', 'msgpack']): HelloMessage {
+  return {
+    op: OpCode.HELLO,
+    type: 'hello',
+    protocol_version: PROTOCOL_VERSION,
+    encodings,
+  }
+}
+
+/**
+ * Capabilities announced by the firmware
+ */
+export function capabilitiesFromMessage(message: CapabilitiesMessage): DeviceCapabilities {
+  return {
+    protocolVersion: message.protocol_version,
+    firmwareBuild: message.firmware_build,
+    macAddress: message.mac_address,
+    opcodes: message.opcodes,
+    gameCommands: message.game_commands ?? LEGACY_GAME_COMMANDS,
+    encodings: message.encodings?.length ? message.encodings : ['json'],
+    legacy: false,
+  }
+}
+
+/**
+ * Capabilities assumed for firmware that did not answer HELLO
+ * @param status - First STATUS frame (possibly failing validation), used to tell
+ *   v2.2 from older firmware
+ */
+export function legacyCapabilities(status?: Pick<DeviceStatusMessage, 'type'>): DeviceCapabilities {
+  const config = (status as { config?: unknown } | undefined)?.config
+  const nested = !status || (typeof config === 'object' && config !== null)
+  return {
+    protocolVersion: nested ? MIN_PROTOCOL_VERSION : PRE_V22_VERSION,
+    opcodes: LEGACY_OPCODES,
+    gameCommands: LEGACY_GAME_COMMANDS,
+    encodings: ['json'],
+    legacy: true,
+  }
+}
+
+/**
+ * Connection info resulting from a device's capabilities
+ * Incompatible devices end up in the 'error' state with a readable reason.
+ */
+export function negotiate(capabilities: DeviceCapabilities): Partial<DeviceConnectionInfo> {
+  const compatibility = checkProtocolCompatibility(capabilities.protocolVersion)
+
+  switch (compatibility) {
+    case 'too_old':
+      return {
+        state: 'error',
+        capabilities,
+        compatibility,
+        lastError: `Firmware too old (protocol ${capabilities.protocolVersion}, requires ${MIN_PROTOCOL_VERSION}+)`,
+      }
+    case 'too_new':
+      return {
+        state: 'error',
+        capabilities,
+        compatibility,
+        lastError: `Firmware too new (protocol ${capabilities.protocolVersion}, app speaks ${PROTOCOL_VERSION})`,
+      }
+    default:
+      return {
+        state: 'connected',
+        capabilities,
+        compatibility,
+        lastError: undefined,
+      }
+  }
+}
+
+/**
+ * Whether a device handles an opcode; unknown capabilities allow everything
+ */
+export function supportsOpcode(capabilities: DeviceCapabilities | undefined, op: OpCode): boolean {
+  return !capabilities || op === OpCode.HELLO || capabilities.opcodes.includes(op)
+}
+
+/**
+ * Whether a device handles a GAME_COMMAND command; unknown capabilities allow everything
+ */
+export function supportsGameCommand(
+  capabilities: DeviceCapabilities | undefined,
+  command: GameCommandType
+): boolean {
+  return !capabilities || capabilities.gameCommands.includes(command)
+}
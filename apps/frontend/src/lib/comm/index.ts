@@ -3,24 +3,72 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type { ClientMessage, ServerMessage } from '@rayz/types'
 
+import { AblyTransport } from './AblyTransport'
+import { fetchBridgeToken } from './bridgeToken'
 import { CloudComm } from './CloudComm'
 import { LocalComm } from './LocalComm'
-import { getAblyConfig, getAppMode, getLocalWsUrl } from './mode'
-import type { CloudCommConfig, CommConnectionState, GameComm, LocalCommConfig } from './types'
+import {
+  getAblyConfig,
+  getAppMode,
+  getBridgeUrl,
+  getCloudTransportKind,
+  getRelayConfig,
+} from './mode'
+import { RelayTransport } from './RelayTransport'
+import type {
+  CloudCommConfig,
+  CloudTransport,
+  CloudTransportKind,
+  CommConnectionState,
+  GameComm,
+  LocalCommConfig,
+} from './types'
 
 /**
  * Communication Layer
  *
  * Provides a unified interface for browser-to-device communication
- * that works in both local (WebSocket) and cloud (Ably) modes.
+ * that works in both local (WebSocket) and cloud (Ably or relay) modes.
  */
 
 export * from './types'
 export * from './mode'
 export * from './features'
+export * from './channels'
 export { LocalComm } from './LocalComm'
+export { fetchBridgeToken } from './bridgeToken'
 export { CloudComm } from './CloudComm'
-export { GameCommProvider, useGameCommContext, CommModeIndicator } from './GameCommContext'
+export { AblyTransport, type AblyTransportConfig } from './AblyTransport'
+export { RelayTransport, type RelayTransportConfig } from './RelayTransport'
+export { DeviceStateStore, reduceDeviceMessage } from './DeviceStateStore'
+export {
+  ReplayComm,
+  REPLAY_SPEEDS,
+  type ReplayClock,
+  type ReplayEvent,
+  type ReplaySpeed,
+} from './ReplayComm'
+export {
+  capabilitiesFromMessage,
+  createHello,
+  legacyCapabilities,
+  negotiate,
+  supportsGameCommand,
+  supportsOpcode,
+} from './handshake'
+export {
+  AckTracker,
+  AckRejectedError,
+  AckTimeoutError,
+  type SendWithAck,
+  type SendWithAckOptions,
+} from './AckTracker'
+export {
+  GameCommProvider,
+  useGameCommContext,
+  useDeviceStates,
+  CommModeIndicator,
+} from './GameCommContext'
 export {
   CloudOnly,
   LocalOnly,
@@ -30,6 +78,27 @@ export {
   useAppMode,
 } from './FeatureGate'
 
+/**
+ * Create the cloud transport for a game session
+ *
+ * Browsers only ever get session-scoped tokens from the app's token endpoints,
+ * never an Ably API key or the relay's secrets. With a `liveToken` (public
+ * spectator screens) the tokens are read-only and need no sign-in.
+ */
+export function createCloudTransport(
+  sessionId: string,
+  kind: CloudTransportKind = getCloudTransportKind(),
+  { liveToken }: { liveToken?: string } = {}
+): CloudTransport {
+  if (kind === 'relay') {
+    const { url, tokenUrl } = getRelayConfig()
+    return new RelayTransport({ url, tokenUrl, sessionId, liveToken })
+  }
+
+  const { tokenUrl } = getAblyConfig()
+  return new AblyTransport({ authUrl: tokenUrl, sessionId, liveToken })
+}
+
 /**
  * Create the appropriate GameComm instance based on current mode
  *
@@ -40,7 +109,7 @@ export function createGameComm(
   options: {
     /** Override mode detection */
     mode?: 'local' | 'cloud'
-    /** Session ID for cloud mode */
+    /** Session ID: the cloud channels, or the project ws-bridge tokens are minted for */
     sessionId?: string
     /** Local mode config overrides */
     localConfig?: Partial<LocalCommConfig>
@@ -51,25 +120,19 @@ export function createGameComm(
   const mode = options.mode ?? getAppMode()
 
   if (mode === 'local') {
+    const { sessionId } = options
     return new LocalComm({
-      serverUrl: getLocalWsUrl(),
+      bridgeUrl: getBridgeUrl(),
+      bridgeToken: sessionId ? () => fetchBridgeToken(sessionId) : undefined,
       ...options.localConfig,
     })
   }
 
-  // Cloud mode
-  const ablyConfig = getAblyConfig()
-  const apiKeyOrToken = ablyConfig.apiKey ?? ablyConfig.tokenUrl ?? ''
-
-  if (!apiKeyOrToken) {
-    console.warn(
-      '[GameComm] No Ably API key or token URL configured. Set NEXT_PUBLIC_ABLY_API_KEY or NEXT_PUBLIC_ABLY_TOKEN_URL.'
-    )
-  }
+  const sessionId = options.sessionId ?? `session-${Date.now()}`
 
   return new CloudComm({
-    apiKeyOrToken,
-    sessionId: options.sessionId ?? `session-${Date.now()}`,
+    transport: createCloudTransport(sessionId),
+    sessionId,
     ...options.cloudConfig,
   })
 }
@@ -5,7 +5,7 @@
  * based on environment variables and runtime detection.
  */
 
-import type { AppMode } from './types'
+import type { AppMode, CloudTransportKind } from './types'
 
 /**
  * Get the current application mode
@@ -103,12 +103,56 @@ export function getLocalWsUrl(): string {
   return 'ws://localhost:8080'
 }
 
+/**
+ * Get the ws-bridge URL devices are reached through in local mode.
+ * Without one, devices are connected directly (HTTP pages only).
+ */
+export function getBridgeUrl(): string | undefined {
+  return process.env.NEXT_PUBLIC_WS_BRIDGE_URL || undefined
+}
+
+/**
+ * Get the ws-bridge's HTTP API base URL (same host and port as its WebSocket)
+ */
+export function getBridgeHttpUrl(): string | undefined {
+  const bridgeUrl = getBridgeUrl()
+  if (!bridgeUrl) return undefined
+  const url = new URL(bridgeUrl)
+  url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:'
+  url.pathname = url.pathname.replace(/\/+$/, '')
+  url.search = ''
+  return url.toString().replace(/\/+$/, '')
+}
+
+/**
+ * Get the endpoint that mints ws-bridge tokens
+ */
+export function getBridgeTokenUrl(): string {
+  return process.env.NEXT_PUBLIC_WS_BRIDGE_TOKEN_URL || '/api/bridge/token'
+}
+
 /**
  * Get Ably configuration for cloud mode
  */
-export function getAblyConfig(): { apiKey?: string; tokenUrl?: string } {
+export function getAblyConfig(): { tokenUrl: string } {
   return {
-    apiKey: process.env.NEXT_PUBLIC_ABLY_API_KEY,
     tokenUrl: process.env.NEXT_PUBLIC_ABLY_TOKEN_URL || '/api/ably/token',
   }
 }
+
+/**
+ * Get the realtime backend for cloud mode: Ably (default) or the self-hosted relay
+ */
+export function getCloudTransportKind(): CloudTransportKind {
+  return process.env.NEXT_PUBLIC_CLOUD_TRANSPORT?.toLowerCase() === 'relay' ? 'relay' : 'ably'
+}
+
+/**
+ * Get realtime relay configuration for cloud mode
+ */
+export function getRelayConfig(): { url: string; tokenUrl: string } {
+  return {
+    url: process.env.NEXT_PUBLIC_RELAY_URL || 'ws://localhost:8090',
+    tokenUrl: process.env.NEXT_PUBLIC_RELAY_TOKEN_URL || '/api/relay/token',
+  }
+}
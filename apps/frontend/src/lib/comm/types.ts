@@ -5,7 +5,16 @@
  * communication between browser and devices across local/cloud modes.
  */
 
-import type { ClientMessage, ServerMessage } from '@rayz/types'
+import type {
+  AckMessage,
+  ClientMessage,
+  ConnectionState,
+  DeviceCapabilities,
+  ProtocolCompatibility,
+  ServerMessage,
+} from '@rayz/types'
+
+import type { SendWithAckOptions } from './AckTracker'
 
 /**
  * Connection state for the communication layer
@@ -43,12 +52,27 @@ export type CommEventType =
 
 export type CommEventHandler<T = unknown> = (data: T) => void
 
+/**
+ * Transport-level connection info for a single device
+ */
+export interface DeviceConnectionInfo {
+  state: ConnectionState
+  lastConnected?: Date
+  lastError?: string
+  /** Negotiated in the hello/capabilities handshake */
+  capabilities?: DeviceCapabilities
+  compatibility?: ProtocolCompatibility
+  /** Frames from the device that failed validation */
+  invalidFrames?: number
+  lastInvalidFrame?: string
+}
+
 /**
  * GameComm Interface
  *
  * Abstract communication interface that supports both:
  * - Local WebSocket server (direct device connections)
- * - Cloud Ably channels (pub/sub through Ably)
+ * - Cloud channels (pub/sub through Ably or the self-hosted relay)
  */
 export interface GameComm {
   /** Current connection state */
@@ -63,6 +87,22 @@ export interface GameComm {
   /** Disconnect from the communication backend */
   disconnect(): void
 
+  /**
+   * Start managing a device (local: opens its connection; cloud: tracks its presence)
+   * @param deviceId - Device identifier (IP for local, device ID for cloud)
+   */
+  addDevice(deviceId: string): void
+
+  /**
+   * Stop managing a device and close its connection
+   */
+  removeDevice(deviceId: string): void
+
+  /**
+   * Reconnect a device immediately, resetting its retry budget
+   */
+  retryDevice(deviceId: string): void
+
   /**
    * Send a message to a specific device
    * @param deviceId - Target device identifier (IP for local, device ID for cloud)
@@ -71,6 +111,19 @@ export interface GameComm {
    */
   send(deviceId: string, message: ClientMessage): boolean
 
+  /**
+   * Send a message and wait for the device to acknowledge it
+   * @param deviceId - Target device identifier
+   * @param message - Protocol message to send (a `req_id` is generated if missing)
+   * @param options - Timeout, retry count and backoff factor
+   * @returns The ACK; rejects on timeout or when the device reports failure
+   */
+  sendWithAck(
+    deviceId: string,
+    message: ClientMessage,
+    options?: SendWithAckOptions
+  ): Promise<AckMessage>
+
   /**
    * Broadcast a message to all connected devices
    * @param message - Protocol message to broadcast
@@ -102,6 +155,18 @@ export interface GameComm {
    */
   onError(callback: (error: Error) => void): () => void
 
+  /**
+   * Subscribe to per-device connection changes
+   * @param callback - Handler called with the device and its new connection info
+   * @returns Unsubscribe function
+   */
+  onDeviceConnection(callback: (deviceId: string, info: DeviceConnectionInfo) => void): () => void
+
+  /**
+   * Get connection info for a managed device
+   */
+  getDeviceConnection(deviceId: string): DeviceConnectionInfo | undefined
+
   /**
    * Get list of currently connected device IDs
    */
@@ -117,32 +182,98 @@ export interface GameComm {
  * Configuration for LocalComm (WebSocket-based)
  */
 export interface LocalCommConfig {
-  /** WebSocket server URL (deprecated - now connects directly to devices) */
-  serverUrl?: string
+  /** ws-bridge URL; when set, devices are reached through it instead of directly */
+  bridgeUrl?: string
+  /** Mints the token the ws-bridge requires, fetched before every bridge connection */
+  bridgeToken?: () => Promise<string | null>
   /** Auto-reconnect on disconnect */
   autoReconnect?: boolean
-  /** Reconnect delay in ms */
+  /** Initial reconnect delay in ms (doubles on every attempt) */
   reconnectDelay?: number
-  /** Maximum reconnect attempts */
+  /** Maximum reconnect delay in ms */
+  maxReconnectDelay?: number
+  /** Maximum reconnect attempts before a device is marked offline (0 = infinite) */
   maxRetries?: number
   /** Connection timeout in ms */
   connectionTimeout?: number
   /** Heartbeat interval in ms (0 = use native WebSocket ping/pong) */
   heartbeatInterval?: number
-  /** Use MessagePack binary protocol instead of JSON */
+  /** How long to wait for CAPABILITIES before assuming v2.2 firmware, in ms */
+  handshakeTimeout?: number
+  /**
+   * Send MessagePack to devices that announce support for it. Through the bridge,
+   * speak MessagePack to it and let it translate for each device; incoming binary
+   * frames are always decoded.
+   */
   useBinaryProtocol?: boolean
+  /** Enable debug logging (default: development only) */
+  logging?: boolean
+}
+
+/**
+ * Pub/sub backend of cloud mode
+ */
+export type CloudTransportKind = 'ably' | 'relay'
+
+export interface TransportMessage {
+  name: string
+  data: unknown
+  clientId?: string
+  timestamp: number
+}
+
+export interface TransportPresenceMember {
+  clientId: string
+  data?: unknown
+}
+
+/**
+ * A named channel with pub/sub, presence and history
+ */
+export interface TransportChannel {
+  /** @returns Unsubscribe function */
+  subscribe(name: string, callback: (message: TransportMessage) => void): () => void
+  publish(name: string, data: unknown): Promise<void>
+  /** Most recent messages, newest first */
+  history(limit: number): Promise<TransportMessage[]>
+  presence: {
+    enter(data?: unknown): Promise<void>
+    leave(): Promise<void>
+    get(): Promise<TransportPresenceMember[]>
+    /** @returns Unsubscribe function */
+    subscribe(
+      event: 'enter' | 'leave',
+      callback: (member: TransportPresenceMember) => void
+    ): () => void
+  }
+  /** Drop every subscription made through this channel */
+  unsubscribeAll(): void
+}
+
+/**
+ * Connection to a realtime backend (Ably or the self-hosted relay).
+ * Implementations reconnect on their own and report it through onStateChange.
+ */
+export interface CloudTransport {
+  readonly kind: CloudTransportKind
+  /** Resolves once connected; rejects if the first connection fails */
+  connect(): Promise<void>
+  close(): void
+  channel(name: string): TransportChannel
+  /** @returns Unsubscribe function */
+  onStateChange(callback: (state: 'connected' | 'disconnected') => void): () => void
 }
 
 /**
- * Configuration for CloudComm (Ably-based)
+ * Configuration for CloudComm
  */
 export interface CloudCommConfig {
-  /** Ably API key (for server-side) or token (for client-side) */
-  apiKeyOrToken: string
+  /** Realtime backend; see createCloudTransport */
+  transport: CloudTransport
   /** Channel name prefix for the game session */
   channelPrefix?: string
   /** Game session ID */
   sessionId: string
-  /** Enable message history */
+  /** Prime device state with each device's latest status from channel history */
   enableHistory?: boolean
 }
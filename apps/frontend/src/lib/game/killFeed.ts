@@ -0,0 +1,112 @@
+/**
+ * Kill Feed
+ *
+ * Resolves `hit_report` messages to players of the active project.
+ * The shooter is identified by the protocol player number (`shooter_id`),
+ * the victim by the player assigned to the reporting device.
+ */
+
+import type { HitReportMessage } from '@rayz/types'
+
+import type { Device, Player, Team } from '@/components/project-manager/types'
+
+/**
+ * - enemy: shooter and victim are on different teams (or solo)
+ * - friendly: shooter and victim share a team
+ * - suicide: shooter hit themselves
+ * - unknown: shooter or victim could not be resolved
+ */
+export type HitKind = 'enemy' | 'friendly' | 'suicide' | 'unknown'
+
+/** The parts of a project hits are resolved against */
+export interface KillFeedProject {
+  players?: Pick<Player, 'id' | 'name' | 'number' | 'teamId'>[]
+  teams?: Pick<Team, 'id' | 'color'>[]
+  devices?: Pick<Device, 'ipAddress' | 'assignedPlayerId' | 'objectiveType'>[]
+}
+
+export interface KillFeedPlayer {
+  id: string
+  name: string
+  number: number
+  teamId: string | null
+  color: string | null
+}
+
+export interface KillFeedEntry {
+  id: string
+  kind: HitKind
+  fatal: boolean
+  damage: number
+  shooterNumber: number
+  shooter: KillFeedPlayer | null
+  victim: KillFeedPlayer | null
+  victimDeviceIp: string
+  /** Epoch ms when the report was received */
+  receivedAt: number
+}
+
+function toFeedPlayer(
+  player: Pick<Player, 'id' | 'name' | 'number' | 'teamId'>,
+  teams: Pick<Team, 'id' | 'color'>[]
+): KillFeedPlayer {
+  const team = player.teamId ? teams.find((t) => t.id === player.teamId) : undefined
+  return {
+    id: player.id,
+    name: player.name,
+    number: player.number,
+    teamId: player.teamId,
+    color: team?.color ?? null,
+  }
+}
+
+export function classifyHit(
+  shooter: KillFeedPlayer | null,
+  victim: KillFeedPlayer | null
+): HitKind {
+  if (!shooter || !victim) return 'unknown'
+  if (shooter.id === victim.id) return 'suicide'
+  if (shooter.teamId && shooter.teamId === victim.teamId) return 'friendly'
+  return 'enemy'
+}
+
+export function resolveHit(
+  hit: HitReportMessage,
+  victimDeviceIp: string,
+  project: KillFeedProject,
+  receivedAt = Date.now()
+): KillFeedEntry {
+  const players = project.players || []
+  const teams = project.teams || []
+
+  const shooterPlayer = players.find((p) => p.number === hit.shooter_id)
+  const victimDevice = (project.devices || []).find((d) => d.ipAddress === victimDeviceIp)
+  const victimPlayer = victimDevice?.assignedPlayerId
+    ? players.find((p) => p.id === victimDevice.assignedPlayerId)
+    : undefined
+
+  const shooter = shooterPlayer ? toFeedPlayer(shooterPlayer, teams) : null
+  const victim = victimPlayer ? toFeedPlayer(victimPlayer, teams) : null
+
+  return {
+    id: `${victimDeviceIp}:${hit.seq_id}:${receivedAt}`,
+    kind: classifyHit(shooter, victim),
+    fatal: hit.fatal,
+    damage: hit.damage,
+    shooterNumber: hit.shooter_id,
+    shooter,
+    victim,
+    victimDeviceIp,
+    receivedAt,
+  }
+}
+
+/**
+ * IPs of the devices assigned to the shooter, used to send feedback
+ */
+export function getShooterDeviceIps(entry: KillFeedEntry, project: KillFeedProject): string[] {
+  if (!entry.shooter) return []
+  return (project.devices || [])
+    .filter((d) => d.assignedPlayerId === entry.shooter!.id)
+    .map((d) => d.ipAddress)
+}
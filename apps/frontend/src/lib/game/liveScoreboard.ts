@@ -0,0 +1,117 @@
+/**
+ * Live scoreboard
+ *
+ * Aggregates the live state of a project's devices per player and per team,
+ * for the spectator screen. Unlike lib/match/scoreboard it works from device
+ * state only, so it follows the game while it runs.
+ */
+
+import type { DeviceState } from '@rayz/types'
+
+import type { Device, GameMode, Player, Team } from '@/components/project-manager/types'
+
+/** The parts of a project the live scoreboard reads; all the public live screen receives */
+export interface LiveProject {
+  id: string
+  name: string
+  gameMode?: Pick<GameMode, 'lives'> | null
+  teams: Pick<Team, 'id' | 'name' | 'color'>[]
+  players: Pick<Player, 'id' | 'name' | 'number' | 'teamId'>[]
+  devices: Pick<Device, 'ipAddress' | 'assignedPlayerId' | 'objectiveType'>[]
+}
+
+export interface LivePlayerRow {
+  id: string
+  name: string
+  number: number
+  teamId: string | null
+  /** Null until a device of the player reported its state */
+  hearts: number | null
+  maxHearts: number | null
+  ammo: number | null
+  maxAmmo: number | null
+  kills: number
+  deaths: number
+  isRespawning: boolean
+  online: boolean
+}
+
+export interface LiveTeamRow {
+  id: string | null
+  name: string
+  color: string | null
+  kills: number
+  deaths: number
+  players: LivePlayerRow[]
+}
+
+export interface LiveScoreboard {
+  teams: LiveTeamRow[]
+  /** Remaining game time reported by the devices, if a timer runs */
+  remainingTimeS: number | null
+}
+
+const byScore = <T extends { kills: number; deaths: number }>(a: T, b: T) =>
+  b.kills - a.kills || a.deaths - b.deaths
+
+export function buildLiveScoreboard(
+  project: LiveProject,
+  getDeviceState: (ip: string) => DeviceState | undefined,
+  now = Date.now()
+): LiveScoreboard {
+  let remainingTimeS: number | null = null
+
+  const players = project.players.map<LivePlayerRow>((player) => {
+    const states = project.devices
+      .filter((d) => d.assignedPlayerId === player.id)
+      .map((d) => getDeviceState(d.ipAddress))
+      .filter((s): s is DeviceState => !!s)
+    // Hearts and ammo come from the device that reported last
+    const reported = states
+      .filter((s) => s.lastStatusUpdate)
+      .sort((a, b) => b.lastStatusUpdate!.getTime() - a.lastStatusUpdate!.getTime())[0]
+
+    for (const state of states) {
+      if (state.gameRemainingTime === undefined || !state.lastStatusUpdate) continue
+      // Count down between status reports
+      const elapsedS = (now - state.lastStatusUpdate.getTime()) / 1000
+      const remaining = Math.max(0, state.gameRemainingTime - elapsedS)
+      remainingTimeS = Math.max(remainingTimeS ?? 0, remaining)
+    }
+
+    return {
+      id: player.id,
+      name: player.name,
+      number: player.number,
+      teamId: player.teamId,
+      hearts: reported?.enableHearts ? reported.hearts : null,
+      maxHearts: reported?.enableHearts ? reported.maxHearts : null,
+      ammo: reported?.enableAmmo ? reported.ammo : null,
+      maxAmmo: reported?.enableAmmo ? reported.maxAmmo : null,
+      kills: states.reduce((sum, s) => sum + s.kills, 0),
+      deaths: states.reduce((sum, s) => sum + s.deaths, 0),
+      isRespawning: states.some((s) => s.isRespawning),
+      online: states.some((s) => s.connectionState === 'connected'),
+    }
+  })
+
+  const groups = [
+    ...project.teams.map((team) => ({ id: team.id, name: team.name, color: team.color })),
+    { id: null, name: 'No Team', color: null },
+  ]
+
+  const teams = groups
+    .map<LiveTeamRow>((group) => {
+      const rows = players.filter((p) => p.teamId === group.id).sort(byScore)
+      return {
+        ...group,
+        kills: rows.reduce((sum, p) => sum + p.kills, 0),
+        deaths: rows.reduce((sum, p) => sum + p.deaths, 0),
+        players: rows,
+      }
+    })
+    .filter((team) => team.players.length > 0)
+    .sort(byScore)
+
+  return { teams, remainingTimeS }
+}
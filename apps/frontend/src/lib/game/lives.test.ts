@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+
+import { livesLostByPlayer } from './lives'
+
+test('adds up the recorded fatal hits of each player device', () => {
+  const participants = [
+    { playerId: 'p1', deviceIps: ['10.0.0.1', '10.0.0.2'] },
+    { playerId: 'p2', deviceIps: ['10.0.0.3'] },
+    { playerId: 'p3', deviceIps: ['10.0.0.4'] },
+  ]
+  const fatalHits = { '10.0.0.1': 2, '10.0.0.2': 1, '10.0.0.3': 1 }
+
+  assert.deepEqual(livesLostByPlayer(participants, fatalHits), { p1: 3, p2: 1 })
+})
+
+test('skips participants whose player was deleted', () => {
+  const participants = [{ playerId: null, deviceIps: ['10.0.0.1'] }]
+  assert.deepEqual(livesLostByPlayer(participants, { '10.0.0.1': 2 }), {})
+})
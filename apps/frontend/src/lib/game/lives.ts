@@ -0,0 +1,56 @@
+/**
+ * Limited Lives
+ *
+ * Devices respawn forever; the lives budget is kept by the web app. It counts
+ * the fatal hits each player takes and, once the budget is used up, keeps the
+ * player's devices down by respawning them without hearts.
+ */
+
+import type { GameMode as PrismaGameMode } from '@rayz/database'
+import type { ConfigUpdateMessage } from '@rayz/types'
+
+type DeviceConfig = Omit<ConfigUpdateMessage, 'op' | 'type'>
+
+/** Lives setting that turns elimination off */
+export const UNLIMITED_LIVES = 0
+
+/** Sent to an eliminated player's devices: the next respawn brings no hearts back */
+export const STAY_DEAD_CONFIG: DeviceConfig = {
+  enable_hearts: true,
+  spawn_hearts: 0,
+}
+
+/**
+ * Config that undoes STAY_DEAD_CONFIG once the game is over
+ */
+export function respawnConfigOf(gameMode?: Pick<PrismaGameMode, 'enableHearts' | 'spawnHearts'>) {
+  return {
+    enable_hearts: gameMode?.enableHearts ?? true,
+    spawn_hearts: gameMode?.spawnHearts ?? 3,
+  } satisfies DeviceConfig
+}
+
+/**
+ * Lives a player has left, or null when lives are unlimited
+ */
+export function getLivesLeft(lives: number, livesLost: number): number | null {
+  if (lives <= UNLIMITED_LIVES) return null
+  return Math.max(0, lives - livesLost)
+}
+
+/**
+ * Lives each player lost so far, from the fatal hits recorded per device.
+ * Rebuilds the count of a game that was already running when the page loaded.
+ */
+export function livesLostByPlayer(
+  participants: { playerId: string | null; deviceIps: string[] }[],
+  fatalHitsByDevice: Record<string, number>
+): Record<string, number> {
+  const livesLost: Record<string, number> = {}
+  for (const { playerId, deviceIps } of participants) {
+    if (!playerId) continue
+    const lost = deviceIps.reduce((sum, ip) => sum + (fatalHitsByDevice[ip] ?? 0), 0)
+    if (lost > 0) livesLost[playerId] = lost
+  }
+  return livesLost
+}
@@ -0,0 +1,162 @@
+/**
+ * Objectives
+ *
+ * Devices flagged as objectives (usually Target boards) are shot instead of
+ * played with. Their hit_reports are credited to the shooter's team:
+ * - control_point: captured after captureHits hits in a row, then scores
+ *   for its owner for as long as it is held
+ * - flag: neutral; every capture scores a point and the flag goes back
+ * - base: defended by its team; every capture by another team scores a point
+ * Hits by the owner (or the defending team) knock back a rival's progress.
+ * Times are game time (pauses excluded), so holds only count while running.
+ */
+
+import type { Device as PrismaDevice, GameMode as PrismaGameMode } from '@rayz/database'
+
+export type ObjectiveType = 'base' | 'flag' | 'control_point'
+
+export const OBJECTIVE_TYPES: ObjectiveType[] = ['control_point', 'flag', 'base']
+
+export const OBJECTIVE_LABELS: Record<ObjectiveType, string> = {
+  control_point: 'Control point',
+  flag: 'Flag',
+  base: 'Base',
+}
+
+export function isObjectiveType(value: unknown): value is ObjectiveType {
+  return typeof value === 'string' && (OBJECTIVE_TYPES as string[]).includes(value)
+}
+
+export interface ObjectiveRules {
+  /** Hits in a row a team needs to capture an objective */
+  captureHits: number
+  /** Control point hold time worth one point */
+  holdSecondsPerPoint: number
+}
+
+export function objectiveRulesOf(
+  gameMode?: Partial<Pick<PrismaGameMode, 'captureHits' | 'holdSecondsPerPoint'>>
+): ObjectiveRules {
+  return {
+    captureHits: Math.max(1, gameMode?.captureHits ?? 3),
+    holdSecondsPerPoint: Math.max(1, gameMode?.holdSecondsPerPoint ?? 10),
+  }
+}
+
+export interface ObjectiveState {
+  deviceIp: string
+  name: string
+  type: ObjectiveType
+  /** Defending team of a base */
+  homeTeamId: string | null
+  /** Team holding a control point */
+  ownerTeamId: string | null
+  /** Team with capture progress and its hits so far */
+  capturingTeamId: string | null
+  progress: number
+  /** Game time the owner's current hold started (ms) */
+  heldSince: number | null
+}
+
+export interface ObjectivesState {
+  objectives: Record<string, ObjectiveState>
+  /** Flag and base captures per team ID */
+  captures: Record<string, number>
+  /** Finished control point hold time per team ID (ms) */
+  heldMs: Record<string, number>
+}
+
+type ObjectiveDevice = Pick<
+  PrismaDevice,
+  'name' | 'ipAddress' | 'objectiveType' | 'objectiveTeamId'
+>
+
+export function getObjectiveDevices<D extends ObjectiveDevice>(devices: D[] = []): D[] {
+  return devices.filter((device) => isObjectiveType(device.objectiveType))
+}
+
+export function initialObjectivesState(devices: ObjectiveDevice[] = []): ObjectivesState {
+  const objectives: Record<string, ObjectiveState> = {}
+  for (const device of getObjectiveDevices(devices)) {
+    objectives[device.ipAddress] = {
+      deviceIp: device.ipAddress,
+      name: device.name || device.ipAddress,
+      type: device.objectiveType as ObjectiveType,
+      homeTeamId: device.objectiveType === 'base' ? device.objectiveTeamId : null,
+      ownerTeamId: null,
+      capturingTeamId: null,
+      progress: 0,
+      heldSince: null,
+    }
+  }
+  return { objectives, captures: {}, heldMs: {} }
+}
+
+function bankHold(heldMs: Record<string, number>, objective: ObjectiveState, now: number) {
+  if (!objective.ownerTeamId || objective.heldSince === null) return heldMs
+  const teamId = objective.ownerTeamId
+  return { ...heldMs, [teamId]: (heldMs[teamId] ?? 0) + (now - objective.heldSince) }
+}
+
+/**
+ * Credit a hit on an objective device to the shooter's team
+ */
+export function applyObjectiveHit(
+  state: ObjectivesState,
+  deviceIp: string,
+  teamId: string | null | undefined,
+  rules: ObjectiveRules,
+  now: number
+): ObjectivesState {
+  const objective = state.objectives[deviceIp]
+  if (!objective || !teamId) return state
+
+  const isDefender =
+    objective.type === 'base' ? teamId === objective.homeTeamId : teamId === objective.ownerTeamId
+  if (isDefender) {
+    if (objective.progress === 0) return state
+    const defended = { ...objective, capturingTeamId: null, progress: 0 }
+    return { ...state, objectives: { ...state.objectives, [deviceIp]: defended } }
+  }
+
+  const progress = objective.capturingTeamId === teamId ? objective.progress + 1 : 1
+  if (progress < rules.captureHits) {
+    const capturing = { ...objective, capturingTeamId: teamId, progress }
+    return { ...state, objectives: { ...state.objectives, [deviceIp]: capturing } }
+  }
+
+  const reset = { ...objective, capturingTeamId: null, progress: 0 }
+  if (objective.type === 'control_point') {
+    const captured = { ...reset, ownerTeamId: teamId, heldSince: now }
+    return {
+      ...state,
+      objectives: { ...state.objectives, [deviceIp]: captured },
+      heldMs: bankHold(state.heldMs, objective, now),
+    }
+  }
+  return {
+    ...state,
+    objectives: { ...state.objectives, [deviceIp]: reset },
+    captures: { ...state.captures, [teamId]: (state.captures[teamId] ?? 0) + 1 },
+  }
+}
+
+/**
+ * Objective points per team ID: captures plus a point per hold period
+ */
+export function getObjectiveScores(
+  state: ObjectivesState,
+  rules: ObjectiveRules,
+  now: number
+): Record<string, number> {
+  let heldMs = state.heldMs
+  for (const objective of Object.values(state.objectives)) {
+    heldMs = bankHold(heldMs, objective, now)
+  }
+
+  const scores: Record<string, number> = { ...state.captures }
+  for (const [teamId, ms] of Object.entries(heldMs)) {
+    scores[teamId] = (scores[teamId] ?? 0) + Math.floor(ms / (rules.holdSecondsPerPoint * 1000))
+  }
+  return scores
+}
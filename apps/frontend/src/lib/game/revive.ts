@@ -0,0 +1,78 @@
+/**
+ * Manual Respawn
+ *
+ * In manual respawn mode downed players stay down until a referee revives them
+ * from the UI or a medic of their team tags them. Devices are configured with a
+ * respawn time longer than any match, and the REVIVE command ends the wait.
+ * Firmware that does not list REVIVE among its game commands cannot be revived;
+ * while such a device is in the game, manual mode falls back to auto respawns.
+ */
+
+import type { GameMode as PrismaGameMode } from '@rayz/database'
+import { GameCommandType, type DeviceCapabilities, type HitReportMessage } from '@rayz/types'
+
+import { supportsGameCommand } from '@/lib/comm/handshake'
+import type { Device, Player } from '@/components/project-manager/types'
+
+export type RespawnMode = 'auto' | 'manual'
+
+/** Respawn time sent in manual mode: an hour, so only REVIVE brings players back */
+export const MANUAL_RESPAWN_TIME_S = 3600
+
+type RespawnRules = Pick<PrismaGameMode, 'respawnMode' | 'respawnTimeSec'>
+
+/**
+ * @param canRevive - Whether every player device handles REVIVE; manual mode
+ *   falls back to auto when one does not
+ */
+export function respawnModeOf(
+  gameMode?: Pick<PrismaGameMode, 'respawnMode'>,
+  canRevive = true
+): RespawnMode {
+  return gameMode?.respawnMode === 'manual' && canRevive ? 'manual' : 'auto'
+}
+
+/**
+ * The respawn_time_s to configure devices with
+ */
+export function respawnTimeOf(gameMode?: RespawnRules, canRevive = true, fallback = 5): number {
+  if (respawnModeOf(gameMode, canRevive) === 'manual') return MANUAL_RESPAWN_TIME_S
+  return gameMode?.respawnTimeSec ?? fallback
+}
+
+/**
+ * Player devices whose firmware does not handle REVIVE.
+ * Devices that have not finished the handshake are assumed to handle it.
+ */
+export function devicesWithoutRevive(
+  devices: Device[],
+  capabilitiesOf: (ipAddress: string) => DeviceCapabilities | undefined
+): Device[] {
+  return devices.filter(
+    (d) =>
+      d.assignedPlayerId &&
+      !supportsGameCommand(capabilitiesOf(d.ipAddress), GameCommandType.REVIVE)
+  )
+}
+
+/**
+ * Downed devices still report tags, without damage
+ */
+export function isDownedTag(hit: HitReportMessage): boolean {
+  return hit.damage === 0 && !hit.fatal
+}
+
+/**
+ * The medic who revives a downed player with this tag, if any.
+ * Medics revive their own team; players without a team revive each other.
+ */
+export function findReviver(
+  hit: HitReportMessage,
+  victim: Player,
+  players: Player[]
+): Player | undefined {
+  if (!isDownedTag(hit)) return undefined
+  const medic = players.find((p) => p.number === hit.shooter_id && p.isMedic)
+  if (!medic || medic.id === victim.id || medic.teamId !== victim.teamId) return undefined
+  return medic
+}
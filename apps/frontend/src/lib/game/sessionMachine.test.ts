@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+
+import { applyTransition, INITIAL_SESSION, type SessionSnapshot } from './sessionMachine'
+import type { WinResult } from './winConditions'
+
+const result: WinResult = {
+  reason: 'kill_limit',
+  winner: { kind: 'team', id: 't1', name: 'Red', color: '#f00' },
+}
+
+const running: SessionSnapshot = {
+  ...INITIAL_SESSION,
+  state: 'running',
+  version: 2,
+  startedAt: 1000,
+}
+
+test('keeps the result a win condition stopped the game with', () => {
+  const stopped = applyTransition(running, 'stop', { now: 5000, result })
+  assert.equal(stopped?.snapshot.state, 'finished')
+  assert.deepEqual(stopped?.snapshot.result, result)
+
+  const manual = applyTransition(running, 'stop', { now: 5000 })
+  assert.equal(manual?.snapshot.result, null)
+})
+
+test('clears the result for the next game', () => {
+  const finished = { ...running, state: 'finished' as const, result }
+  assert.equal(applyTransition(finished, 'reset')?.snapshot.result, null)
+
+  const idle = { ...INITIAL_SESSION, result }
+  assert.equal(applyTransition(idle, 'start')?.snapshot.result, null)
+  assert.equal(applyTransition(idle, 'start', { countdownSeconds: 0 })?.snapshot.result, null)
+})
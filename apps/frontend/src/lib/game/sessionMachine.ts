@@ -0,0 +1,206 @@
+/**
+ * Game Session State Machine
+ *
+ * Pure transition logic shared by the session server actions and the UI.
+ * The server applies transitions; clients only render the result and
+ * broadcast the resulting GAME_COMMAND to devices.
+ *
+ *   idle ──start──▶ countdown ──go──▶ running ──pause──▶ paused
+ *    ▲ ▲                 │               │ ◀───resume───    │
+ *    │ └──────stop───────┘              stop              stop
+ *    │                                   ▼                  │
+ *    └───────────reset─────────────── finished ◀────────────┘
+ */
+
+import type { GameState } from '@rayz/types'
+
+import type { GameCommandName } from '@/lib/websocket'
+
+import type { WinResult } from './winConditions'
+
+export type SessionState = GameState | 'countdown'
+
+/** `go` ends the countdown; it is issued automatically by the clients */
+export type SessionAction = 'start' | 'go' | 'pause' | 'resume' | 'stop' | 'reset'
+
+export const DEFAULT_COUNTDOWN_SECONDS = 5
+
+// Clients may fire `go` slightly early because of clock skew
+const COUNTDOWN_TOLERANCE_MS = 1000
+
+const TRANSITIONS: Record<SessionState, Partial<Record<SessionAction, SessionState>>> = {
+  idle: { start: 'countdown', reset: 'idle' },
+  countdown: { go: 'running', stop: 'idle' },
+  running: { pause: 'paused', stop: 'finished' },
+  paused: { resume: 'running', stop: 'finished' },
+  finished: { reset: 'idle' },
+}
+
+export interface SessionCommand {
+  name: GameCommandName
+  reqId: string
+  /** Devices the command was sent to */
+  targets: string[]
+  /** Devices that acknowledged it */
+  acks: string[]
+  /** Devices that never acknowledged it, or rejected it */
+  failed: string[]
+}
+
+export interface SessionSnapshot {
+  state: SessionState
+  version: number
+  /** Epoch ms */
+  countdownEndsAt: number | null
+  /** Epoch ms, start of the current running stretch */
+  startedAt: number | null
+  elapsedMs: number
+  /** How the last game was won, when a win condition stopped it */
+  result: WinResult | null
+  command: SessionCommand | null
+}
+
+export const INITIAL_SESSION: SessionSnapshot = {
+  state: 'idle',
+  version: 0,
+  countdownEndsAt: null,
+  startedAt: null,
+  elapsedMs: 0,
+  result: null,
+  command: null,
+}
+
+export interface TransitionResult {
+  snapshot: Omit<SessionSnapshot, 'command'>
+  /** Command devices must receive, if any */
+  command: GameCommandName | null
+}
+
+export function canTransition(state: SessionState, action: SessionAction): boolean {
+  return TRANSITIONS[state][action] !== undefined
+}
+
+export function getElapsedMs(snapshot: SessionSnapshot, now = Date.now()): number {
+  if (snapshot.state === 'running' && snapshot.startedAt) {
+    return snapshot.elapsedMs + Math.max(0, now - snapshot.startedAt)
+  }
+  return snapshot.elapsedMs
+}
+
+export function getCountdownRemainingMs(snapshot: SessionSnapshot, now = Date.now()): number {
+  if (snapshot.state !== 'countdown' || !snapshot.countdownEndsAt) return 0
+  return Math.max(0, snapshot.countdownEndsAt - now)
+}
+
+/**
+ * Apply an action to a snapshot.
+ * Returns null when the transition is not allowed.
+ */
+export function applyTransition(
+  snapshot: SessionSnapshot,
+  action: SessionAction,
+  {
+    now = Date.now(),
+    countdownSeconds = DEFAULT_COUNTDOWN_SECONDS,
+    result = null,
+  }: { now?: number; countdownSeconds?: number; result?: WinResult | null } = {}
+): TransitionResult | null {
+  if (!canTransition(snapshot.state, action)) return null
+
+  const base: TransitionResult['snapshot'] = {
+    state: snapshot.state,
+    version: snapshot.version + 1,
+    countdownEndsAt: snapshot.countdownEndsAt,
+    startedAt: snapshot.startedAt,
+    elapsedMs: snapshot.elapsedMs,
+    result: snapshot.result,
+  }
+
+  switch (action) {
+    case 'start':
+      // Without a countdown the game goes live right away
+      if (countdownSeconds <= 0) {
+        return {
+          snapshot: {
+            ...base,
+            state: 'running',
+            countdownEndsAt: null,
+            startedAt: now,
+            elapsedMs: 0,
+            result: null,
+          },
+          command: 'start',
+        }
+      }
+      return {
+        snapshot: {
+          ...base,
+          state: 'countdown',
+          countdownEndsAt: now + countdownSeconds * 1000,
+          startedAt: null,
+          elapsedMs: 0,
+          result: null,
+        },
+        command: null,
+      }
+
+    case 'go':
+      if (snapshot.countdownEndsAt && now < snapshot.countdownEndsAt - COUNTDOWN_TOLERANCE_MS) {
+        return null
+      }
+      return {
+        snapshot: { ...base, state: 'running', countdownEndsAt: null, startedAt: now },
+        command: 'start',
+      }
+
+    case 'pause':
+      return {
+        snapshot: {
+          ...base,
+          state: 'paused',
+          startedAt: null,
+          elapsedMs: getElapsedMs(snapshot, now),
+        },
+        command: 'pause',
+      }
+
+    case 'resume':
+      return {
+        snapshot: { ...base, state: 'running', startedAt: now },
+        command: 'unpause',
+      }
+
+    // `result` is given when a win condition stops the game
+    case 'stop':
+      // Cancelling a countdown never reached the devices
+      if (snapshot.state === 'countdown') {
+        return {
+          snapshot: { ...base, state: 'idle', countdownEndsAt: null },
+          command: null,
+        }
+      }
+      return {
+        snapshot: {
+          ...base,
+          state: 'finished',
+          startedAt: null,
+          elapsedMs: getElapsedMs(snapshot, now),
+          result,
+        },
+        command: 'stop',
+      }
+
+    case 'reset':
+      return {
+        snapshot: {
+          ...base,
+          state: 'idle',
+          countdownEndsAt: null,
+          startedAt: null,
+          elapsedMs: 0,
+          result: null,
+        },
+        command: 'reset',
+      }
+  }
+}
@@ -0,0 +1,16 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+
+import { GAME_MODE_WIN_CONDITIONS, gameModeOf, sameWinConditions } from './winConditions'
+
+test('finds the control panel mode a match was started with', () => {
+  assert.equal(gameModeOf(GAME_MODE_WIN_CONDITIONS.deathmatch), 'deathmatch')
+  assert.equal(gameModeOf({ ...GAME_MODE_WIN_CONDITIONS.team }), 'team')
+  assert.equal(gameModeOf({ ...GAME_MODE_WIN_CONDITIONS.team, teamScoreLimit: 30 }), null)
+})
+
+test('compares win conditions field by field', () => {
+  const free = GAME_MODE_WIN_CONDITIONS.free
+  assert.equal(sameWinConditions(free, { ...free }), true)
+  assert.equal(sameWinConditions(free, { ...free, tiebreaker: 'deaths' }), false)
+})
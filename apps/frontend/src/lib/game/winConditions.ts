@@ -0,0 +1,219 @@
+/**
+ * Win Conditions
+ *
+ * Devices only know per-device mechanics (hearts, ammo, timer). Whether a
+ * match is won is decided by the web app: it evaluates the live scoreboard
+ * against the rules below and stops the game when one of them triggers.
+ */
+
+import type { GameMode as PrismaGameMode } from '@rayz/database'
+import type { GameMode as WSGameMode } from '@rayz/types'
+
+import type { LivePlayerRow, LiveScoreboard } from './liveScoreboard'
+
+/** Whether kills count for the team or only for the player who made them */
+export type Scoring = 'team' | 'individual'
+
+/** How a match that runs out of time with tied kills is decided */
+export type Tiebreaker = 'deaths' | 'draw'
+
+export interface WinConditions {
+  scoring: Scoring
+  /** Kills a single player needs to win (for their team in team scoring), 0 = off */
+  killLimit: number
+  /** Kills a team needs to win, 0 = off; ignored in individual scoring */
+  teamScoreLimit: number
+  /** Win when every other team (or player) is out at the same time */
+  lastTeamStanding: boolean
+  /** Objective points a team needs to win, 0 = off; ignored in individual scoring */
+  objectiveScoreLimit: number
+  tiebreaker: Tiebreaker
+}
+
+export type WinReason =
+  | 'kill_limit'
+  | 'team_score'
+  | 'objective_score'
+  | 'last_team_standing'
+  | 'time'
+
+export interface MatchWinner {
+  kind: 'team' | 'player'
+  /** Team or player ID; null for players without a team */
+  id: string | null
+  name: string
+  color: string | null
+}
+
+export interface WinResult {
+  reason: WinReason
+  /** Null when the match ended in a draw */
+  winner: MatchWinner | null
+}
+
+export const NO_WIN_CONDITIONS: WinConditions = {
+  scoring: 'team',
+  killLimit: 0,
+  teamScoreLimit: 0,
+  lastTeamStanding: false,
+  objectiveScoreLimit: 0,
+  tiebreaker: 'deaths',
+}
+
+/**
+ * What picking a mode in the game control panel sets up.
+ * Every mode still ends on time expiry when a duration is set.
+ */
+export const GAME_MODE_WIN_CONDITIONS: Record<WSGameMode, WinConditions> = {
+  free: { ...NO_WIN_CONDITIONS, tiebreaker: 'draw' },
+  deathmatch: { ...NO_WIN_CONDITIONS, scoring: 'individual', killLimit: 10 },
+  team: { ...NO_WIN_CONDITIONS, teamScoreLimit: 25 },
+  capture_flag: { ...NO_WIN_CONDITIONS, objectiveScoreLimit: 5 },
+  timed: NO_WIN_CONDITIONS,
+}
+
+/**
+ * Read the win conditions of a stored GameMode
+ */
+export function winConditionsOf(gameMode: PrismaGameMode): WinConditions {
+  return {
+    scoring: gameMode.scoring === 'individual' ? 'individual' : 'team',
+    killLimit: Math.max(0, gameMode.killLimit),
+    teamScoreLimit: Math.max(0, gameMode.teamScoreLimit),
+    lastTeamStanding: gameMode.lastTeamStanding,
+    objectiveScoreLimit: Math.max(0, gameMode.objectiveScoreLimit),
+    tiebreaker: gameMode.tiebreaker === 'draw' ? 'draw' : 'deaths',
+  }
+}
+
+export function sameWinConditions(a: WinConditions, b: WinConditions): boolean {
+  return (Object.keys(NO_WIN_CONDITIONS) as (keyof WinConditions)[]).every(
+    (key) => a[key] === b[key]
+  )
+}
+
+/**
+ * The control panel mode that sets up these conditions, if any
+ */
+export function gameModeOf(conditions: WinConditions): WSGameMode | null {
+  const modes = Object.keys(GAME_MODE_WIN_CONDITIONS) as WSGameMode[]
+  return modes.find((mode) => sameWinConditions(GAME_MODE_WIN_CONDITIONS[mode], conditions)) ?? null
+}
+
+// A team in team scoring, or a single player in individual scoring
+interface Side {
+  winner: MatchWinner
+  /** Objective points; always 0 in individual scoring */
+  objectives: number
+  kills: number
+  deaths: number
+  players: LivePlayerRow[]
+}
+
+function getSides(
+  scoreboard: LiveScoreboard,
+  scoring: Scoring,
+  objectiveScores: Record<string, number>
+): Side[] {
+  if (scoring === 'individual') {
+    return scoreboard.teams.flatMap((team) =>
+      team.players.map((player) => ({
+        winner: { kind: 'player' as const, id: player.id, name: player.name, color: team.color },
+        objectives: 0,
+        kills: player.kills,
+        deaths: player.deaths,
+        players: [player],
+      }))
+    )
+  }
+  // Players without a team cannot win a team game
+  return scoreboard.teams
+    .filter((team) => team.id !== null)
+    .map((team) => ({
+      winner: { kind: 'team' as const, id: team.id, name: team.name, color: team.color },
+      objectives: team.id ? (objectiveScores[team.id] ?? 0) : 0,
+      kills: team.kills,
+      deaths: team.deaths,
+      players: team.players,
+    }))
+}
+
+function byScore(a: Side, b: Side, tiebreaker: Tiebreaker) {
+  return (
+    b.objectives - a.objectives ||
+    b.kills - a.kills ||
+    (tiebreaker === 'deaths' ? a.deaths - b.deaths : 0)
+  )
+}
+
+/**
+ * Check the live scoreboard against the win conditions
+ * @returns The result once a condition triggered, otherwise null
+ */
+export function evaluateWinConditions(
+  conditions: WinConditions,
+  scoreboard: LiveScoreboard,
+  {
+    timeExpired = false,
+    eliminated = new Set(),
+    manualRespawn = false,
+    objectiveScores = {},
+  }: {
+    timeExpired?: boolean
+    /** Players out of lives, who stay down for the rest of the match */
+    eliminated?: ReadonlySet<string>
+    /** Downed players stay down until revived instead of respawning on their own */
+    manualRespawn?: boolean
+    /** Objective points per team ID */
+    objectiveScores?: Record<string, number>
+  } = {}
+): WinResult | null {
+  const sides = getSides(scoreboard, conditions.scoring, objectiveScores)
+  if (sides.length === 0) return null
+
+  if (conditions.killLimit > 0) {
+    const leader = scoreboard.teams
+      .flatMap((team) => team.players)
+      .filter((player) => player.kills >= conditions.killLimit)
+      .sort((a, b) => b.kills - a.kills)[0]
+    const side = leader && sides.find((s) => s.players.some((player) => player.id === leader.id))
+    if (side) return { reason: 'kill_limit', winner: side.winner }
+  }
+
+  if (conditions.scoring === 'team' && conditions.teamScoreLimit > 0) {
+    const side = sides
+      .filter((s) => s.kills >= conditions.teamScoreLimit)
+      .sort((a, b) => byScore(a, b, conditions.tiebreaker))[0]
+    if (side) return { reason: 'team_score', winner: side.winner }
+  }
+
+  if (conditions.scoring === 'team' && conditions.objectiveScoreLimit > 0) {
+    const side = sides
+      .filter((s) => s.objectives >= conditions.objectiveScoreLimit)
+      .sort((a, b) => byScore(a, b, conditions.tiebreaker))[0]
+    if (side) return { reason: 'objective_score', winner: side.winner }
+  }
+
+  if (conditions.lastTeamStanding) {
+    // Only players who will not come back on their own are out; an automatic
+    // respawn is just a pause
+    const isOut = (player: LivePlayerRow) =>
+      eliminated.has(player.id) || (manualRespawn && (player.isRespawning || player.hearts === 0))
+    // Sides whose devices all went offline are not in the game
+    const inGame = sides.filter((s) => s.players.some((player) => player.online))
+    const standing = inGame.filter((s) =>
+      s.players.some((player) => player.online && !isOut(player))
+    )
+    if (inGame.length > 1 && standing.length === 1) {
+      return { reason: 'last_team_standing', winner: standing[0].winner }
+    }
+  }
+
+  if (timeExpired) {
+    const [first, second] = [...sides].sort((a, b) => byScore(a, b, conditions.tiebreaker))
+    const tied = second && byScore(first, second, conditions.tiebreaker) === 0
+    return { reason: 'time', winner: tied ? null : first.winner }
+  }
+
+  return null
+}
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+
+import { isValidEvent, matchDeviceIps } from './events'
+import type { MatchEventInput, MatchRuleset } from './types'
+
+const participants = [{ deviceIps: ['10.0.0.1', '10.0.0.2'] }, { deviceIps: ['10.0.0.3'] }]
+const ruleset: Pick<MatchRuleset, 'objectives'> = {
+  objectives: [{ deviceIp: '10.0.0.50', name: 'Hill', type: 'control_point', homeTeamId: null }],
+}
+
+const hitReport = (deviceIp: string): MatchEventInput => ({
+  type: 'hit_report',
+  deviceIp,
+  payload: { type: 'hit_report', shooter_id: 1 } as unknown as MatchEventInput['payload'],
+  receivedAt: 1700000000000,
+})
+
+test('records hits on objective devices snapshotted at start', () => {
+  const deviceIps = matchDeviceIps(participants, ruleset)
+  assert.equal(isValidEvent(hitReport('10.0.0.50'), deviceIps), true)
+  assert.equal(isValidEvent(hitReport('10.0.0.3'), deviceIps), true)
+})
+
+test('drops events from devices outside the match', () => {
+  const deviceIps = matchDeviceIps(participants, ruleset)
+  assert.equal(isValidEvent(hitReport('10.0.0.99'), deviceIps), false)
+  // Matches from before objectives only know the players' devices
+  assert.equal(isValidEvent(hitReport('10.0.0.50'), matchDeviceIps(participants, {})), false)
+})
+
+test('drops events whose type is not recorded or does not match the payload', () => {
+  const deviceIps = matchDeviceIps(participants, ruleset)
+  const event = hitReport('10.0.0.1')
+  assert.equal(isValidEvent({ ...event, type: 'heartbeat' as never }, deviceIps), false)
+  assert.equal(isValidEvent({ ...event, type: 'respawn' }, deviceIps), false)
+  assert.equal(isValidEvent({ ...event, payload: null as never }, deviceIps), false)
+  assert.equal(isValidEvent({ ...event, receivedAt: NaN }, deviceIps), false)
+})
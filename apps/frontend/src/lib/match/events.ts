@@ -0,0 +1,38 @@
+/**
+ * Match Event Validation
+ *
+ * Events are captured in the browser, so the server checks every one before
+ * it is written to the match log.
+ */
+
+import { isRecordedEventType, type MatchEventInput, type MatchRuleset } from './types'
+
+/**
+ * Devices that belong to a match: the weapons of the players and the objective
+ * devices snapshotted when it started
+ */
+export function matchDeviceIps(
+  participants: { deviceIps: string[] }[],
+  ruleset: Pick<MatchRuleset, 'objectives'>
+): Set<string> {
+  return new Set([
+    ...participants.flatMap((p) => p.deviceIps),
+    ...(ruleset.objectives ?? []).map((o) => o.deviceIp),
+  ])
+}
+
+/**
+ * The type must be a recorded protocol message, matching the payload, from
+ * one of the match's devices
+ */
+export function isValidEvent(event: MatchEventInput, deviceIps: Set<string>): boolean {
+  const payload = event.payload as { type?: unknown } | null
+  return (
+    typeof event.type === 'string' &&
+    isRecordedEventType(event.type) &&
+    typeof payload === 'object' &&
+    payload?.type === event.type &&
+    deviceIps.has(event.deviceIp) &&
+    Number.isFinite(event.receivedAt)
+  )
+}
@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+
+import { protocolEvents, type RecordedEvent } from './replay'
+
+const event = (offsetMs: number, payload: object): RecordedEvent => ({
+  deviceIp: '10.0.0.1',
+  offsetMs,
+  payload: payload as RecordedEvent['payload'],
+})
+
+test('dispatches only the messages devices sent', () => {
+  const hit = event(100, { type: 'hit_report', shooter_id: 2 })
+  const revive = event(200, { type: 'revive', by: 'referee' })
+  const respawn = event(300, { type: 'respawn' })
+
+  assert.deepEqual(protocolEvents([hit, revive, respawn]), [hit, respawn])
+})
+
+test('drops entries of unknown types', () => {
+  assert.deepEqual(protocolEvents([event(0, { type: 'heartbeat' })]), [])
+})
@@ -0,0 +1,122 @@
+/**
+ * Match Replay
+ *
+ * Rebuilds the roster of a recorded match from its participant snapshot, so
+ * the live UI (kill feed, overview) resolves players exactly as it did during
+ * the game, even if the project's teams and players changed since.
+ */
+
+import type { ReplayEvent } from '@/lib/comm/ReplayComm'
+import type { Device, Player, Project, Team } from '@/components/project-manager/types'
+
+import type { ScoreboardParticipant } from './scoreboard'
+import { isProtocolEventType, type MatchEventInput } from './types'
+
+export type ReplayParticipant = Omit<ScoreboardParticipant, 'stats'>
+
+/**
+ * An entry of the match log, sorted by offset
+ */
+export interface RecordedEvent {
+  deviceIp: string
+  /** Milliseconds since the match started */
+  offsetMs: number
+  payload: MatchEventInput['payload']
+}
+
+export interface ReplayMatch {
+  id: string
+  startedAt: Date
+  project: { id: string; name: string }
+}
+
+/**
+ * Project with the teams, players and device assignments of the match
+ */
+export function buildReplayProject(match: ReplayMatch, participants: ReplayParticipant[]): Project {
+  const createdAt = match.startedAt
+  const base = { projectId: match.project.id, createdAt, updatedAt: createdAt }
+
+  const teams = new Map<number, Team>()
+  const players: Player[] = []
+  const devices: Device[] = []
+
+  participants.forEach((participant, index) => {
+    let team: Team | undefined
+    if (participant.teamNumber !== 0) {
+      team = teams.get(participant.teamNumber) ?? {
+        ...base,
+        id: `replay-team-${participant.teamNumber}`,
+        name: participant.teamName ?? `Team ${participant.teamNumber}`,
+        color: participant.teamColor ?? '#9ca3af',
+        number: participant.teamNumber,
+        order: teams.size,
+      }
+      teams.set(participant.teamNumber, team)
+    }
+
+    const player: Player = {
+      ...base,
+      id: `replay-player-${participant.playerNumber}`,
+      name: participant.playerName,
+      number: participant.playerNumber,
+      order: index,
+      teamId: team?.id ?? null,
+      isMedic: false,
+    }
+    players.push(player)
+
+    participant.deviceIps.forEach((ipAddress) => {
+      devices.push({
+        ...base,
+        id: `replay-device-${ipAddress}`,
+        name: null,
+        ipAddress,
+        macAddress: null,
+        status: 'offline',
+        order: devices.length,
+        profileId: '',
+        assignedPlayerId: player.id,
+        objectiveType: null,
+        objectiveTeamId: null,
+      })
+    })
+  })
+
+  return {
+    id: match.project.id,
+    name: match.project.name,
+    description: null,
+    status: 'archived',
+    liveToken: null,
+    userId: '',
+    gameModeId: '',
+    createdAt,
+    updatedAt: createdAt,
+    teams: [...teams.values()],
+    players,
+    devices,
+  }
+}
+
+/**
+ * Number of events (sorted by offset) that happened at or before a position
+ */
+export function countEventsUntil(events: { offsetMs: number }[], positionMs: number): number {
+  let low = 0
+  let high = events.length
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    if (events[mid].offsetMs <= positionMs) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+/**
+ * The device messages of a match log, for ReplayComm to dispatch. Events the
+ * app recorded itself (`revive`) are not protocol messages and are left out.
+ */
+export function protocolEvents(events: RecordedEvent[]): ReplayEvent[] {
+  return events.filter((event): event is ReplayEvent => isProtocolEventType(event.payload.type))
+}
@@ -0,0 +1,211 @@
+/**
+ * Match Scoreboard
+ *
+ * Builds per-player and per-team results from a recorded match.
+ *
+ * Counters (kills, deaths, friendly kills, shots) come from the DeviceLiveStats
+ * in the last `status` message of each device. Hits landed are only known from
+ * the `hit_report` stream, where `shooter_id` is the shooter's Player.number.
+ * Devices that never reported a status fall back to counts derived from the
+ * event stream.
+ */
+
+import type { DeviceLiveStats, DeviceStatusMessage, HitReportMessage } from '@rayz/types'
+
+import { isDownedTag } from '@/lib/game/revive'
+
+import type { RecordedEventType } from './types'
+
+export interface ScoreboardParticipant {
+  playerNumber: number
+  playerName: string
+  teamNumber: number
+  teamName: string | null
+  teamColor: string | null
+  deviceIps: string[]
+  /** Summary stored when the match finished */
+  stats: DeviceLiveStats | null
+}
+
+export interface ScoreboardEvent {
+  type: RecordedEventType | string
+  deviceIp: string
+  payload: unknown
+}
+
+export interface ScoreboardTotals {
+  kills: number
+  deaths: number
+  friendlyKills: number
+  shots: number
+  hitsLanded: number
+  hitsReceived: number
+  /** Hits landed / shots fired, 0..1 */
+  accuracy: number
+  /** Kills / deaths (kills when no deaths) */
+  kd: number
+}
+
+export interface ScoreboardPlayerRow extends ScoreboardTotals {
+  playerNumber: number
+  playerName: string
+  teamNumber: number
+}
+
+export interface ScoreboardTeamRow extends ScoreboardTotals {
+  teamNumber: number
+  teamName: string
+  teamColor: string | null
+  players: ScoreboardPlayerRow[]
+}
+
+export interface Scoreboard {
+  teams: ScoreboardTeamRow[]
+  players: ScoreboardPlayerRow[]
+}
+
+type Counters = Omit<ScoreboardTotals, 'accuracy' | 'kd'>
+
+const emptyCounters = (): Counters => ({
+  kills: 0,
+  deaths: 0,
+  friendlyKills: 0,
+  shots: 0,
+  hitsLanded: 0,
+  hitsReceived: 0,
+})
+
+function withRatios(counters: Counters): ScoreboardTotals {
+  return {
+    ...counters,
+    accuracy: counters.shots > 0 ? Math.min(1, counters.hitsLanded / counters.shots) : 0,
+    kd: counters.deaths > 0 ? counters.kills / counters.deaths : counters.kills,
+  }
+}
+
+function addCounters(a: Counters, b: Counters): Counters {
+  return {
+    kills: a.kills + b.kills,
+    deaths: a.deaths + b.deaths,
+    friendlyKills: a.friendlyKills + b.friendlyKills,
+    shots: a.shots + b.shots,
+    hitsLanded: a.hitsLanded + b.hitsLanded,
+    hitsReceived: a.hitsReceived + b.hitsReceived,
+  }
+}
+
+export function buildScoreboard(
+  participants: ScoreboardParticipant[],
+  events: ScoreboardEvent[]
+): Scoreboard {
+  const byNumber = new Map(participants.map((p) => [p.playerNumber, p]))
+  const byDevice = new Map<string, ScoreboardParticipant>()
+  participants.forEach((p) => p.deviceIps.forEach((ip) => byDevice.set(ip, p)))
+
+  const lastStatus = new Map<string, DeviceLiveStats>()
+  // Counts derived from the event stream, keyed by player number
+  const derived = new Map<number, Counters>()
+  const derivedFor = (playerNumber: number) => {
+    if (!derived.has(playerNumber)) derived.set(playerNumber, emptyCounters())
+    return derived.get(playerNumber)!
+  }
+
+  for (const event of events) {
+    const owner = byDevice.get(event.deviceIp)
+
+    switch (event.type) {
+      case 'status':
+        lastStatus.set(event.deviceIp, (event.payload as DeviceStatusMessage).stats)
+        break
+
+      case 'shot_fired':
+        if (owner) derivedFor(owner.playerNumber).shots++
+        break
+
+      case 'hit_report': {
+        const hit = event.payload as HitReportMessage
+        if (isDownedTag(hit)) break
+        const shooter = byNumber.get(hit.shooter_id)
+
+        if (owner) {
+          const victim = derivedFor(owner.playerNumber)
+          victim.hitsReceived++
+          if (hit.fatal) victim.deaths++
+        }
+        // Self-hits do not count as landed hits
+        if (shooter && shooter !== owner) {
+          const counters = derivedFor(shooter.playerNumber)
+          counters.hitsLanded++
+          if (hit.fatal) {
+            const friendly =
+              owner && owner.teamNumber !== 0 && owner.teamNumber === shooter.teamNumber
+            if (friendly) counters.friendlyKills++
+            else counters.kills++
+          }
+        }
+        break
+      }
+    }
+  }
+
+  const players: ScoreboardPlayerRow[] = participants.map((participant) => {
+    const fromEvents = derived.get(participant.playerNumber) ?? emptyCounters()
+    const reported = participant.deviceIps
+      .map((ip) => lastStatus.get(ip))
+      .filter((s): s is DeviceLiveStats => !!s)
+    const stats = reported.length > 0 ? reported : participant.stats ? [participant.stats] : []
+
+    let counters = fromEvents
+    if (stats.length > 0) {
+      const reportedHits = stats.some((s) => s.hits_received !== undefined)
+      counters = stats.reduce<Counters>(
+        (total, s) => ({
+          ...total,
+          kills: total.kills + (s.enemy_kills || 0),
+          deaths: total.deaths + (s.deaths || 0),
+          friendlyKills: total.friendlyKills + (s.friendly_kills || 0),
+          shots: total.shots + (s.shots || 0),
+          hitsReceived: reportedHits
+            ? total.hitsReceived + (s.hits_received || 0)
+            : total.hitsReceived,
+        }),
+        {
+          ...emptyCounters(),
+          hitsLanded: fromEvents.hitsLanded,
+          hitsReceived: reportedHits ? 0 : fromEvents.hitsReceived,
+        }
+      )
+    }
+
+    return {
+      playerNumber: participant.playerNumber,
+      playerName: participant.playerName,
+      teamNumber: participant.teamNumber,
+      ...withRatios(counters),
+    }
+  })
+
+  const teamMap = new Map<
+    number,
+    { participant: ScoreboardParticipant; rows: ScoreboardPlayerRow[] }
+  >()
+  participants.forEach((participant, index) => {
+    const entry = teamMap.get(participant.teamNumber) ?? { participant, rows: [] }
+    entry.rows.push(players[index])
+    teamMap.set(participant.teamNumber, entry)
+  })
+
+  const teams: ScoreboardTeamRow[] = [...teamMap.entries()]
+    .map(([teamNumber, { participant, rows }]) => ({
+      teamNumber,
+      teamName: participant.teamName ?? (teamNumber === 0 ? 'No Team' : `Team ${teamNumber}`),
+      teamColor: participant.teamColor,
+      players: [...rows].sort((a, b) => b.kills - a.kills || a.deaths - b.deaths),
+      ...withRatios(
+        rows.reduce<Counters>((total, row) => addCounters(total, row), emptyCounters())
+      ),
+    }))
+    .sort((a, b) => b.kills - a.kills || a.teamNumber - b.teamNumber)
+
+  return { teams, players }
+}
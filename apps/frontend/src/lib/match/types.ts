@@ -0,0 +1,121 @@
+/**
+ * Match Recording Types
+ *
+ * Shared between the match server actions and the client-side recorder.
+ */
+
+import type { DeviceLiveStats, ServerMessage } from '@rayz/types'
+
+import type { ObjectiveType } from '@/lib/game/objectives'
+import type { RespawnMode } from '@/lib/game/revive'
+import type { WinConditions, WinResult } from '@/lib/game/winConditions'
+
+export type MatchStatus = 'running' | 'finished' | 'aborted'
+
+/**
+ * Snapshot of the GameMode rules a match was started with
+ */
+export interface MatchRuleset {
+  gameModeName: string
+  durationSeconds: number
+
+  // Health
+  enableHearts: boolean
+  maxHearts: number
+  spawnHearts: number
+  respawnTimeSec: number
+  /** Deaths before elimination, 0 = Unlimited; missing on older matches */
+  lives?: number
+  /** Missing on older matches, which all respawned automatically */
+  respawnMode?: RespawnMode
+  friendlyFire: boolean
+  damageIn: number
+  damageOut: number
+
+  // Ammo
+  enableAmmo: boolean
+  maxAmmo: number
+  reloadTimeMs: number
+
+  /** Missing on matches recorded before win conditions existed */
+  winConditions?: WinConditions
+
+  // Objectives, all missing on matches recorded before objectives existed
+  captureHits?: number
+  holdSecondsPerPoint?: number
+  objectives?: MatchObjective[]
+}
+
+/**
+ * Objective device as it was set up when the match started
+ */
+export interface MatchObjective {
+  deviceIp: string
+  name: string
+  type: ObjectiveType
+  /** Defending team of a base */
+  homeTeamId: string | null
+}
+
+/**
+ * How a finished match was decided, if a win condition ended it
+ */
+export type MatchResult = WinResult
+
+/**
+ * Protocol messages that are persisted to the match log.
+ * Heartbeats and ACKs are transport noise and are not recorded.
+ */
+export const PROTOCOL_EVENT_TYPES = [
+  'status',
+  'shot_fired',
+  'hit_report',
+  'respawn',
+  'reload_event',
+  'game_over',
+] as const
+
+/**
+ * Everything in the match log: the protocol messages, plus `revive`, which
+ * the app records itself
+ */
+export const RECORDED_EVENT_TYPES = [...PROTOCOL_EVENT_TYPES, 'revive'] as const
+
+export type ProtocolEventType = (typeof PROTOCOL_EVENT_TYPES)[number]
+
+export type RecordedEventType = (typeof RECORDED_EVENT_TYPES)[number]
+
+export function isProtocolEventType(type: string): type is ProtocolEventType {
+  return (PROTOCOL_EVENT_TYPES as readonly string[]).includes(type)
+}
+
+export function isRecordedEventType(type: string): type is RecordedEventType {
+  return (RECORDED_EVENT_TYPES as readonly string[]).includes(type)
+}
+
+/**
+ * Recorded when a downed player is revived in manual respawn mode.
+ * The device's own RESPAWN follows once it carried out the REVIVE command.
+ */
+export interface ReviveEvent {
+  type: 'revive'
+  by: 'referee' | 'medic'
+  /** Player number of the medic */
+  medic_id?: number
+}
+
+/**
+ * A single protocol event as captured by the browser
+ */
+export interface MatchEventInput {
+  type: RecordedEventType
+  deviceIp: string
+  payload: ServerMessage | ReviveEvent
+  /** Epoch ms when the browser received the message */
+  receivedAt: number
+}
+
+/**
+ * Last reported DeviceLiveStats per device IP, sent when a match finishes
+ */
+export type FinalDeviceStats = Record<string, DeviceLiveStats>
@@ -0,0 +1,40 @@
+/**
+ * Project Roles
+ *
+ * What each member of a project may do. Shared by the server actions, which
+ * enforce it, and the UI, which only hides what the user cannot use.
+ * The project owner is always an admin.
+ */
+
+export const PROJECT_ROLES = ['admin', 'referee', 'player', 'spectator'] as const
+
+export type ProjectRole = (typeof PROJECT_ROLES)[number]
+
+export type ProjectPermission =
+  /** Rename, change the game mode, manage members */
+  | 'manageProject'
+  /** Teams, players and device assignments */
+  | 'editRoster'
+  /** Start, stop and pause games, adjust rules (hearts, ammo) and send them to devices */
+  | 'controlGame'
+  /** Live overview, session state and kill feed */
+  | 'viewLive'
+  /** Full match history, scoreboards and replays */
+  | 'viewMatches'
+  /** Own rows in match scoreboards */
+  | 'viewOwnStats'
+
+const ROLE_PERMISSIONS: Record<ProjectRole, readonly ProjectPermission[]> = {
+  admin: ['manageProject', 'editRoster', 'controlGame', 'viewLive', 'viewMatches', 'viewOwnStats'],
+  referee: ['controlGame', 'viewLive', 'viewMatches', 'viewOwnStats'],
+  player: ['viewLive', 'viewOwnStats'],
+  spectator: ['viewLive'],
+}
+
+export function isProjectRole(value: unknown): value is ProjectRole {
+  return PROJECT_ROLES.includes(value as ProjectRole)
+}
+
+export function can(role: ProjectRole | null | undefined, permission: ProjectPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+
+import { isPublicApiRequest } from './public-api'
+
+const isPublic = (path: string) => isPublicApiRequest(new URL(path, 'http://localhost'))
+
+test('lets anonymous spectator screens fetch realtime tokens with a live token', () => {
+  assert.equal(isPublic('/api/bridge/token?sessionId=p1&liveToken=abc'), true)
+  assert.equal(isPublic('/api/relay/token?liveToken=abc'), true)
+  assert.equal(isPublic('/api/ably/token?liveToken=abc'), true)
+})
+
+test('requires a signed-in user for token routes without a live token', () => {
+  assert.equal(isPublic('/api/bridge/token?sessionId=p1'), false)
+  assert.equal(isPublic('/api/relay/token?sessionId=p1'), false)
+  assert.equal(isPublic('/api/bridge/token/extra?liveToken=abc'), false)
+})
+
+test('keeps auth and health public and everything else protected', () => {
+  assert.equal(isPublic('/api/auth/session'), true)
+  assert.equal(isPublic('/api/health'), true)
+  assert.equal(isPublic('/api/projects?liveToken=abc'), false)
+})
@@ -0,0 +1,15 @@
+/**
+ * API routes anonymous visitors may call; everything else under /api needs a
+ * signed-in user (see proxy.ts)
+ */
+
+const PUBLIC_API_PREFIXES = ['/api/auth', '/api/health']
+
+// Realtime token routes that public spectator screens call with the project's live token
+const LIVE_TOKEN_ROUTE = /^\/api\/(ably|relay|bridge)\/token$/
+
+export function isPublicApiRequest(url: Pick<URL, 'pathname' | 'searchParams'>): boolean {
+  if (PUBLIC_API_PREFIXES.some((prefix) => url.pathname.startsWith(prefix))) return true
+  // The routes hand out read-only tokens for it (lib/server/realtime-session.ts)
+  return LIVE_TOKEN_ROUTE.test(url.pathname) && url.searchParams.has('liveToken')
+}
@@ -0,0 +1,61 @@
+import 'server-only'
+
+import { auth } from '@/auth'
+
+import { can, isProjectRole, type ProjectPermission, type ProjectRole } from '@/lib/project/roles'
+
+import { prisma } from './prisma'
+
+export interface ProjectAccess {
+  userId: string
+  projectId: string
+  role: ProjectRole
+  isOwner: boolean
+  /** Roster entry of a player member */
+  playerId: string | null
+}
+
+/**
+ * Role of a user in a project: admin for the owner, the member role otherwise
+ * @returns null if the project does not exist or is not shared with the user
+ */
+export async function getProjectAccess(
+  projectId: string,
+  userId: string
+): Promise<ProjectAccess | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      userId: true,
+      members: { where: { userId }, select: { role: true, playerId: true } },
+    },
+  })
+  if (!project) return null
+
+  if (project.userId === userId) {
+    return { userId, projectId, role: 'admin', isOwner: true, playerId: null }
+  }
+
+  const member = project.members[0]
+  if (!member || !isProjectRole(member.role)) return null
+  return { userId, projectId, role: member.role, isOwner: false, playerId: member.playerId }
+}
+
+/**
+ * Check that the signed-in user may do something in a project
+ * @returns The access, or an `{ error }` result to return from the action
+ */
+export async function authorizeProject(
+  projectId: string,
+  permission: ProjectPermission
+): Promise<ProjectAccess | { error: string }> {
+  const session = await auth()
+  if (!session?.user?.id) return { error: 'Unauthorized' }
+
+  const access = await getProjectAccess(projectId, session.user.id)
+  // Non-members do not learn whether the project exists
+  if (!access) return { error: 'Project not found' }
+  if (!can(access.role, permission)) return { error: 'Forbidden' }
+
+  return access
+}
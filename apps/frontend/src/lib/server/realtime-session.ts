@@ -0,0 +1,70 @@
+import 'server-only'
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { auth } from '@/auth'
+
+import { can, type ProjectRole } from '@/lib/project/roles'
+
+import { prisma } from './prisma'
+import { getProjectAccess } from './project-access'
+
+export interface RealtimeSession {
+  /** Realtime clientId: `user:<userId>`, or `spectator` for public screens */
+  clientId: string
+  /** The project ID */
+  sessionId: string
+  role: ProjectRole
+  /** Whether the user may send commands to devices */
+  canControl: boolean
+}
+
+/**
+ * Resolve the game session a realtime token is requested for (`?sessionId=`).
+ * Public spectator screens pass the project's `?liveToken=` instead of signing in.
+ * @returns The session, or an error response if the caller may not join it
+ */
+export async function authorizeRealtimeSession(
+  request: NextRequest
+): Promise<RealtimeSession | NextResponse> {
+  const sessionId = request.nextUrl.searchParams.get('sessionId')
+  const liveToken = request.nextUrl.searchParams.get('liveToken')
+
+  if (liveToken) {
+    const project = await prisma.project.findUnique({
+      where: { liveToken },
+      select: { id: true },
+    })
+    if (!project || (sessionId && sessionId !== project.id)) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    // Stable across token renewals, which must keep the clientId
+    return {
+      clientId: 'spectator',
+      sessionId: project.id,
+      role: 'spectator',
+      canControl: false,
+    }
+  }
+
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!sessionId) {
+    return NextResponse.json({ error: 'sessionId is required' }, { status: 400 })
+  }
+
+  // A game session belongs to a project (the session ID is the project ID)
+  const access = await getProjectAccess(sessionId, session.user.id)
+  if (!access || !can(access.role, 'viewLive')) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+  }
+
+  return {
+    clientId: `user:${session.user.id}`,
+    sessionId,
+    role: access.role,
+    canControl: can(access.role, 'controlGame'),
+  }
+}
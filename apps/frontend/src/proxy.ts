@@ -1,20 +1,32 @@
 import NextAuth from 'next-auth'
 import createMiddleware from 'next-intl/middleware'
 
+import { isPublicApiRequest } from '@/lib/public-api'
+
 import { authConfig } from './auth.config'
 import { routing } from './i18n/routing'
 
 const { auth } = NextAuth(authConfig)
 const intlMiddleware = createMiddleware(routing)
 
+// Pages that show project data. Which projects and what a user may do in them
+// depends on their project role, which needs the database: that is checked in
+// the server actions and token routes, this only turns away anonymous visitors.
+const MEMBER_PAGES = ['/control', '/matches', '/join']
+
+function localeOf(pathname: string): string | undefined {
+  const segment = pathname.split('/')[1]
+  return routing.locales.find((locale) => locale === segment)
+}
+
 export default auth((req) => {
   const { nextUrl } = req
   const isLoggedIn = !!req.auth
 
   // API Protection
   if (nextUrl.pathname.startsWith('/api')) {
-    // Public API routes
-    if (nextUrl.pathname.startsWith('/api/auth') || nextUrl.pathname.startsWith('/api/health')) {
+    // Public API routes, including spectator screens' realtime tokens
+    if (isPublicApiRequest(nextUrl)) {
       return
     }
 
@@ -25,6 +37,20 @@ export default auth((req) => {
     return
   }
 
+  // Member pages
+  const locale = localeOf(nextUrl.pathname)
+  const pathname = locale ? nextUrl.pathname.slice(locale.length + 1) || '/' : nextUrl.pathname
+  const isMemberPage = MEMBER_PAGES.some(
+    (page) => pathname === page || pathname.startsWith(`${page}/`)
+  )
+  if (isMemberPage && !isLoggedIn) {
+    const prefix = locale && locale !== routing.defaultLocale ? `/${locale}` : ''
+    const signInUrl = new URL(`${prefix}/signin`, nextUrl)
+    // Invite links bring the user back to accept after signing in
+    signInUrl.searchParams.set('callbackUrl', nextUrl.pathname)
+    return Response.redirect(signInUrl)
+  }
+
   // i18n Routing for pages
   return intlMiddleware(req)
 }) as any
@@ -0,0 +1,75 @@
+/**
+ * Connection authentication
+ *
+ * - `?token=`: HS256 JWT minted by the frontend (`/api/relay/token`) with the
+ *   client ID as `sub` and its channel capability as `cap`
+ * - `?key=`: the relay's API key, for trusted gateways such as the ws-bridge;
+ *   grants every operation on every channel, including presence on behalf of
+ *   other clients
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { jwtVerify } from 'jose'
+
+import type { Capability, Operation } from './protocol'
+
+/** Keep in sync with the frontend token route */
+export const TOKEN_AUDIENCE = 'rayz-relay'
+
+export interface Identity {
+  clientId: string
+  /** null = API key, everything allowed */
+  capability: Capability | null
+  /** Token expiry in ms since epoch */
+  expiresAt?: number
+}
+
+export interface AuthOptions {
+  apiKey?: string
+  tokenSecret?: Uint8Array
+}
+
+export async function authenticate(url: URL, options: AuthOptions): Promise<Identity> {
+  const key = url.searchParams.get('key')
+  if (key) {
+    if (!options.apiKey || !safeEqual(key, options.apiKey)) {
+      throw new Error('Invalid API key')
+    }
+    return { clientId: url.searchParams.get('clientId') ?? 'gateway', capability: null }
+  }
+
+  const token = url.searchParams.get('token')
+  if (!token) throw new Error('Missing token')
+  if (!options.tokenSecret) throw new Error('Token authentication is not configured')
+
+  const { payload } = await jwtVerify(token, options.tokenSecret, {
+    algorithms: ['HS256'],
+    audience: TOKEN_AUDIENCE,
+  })
+  if (typeof payload.sub !== 'string' || !payload.cap || typeof payload.cap !== 'object') {
+    throw new Error('Malformed token')
+  }
+
+  return {
+    clientId: payload.sub,
+    capability: payload.cap as Capability,
+    expiresAt: payload.exp ? payload.exp * 1000 : undefined,
+  }
+}
+
+export function isAllowed(identity: Identity, channel: string, operation: Operation): boolean {
+  if (!identity.capability) return true
+
+  return Object.entries(identity.capability).some(([pattern, operations]) => {
+    const matches = pattern.endsWith('*')
+      ? channel.startsWith(pattern.slice(0, -1))
+      : channel === pattern
+    return matches && operations.includes(operation)
+  })
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
@@ -0,0 +1,115 @@
+/**
+ * In-memory channels
+ *
+ * A channel exists while connections are attached to it or it has history.
+ * Presence members belong to the connection that entered them and leave when
+ * it closes, like Ably's enterClient.
+ */
+
+import { randomUUID } from 'crypto'
+
+import type { PresenceMember, RelayMessage, ServerFrame } from './protocol'
+
+export interface Subscriber {
+  /** Unique per connection */
+  readonly connectionId: string
+  readonly echo: boolean
+  canSubscribe(channel: string): boolean
+  send(frame: ServerFrame): void
+}
+
+export interface ChannelOptions {
+  historySize: number
+  historyTtlMs: number
+}
+
+interface Member extends PresenceMember {
+  connectionId: string
+}
+
+export class Channel {
+  private readonly subscribers = new Set<Subscriber>()
+  private readonly members = new Map<string, Member>()
+  private history: RelayMessage[] = []
+
+  constructor(
+    readonly name: string,
+    private readonly options: ChannelOptions
+  ) {}
+
+  get isIdle(): boolean {
+    this.pruneHistory()
+    return this.subscribers.size === 0 && this.members.size === 0 && this.history.length === 0
+  }
+
+  attach(subscriber: Subscriber): void {
+    this.subscribers.add(subscriber)
+  }
+
+  detach(subscriber: Subscriber): void {
+    this.subscribers.delete(subscriber)
+  }
+
+  publish(from: Subscriber, clientId: string, name: string, data: unknown): RelayMessage {
+    const message: RelayMessage = { id: randomUUID(), name, data, clientId, timestamp: Date.now() }
+
+    if (this.options.historySize > 0) {
+      this.history.push(message)
+      if (this.history.length > this.options.historySize) this.history.shift()
+    }
+
+    for (const subscriber of this.subscribers) {
+      if (subscriber === from && !subscriber.echo) continue
+      if (!subscriber.canSubscribe(this.name)) continue
+      subscriber.send({ action: 'message', channel: this.name, message })
+    }
+    return message
+  }
+
+  enter(connectionId: string, clientId: string, data: unknown): void {
+    this.members.set(clientId, { clientId, data, connectionId })
+    this.broadcastPresence('enter', { clientId, data })
+  }
+
+  /** @returns false if the member was not present (or entered by another connection) */
+  leave(connectionId: string, clientId: string): boolean {
+    const member = this.members.get(clientId)
+    if (!member || member.connectionId !== connectionId) return false
+
+    this.members.delete(clientId)
+    this.broadcastPresence('leave', { clientId, data: member.data })
+    return true
+  }
+
+  /** Remove a closed connection: its subscription and every member it entered */
+  drop(subscriber: Subscriber): void {
+    this.subscribers.delete(subscriber)
+    for (const member of [...this.members.values()]) {
+      if (member.connectionId === subscriber.connectionId) {
+        this.leave(member.connectionId, member.clientId)
+      }
+    }
+  }
+
+  presence(): PresenceMember[] {
+    return [...this.members.values()].map(({ clientId, data }) => ({ clientId, data }))
+  }
+
+  /** Newest first, like Ably's default history direction */
+  recent(limit = this.options.historySize): RelayMessage[] {
+    this.pruneHistory()
+    return this.history.slice(-Math.max(0, limit)).reverse()
+  }
+
+  private pruneHistory(): void {
+    const cutoff = Date.now() - this.options.historyTtlMs
+    const firstFresh = this.history.findIndex((m) => m.timestamp >= cutoff)
+    this.history = firstFresh === -1 ? [] : this.history.slice(firstFresh)
+  }
+
+  private broadcastPresence(event: 'enter' | 'leave', member: PresenceMember): void {
+    for (const subscriber of this.subscribers) {
+      subscriber.send({ action: 'presence', channel: this.name, event, member })
+    }
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * Realtime Relay
+ *
+ * Self-hostable stand-in for Ably in cloud mode: named channels with pub/sub,
+ * presence and short in-memory history over a single WebSocket per client.
+ * Browsers connect with a session-scoped token from the frontend, device
+ * gateways (the ws-bridge upstream) with the relay's API key.
+ *
+ * State lives in memory only; restarting the relay drops presence and history.
+ */
+
+import { randomUUID } from 'crypto'
+import type { IncomingMessage } from 'http'
+import { WebSocket, WebSocketServer } from 'ws'
+
+import { authenticate, isAllowed, type Identity } from './auth'
+import { Channel, type Subscriber } from './channels'
+import {
+  CLOSE_TOKEN_EXPIRED,
+  CLOSE_UNAUTHORIZED,
+  type ClientRequest,
+  type ServerFrame,
+} from './protocol'
+
+// Configuration
+const PORT = parseInt(process.env.RELAY_PORT ?? '8090', 10)
+const API_KEY = process.env.RELAY_API_KEY
+const TOKEN_SECRET = process.env.RELAY_TOKEN_SECRET
+const HISTORY_SIZE = parseInt(process.env.RELAY_HISTORY_SIZE ?? '100', 10)
+const HISTORY_TTL = parseInt(process.env.RELAY_HISTORY_TTL_MS ?? '600000', 10)
+const HEARTBEAT_INTERVAL = 30000
+const MAX_FRAME_BYTES = 64 * 1024
+const BAD_REQUEST = 'Bad request: expected a { "action", "id"? } object'
+
+function isRequest(frame: unknown): frame is ClientRequest {
+  if (typeof frame !== 'object' || frame === null || Array.isArray(frame)) return false
+  const { action, id } = frame as { action?: unknown; id?: unknown }
+  return typeof action === 'string' && (id === undefined || typeof id === 'number')
+}
+
+class Connection implements Subscriber {
+  readonly connectionId = randomUUID()
+  readonly channels = new Set<string>()
+  alive = true
+
+  constructor(
+    readonly ws: WebSocket,
+    readonly identity: Identity,
+    readonly echo: boolean
+  ) {}
+
+  canSubscribe(channel: string): boolean {
+    return isAllowed(this.identity, channel, 'subscribe')
+  }
+
+  send(frame: ServerFrame): void {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(frame))
+    }
+  }
+}
+
+class RealtimeRelay {
+  private server: WebSocketServer
+  private connections = new Set<Connection>()
+  private channels = new Map<string, Channel>()
+  private heartbeatTimer: NodeJS.Timeout | null = null
+  private readonly tokenSecret = TOKEN_SECRET ? new TextEncoder().encode(TOKEN_SECRET) : undefined
+
+  constructor(port: number) {
+    if (!API_KEY && !TOKEN_SECRET) {
+      console.warn(
+        '[Relay] Neither RELAY_API_KEY nor RELAY_TOKEN_SECRET is set; nobody can connect'
+      )
+    }
+
+    this.server = new WebSocketServer({ port, maxPayload: MAX_FRAME_BYTES })
+    this.server.on('connection', (ws, req) => this.handleConnection(ws, req))
+    this.server.on('error', (err: Error) => {
+      console.error('[Relay] Server error:', err)
+    })
+    this.startHeartbeat()
+
+    console.log(`[Relay] Server started on ws://localhost:${port}`)
+  }
+
+  private async handleConnection(ws: WebSocket, req: IncomingMessage) {
+    const url = new URL(req.url ?? '', `http://localhost:${PORT}`)
+
+    // Frames that arrive while the token is verified are handled afterwards
+    const pending: Buffer[] = []
+    const buffer = (data: Buffer) => pending.push(data)
+    ws.on('message', buffer)
+
+    let identity: Identity
+    try {
+      identity = await authenticate(url, { apiKey: API_KEY, tokenSecret: this.tokenSecret })
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'Unauthorized'
+      console.warn(`[Relay] Rejected connection: ${reason}`)
+      ws.close(CLOSE_UNAUTHORIZED, reason)
+      return
+    }
+    // The client may have left while the token was verified; its close event is gone
+    if (ws.readyState !== WebSocket.OPEN) return
+
+    const connection = new Connection(ws, identity, url.searchParams.get('echo') !== 'false')
+    this.connections.add(connection)
+    console.log(`[Relay] ${identity.clientId} connected`)
+
+    // Clients renew their token by reconnecting
+    let expiryTimer: NodeJS.Timeout | null = null
+    if (identity.expiresAt) {
+      expiryTimer = setTimeout(
+        () => ws.close(CLOSE_TOKEN_EXPIRED, 'Token expired'),
+        Math.max(0, identity.expiresAt - Date.now())
+      )
+    }
+
+    ws.off('message', buffer)
+    ws.on('message', (data: Buffer) => this.handleFrame(connection, data))
+    ws.on('pong', () => {
+      connection.alive = true
+    })
+    ws.on('close', () => {
+      if (expiryTimer) clearTimeout(expiryTimer)
+      this.dropConnection(connection)
+      console.log(`[Relay] ${identity.clientId} disconnected`)
+    })
+    ws.on('error', (err: Error) => {
+      console.error(`[Relay] Connection error (${identity.clientId}):`, err.message)
+    })
+
+    connection.send({ action: 'connected', clientId: identity.clientId })
+    pending.forEach((data) => this.handleFrame(connection, data))
+  }
+
+  private handleFrame(connection: Connection, data: Buffer) {
+    let request: unknown
+    try {
+      request = JSON.parse(data.toString())
+    } catch {
+      console.warn(`[Relay] Unparseable frame from ${connection.identity.clientId}`)
+      return
+    }
+
+    // Anything but a `{ action, id? }` object is a bad request
+    const id = (request as { id?: unknown } | null)?.id
+    if (!isRequest(request)) {
+      console.warn(`[Relay] Malformed request from ${connection.identity.clientId}`)
+      connection.send(
+        typeof id === 'number'
+          ? { action: 'reply', id, error: BAD_REQUEST }
+          : { action: 'error', error: BAD_REQUEST }
+      )
+      return
+    }
+
+    try {
+      const result = this.handleRequest(connection, request)
+      if (request.id !== undefined) {
+        connection.send({ action: 'reply', id: request.id, result })
+      }
+    } catch (err) {
+      if (request?.id !== undefined) {
+        const error = err instanceof Error ? err.message : String(err)
+        connection.send({ action: 'reply', id: request.id, error })
+      }
+    }
+  }
+
+  /**
+   * Apply a request
+   * @returns The reply result
+   * @throws Error when the request is malformed or not allowed
+   */
+  private handleRequest(connection: Connection, request: ClientRequest): unknown {
+    const { identity } = connection
+    if (!request || typeof request.channel !== 'string' || !request.channel) {
+      throw new Error('Missing channel')
+    }
+    const require = (operation: Parameters<typeof isAllowed>[2]) => {
+      if (!isAllowed(identity, request.channel, operation)) {
+        throw new Error(`Missing ${operation} capability on ${request.channel}`)
+      }
+    }
+
+    switch (request.action) {
+      case 'attach': {
+        if (
+          !isAllowed(identity, request.channel, 'subscribe') &&
+          !isAllowed(identity, request.channel, 'presence')
+        ) {
+          throw new Error(`Not allowed to attach to ${request.channel}`)
+        }
+        this.channel(request.channel).attach(connection)
+        connection.channels.add(request.channel)
+        return undefined
+      }
+
+      case 'detach': {
+        this.channels.get(request.channel)?.detach(connection)
+        connection.channels.delete(request.channel)
+        this.pruneChannel(request.channel)
+        return undefined
+      }
+
+      case 'publish': {
+        require('publish')
+        if (typeof request.name !== 'string') throw new Error('Missing message name')
+        const message = this.channel(request.channel).publish(
+          connection,
+          identity.clientId,
+          request.name,
+          request.data
+        )
+        return { id: message.id }
+      }
+
+      case 'presence.enter': {
+        require('presence')
+        const clientId = this.presenceClientId(connection, request.clientId)
+        this.channel(request.channel).enter(connection.connectionId, clientId, request.data)
+        connection.channels.add(request.channel)
+        return undefined
+      }
+
+      case 'presence.leave': {
+        require('presence')
+        const clientId = this.presenceClientId(connection, request.clientId)
+        this.channels.get(request.channel)?.leave(connection.connectionId, clientId)
+        return undefined
+      }
+
+      case 'presence.get': {
+        if (
+          !isAllowed(identity, request.channel, 'subscribe') &&
+          !isAllowed(identity, request.channel, 'presence')
+        ) {
+          throw new Error(`Not allowed to read presence on ${request.channel}`)
+        }
+        return this.channels.get(request.channel)?.presence() ?? []
+      }
+
+      case 'history': {
+        require('history')
+        return this.channels.get(request.channel)?.recent(request.limit) ?? []
+      }
+
+      default:
+        throw new Error(`Unknown action '${(request as { action?: string }).action}'`)
+    }
+  }
+
+  /** Only API key connections may act on behalf of other clients */
+  private presenceClientId(connection: Connection, clientId?: string): string {
+    if (!clientId || clientId === connection.identity.clientId) {
+      return connection.identity.clientId
+    }
+    if (connection.identity.capability) {
+      throw new Error('Not allowed to enter presence for another client')
+    }
+    return clientId
+  }
+
+  private channel(name: string): Channel {
+    let channel = this.channels.get(name)
+    if (!channel) {
+      channel = new Channel(name, { historySize: HISTORY_SIZE, historyTtlMs: HISTORY_TTL })
+      this.channels.set(name, channel)
+    }
+    return channel
+  }
+
+  private pruneChannel(name: string) {
+    if (this.channels.get(name)?.isIdle) {
+      this.channels.delete(name)
+    }
+  }
+
+  private dropConnection(connection: Connection) {
+    this.connections.delete(connection)
+    for (const name of connection.channels) {
+      this.channels.get(name)?.drop(connection)
+      this.pruneChannel(name)
+    }
+  }
+
+  /**
+   * Terminate connections that missed a ping and forget idle channels
+   */
+  private startHeartbeat() {
+    this.heartbeatTimer = setInterval(() => {
+      for (const connection of this.connections) {
+        if (!connection.alive) {
+          connection.ws.terminate()
+          continue
+        }
+        connection.alive = false
+        connection.ws.ping()
+      }
+
+      for (const name of [...this.channels.keys()]) {
+        this.pruneChannel(name)
+      }
+    }, HEARTBEAT_INTERVAL)
+  }
+
+  /**
+   * Stop the server
+   */
+  stop() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+    }
+
+    for (const connection of this.connections) {
+      connection.ws.close()
+    }
+
+    this.server.close()
+    console.log('[Relay] Server stopped')
+  }
+}
+
+// Create and start the relay
+const relay = new RealtimeRelay(PORT)
+
+// Handle graceful shutdown
+process.on('SIGINT', () => {
+  console.log('\n[Relay] Shutting down...')
+  relay.stop()
+  process.exit(0)
+})
+
+process.on('SIGTERM', () => {
+  relay.stop()
+  process.exit(0)
+})
+
+// Export for programmatic use
+export { RealtimeRelay }
+export default relay
@@ -0,0 +1,53 @@
+/**
+ * Relay wire protocol
+ *
+ * JSON text frames. Every client request may carry an `id`; the relay answers
+ * it with a `reply` carrying either `result` or `error`. Channel messages and
+ * presence changes are pushed to every connection attached to the channel.
+ */
+
+export type Operation = 'subscribe' | 'publish' | 'presence' | 'history'
+
+/** Channel name (exact, or a prefix ending in `*`) to allowed operations */
+export type Capability = Record<string, Operation[]>
+
+export interface RelayMessage {
+  id: string
+  name: string
+  data: unknown
+  clientId: string
+  timestamp: number
+}
+
+export interface PresenceMember {
+  clientId: string
+  data?: unknown
+}
+
+export type ClientRequest =
+  | { action: 'attach'; id?: number; channel: string }
+  | { action: 'detach'; id?: number; channel: string }
+  | { action: 'publish'; id?: number; channel: string; name: string; data?: unknown }
+  | {
+      action: 'presence.enter'
+      id?: number
+      channel: string
+      data?: unknown
+      /** Enter on behalf of another client (API key connections only) */
+      clientId?: string
+    }
+  | { action: 'presence.leave'; id?: number; channel: string; clientId?: string }
+  | { action: 'presence.get'; id?: number; channel: string }
+  | { action: 'history'; id?: number; channel: string; limit?: number }
+
+export type ServerFrame =
+  | { action: 'connected'; clientId: string }
+  | { action: 'reply'; id: number; result?: unknown; error?: string }
+  /** A frame that was not a request, so there is no id to reply to */
+  | { action: 'error'; error: string }
+  | { action: 'message'; channel: string; message: RelayMessage }
+  | { action: 'presence'; channel: string; event: 'enter' | 'leave'; member: PresenceMember }
+
+/** Close codes sent by the relay */
+export const CLOSE_UNAUTHORIZED = 4001
+export const CLOSE_TOKEN_EXPIRED = 4002
@@ -0,0 +1,82 @@
+/**
+ * Runs the relay as a process and talks to it like a client
+ */
+
+import assert from 'node:assert/strict'
+import { spawn, type ChildProcess } from 'node:child_process'
+import { once } from 'node:events'
+import { after, before, test } from 'node:test'
+import { WebSocket } from 'ws'
+
+const PORT = 18090 + Math.floor(Math.random() * 1000)
+const API_KEY = 'test-key'
+
+let relay: ChildProcess
+
+before(async () => {
+  // Without the runner's context, or the child reports to it as a test file
+  const { NODE_TEST_CONTEXT: _, ...env } = process.env
+  relay = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], {
+    env: { ...env, RELAY_PORT: String(PORT), RELAY_API_KEY: API_KEY },
+    stdio: ['ignore', 'pipe', 'ignore'],
+  })
+  // Ready once it logs its address; the output keeps being drained after that
+  await new Promise<void>((resolve, reject) => {
+    relay.stdout!.on('data', (chunk) => {
+      if (String(chunk).includes('Server started')) resolve()
+    })
+    relay.once('exit', (code) => reject(new Error(`Relay exited with ${code}`)))
+  })
+})
+
+after(() => {
+  relay.kill()
+})
+
+async function connect() {
+  const ws = new WebSocket(`ws://localhost:${PORT}/?key=${API_KEY}`)
+  const frames: Array<Record<string, unknown>> = []
+  const waiting: Array<() => void> = []
+  ws.on('message', (data) => {
+    frames.push(JSON.parse(data.toString()))
+    waiting.shift()?.()
+  })
+  await once(ws, 'open')
+
+  const next = async () => {
+    if (frames.length === 0) await new Promise<void>((resolve) => waiting.push(resolve))
+    return frames.shift()!
+  }
+  assert.equal((await next()).action, 'connected')
+  return { ws, next }
+}
+
+test('answers frames that are not request objects with a bad request error', async () => {
+  const { ws, next } = await connect()
+
+  for (const frame of ['null', '1', '[]', '"attach"']) {
+    ws.send(frame)
+    const reply = await next()
+    assert.equal(reply.action, 'error', `for ${frame}`)
+    assert.match(String(reply.error), /Bad request/)
+  }
+
+  ws.send(JSON.stringify({ id: 7 }))
+  const reply = await next()
+  assert.deepEqual([reply.action, reply.id], ['reply', 7])
+  assert.match(String(reply.error), /Bad request/)
+
+  ws.close()
+})
+
+test('keeps serving after malformed frames', async () => {
+  const { ws, next } = await connect()
+
+  ws.send('null')
+  await next()
+  ws.send(JSON.stringify({ action: 'attach', id: 1, channel: 'rayz-game:p1:devices' }))
+  assert.deepEqual(await next(), { action: 'reply', id: 1 })
+
+  ws.close()
+  assert.equal(relay.exitCode, null)
+})
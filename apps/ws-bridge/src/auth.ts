@@ -0,0 +1,110 @@
+/**
+ * Browser authentication
+ *
+ * Browsers connect with `?token=`: a short-lived HS256 JWT minted by the
+ * frontend (`/api/bridge/token`) with the client ID as `sub`, the project as
+ * `sid` and the connection's `role`. The token is only checked on connect;
+ * an open connection keeps its role until it closes.
+ *
+ * - `admin`: everything, including device management and broadcasts
+ * - `spectator`: read-only; may only send opcodes that do not change a device
+ *
+ * The HTTP API takes the same token, or the bridge's API key for operator
+ * scripts, as `Authorization: Bearer <token|key>`.
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { jwtVerify } from 'jose'
+
+/** Keep in sync with TOKEN_AUDIENCE in apps/frontend/src/app/api/bridge/token/route.ts */
+export const TOKEN_AUDIENCE = 'rayz-bridge'
+
+/** Close code sent to browsers whose token or origin was rejected */
+export const CLOSE_UNAUTHORIZED = 4001
+
+export type BridgeRole = 'admin' | 'spectator'
+
+export interface BrowserIdentity {
+  clientId: string
+  role: BridgeRole
+}
+
+export interface AuthOptions {
+  /** Trust every browser as an admin (development only) */
+  disabled?: boolean
+  /** Accepted as an admin bearer on the HTTP API */
+  apiKey?: string
+  tokenSecret?: Uint8Array
+  /** Only tokens minted for this session (project ID) are accepted; required for tokens */
+  sessionId?: string
+}
+
+// GET_STATUS, HEARTBEAT and HELLO only read from the device
+const SPECTATOR_OPCODES = new Set([1, 2, 8])
+
+export async function authenticate(url: URL, options: AuthOptions): Promise<BrowserIdentity> {
+  return verifyToken(url.searchParams.get('token'), options)
+}
+
+/**
+ * Authenticate an HTTP API request from its Authorization header
+ */
+export async function authenticateBearer(
+  authorization: string | undefined,
+  options: AuthOptions
+): Promise<BrowserIdentity> {
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]
+  if (bearer && options.apiKey && safeEqual(bearer, options.apiKey)) {
+    return { clientId: 'api', role: 'admin' }
+  }
+  return verifyToken(bearer ?? null, options)
+}
+
+async function verifyToken(token: string | null, options: AuthOptions): Promise<BrowserIdentity> {
+  if (options.disabled) {
+    return { clientId: 'anonymous', role: 'admin' }
+  }
+
+  if (!token) throw new Error('Missing token')
+  if (!options.tokenSecret) throw new Error('Token authentication is not configured')
+  // Every project's tokens share the secret; without a session any of them would do
+  if (!options.sessionId) throw new Error('Bridge session is not configured')
+
+  const { payload } = await jwtVerify(token, options.tokenSecret, {
+    algorithms: ['HS256'],
+    audience: TOKEN_AUDIENCE,
+  })
+  if (typeof payload.sub !== 'string') throw new Error('Malformed token')
+  if (payload.sid !== options.sessionId) {
+    throw new Error('Token is for another session')
+  }
+
+  return {
+    clientId: payload.sub,
+    role: payload.role === 'admin' ? 'admin' : 'spectator',
+  }
+}
+
+/**
+ * Browsers always send Origin; clients without one (scripts, other
+ * servers) still need a token
+ */
+export function isOriginAllowed(origin: string | undefined, allowedOrigins: string[]): boolean {
+  if (!origin || allowedOrigins.includes('*')) return true
+  return allowedOrigins.includes(origin)
+}
+
+/**
+ * Whether a payload may be forwarded to a device for this role
+ */
+export function canSendToDevice(role: BridgeRole, payload: unknown): boolean {
+  if (role === 'admin') return true
+  const op = (payload as { op?: unknown } | null)?.op
+  return typeof op === 'number' && SPECTATOR_OPCODES.has(op)
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
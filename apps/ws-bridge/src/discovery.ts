@@ -0,0 +1,244 @@
+/**
+ * Device discovery for the bridge
+ *
+ * Finds ESP32 devices on the LAN two ways:
+ * - mDNS: the firmware announces `_rayz._tcp`; TXT records may carry
+ *   `mac`, `fw`, `proto` and `id`
+ * - Subnet probe (optional): opens ws://<ip>[:port]/ws on every host of a
+ *   bounded CIDR range and keeps the hosts that answer HELLO or GET_STATUS
+ *
+ * Discovery only reports devices; adopting them is up to the browser.
+ */
+
+import { EventEmitter } from 'events'
+import { Bonjour, type Browser, type Service } from 'bonjour-service'
+import { WebSocket } from 'ws'
+
+/** Upper bound on hosts x ports per probe run */
+const MAX_PROBES = 1024
+const PROBE_CONCURRENCY = 32
+const PROBE_TIMEOUT = 1500
+
+export interface DiscoveredDevice {
+  /** "ip" or "ip:port", usable as a Device.ipAddress */
+  address: string
+  source: 'mdns' | 'probe'
+  name?: string
+  macAddress?: string
+  firmwareBuild?: string
+  protocolVersion?: string
+  deviceId?: number
+  lastSeen: number
+}
+
+export interface DiscoveryOptions {
+  /** mDNS service type without underscores, e.g. "rayz" for _rayz._tcp */
+  mdnsType: string
+  /** Default CIDR range for probes, e.g. "192.168.1.0/24" */
+  probeSubnet?: string
+  /** Ports to probe on every host */
+  probePorts: number[]
+}
+
+interface DiscoveryEvents {
+  discovered: [DiscoveredDevice]
+}
+
+/**
+ * Expand an IPv4 CIDR range into host addresses (network/broadcast excluded)
+ * @throws Error for malformed ranges
+ */
+export function expandSubnet(cidr: string): string[] {
+  const match = /^(\d{1,3}(?:\.\d{1,3}){3})\/(\d{1,2})$/.exec(cidr.trim())
+  if (!match) throw new Error(`Invalid subnet "${cidr}" (expected e.g. 192.168.1.0/24)`)
+
+  const octets = match[1].split('.').map(Number)
+  const prefix = Number(match[2])
+  if (octets.some((o) => o > 255) || prefix > 32) throw new Error(`Invalid subnet "${cidr}"`)
+
+  const base = ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0
+  const size = 2 ** (32 - prefix)
+  const network = prefix === 0 ? 0 : (base & (0xffffffff << (32 - prefix))) >>> 0
+
+  const hosts: string[] = []
+  const first = size > 2 ? 1 : 0
+  const last = size > 2 ? size - 2 : size - 1
+  for (let i = first; i <= last && hosts.length <= MAX_PROBES; i++) {
+    const ip = network + i
+    hosts.push([ip >>> 24, (ip >>> 16) & 0xff, (ip >>> 8) & 0xff, ip & 0xff].join('.'))
+  }
+  return hosts
+}
+
+export class DeviceDiscovery extends EventEmitter<DiscoveryEvents> {
+  private readonly devices = new Map<string, DiscoveredDevice>()
+  private bonjour: Bonjour | null = null
+  private browser: Browser | null = null
+  private probing = false
+
+  constructor(private readonly options: DiscoveryOptions) {
+    super()
+  }
+
+  get isProbing(): boolean {
+    return this.probing
+  }
+
+  /** Devices found so far */
+  list(): DiscoveredDevice[] {
+    return Array.from(this.devices.values())
+  }
+
+  /**
+   * Start listening for mDNS announcements
+   */
+  start(): void {
+    try {
+      this.bonjour = new Bonjour()
+      this.browser = this.bonjour.find(
+        { type: this.options.mdnsType, protocol: 'tcp' },
+        (service) => this.handleService(service)
+      )
+      console.log(`[Discovery] Browsing mDNS for _${this.options.mdnsType}._tcp`)
+    } catch (err) {
+      console.error('[Discovery] mDNS unavailable:', err)
+    }
+  }
+
+  stop(): void {
+    this.browser?.stop()
+    this.bonjour?.destroy()
+    this.browser = null
+    this.bonjour = null
+  }
+
+  /**
+   * Re-query mDNS and probe a subnet
+   * @param subnet - CIDR range; defaults to the configured one (no probe if neither)
+   * @returns Number of devices that answered the probe
+   */
+  async scan(subnet = this.options.probeSubnet): Promise<number> {
+    this.browser?.update()
+    if (!subnet || this.probing) return 0
+
+    const targets = expandSubnet(subnet).flatMap((ip) =>
+      this.options.probePorts.map((port) => (port === 80 ? ip : `${ip}:${port}`))
+    )
+    if (targets.length > MAX_PROBES) {
+      throw new Error(`Subnet ${subnet} has ${targets.length} probe targets (max ${MAX_PROBES})`)
+    }
+
+    this.probing = true
+    console.log(`[Discovery] Probing ${targets.length} addresses in ${subnet}...`)
+    let found = 0
+
+    try {
+      // Fixed pool of workers pulling from the target list
+      let next = 0
+      const worker = async () => {
+        while (next < targets.length) {
+          const device = await probe(targets[next++])
+          if (device) {
+            found++
+            this.record(device)
+          }
+        }
+      }
+      await Promise.all(Array.from({ length: PROBE_CONCURRENCY }, worker))
+    } finally {
+      this.probing = false
+    }
+
+    console.log(`[Discovery] Probe of ${subnet} finished, ${found} devices answered`)
+    return found
+  }
+
+  private handleService(service: Service): void {
+    const ip = service.addresses?.find((a) => /^\d+(\.\d+){3}$/.test(a)) ?? service.referer?.address
+    if (!ip) return
+
+    const txt = (service.txt ?? {}) as Record<string, string | undefined>
+    const deviceId = txt.id !== undefined ? Number(txt.id) : undefined
+    this.record({
+      address: service.port && service.port !== 80 ? `${ip}:${service.port}` : ip,
+      source: 'mdns',
+      name: service.name,
+      macAddress: txt.mac,
+      firmwareBuild: txt.fw,
+      protocolVersion: txt.proto,
+      deviceId: Number.isFinite(deviceId) ? deviceId : undefined,
+      lastSeen: Date.now(),
+    })
+  }
+
+  private record(device: DiscoveredDevice): void {
+    const known = this.devices.get(device.address)
+    const merged = { ...known, ...stripUndefined(device) }
+    this.devices.set(device.address, merged)
+
+    if (!known) console.log(`[Discovery] Found ${device.address} via ${device.source}`)
+    this.emit('discovered', merged)
+  }
+}
+
+/**
+ * Check whether an address serves the device protocol
+ */
+function probe(address: string): Promise<DiscoveredDevice | null> {
+  return new Promise((resolve) => {
+    let settled = false
+    const ws = new WebSocket(`ws://${address}/ws`, { handshakeTimeout: PROBE_TIMEOUT })
+
+    const finish = (device: DiscoveredDevice | null) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      ws.removeAllListeners()
+      ws.on('error', () => {})
+      ws.terminate()
+      resolve(device)
+    }
+
+    const timer = setTimeout(() => finish(null), PROBE_TIMEOUT)
+
+    ws.on('open', () => {
+      ws.send(
+        JSON.stringify({ op: 8, type: 'hello', protocol_version: '2.3', encodings: ['json'] })
+      )
+      ws.send(JSON.stringify({ op: 1, type: 'get_status' }))
+    })
+
+    ws.on('message', (data: Buffer) => {
+      try {
+        const message = JSON.parse(data.toString())
+        if (message.type === 'capabilities') {
+          finish({
+            address,
+            source: 'probe',
+            macAddress: message.mac_address,
+            firmwareBuild: message.firmware_build,
+            protocolVersion: message.protocol_version,
+            lastSeen: Date.now(),
+          })
+        } else if (message.type === 'status') {
+          finish({
+            address,
+            source: 'probe',
+            deviceId: message.config?.device_id ?? message.device_id,
+            lastSeen: Date.now(),
+          })
+        }
+      } catch {
+        // Not a device; wait for the timeout
+      }
+    })
+
+    ws.on('error', () => finish(null))
+    ws.on('close', () => finish(null))
+  })
+}
+
+/** Drop undefined fields so merging keeps what an earlier source reported */
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T
+}
@@ -0,0 +1,92 @@
+/**
+ * Wire encodings
+ *
+ * Text frames are JSON, binary frames MessagePack, on both sides of the
+ * bridge. Each side has its own encoding: browsers pick theirs with
+ * `?encoding=msgpack`, devices are spoken to in MessagePack once their
+ * CAPABILITIES list it. A frame that arrives in the encoding its recipient
+ * speaks is forwarded as the bytes it came in; otherwise it is translated.
+ */
+
+import { decode, encode } from '@msgpack/msgpack'
+
+export type WireEncoding = 'json' | 'msgpack'
+
+/** A decoded payload, with the bytes it arrived as when it came off the wire */
+export interface Frame {
+  value: unknown
+  encoding: WireEncoding
+  raw?: Buffer
+}
+
+export function parseEncoding(value: string | null | undefined): WireEncoding {
+  return value === 'msgpack' ? 'msgpack' : 'json'
+}
+
+/**
+ * Decode a received WebSocket message
+ * @throws When the data is not valid JSON or MessagePack
+ */
+export function decodeFrame(data: Buffer, isBinary: boolean): Frame {
+  return isBinary
+    ? { value: decode(data), encoding: 'msgpack', raw: data }
+    : { value: JSON.parse(data.toString()), encoding: 'json', raw: data }
+}
+
+/**
+ * A payload the bridge produced itself
+ */
+export function valueFrame(value: unknown): Frame {
+  return { value, encoding: 'json' }
+}
+
+/**
+ * Encode a frame for a recipient; strings go out as text, Buffers as binary
+ */
+export function encodeFrame(frame: Frame, encoding: WireEncoding): string | Buffer {
+  if (frame.raw && frame.encoding === encoding) {
+    return encoding === 'msgpack' ? frame.raw : frame.raw.toString()
+  }
+  return encoding === 'msgpack' ? toBuffer(encode(frame.value)) : JSON.stringify(frame.value)
+}
+
+/**
+ * Encode the `{ source, payload }` envelope around a device frame without
+ * re-encoding the payload when it is already in the recipient's encoding
+ */
+export function encodeEnvelope(
+  source: string,
+  payload: Frame,
+  encoding: WireEncoding
+): string | Buffer {
+  if (payload.raw && payload.encoding === encoding) {
+    return encoding === 'msgpack'
+      ? Buffer.concat([
+          ENVELOPE_MAP_HEADER,
+          SOURCE_KEY,
+          toBuffer(encode(source)),
+          PAYLOAD_KEY,
+          payload.raw,
+        ])
+      : `{"source":${JSON.stringify(source)},"payload":${payload.raw.toString()}}`
+  }
+  return encodeFrame(valueFrame({ source, payload: payload.value }), encoding)
+}
+
+/**
+ * Encodings a device advertises in its CAPABILITIES reply, if the frame is one
+ */
+export function advertisedEncodings(payload: unknown): WireEncoding[] | null {
+  const message = payload as { type?: unknown; encodings?: unknown } | null
+  if (message?.type !== 'capabilities' || !Array.isArray(message.encodings)) return null
+  return message.encodings.filter((e): e is WireEncoding => e === 'json' || e === 'msgpack')
+}
+
+// MessagePack fixmap with two entries, then the keys of the envelope
+const ENVELOPE_MAP_HEADER = Buffer.from([0x82])
+const SOURCE_KEY = toBuffer(encode('source'))
+const PAYLOAD_KEY = toBuffer(encode('payload'))
+
+function toBuffer(bytes: Uint8Array): Buffer {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
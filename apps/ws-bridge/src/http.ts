@@ -0,0 +1,221 @@
+/**
+ * HTTP control API
+ *
+ * Served on the same port as the WebSocket server, for operator scripts and
+ * the frontend's health display:
+ *
+ * - `GET /health`: bridge status and counts (public)
+ * - `GET /metrics`: Prometheus text format (public)
+ * - `GET /devices`: managed devices with connection stats (any role)
+ * - `POST /devices` `{ ip }`: manage a device (admin)
+ * - `DELETE /devices/:ip`: stop managing a device (admin)
+ * - `POST /broadcast` `{ payload }`: send a payload to every connected device (admin)
+ *
+ * Authenticated routes take `Authorization: Bearer <token|key>` (see auth.ts).
+ * Responses are JSON; errors are `{ error }`.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http'
+
+import { authenticateBearer, isOriginAllowed, type AuthOptions, type BrowserIdentity } from './auth'
+import { formatMetrics } from './metrics'
+
+const MAX_BODY_BYTES = 64 * 1024
+
+// "ip" or "ip:port"/"host:port"; ends up in ws://<address>/ws
+const DEVICE_ADDRESS_PATTERN = /^[a-zA-Z0-9.-]+(:\d{1,5})?$/
+
+export interface DeviceStats {
+  ip: string
+  connected: boolean
+  /** When the device last sent a message (ms since epoch) */
+  lastMessageAt: number | null
+  /** Reconnect attempts since the device was added */
+  reconnects: number
+  /** Round trip of the last WebSocket ping */
+  rttMs: number | null
+  messagesReceived: number
+  messagesSent: number
+  /** Messages waiting for the device to reconnect */
+  queued: number
+}
+
+export interface BridgeHealth {
+  status: 'ok'
+  uptimeSeconds: number
+  browsers: number
+  devices: { total: number; connected: number }
+  discovery: boolean
+  upstream: boolean
+}
+
+/** The parts of the bridge the API controls */
+export interface BridgeControl {
+  health(): BridgeHealth
+  listDevices(): DeviceStats[]
+  addDevice(ip: string): void
+  removeDevice(ip: string): boolean
+  /** @returns How many devices the payload was sent to */
+  broadcastToDevices(payload: unknown): number
+}
+
+export interface HttpApiOptions {
+  auth: AuthOptions
+  allowedOrigins: string[]
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+export function createHttpHandler(bridge: BridgeControl, options: HttpApiOptions) {
+  return (req: IncomingMessage, res: ServerResponse) => {
+    handleRequest(bridge, options, req, res).catch((err: unknown) => {
+      const status = err instanceof HttpError ? err.status : 500
+      if (status === 500) console.error('[WsBridge] HTTP API error:', err)
+      sendJson(res, status, { error: err instanceof Error ? err.message : 'Internal error' })
+    })
+  }
+}
+
+async function handleRequest(
+  bridge: BridgeControl,
+  options: HttpApiOptions,
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  const origin = req.headers.origin
+  if (!isOriginAllowed(origin, options.allowedOrigins)) {
+    throw new HttpError(403, 'Origin not allowed')
+  }
+  if (origin) {
+    res.setHeader('Access-Control-Allow-Origin', origin)
+    res.setHeader('Vary', 'Origin')
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Max-Age': '600',
+    })
+    res.end()
+    return
+  }
+
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost')
+  const [resource, param, ...rest] = pathname.split('/').filter(Boolean)
+  if (rest.length > 0) throw new HttpError(404, 'Not found')
+
+  switch (resource) {
+    case 'health':
+      assertMethod(req, param ? [] : ['GET'])
+      sendJson(res, 200, bridge.health())
+      return
+
+    case 'metrics':
+      assertMethod(req, param ? [] : ['GET'])
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' })
+      res.end(formatMetrics(bridge.health(), bridge.listDevices()))
+      return
+
+    case 'devices':
+      if (!param) {
+        assertMethod(req, ['GET', 'POST'])
+        if (req.method === 'GET') {
+          await authorize(req, options, 'spectator')
+          sendJson(res, 200, { devices: bridge.listDevices() })
+          return
+        }
+
+        await authorize(req, options, 'admin')
+        const { ip } = (await readJson(req)) as { ip?: unknown }
+        if (typeof ip !== 'string' || !DEVICE_ADDRESS_PATTERN.test(ip)) {
+          throw new HttpError(400, 'Body must be { "ip": "<address>" }')
+        }
+        bridge.addDevice(ip)
+        // Connecting happens in the background
+        sendJson(res, 202, { ip })
+        return
+      }
+
+      assertMethod(req, ['DELETE'])
+      await authorize(req, options, 'admin')
+      if (!bridge.removeDevice(decodeURIComponent(param))) {
+        throw new HttpError(404, 'Unknown device')
+      }
+      res.writeHead(204)
+      res.end()
+      return
+
+    case 'broadcast': {
+      assertMethod(req, param ? [] : ['POST'])
+      await authorize(req, options, 'admin')
+      const body = (await readJson(req)) as { payload?: unknown }
+      if (body.payload === undefined) {
+        throw new HttpError(400, 'Body must be { "payload": { ... } }')
+      }
+      sendJson(res, 200, { sent: bridge.broadcastToDevices(body.payload) })
+      return
+    }
+
+    default:
+      throw new HttpError(404, 'Not found')
+  }
+}
+
+async function authorize(
+  req: IncomingMessage,
+  options: HttpApiOptions,
+  required: BrowserIdentity['role']
+): Promise<BrowserIdentity> {
+  let identity: BrowserIdentity
+  try {
+    identity = await authenticateBearer(req.headers.authorization, options.auth)
+  } catch (err) {
+    throw new HttpError(401, err instanceof Error ? err.message : 'Unauthorized')
+  }
+  if (required === 'admin' && identity.role !== 'admin') {
+    throw new HttpError(403, `Not allowed for ${identity.role} connections`)
+  }
+  return identity
+}
+
+function assertMethod(req: IncomingMessage, allowed: string[]) {
+  if (allowed.length === 0) throw new HttpError(404, 'Not found')
+  if (!allowed.includes(req.method ?? '')) {
+    throw new HttpError(405, `Use ${allowed.join(' or ')}`)
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Body too large')
+    chunks.push(chunk as Buffer)
+  }
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString() || '{}')
+    if (typeof body !== 'object' || body === null) throw new Error()
+    return body
+  } catch {
+    throw new HttpError(400, 'Body must be a JSON object')
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  if (res.headersSent) {
+    res.end()
+    return
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
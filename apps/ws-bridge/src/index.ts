@@ -7,113 +7,343 @@
  *
  * Protocol:
  * - Browser sends: { target: "192.168.x.x", payload: {...} } or { broadcast: true, payload: {...} }
- * - Server sends: { source: "192.168.x.x", payload: {...} }
+ * - Encoding: text frames are JSON, binary frames MessagePack; browsers choose theirs with
+ *   ?encoding=msgpack and frames are translated between sides that differ (see encoding.ts)
+ * - Server sends: { source: "192.168.x.x", payload: {...} } to browsers subscribed to the
+ *   device (?target, { type: "subscribe", devices } or the project topic; see subscriptions.ts)
+ * - Discovery: the bridge pushes { type: "device_discovered", device } for devices
+ *   found via mDNS or a subnet probe; browsers request a probe with { type: "scan" }
+ * - Cloud upstream (optional): with WS_BRIDGE_SESSION_ID and either WS_BRIDGE_ABLY_KEY or
+ *   WS_BRIDGE_RELAY_URL/WS_BRIDGE_RELAY_KEY set, device traffic is also relayed through
+ *   the session's channels on Ably or the self-hosted realtime relay
+ * - Auth: browsers connect from an allowed origin with ?token= minted by the frontend for
+ *   the project in WS_BRIDGE_SESSION_ID; spectator connections are read-only (see auth.ts)
+ * - Queueing: config_update and get_status for a reconnecting device are kept and
+ *   delivered once it is back; browsers are told queued/delivered/expired (see queue.ts)
+ * - HTTP: device management, broadcasts, health and Prometheus metrics on the same
+ *   port (see http.ts)
  */
 
-import type { IncomingMessage } from 'http'
+import { createServer, type IncomingMessage, type Server } from 'http'
 import { WebSocket, WebSocketServer } from 'ws'
 
+import {
+  authenticate,
+  canSendToDevice,
+  CLOSE_UNAUTHORIZED,
+  isOriginAllowed,
+  type AuthOptions,
+  type BridgeRole,
+  type BrowserIdentity,
+} from './auth'
+import { DeviceDiscovery } from './discovery'
+import {
+  advertisedEncodings,
+  decodeFrame,
+  encodeEnvelope,
+  encodeFrame,
+  parseEncoding,
+  valueFrame,
+  type Frame,
+  type WireEncoding,
+} from './encoding'
+import { createHttpHandler, type BridgeControl, type BridgeHealth, type DeviceStats } from './http'
+import { OutboundQueues, type ExpiredReason, type QueuedMessage } from './queue'
+import {
+  MAX_DEVICE_SUBSCRIPTIONS,
+  SubscriptionIndex,
+  type SubscriptionChange,
+} from './subscriptions'
+import { CloudUpstream, deviceChannelName, type UpstreamLink } from './upstream'
+import { AblyLink } from './upstream-ably'
+import { RelayLink } from './upstream-relay'
+
 // Configuration
 const PORT = parseInt(process.env.WS_BRIDGE_PORT ?? '8080', 10)
 const DEVICE_RECONNECT_DELAY = 3000
 const HEARTBEAT_INTERVAL = 30000
+const DISCOVERY_ENABLED = process.env.WS_BRIDGE_DISCOVERY !== 'false'
+const MDNS_SERVICE_TYPE = process.env.WS_BRIDGE_MDNS_TYPE ?? 'rayz'
+const SCAN_SUBNET = process.env.WS_BRIDGE_SCAN_SUBNET
+const SCAN_PORTS = (process.env.WS_BRIDGE_SCAN_PORTS ?? '80')
+  .split(',')
+  .map((port) => parseInt(port, 10))
+  .filter((port) => port > 0 && port < 65536)
+const ABLY_KEY = process.env.WS_BRIDGE_ABLY_KEY
+const RELAY_URL = process.env.WS_BRIDGE_RELAY_URL
+const RELAY_KEY = process.env.WS_BRIDGE_RELAY_KEY
+const SESSION_ID = process.env.WS_BRIDGE_SESSION_ID
+const CHANNEL_PREFIX = process.env.WS_BRIDGE_CHANNEL_PREFIX
+const TOKEN_SECRET = process.env.WS_BRIDGE_TOKEN_SECRET
+const AUTH_DISABLED = process.env.WS_BRIDGE_AUTH === 'false'
+const API_KEY = process.env.WS_BRIDGE_API_KEY
+const ALLOWED_ORIGINS = (
+  process.env.WS_BRIDGE_ALLOWED_ORIGINS ?? 'http://localhost:3000,http://127.0.0.1:3000'
+)
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean)
+// Per-device queue for messages to reconnecting devices; 0 disables queueing
+const QUEUE_SIZE = parseInt(process.env.WS_BRIDGE_QUEUE_SIZE ?? '32', 10)
+const QUEUE_TTL_MS = parseInt(process.env.WS_BRIDGE_QUEUE_TTL_MS ?? '60000', 10)
+// Devices to connect at startup; cloud browsers cannot ask the bridge to add devices
+const STARTUP_DEVICES = (process.env.WS_BRIDGE_DEVICES ?? '')
+  .split(',')
+  .map((ip) => ip.trim())
+  .filter(Boolean)
 
 interface DeviceConnection {
   ip: string
   ws: WebSocket | null
   connected: boolean
   reconnecting: boolean
+  lastMessageAt: number | null
+  reconnects: number
+  rttMs: number | null
+  pingSentAt: number | null
+  messagesReceived: number
+  messagesSent: number
+  /** Encoding the bridge sends in; MessagePack once the device advertises it */
+  encoding: WireEncoding
+}
+
+interface BrowserClient extends BrowserIdentity {
+  encoding: WireEncoding
 }
 
 interface BrowserMessage {
   type?: string
   target?: string
   broadcast?: boolean
+  subnet?: string
+  devices?: unknown
+  topic?: unknown
   payload: unknown
 }
 
-interface DeviceMessage {
-  source: string
-  payload: unknown
-}
-
-class WsBridge {
+class WsBridge implements BridgeControl {
+  private httpServer: Server
   private server: WebSocketServer
-  private browserClients: Set<WebSocket> = new Set()
+  private browserClients: Map<WebSocket, BrowserClient> = new Map()
+  private subscriptions = new SubscriptionIndex<WebSocket>()
   private devices: Map<string, DeviceConnection> = new Map()
   private heartbeatTimer: NodeJS.Timeout | null = null
+  private discovery: DeviceDiscovery | null = null
+  private upstream: CloudUpstream | null = null
+  private readonly startedAt = Date.now()
+  private readonly queues = new OutboundQueues(QUEUE_SIZE, QUEUE_TTL_MS)
+  private readonly authOptions: AuthOptions = {
+    disabled: AUTH_DISABLED,
+    apiKey: API_KEY,
+    tokenSecret: TOKEN_SECRET ? new TextEncoder().encode(TOKEN_SECRET) : undefined,
+    sessionId: SESSION_ID,
+  }
 
   constructor(port: number) {
-    this.server = new WebSocketServer({ port })
+    if (AUTH_DISABLED) {
+      console.warn('[WsBridge] WS_BRIDGE_AUTH=false: every browser is trusted as an admin')
+    } else if (!TOKEN_SECRET || !SESSION_ID) {
+      console.warn(
+        '[WsBridge] WS_BRIDGE_TOKEN_SECRET and WS_BRIDGE_SESSION_ID must both be set; ' +
+          'no browser can connect'
+      )
+    }
+
+    this.httpServer = createServer(
+      createHttpHandler(this, { auth: this.authOptions, allowedOrigins: ALLOWED_ORIGINS })
+    )
+    this.server = new WebSocketServer({
+      server: this.httpServer,
+      // Rejected with 403 before the upgrade
+      verifyClient: ({ origin }: { origin?: string }) => isOriginAllowed(origin, ALLOWED_ORIGINS),
+    })
     this.setupServer()
+    this.setupQueues()
+    this.httpServer.listen(port)
     this.startHeartbeat()
 
-    console.log(`[WsBridge] Server started on ws://localhost:${port}`)
+    if (DISCOVERY_ENABLED) {
+      this.startDiscovery()
+    }
+
+    // Without Ably or relay credentials the session only scopes browser tokens
+    if (SESSION_ID) {
+      this.startUpstream(SESSION_ID)
+    }
+
+    STARTUP_DEVICES.forEach((ip) => this.addDevice(ip))
+
+    console.log(`[WsBridge] Server started on ws://localhost:${port} (HTTP API on the same port)`)
   }
 
   private setupServer() {
     this.server.on('connection', (ws: WebSocket, req: IncomingMessage) => {
-      // Parse query params for target
-      const requestUrl = new URL(req.url ?? '', `http://localhost:${PORT}`)
-      const targetIp = requestUrl.searchParams.get('target')
+      this.handleConnection(ws, req)
+    })
 
-      console.log(`[WsBridge] Browser client connected${targetIp ? ` (target: ${targetIp})` : ''}`)
-      this.browserClients.add(ws)
+    this.server.on('error', (err: Error) => {
+      console.error('[WsBridge] Server error:', err)
+    })
 
-      if (targetIp) {
-        this.addDevice(targetIp)
-      }
+    this.httpServer.on('error', (err: Error) => {
+      console.error('[WsBridge] HTTP server error:', err)
+    })
+  }
 
-      // Send current device states
-      this.sendDeviceList(ws)
+  /**
+   * Tell the device's subscribers what happens to its queued messages
+   */
+  private setupQueues() {
+    const describe = (message: QueuedMessage) => ({
+      target: message.target,
+      id: message.id,
+      messageType: message.messageType,
+      ...(message.reqId && { reqId: message.reqId }),
+    })
 
-      ws.on('message', (data: Buffer) => {
-        try {
-          const raw = JSON.parse(data.toString())
-
-          // Check if message is already structured as BrowserMessage or is a management command
-          const isStructured =
-            raw.target ||
-            raw.broadcast ||
-            raw.type === 'add_device' ||
-            raw.type === 'remove_device' ||
-            raw.type === 'ping' // Handle explicit ping
-
-          if (isStructured) {
-            this.handleBrowserMessage(raw as BrowserMessage)
-          } else if (targetIp) {
-            // It's a raw payload meant for the target IP declared in connection
-            this.handleBrowserMessage({
-              target: targetIp,
-              payload: raw,
+    this.queues.on('queued', (message) => {
+      this.sendToSubscribers(message.target, {
+        type: 'queued',
+        ...describe(message),
+        expiresAt: message.expiresAt,
+      })
+    })
+    this.queues.on('delivered', (message) => {
+      this.sendToSubscribers(message.target, { type: 'delivered', ...describe(message) })
+    })
+    this.queues.on('expired', (message, reason: ExpiredReason) => {
+      console.warn(
+        `[WsBridge] Dropped queued ${message.messageType} for ${message.target} (${reason})`
+      )
+      this.sendToSubscribers(message.target, { type: 'expired', ...describe(message), reason })
+    })
+  }
+
+  private async handleConnection(ws: WebSocket, req: IncomingMessage) {
+    // Parse query params for target, subscriptions and token
+    const requestUrl = new URL(req.url ?? '', `http://localhost:${PORT}`)
+    const targetIp = requestUrl.searchParams.get('target')
+    const encoding = parseEncoding(requestUrl.searchParams.get('encoding'))
+    const initialSubscriptions: SubscriptionChange = {
+      devices: [
+        ...(targetIp ? [targetIp] : []),
+        ...(requestUrl.searchParams.get('subscribe')?.split(',').filter(Boolean) ?? []),
+      ],
+      topic: requestUrl.searchParams.get('topic') ?? undefined,
+    }
+
+    // Messages that arrive while the token is verified are handled afterwards
+    const pending: Array<[Buffer, boolean]> = []
+    const buffer = (data: Buffer, isBinary: boolean) => pending.push([data, isBinary])
+    ws.on('message', buffer)
+
+    let identity: BrowserIdentity
+    try {
+      identity = await authenticate(requestUrl, this.authOptions)
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'Unauthorized'
+      console.warn(`[WsBridge] Rejected browser client: ${reason}`)
+      ws.close(CLOSE_UNAUTHORIZED, reason)
+      return
+    }
+    // Gone while the token was verified
+    if (ws.readyState !== WebSocket.OPEN) return
+
+    console.log(
+      `[WsBridge] Browser client connected: ${identity.clientId} (${identity.role})` +
+        (targetIp ? ` (target: ${targetIp})` : '')
+    )
+    this.browserClients.set(ws, { ...identity, encoding })
+    if (!this.subscriptions.subscribe(ws, initialSubscriptions)) {
+      this.sendTooManySubscriptions(ws)
+    }
+
+    // Spectators only watch devices an admin added
+    if (targetIp && identity.role === 'admin') {
+      this.addDevice(targetIp)
+    }
+
+    // Send current device states
+    this.sendDeviceList(ws)
+    if (this.discovery) {
+      ws.send(JSON.stringify({ type: 'discovered_devices', devices: this.discovery.list() }))
+    }
+
+    const handleMessage = (data: Buffer, isBinary: boolean) => {
+      try {
+        const frame = decodeFrame(data, isBinary)
+        const raw = frame.value as Record<string, unknown> | null
+        if (typeof raw !== 'object' || raw === null) {
+          console.warn('[WsBridge] received message that is not an object', raw)
+          return
+        }
+
+        // Check if message is already structured as BrowserMessage or is a management command
+        const isStructured =
+          raw.target ||
+          raw.broadcast ||
+          raw.type === 'add_device' ||
+          raw.type === 'remove_device' ||
+          raw.type === 'scan' ||
+          raw.type === 'subscribe' ||
+          raw.type === 'unsubscribe' ||
+          raw.type === 'ping' // Handle explicit ping
+
+        let message: BrowserMessage
+        let payloadFrame: Frame | undefined
+        if (isStructured) {
+          message = raw as unknown as BrowserMessage
+        } else if (targetIp) {
+          // It's a raw payload meant for the target IP declared in connection;
+          // its bytes can be forwarded as they are
+          message = { target: targetIp, payload: raw }
+          payloadFrame = frame
+        } else {
+          console.warn('[WsBridge] received message without target', raw)
+          return
+        }
+
+        // Any role may choose what it watches
+        if (message.type === 'subscribe' || message.type === 'unsubscribe') {
+          this.updateSubscriptions(ws, message)
+          return
+        }
+
+        if (!this.handleBrowserMessage(message, identity.role, payloadFrame)) {
+          ws.send(
+            JSON.stringify({
+              type: 'error',
+              code: 'forbidden',
+              message: `Not allowed for ${identity.role} connections`,
             })
-          } else {
-            console.warn('[WsBridge] received message without target', raw)
-          }
-        } catch (err) {
-          console.error('[WsBridge] Failed to parse browser message:', err)
+          )
         }
-      })
+      } catch (err) {
+        console.error('[WsBridge] Failed to parse browser message:', err)
+      }
+    }
 
-      ws.on('close', () => {
-        console.log('[WsBridge] Browser client disconnected')
-        this.browserClients.delete(ws)
-      })
+    ws.off('message', buffer)
+    ws.on('message', handleMessage)
 
-      ws.on('error', (err: Error) => {
-        console.error('[WsBridge] Browser client error:', err)
-        this.browserClients.delete(ws)
-      })
+    ws.on('close', () => {
+      console.log(`[WsBridge] Browser client disconnected: ${identity.clientId}`)
+      this.browserClients.delete(ws)
+      this.subscriptions.remove(ws)
+    })
 
-      // Handle ping from browser
-      ws.on('pong', () => {
-        // Client is alive
-      })
+    ws.on('error', (err: Error) => {
+      console.error('[WsBridge] Browser client error:', err)
+      this.browserClients.delete(ws)
+      this.subscriptions.remove(ws)
     })
 
-    this.server.on('error', (err: Error) => {
-      console.error('[WsBridge] Server error:', err)
+    // Handle ping from browser
+    ws.on('pong', () => {
+      // Client is alive
     })
+
+    pending.forEach(([data, isBinary]) => handleMessage(data, isBinary))
   }
 
   /**
@@ -129,6 +359,13 @@ class WsBridge {
       ws: null,
       connected: false,
       reconnecting: false,
+      lastMessageAt: null,
+      reconnects: 0,
+      rttMs: null,
+      pingSentAt: null,
+      messagesReceived: 0,
+      messagesSent: 0,
+      encoding: 'json',
     }
 
     this.devices.set(ip, device)
@@ -137,13 +374,61 @@ class WsBridge {
 
   /**
    * Remove a device
+   * @returns false when the device was not managed
    */
-  removeDevice(ip: string) {
+  removeDevice(ip: string): boolean {
     const device = this.devices.get(ip)
     if (device?.ws) {
       device.ws.close()
     }
     this.devices.delete(ip)
+    this.queues.clear(ip)
+    this.upstream?.deviceDisconnected(ip)
+    return !!device
+  }
+
+  /**
+   * Managed devices with their connection stats
+   */
+  listDevices(): DeviceStats[] {
+    return Array.from(this.devices.values()).map((device) => ({
+      ip: device.ip,
+      connected: device.connected,
+      lastMessageAt: device.lastMessageAt,
+      reconnects: device.reconnects,
+      rttMs: device.rttMs,
+      messagesReceived: device.messagesReceived,
+      messagesSent: device.messagesSent,
+      queued: this.queues.size(device.ip),
+    }))
+  }
+
+  health(): BridgeHealth {
+    const devices = Array.from(this.devices.values())
+    return {
+      status: 'ok',
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      browsers: this.browserClients.size,
+      devices: {
+        total: devices.length,
+        connected: devices.filter((device) => device.connected).length,
+      },
+      discovery: !!this.discovery,
+      upstream: !!this.upstream,
+    }
+  }
+
+  /**
+   * Send a payload to every connected device
+   * @param frame - The payload as received, to forward its bytes when possible
+   * @returns How many devices it was sent to
+   */
+  broadcastToDevices(payload: unknown, frame: Frame = valueFrame(payload)): number {
+    let sent = 0
+    for (const device of this.devices.values()) {
+      if (this.sendToDevice(device, frame)) sent++
+    }
+    return sent
   }
 
   /**
@@ -170,23 +455,42 @@ class WsBridge {
         device.ws = ws
         device.connected = true
         device.reconnecting = false
+        // Until the device advertises its encodings again
+        device.encoding = 'json'
 
         // Request initial status
-        ws.send(JSON.stringify({ op: 1, type: 'get_status' }))
+        this.sendToDevice(device, valueFrame({ op: 1, type: 'get_status' }))
+        device.pingSentAt = Date.now()
+        ws.ping()
 
         // Notify browsers
         this.broadcastToBrowsers({
           type: 'device_connected',
           ip,
         })
+        this.upstream?.deviceConnected(ip)
+
+        // Whatever was kept while it was away, e.g. config it missed rebooting
+        this.queues.flush(ip, (frame) => this.sendToDevice(device, frame))
       })
 
-      ws.on('message', (data: Buffer) => {
+      ws.on('message', (data: Buffer, isBinary: boolean) => {
+        device.lastMessageAt = Date.now()
+        device.messagesReceived++
+        let frame: Frame
         try {
-          const payload = JSON.parse(data.toString())
-          this.handleDeviceMessage(ip, payload)
+          frame = decodeFrame(data, isBinary)
         } catch (err) {
           console.error(`[WsBridge] Failed to parse device message from ${ip}:`, err)
+          return
+        }
+        this.handleDeviceMessage(device, frame)
+      })
+
+      ws.on('pong', () => {
+        if (device.pingSentAt !== null) {
+          device.rttMs = Date.now() - device.pingSentAt
+          device.pingSentAt = null
         }
       })
 
@@ -195,19 +499,16 @@ class WsBridge {
         device.ws = null
         device.connected = false
         device.reconnecting = false
+        device.pingSentAt = null
 
         // Notify browsers
         this.broadcastToBrowsers({
           type: 'device_disconnected',
           ip,
         })
+        this.upstream?.deviceDisconnected(ip)
 
-        // Schedule reconnect
-        setTimeout(() => {
-          if (this.devices.has(ip)) {
-            this.connectToDevice(ip)
-          }
-        }, DEVICE_RECONNECT_DELAY)
+        this.scheduleReconnect(ip)
       })
 
       ws.on('error', (err: Error) => {
@@ -218,61 +519,148 @@ class WsBridge {
       console.error(`[WsBridge] Failed to create WebSocket for ${ip}:`, err)
       device.reconnecting = false
 
-      // Schedule reconnect
-      setTimeout(() => {
-        if (this.devices.has(ip)) {
-          this.connectToDevice(ip)
-        }
-      }, DEVICE_RECONNECT_DELAY)
+      this.scheduleReconnect(ip)
     }
   }
 
+  private scheduleReconnect(ip: string) {
+    setTimeout(() => {
+      const device = this.devices.get(ip)
+      if (device) {
+        device.reconnects++
+        this.connectToDevice(ip)
+      }
+    }, DEVICE_RECONNECT_DELAY)
+  }
+
+  /**
+   * @returns false when the device is not connected
+   */
+  private sendToDevice(device: DeviceConnection, frame: Frame): boolean {
+    if (!device.connected || device.ws?.readyState !== WebSocket.OPEN) return false
+    device.ws.send(encodeFrame(frame, device.encoding))
+    device.messagesSent++
+    return true
+  }
+
   /**
    * Handle message from browser
+   * @param payloadFrame - The payload as received, to forward its bytes when possible
+   * @returns false when the role may not send it
    */
-  private handleBrowserMessage(message: BrowserMessage) {
+  private handleBrowserMessage(
+    message: BrowserMessage,
+    role: BridgeRole,
+    payloadFrame: Frame = valueFrame(message.payload)
+  ): boolean {
     if (message.type === 'ping') {
       // Heartbeat ping, ignore
-      return
+      return true
+    }
+
+    // Device management, discovery and broadcasts are for admins only
+    const isManagement =
+      message.type === 'add_device' || message.type === 'remove_device' || message.type === 'scan'
+    if (role !== 'admin' && (isManagement || message.broadcast)) {
+      return false
     }
 
     // Check for device management commands
     if ((message as any).type === 'add_device' && (message as any).ip) {
       this.addDevice((message as any).ip)
-      return
+      return true
     }
 
     if ((message as any).type === 'remove_device' && (message as any).ip) {
       this.removeDevice((message as any).ip)
-      return
+      return true
+    }
+
+    if (message.type === 'scan') {
+      this.scan(message.subnet)
+      return true
+    }
+
+    if (!canSendToDevice(role, message.payload)) {
+      return false
     }
 
     if (message.broadcast) {
-      // Broadcast to all connected devices
-      for (const [ip, device] of this.devices) {
-        if (device.connected && device.ws?.readyState === WebSocket.OPEN) {
-          device.ws.send(JSON.stringify(message.payload))
-        }
-      }
+      this.broadcastToDevices(message.payload, payloadFrame)
     } else if (message.target) {
       // Send to specific device
       const device = this.devices.get(message.target)
-      if (device?.connected && device.ws?.readyState === WebSocket.OPEN) {
-        device.ws.send(JSON.stringify(message.payload))
+      if (device && !this.sendToDevice(device, payloadFrame)) {
+        // Reconnecting; keep it if it is safe to deliver later
+        this.queues.enqueue(device.ip, payloadFrame)
       }
     }
+    return true
+  }
+
+  /**
+   * Apply a subscribe/unsubscribe message and confirm the resulting subscriptions
+   */
+  private updateSubscriptions(ws: WebSocket, message: BrowserMessage) {
+    const change: SubscriptionChange = {
+      devices: Array.isArray(message.devices)
+        ? message.devices.filter((ip): ip is string => typeof ip === 'string')
+        : [],
+      topic: typeof message.topic === 'string' ? message.topic : undefined,
+    }
+
+    if (message.type === 'unsubscribe') {
+      this.subscriptions.unsubscribe(ws, change)
+    } else if (!this.subscriptions.subscribe(ws, change)) {
+      this.sendTooManySubscriptions(ws)
+      return
+    }
+
+    ws.send(JSON.stringify({ type: 'subscriptions', ...this.subscriptions.list(ws) }))
+  }
+
+  private sendTooManySubscriptions(ws: WebSocket) {
+    ws.send(
+      JSON.stringify({
+        type: 'error',
+        code: 'too_many_subscriptions',
+        message: `At most ${MAX_DEVICE_SUBSCRIPTIONS} devices per connection`,
+      })
+    )
   }
 
   /**
    * Handle message from ESP32 device
    */
-  private handleDeviceMessage(ip: string, payload: unknown) {
-    const message: DeviceMessage = {
-      source: ip,
-      payload,
+  private handleDeviceMessage(device: DeviceConnection, frame: Frame) {
+    const { ip } = device
+    const encodings = advertisedEncodings(frame.value)
+    if (encodings) {
+      device.encoding = encodings.includes('msgpack') ? 'msgpack' : 'json'
+    }
+
+    // Encoded once per encoding, and only if someone is subscribed
+    const envelopes: Partial<Record<WireEncoding, string | Buffer>> = {}
+    for (const client of this.subscriptions.recipients(ip)) {
+      if (client.readyState === WebSocket.OPEN) {
+        const { encoding } = this.browserClients.get(client) ?? { encoding: 'json' as const }
+        envelopes[encoding] ??= encodeEnvelope(ip, frame, encoding)
+        client.send(envelopes[encoding])
+      }
     }
+    this.upstream?.publish(ip, frame.value)
+  }
 
-    this.broadcastToBrowsers(message)
+  /**
+   * Send a bridge message to the browsers subscribed to a device
+   */
+  private sendToSubscribers(ip: string, message: unknown) {
+    const data = JSON.stringify(message)
+    for (const client of this.subscriptions.recipients(ip)) {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(data)
+      }
+    }
   }
 
   /**
@@ -280,7 +668,7 @@ class WsBridge {
    */
   private broadcastToBrowsers(message: unknown) {
     const data = JSON.stringify(message)
-    for (const client of this.browserClients) {
+    for (const client of this.browserClients.keys()) {
       if (client.readyState === WebSocket.OPEN) {
         client.send(data)
       }
@@ -304,22 +692,94 @@ class WsBridge {
     )
   }
 
+  /**
+   * Browse mDNS and run the configured subnet probe once
+   */
+  private startDiscovery() {
+    this.discovery = new DeviceDiscovery({
+      mdnsType: MDNS_SERVICE_TYPE,
+      probeSubnet: SCAN_SUBNET,
+      probePorts: SCAN_PORTS.length > 0 ? SCAN_PORTS : [80],
+    })
+
+    this.discovery.on('discovered', (device) => {
+      this.broadcastToBrowsers({ type: 'device_discovered', device })
+    })
+
+    this.discovery.start()
+    if (SCAN_SUBNET) {
+      this.scan()
+    }
+  }
+
+  /**
+   * Re-query mDNS and probe a subnet; browsers get scan_finished when done
+   */
+  private scan(subnet?: string) {
+    if (!this.discovery) {
+      this.broadcastToBrowsers({ type: 'scan_finished', found: 0, error: 'Discovery disabled' })
+      return
+    }
+
+    if (this.discovery.isProbing) {
+      return
+    }
+
+    this.broadcastToBrowsers({ type: 'scan_started' })
+    this.discovery
+      .scan(subnet)
+      .then((found) => this.broadcastToBrowsers({ type: 'scan_finished', found }))
+      .catch((err: Error) => {
+        console.error('[WsBridge] Scan failed:', err.message)
+        this.broadcastToBrowsers({ type: 'scan_finished', found: 0, error: err.message })
+      })
+  }
+
+  /**
+   * Relay devices through the session's cloud channels; cloud commands are
+   * delivered exactly like those from local browsers
+   */
+  private startUpstream(sessionId: string) {
+    const channelName = deviceChannelName(sessionId, CHANNEL_PREFIX)
+    let link: UpstreamLink
+    if (RELAY_URL && RELAY_KEY) {
+      link = new RelayLink(RELAY_URL, RELAY_KEY, channelName)
+    } else if (ABLY_KEY) {
+      link = new AblyLink(ABLY_KEY, channelName)
+    } else {
+      return
+    }
+
+    this.upstream = new CloudUpstream(link)
+
+    // The cloud backend already checked the sender may control the session
+    this.upstream.on('command', (target, payload) => {
+      this.handleBrowserMessage({ target, payload }, 'admin')
+    })
+    this.upstream.on('broadcast', (payload) => {
+      this.handleBrowserMessage({ broadcast: true, payload }, 'admin')
+    })
+
+    this.upstream.start()
+  }
+
   /**
    * Start heartbeat to keep connections alive
    */
   private startHeartbeat() {
     this.heartbeatTimer = setInterval(() => {
       // Ping browser clients
-      for (const client of this.browserClients) {
+      for (const client of this.browserClients.keys()) {
         if (client.readyState === WebSocket.OPEN) {
           client.ping()
         }
       }
 
-      // Send heartbeat to devices
-      for (const [ip, device] of this.devices) {
-        if (device.connected && device.ws?.readyState === WebSocket.OPEN) {
-          device.ws.send(JSON.stringify({ op: 2, type: 'heartbeat' }))
+      // Send heartbeat to devices; the ping's pong measures the round trip
+      for (const device of this.devices.values()) {
+        if (this.sendToDevice(device, valueFrame({ op: 2, type: 'heartbeat' }))) {
+          device.pingSentAt = Date.now()
+          device.ws?.ping()
         }
       }
     }, HEARTBEAT_INTERVAL)
@@ -333,17 +793,22 @@ class WsBridge {
       clearInterval(this.heartbeatTimer)
     }
 
+    this.discovery?.stop()
+    this.queues.stop()
+    this.upstream?.stop()
+
     // Close all device connections
     for (const [, device] of this.devices) {
       device.ws?.close()
     }
 
     // Close all browser connections
-    for (const client of this.browserClients) {
+    for (const client of this.browserClients.keys()) {
       client.close()
     }
 
     this.server.close()
+    this.httpServer.close()
     console.log('[WsBridge] Server stopped')
   }
 }
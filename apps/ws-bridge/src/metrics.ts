@@ -0,0 +1,107 @@
+/**
+ * Prometheus text exposition of the bridge state (`GET /metrics`)
+ */
+
+import type { BridgeHealth, DeviceStats } from './http'
+
+interface Metric {
+  name: string
+  help: string
+  type: 'gauge' | 'counter'
+  samples: Array<{ labels?: Record<string, string>; value: number }>
+}
+
+export function formatMetrics(health: BridgeHealth, devices: DeviceStats[]): string {
+  const perDevice = (value: (device: DeviceStats) => number | null) =>
+    devices.flatMap((device) => {
+      const sample = value(device)
+      return sample === null ? [] : [{ labels: { ip: device.ip }, value: sample }]
+    })
+
+  const metrics: Metric[] = [
+    {
+      name: 'rayz_bridge_uptime_seconds',
+      help: 'Seconds since the bridge started',
+      type: 'gauge',
+      samples: [{ value: health.uptimeSeconds }],
+    },
+    {
+      name: 'rayz_bridge_browser_clients',
+      help: 'Connected browser clients',
+      type: 'gauge',
+      samples: [{ value: health.browsers }],
+    },
+    {
+      name: 'rayz_bridge_devices',
+      help: 'Managed devices by connection state',
+      type: 'gauge',
+      samples: [
+        { labels: { state: 'connected' }, value: health.devices.connected },
+        {
+          labels: { state: 'disconnected' },
+          value: health.devices.total - health.devices.connected,
+        },
+      ],
+    },
+    {
+      name: 'rayz_bridge_device_connected',
+      help: 'Whether the bridge is connected to the device',
+      type: 'gauge',
+      samples: perDevice((d) => (d.connected ? 1 : 0)),
+    },
+    {
+      name: 'rayz_bridge_device_reconnects_total',
+      help: 'Reconnect attempts since the device was added',
+      type: 'counter',
+      samples: perDevice((d) => d.reconnects),
+    },
+    {
+      name: 'rayz_bridge_device_rtt_seconds',
+      help: 'Round trip of the last WebSocket ping to the device',
+      type: 'gauge',
+      samples: perDevice((d) => (d.rttMs === null ? null : d.rttMs / 1000)),
+    },
+    {
+      name: 'rayz_bridge_device_last_message_timestamp_seconds',
+      help: 'When the device last sent a message',
+      type: 'gauge',
+      samples: perDevice((d) => (d.lastMessageAt === null ? null : d.lastMessageAt / 1000)),
+    },
+    {
+      name: 'rayz_bridge_device_messages_received_total',
+      help: 'Messages received from the device',
+      type: 'counter',
+      samples: perDevice((d) => d.messagesReceived),
+    },
+    {
+      name: 'rayz_bridge_device_messages_sent_total',
+      help: 'Messages sent to the device',
+      type: 'counter',
+      samples: perDevice((d) => d.messagesSent),
+    },
+    {
+      name: 'rayz_bridge_device_queued_messages',
+      help: 'Messages waiting for the device to reconnect',
+      type: 'gauge',
+      samples: perDevice((d) => d.queued),
+    },
+  ]
+
+  return (
+    metrics
+      .flatMap(({ name, help, type, samples }) => [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} ${type}`,
+        ...samples.map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+      ])
+      .join('\n') + '\n'
+  )
+}
+
+function formatLabels(labels?: Record<string, string>): string {
+  if (!labels) return ''
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+  )
+  return `{${pairs.join(',')}}`
+}
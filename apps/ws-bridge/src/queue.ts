@@ -0,0 +1,144 @@
+/**
+ * Outbound queues for offline devices
+ *
+ * Messages for a device that is reconnecting are kept for it when they are
+ * safe to deliver late (QUEUEABLE_TYPES), and flushed in order once it is
+ * back. This is how a device that reboots mid-setup still gets its config.
+ * Queues are bounded per device; messages that wait longer than the TTL, or
+ * are pushed out by newer ones, expire.
+ */
+
+import { randomUUID } from 'crypto'
+import { EventEmitter } from 'events'
+
+import type { Frame } from './encoding'
+
+/** Message types a device may receive late without changing their meaning */
+export const QUEUEABLE_TYPES = new Set(['config_update', 'get_status'])
+
+export interface QueuedMessage {
+  id: string
+  target: string
+  messageType: string
+  /** The payload's req_id, for browsers tracking acknowledgements */
+  reqId?: string
+  frame: Frame
+  /** ms since epoch */
+  expiresAt: number
+}
+
+/** ttl: waited too long; overflow: pushed out of a full queue; removed: device removed */
+export type ExpiredReason = 'ttl' | 'overflow' | 'removed'
+
+interface QueueEvents {
+  queued: [message: QueuedMessage]
+  delivered: [message: QueuedMessage]
+  expired: [message: QueuedMessage, reason: ExpiredReason]
+}
+
+export class OutboundQueues extends EventEmitter<QueueEvents> {
+  private readonly queues = new Map<string, QueuedMessage[]>()
+  private readonly timers = new Map<string, NodeJS.Timeout>()
+
+  /**
+   * @param maxPerDevice - 0 disables queueing
+   */
+  constructor(
+    private readonly maxPerDevice: number,
+    private readonly ttlMs: number
+  ) {
+    super()
+  }
+
+  /**
+   * Keep a payload for a device that cannot take it now
+   * @returns false when the payload is not queueable and was dropped
+   */
+  enqueue(target: string, frame: Frame): boolean {
+    const payload = frame.value as { type?: unknown; req_id?: unknown } | null
+    const messageType = payload?.type
+    if (this.maxPerDevice <= 0 || typeof messageType !== 'string') return false
+    if (!QUEUEABLE_TYPES.has(messageType)) return false
+
+    const queue = this.queues.get(target) ?? []
+    // One pending status request answers them all
+    if (messageType === 'get_status' && queue.some((m) => m.messageType === 'get_status')) {
+      return true
+    }
+
+    while (queue.length >= this.maxPerDevice) {
+      this.expire(queue.shift()!, 'overflow')
+    }
+
+    const message: QueuedMessage = {
+      id: randomUUID(),
+      target,
+      messageType,
+      ...(typeof payload?.req_id === 'string' && { reqId: payload.req_id }),
+      frame,
+      expiresAt: Date.now() + this.ttlMs,
+    }
+    queue.push(message)
+    this.queues.set(target, queue)
+    this.timers.set(
+      message.id,
+      setTimeout(() => {
+        const pending = this.queues.get(target)
+        const index = pending?.indexOf(message) ?? -1
+        if (index === -1) return
+        pending!.splice(index, 1)
+        if (pending!.length === 0) this.queues.delete(target)
+        this.expire(message, 'ttl')
+      }, this.ttlMs)
+    )
+
+    this.emit('queued', message)
+    return true
+  }
+
+  /**
+   * Deliver a device's queue in order; stops at the first message `send`
+   * could not deliver, which stays queued
+   */
+  flush(target: string, send: (frame: Frame) => boolean) {
+    const queue = this.queues.get(target)
+    if (!queue) return
+
+    while (queue.length > 0 && send(queue[0].frame)) {
+      const message = queue.shift()!
+      this.clearTimer(message)
+      this.emit('delivered', message)
+    }
+    if (queue.length === 0) this.queues.delete(target)
+  }
+
+  /**
+   * Drop a device's queue
+   */
+  clear(target: string) {
+    const queue = this.queues.get(target)
+    this.queues.delete(target)
+    queue?.forEach((message) => this.expire(message, 'removed'))
+  }
+
+  size(target: string): number {
+    return this.queues.get(target)?.length ?? 0
+  }
+
+  stop() {
+    this.timers.forEach((timer) => clearTimeout(timer))
+    this.timers.clear()
+    this.queues.clear()
+  }
+
+  private expire(message: QueuedMessage, reason: ExpiredReason) {
+    this.clearTimer(message)
+    this.emit('expired', message, reason)
+  }
+
+  private clearTimer(message: QueuedMessage) {
+    const timer = this.timers.get(message.id)
+    if (timer) clearTimeout(timer)
+    this.timers.delete(message.id)
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Browser subscriptions
+ *
+ * Device frames are only routed to browsers that asked for them: a set of
+ * device IPs, or the project topic (every device the bridge manages).
+ * Indexed by device so routing a frame costs its subscribers, not every
+ * browser.
+ */
+
+/** Subscribed to every device the bridge manages */
+export const PROJECT_TOPIC = 'project'
+
+/** Per-browser cap on subscribed device IPs */
+export const MAX_DEVICE_SUBSCRIPTIONS = 1024
+
+export interface SubscriptionChange {
+  devices?: string[]
+  topic?: string
+}
+
+export interface Subscriptions {
+  devices: string[]
+  project: boolean
+}
+
+export class SubscriptionIndex<Client> {
+  private byDevice = new Map<string, Set<Client>>()
+  private devicesOf = new Map<Client, Set<string>>()
+  private projectWide = new Set<Client>()
+
+  /**
+   * @returns false when the change would exceed MAX_DEVICE_SUBSCRIPTIONS;
+   *   nothing is subscribed then
+   */
+  subscribe(client: Client, change: SubscriptionChange): boolean {
+    const devices = this.devicesOf.get(client) ?? new Set<string>()
+    const added = (change.devices ?? []).filter((ip) => !devices.has(ip))
+    if (devices.size + new Set(added).size > MAX_DEVICE_SUBSCRIPTIONS) return false
+
+    if (change.topic === PROJECT_TOPIC) this.projectWide.add(client)
+    for (const ip of added) {
+      devices.add(ip)
+      let clients = this.byDevice.get(ip)
+      if (!clients) {
+        clients = new Set()
+        this.byDevice.set(ip, clients)
+      }
+      clients.add(client)
+    }
+    if (devices.size > 0) this.devicesOf.set(client, devices)
+    return true
+  }
+
+  unsubscribe(client: Client, change: SubscriptionChange) {
+    if (change.topic === PROJECT_TOPIC) this.projectWide.delete(client)
+
+    const devices = this.devicesOf.get(client)
+    if (!devices) return
+    for (const ip of change.devices ?? []) {
+      if (!devices.delete(ip)) continue
+      const clients = this.byDevice.get(ip)
+      clients?.delete(client)
+      if (clients?.size === 0) this.byDevice.delete(ip)
+    }
+    if (devices.size === 0) this.devicesOf.delete(client)
+  }
+
+  /**
+   * Drop every subscription of a client (on disconnect)
+   */
+  remove(client: Client) {
+    this.projectWide.delete(client)
+    const devices = this.devicesOf.get(client)
+    if (devices) this.unsubscribe(client, { devices: Array.from(devices) })
+  }
+
+  /**
+   * Clients that want frames from a device
+   */
+  recipients(ip: string): Set<Client> {
+    const clients = this.byDevice.get(ip)
+    if (this.projectWide.size === 0) return clients ?? new Set()
+    if (!clients) return this.projectWide
+    return new Set([...this.projectWide, ...clients])
+  }
+
+  list(client: Client): Subscriptions {
+    return {
+      devices: Array.from(this.devicesOf.get(client) ?? []),
+      project: this.projectWide.has(client),
+    }
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Upstream link on Ably
+ */
+
+import * as Ably from 'ably'
+
+import type { UpstreamLink } from './upstream'
+
+export class AblyLink implements UpstreamLink {
+  private client: Ably.Realtime | null = null
+  private channel: Ably.RealtimeChannel | null = null
+  private connectedHandlers: Array<() => void> = []
+  private subscriptions: Array<[string, (data: unknown) => void]> = []
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly channelName: string
+  ) {}
+
+  connect(): void {
+    this.client = new Ably.Realtime({
+      key: this.apiKey,
+      // Our own messages are never meant for us
+      echoMessages: false,
+    })
+
+    this.client.connection.on('connected', () => {
+      console.log(`[Upstream] Connected to Ably, relaying to ${this.channelName}`)
+      this.connectedHandlers.forEach((handler) => handler())
+    })
+    this.client.connection.on('failed', (change) => {
+      console.error('[Upstream] Ably connection failed:', change.reason?.message)
+    })
+
+    this.channel = this.client.channels.get(this.channelName)
+    for (const [name, callback] of this.subscriptions) {
+      this.channel
+        .subscribe(name, (msg) => callback(msg.data))
+        .catch((err: Error) => console.error('[Upstream] Subscribe failed:', err.message))
+    }
+  }
+
+  close(): void {
+    this.client?.close()
+    this.client = null
+    this.channel = null
+  }
+
+  onConnected(callback: () => void): void {
+    this.connectedHandlers.push(callback)
+  }
+
+  isConnected(): boolean {
+    return this.client?.connection.state === 'connected'
+  }
+
+  /** Subscriptions are made on connect */
+  subscribe(name: string, callback: (data: unknown) => void): void {
+    this.subscriptions.push([name, callback])
+  }
+
+  async publish(name: string, data: unknown): Promise<void> {
+    await this.channel?.publish(name, data)
+  }
+
+  async enterClient(clientId: string, data: unknown): Promise<void> {
+    await this.channel?.presence.enterClient(clientId, data)
+  }
+
+  async leaveClient(clientId: string): Promise<void> {
+    await this.channel?.presence.leaveClient(clientId)
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Upstream link on the self-hosted realtime relay (apps/realtime-relay)
+ *
+ * Connects with the relay's API key, which allows entering presence on behalf
+ * of devices. Presence is dropped by the relay when the connection closes, so
+ * it is re-entered (through onConnected) after every reconnect.
+ */
+
+import { WebSocket } from 'ws'
+
+import { GATEWAY_ID, type UpstreamLink } from './upstream'
+
+const RECONNECT_DELAY = 1000
+const MAX_RECONNECT_DELAY = 30000
+const REQUEST_TIMEOUT = 10000
+
+interface RelayFrame {
+  action: string
+  id?: number
+  error?: string
+  channel?: string
+  message?: { name: string; data: unknown }
+}
+
+interface PendingRequest {
+  resolve: () => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+export class RelayLink implements UpstreamLink {
+  private ws: WebSocket | null = null
+  private connected = false
+  private closed = false
+  private nextRequestId = 1
+  private reconnectDelay = RECONNECT_DELAY
+  private reconnectTimer: NodeJS.Timeout | null = null
+  private pending = new Map<number, PendingRequest>()
+  private connectedHandlers: Array<() => void> = []
+  private subscriptions = new Map<string, Array<(data: unknown) => void>>()
+
+  constructor(
+    private readonly url: string,
+    private readonly apiKey: string,
+    private readonly channelName: string
+  ) {}
+
+  connect(): void {
+    this.closed = false
+
+    const url = new URL(this.url)
+    url.searchParams.set('key', this.apiKey)
+    url.searchParams.set('clientId', GATEWAY_ID)
+    // Our own messages are never meant for us
+    url.searchParams.set('echo', 'false')
+
+    const ws = new WebSocket(url)
+    this.ws = ws
+
+    ws.on('message', (data: Buffer) => this.handleFrame(data))
+
+    ws.on('close', (code: number, reason: Buffer) => {
+      if (ws !== this.ws) return
+      if (this.connected) {
+        console.log(`[Upstream] Disconnected from relay (${code} ${reason.toString()})`)
+      }
+      this.ws = null
+      this.connected = false
+      this.failPending('Relay connection lost')
+
+      if (!this.closed) {
+        this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectDelay)
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY)
+      }
+    })
+
+    ws.on('error', (err: Error) => {
+      console.error('[Upstream] Relay connection error:', err.message)
+    })
+  }
+
+  close(): void {
+    this.closed = true
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.ws?.close()
+    this.ws = null
+    this.connected = false
+    this.failPending('Relay connection closed')
+  }
+
+  onConnected(callback: () => void): void {
+    this.connectedHandlers.push(callback)
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  subscribe(name: string, callback: (data: unknown) => void): void {
+    this.subscriptions.set(name, [...(this.subscriptions.get(name) ?? []), callback])
+  }
+
+  publish(name: string, data: unknown): Promise<void> {
+    return this.request('publish', { name, data })
+  }
+
+  enterClient(clientId: string, data: unknown): Promise<void> {
+    return this.request('presence.enter', { clientId, data })
+  }
+
+  leaveClient(clientId: string): Promise<void> {
+    return this.request('presence.leave', { clientId })
+  }
+
+  private handleFrame(data: Buffer) {
+    let frame: RelayFrame
+    try {
+      frame = JSON.parse(data.toString())
+    } catch {
+      return
+    }
+
+    if (frame.action === 'connected') {
+      this.connected = true
+      this.reconnectDelay = RECONNECT_DELAY
+      console.log(`[Upstream] Connected to relay, relaying to ${this.channelName}`)
+      this.request('attach', {}).catch((err: Error) => {
+        console.error('[Upstream] Failed to attach:', err.message)
+      })
+      this.connectedHandlers.forEach((handler) => handler())
+    } else if (frame.action === 'reply' && frame.id !== undefined) {
+      const request = this.pending.get(frame.id)
+      if (!request) return
+      this.pending.delete(frame.id)
+      clearTimeout(request.timer)
+      if (frame.error) request.reject(new Error(frame.error))
+      else request.resolve()
+    } else if (frame.action === 'message' && frame.channel === this.channelName && frame.message) {
+      const { name, data: payload } = frame.message
+      this.subscriptions.get(name)?.forEach((callback) => callback(payload))
+    }
+  }
+
+  private request(action: string, params: Record<string, unknown>): Promise<void> {
+    const ws = this.ws
+    if (!this.connected || ws?.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Relay is not connected'))
+    }
+
+    const id = this.nextRequestId++
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new Error(`Relay request '${action}' timed out`))
+      }, REQUEST_TIMEOUT)
+      this.pending.set(id, { resolve, reject, timer })
+      ws.send(JSON.stringify({ action, id, channel: this.channelName, ...params }))
+    })
+  }
+
+  private failPending(reason: string) {
+    for (const request of this.pending.values()) {
+      clearTimeout(request.timer)
+      request.reject(new Error(reason))
+    }
+    this.pending.clear()
+  }
+}
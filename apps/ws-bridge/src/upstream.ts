@@ -0,0 +1,117 @@
+/**
+ * Cloud upstream for the bridge
+ *
+ * Relays the bridge's LAN devices into the channels of one game session, so
+ * browsers in cloud mode can reach devices that only this machine can see:
+ * - Device messages are published as `message` { source, payload }
+ * - `command` { target, payload } and `broadcast` { payload } published by
+ *   browsers are handed back to the bridge for delivery
+ * - Connected devices are entered into presence on the devices channel, with
+ *   their IP as clientId
+ *
+ * The channels live on Ably or on the self-hosted realtime relay (see
+ * UpstreamLink). Either way the bridge holds an API key, which must never
+ * reach a browser.
+ */
+
+import { EventEmitter } from 'events'
+import { hostname } from 'os'
+
+/** Keep in sync with CHANNEL_PREFIX in apps/frontend/src/lib/comm/channels.ts */
+export const DEFAULT_CHANNEL_PREFIX = 'rayz-game'
+
+/** ID the bridge connects and tags its devices with */
+export const GATEWAY_ID = `bridge:${hostname()}`
+
+/**
+ * Connection to the devices channel of one session
+ */
+export interface UpstreamLink {
+  /** Connects and keeps reconnecting until closed */
+  connect(): void
+  close(): void
+  /** Called on every (re)connect */
+  onConnected(callback: () => void): void
+  isConnected(): boolean
+  subscribe(name: string, callback: (data: unknown) => void): void
+  publish(name: string, data: unknown): Promise<void>
+  enterClient(clientId: string, data: unknown): Promise<void>
+  leaveClient(clientId: string): Promise<void>
+}
+
+export function deviceChannelName(sessionId: string, prefix = DEFAULT_CHANNEL_PREFIX): string {
+  return `${prefix}:${sessionId}:devices`
+}
+
+interface UpstreamEvents {
+  command: [target: string, payload: unknown]
+  broadcast: [payload: unknown]
+}
+
+export class CloudUpstream extends EventEmitter<UpstreamEvents> {
+  /** Devices currently entered into presence, re-entered after a reconnect */
+  private readonly present = new Set<string>()
+
+  constructor(private readonly link: UpstreamLink) {
+    super()
+  }
+
+  start(): void {
+    this.link.onConnected(() => {
+      for (const ip of this.present) {
+        this.enterPresence(ip)
+      }
+    })
+
+    this.link.subscribe('command', (data) => {
+      const { target, payload } = (data ?? {}) as { target?: string; payload?: unknown }
+      if (typeof target === 'string' && payload) {
+        this.emit('command', target, payload)
+      }
+    })
+    this.link.subscribe('broadcast', (data) => {
+      const { payload } = (data ?? {}) as { payload?: unknown }
+      if (payload) {
+        this.emit('broadcast', payload)
+      }
+    })
+
+    this.link.connect()
+  }
+
+  stop(): void {
+    for (const ip of this.present) {
+      this.link.leaveClient(ip).catch(() => {})
+    }
+    this.present.clear()
+    this.link.close()
+  }
+
+  deviceConnected(ip: string): void {
+    this.present.add(ip)
+    this.enterPresence(ip)
+  }
+
+  deviceDisconnected(ip: string): void {
+    if (!this.present.delete(ip)) return
+    if (!this.link.isConnected()) return
+    this.link.leaveClient(ip).catch((err: Error) => {
+      console.error(`[Upstream] Failed to leave presence for ${ip}:`, err.message)
+    })
+  }
+
+  /** Publish a device message to the session */
+  publish(ip: string, payload: unknown): void {
+    if (!this.link.isConnected()) return
+    this.link.publish('message', { source: ip, payload }).catch((err: Error) => {
+      console.error(`[Upstream] Failed to publish message from ${ip}:`, err.message)
+    })
+  }
+
+  private enterPresence(ip: string): void {
+    if (!this.link.isConnected()) return
+    this.link.enterClient(ip, { type: 'device', gateway: GATEWAY_ID }).catch((err: Error) => {
+      console.error(`[Upstream] Failed to enter presence for ${ip}:`, err.message)
+    })
+  }
+}
@@ -4,6 +4,9 @@ export type { User, Profile } from '@rayz/database'
 export {
   OpCode,
   GameCommandType,
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  type WireEncoding,
   type ConnectionState,
   type DeviceRole,
   type GameState,
@@ -16,6 +19,7 @@ export {
   type HitForwardMessage,
   type KillConfirmedMessage,
   type RemoteSoundMessage,
+  type HelloMessage,
   type ClientMessage,
   type DeviceConfigStatus,
   type DeviceLiveStats,
@@ -28,7 +32,29 @@ export {
   type ReloadMessage,
   type GameOverMessage,
   type AckMessage,
+  type CapabilitiesMessage,
   type ServerMessage,
+  type DeviceCapabilities,
+  type ProtocolCompatibility,
+  compareProtocolVersions,
+  checkProtocolCompatibility,
   type DeviceState,
   initialDeviceState,
 } from './protocol'
+
+// Runtime Validation
+export {
+  clientMessageSchema,
+  serverMessageSchema,
+  deviceStatusMessageSchema,
+  capabilitiesMessageSchema,
+  ProtocolError,
+  type DecodeResult,
+  decodeServerMessage,
+  decodeClientMessage,
+  validateClientMessage,
+  validateServerMessage,
+  encodeClientMessage,
+  encodeServerMessage,
+  isStatusFrame,
+} from './schemas'
@@ -1,4 +1,5 @@
-// WebSocket Protocol Types — Matches ESP32 Firmware Protocol v2.2
+// WebSocket Protocol Types — Matches ESP32 Firmware Protocol v2.3
+// v2.3 adds the hello/capabilities handshake; v2.2 firmware without it is still accepted.
 // Gamemode is UI-only; firmware receives explicit config values, not a gamemode label.
 
 // ============= Enums & Constants =============
@@ -12,6 +13,7 @@ export enum OpCode {
   HIT_FORWARD = 5,
   KILL_CONFIRMED = 6,
   REMOTE_SOUND = 7,
+  HELLO = 8,
 
   // ESP32 -> Client
   STATUS = 10,
@@ -21,6 +23,7 @@ export enum OpCode {
   RESPAWN = 14,
   RELOAD_EVENT = 15,
   GAME_OVER = 16,
+  CAPABILITIES = 17,
   ACK = 20,
 }
 
@@ -30,8 +33,17 @@ export enum GameCommandType {
   RESET = 2,
   PAUSE = 3,
   UNPAUSE = 4,
+  REVIVE = 5, // End a respawn wait now; answered with RESPAWN
 }
 
+/** Protocol version spoken by this app */
+export const PROTOCOL_VERSION = '2.3'
+
+/** Oldest firmware protocol the app can still drive */
+export const MIN_PROTOCOL_VERSION = '2.2'
+
+export type WireEncoding = 'json' | 'msgpack'
+
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error'
 
 export type DeviceRole = 'player' | 'admin' | 'spectator'
@@ -119,6 +131,14 @@ export interface RemoteSoundMessage extends BaseClientMessage {
   sound_id: number // 0=Whistle, 1=Horn, etc.
 }
 
+// Sent right after connecting; firmware answers with CAPABILITIES
+export interface HelloMessage extends BaseClientMessage {
+  op: OpCode.HELLO
+  type: 'hello'
+  protocol_version: string
+  encodings: WireEncoding[] // Encodings the client can decode
+}
+
 export interface DeviceFullConfig {
   // Identity
   deviceName?: string
@@ -162,6 +182,7 @@ export type ClientMessage =
   | HitForwardMessage
   | KillConfirmedMessage
   | RemoteSoundMessage
+  | HelloMessage
 
 // ============= Messages: ESP32 → Browser =============
 
@@ -262,6 +283,17 @@ export interface AckMessage {
   success: boolean
 }
 
+export interface CapabilitiesMessage {
+  op: OpCode.CAPABILITIES
+  type: 'capabilities'
+  protocol_version: string // "major.minor"
+  firmware_build: string
+  mac_address: string
+  opcodes: number[] // Client -> ESP32 opcodes the firmware handles
+  encodings: WireEncoding[] // Encodings the firmware can decode
+  game_commands?: number[] // GAME_COMMAND commands the firmware handles; absent means STOP..UNPAUSE
+}
+
 export type ServerMessage =
   | DeviceStatusMessage
   | HeartbeatAckMessage
@@ -271,6 +303,36 @@ export type ServerMessage =
   | ReloadMessage
   | GameOverMessage
   | AckMessage
+  | CapabilitiesMessage
+
+// ============= Capabilities =============
+
+export interface DeviceCapabilities {
+  protocolVersion: string
+  firmwareBuild?: string
+  macAddress?: string
+  opcodes: OpCode[]
+  gameCommands: GameCommandType[]
+  encodings: WireEncoding[]
+  legacy: boolean // Firmware did not answer HELLO; capabilities are assumed
+}
+
+export type ProtocolCompatibility = 'compatible' | 'too_old' | 'too_new'
+
+// Compares "major.minor" versions; negative if a < b
+export const compareProtocolVersions = (a: string, b: string): number => {
+  const [aMajor = 0, aMinor = 0] = a.split('.').map((n) => parseInt(n, 10) || 0)
+  const [bMajor = 0, bMinor = 0] = b.split('.').map((n) => parseInt(n, 10) || 0)
+  return aMajor !== bMajor ? aMajor - bMajor : aMinor - bMinor
+}
+
+// Same major version and at least MIN_PROTOCOL_VERSION
+export const checkProtocolCompatibility = (version: string): ProtocolCompatibility => {
+  if (compareProtocolVersions(version, MIN_PROTOCOL_VERSION) < 0) return 'too_old'
+  const [major] = version.split('.')
+  const [ownMajor] = PROTOCOL_VERSION.split('.')
+  return major === ownMajor ? 'compatible' : 'too_new'
+}
 
 // ============= Device State (for UI Store) =============
 
@@ -310,6 +372,14 @@ export interface DeviceState {
   isRespawning: boolean
   isReloading: boolean
   gameRemainingTime?: number
+
+  // Handshake
+  capabilities?: DeviceCapabilities
+  compatibility?: ProtocolCompatibility
+
+  // Frames that failed validation
+  invalidFrames: number
+  lastInvalidFrame?: string
 }
 
 // Initial state factory
@@ -339,4 +409,6 @@ export const initialDeviceState = (ipAddress: string): DeviceState => ({
   ammo: 0,
   isRespawning: false,
   isReloading: false,
+
+  invalidFrames: 0,
 })
@@ -0,0 +1,312 @@
+// Runtime schemas for the WebSocket protocol — mirror the interfaces in protocol.ts
+// (`satisfies` keeps the unions in sync with them).
+// Frames from the wire are `unknown` until decoded here.
+
+import { z } from 'zod'
+
+import {
+  GameCommandType,
+  OpCode,
+  type ClientMessage,
+  type DeviceStatusMessage,
+  type ServerMessage,
+} from './protocol'
+
+const encodingSchema = z.enum(['json', 'msgpack'])
+const reqIdSchema = z.string().optional()
+
+// ============= Messages: Browser → ESP32 =============
+
+export const getStatusMessageSchema = z.object({
+  op: z.literal(OpCode.GET_STATUS),
+  type: z.literal('get_status'),
+  req_id: reqIdSchema,
+})
+
+export const heartbeatMessageSchema = z.object({
+  op: z.literal(OpCode.HEARTBEAT),
+  type: z.literal('heartbeat'),
+  req_id: reqIdSchema,
+})
+
+export const configUpdateMessageSchema = z.object({
+  op: z.literal(OpCode.CONFIG_UPDATE),
+  type: z.literal('config_update'),
+  req_id: reqIdSchema,
+
+  reset_to_defaults: z.boolean().optional(),
+
+  device_name: z.string().optional(),
+  device_id: z.number().int().optional(),
+  player_id: z.number().int().optional(),
+  team_id: z.number().int().min(0).max(255).optional(),
+
+  color_rgb: z.number().int().min(0).max(0xffffff).optional(),
+  ir_power: z.number().int().optional(),
+  volume: z.number().min(0).max(100).optional(),
+  sound_profile: z.number().int().optional(),
+  haptic_enabled: z.boolean().optional(),
+
+  enable_hearts: z.boolean().optional(),
+  spawn_hearts: z.number().optional(),
+  max_hearts: z.number().optional(),
+  respawn_time_s: z.number().optional(),
+  damage_in: z.number().optional(),
+  damage_out: z.number().optional(),
+  friendly_fire: z.boolean().optional(),
+
+  enable_ammo: z.boolean().optional(),
+  max_ammo: z.number().optional(),
+  reload_time_ms: z.number().optional(),
+
+  game_duration_s: z.number().optional(),
+
+  espnow_peers: z.string().optional(),
+})
+
+export const gameCommandMessageSchema = z.object({
+  op: z.literal(OpCode.GAME_COMMAND),
+  type: z.literal('game_command'),
+  req_id: reqIdSchema,
+  command: z.enum(GameCommandType),
+})
+
+export const hitForwardMessageSchema = z.object({
+  op: z.literal(OpCode.HIT_FORWARD),
+  type: z.literal('hit_forward'),
+  req_id: reqIdSchema,
+  shooter_id: z.number().int(),
+})
+
+export const killConfirmedMessageSchema = z.object({
+  op: z.literal(OpCode.KILL_CONFIRMED),
+  type: z.literal('kill_confirmed'),
+  req_id: reqIdSchema,
+})
+
+export const remoteSoundMessageSchema = z.object({
+  op: z.literal(OpCode.REMOTE_SOUND),
+  type: z.literal('remote_sound'),
+  req_id: reqIdSchema,
+  sound_id: z.number().int(),
+})
+
+export const helloMessageSchema = z.object({
+  op: z.literal(OpCode.HELLO),
+  type: z.literal('hello'),
+  req_id: reqIdSchema,
+  protocol_version: z.string(),
+  encodings: z.array(encodingSchema),
+})
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  getStatusMessageSchema,
+  heartbeatMessageSchema,
+  configUpdateMessageSchema,
+  gameCommandMessageSchema,
+  hitForwardMessageSchema,
+  killConfirmedMessageSchema,
+  remoteSoundMessageSchema,
+  helloMessageSchema,
+]) satisfies z.ZodType<ClientMessage>
+
+// ============= Messages: ESP32 → Browser =============
+
+export const deviceConfigStatusSchema = z.object({
+  device_id: z.number(),
+  player_id: z.number(),
+  team_id: z.number(),
+  color_rgb: z.number(),
+
+  enable_hearts: z.boolean(),
+  max_hearts: z.number(),
+  spawn_hearts: z.number(),
+
+  enable_ammo: z.boolean(),
+  max_ammo: z.number(),
+
+  game_duration_s: z.number(),
+  friendly_fire: z.boolean(),
+})
+
+export const deviceLiveStatsSchema = z.object({
+  shots: z.number(),
+  enemy_kills: z.number(),
+  friendly_kills: z.number(),
+  deaths: z.number(),
+  hits_received: z.number().optional(),
+})
+
+export const deviceLiveStateSchema = z.object({
+  current_hearts: z.number(),
+  current_ammo: z.number(),
+  is_respawning: z.boolean(),
+  is_reloading: z.boolean(),
+  remaining_time_s: z.number().optional(),
+})
+
+export const deviceStatusMessageSchema = z.object({
+  op: z.literal(OpCode.STATUS),
+  type: z.literal('status'),
+  uptime_ms: z.number(),
+  config: deviceConfigStatusSchema,
+  stats: deviceLiveStatsSchema,
+  state: deviceLiveStateSchema,
+})
+
+export const heartbeatAckMessageSchema = z.object({
+  op: z.literal(OpCode.HEARTBEAT_ACK),
+  type: z.literal('heartbeat_ack'),
+  batt_voltage: z.number().optional(),
+  rssi: z.number().optional(),
+})
+
+export const shotFiredMessageSchema = z.object({
+  op: z.literal(OpCode.SHOT_FIRED),
+  type: z.literal('shot_fired'),
+  timestamp_ms: z.number(),
+  seq_id: z.number(),
+})
+
+export const hitReportMessageSchema = z.object({
+  op: z.literal(OpCode.HIT_REPORT),
+  type: z.literal('hit_report'),
+  timestamp_ms: z.number(),
+  seq_id: z.number(),
+  shooter_id: z.number(),
+  damage: z.number(),
+  fatal: z.boolean(),
+})
+
+export const respawnMessageSchema = z.object({
+  op: z.literal(OpCode.RESPAWN),
+  type: z.literal('respawn'),
+  timestamp_ms: z.number(),
+  current_hearts: z.number().optional(),
+})
+
+export const reloadMessageSchema = z.object({
+  op: z.literal(OpCode.RELOAD_EVENT),
+  type: z.literal('reload_event'),
+  current_ammo: z.number(),
+})
+
+export const gameOverMessageSchema = z.object({
+  op: z.literal(OpCode.GAME_OVER),
+  type: z.literal('game_over'),
+})
+
+export const ackMessageSchema = z.object({
+  op: z.literal(OpCode.ACK),
+  type: z.literal('ack'),
+  reply_to: z.string().optional(),
+  success: z.boolean(),
+})
+
+export const capabilitiesMessageSchema = z.object({
+  op: z.literal(OpCode.CAPABILITIES),
+  type: z.literal('capabilities'),
+  protocol_version: z.string(),
+  firmware_build: z.string(),
+  mac_address: z.string(),
+  opcodes: z.array(z.number().int()),
+  encodings: z.array(encodingSchema),
+  game_commands: z.array(z.number().int()).optional(),
+})
+
+export const serverMessageSchema = z.discriminatedUnion('type', [
+  deviceStatusMessageSchema,
+  heartbeatAckMessageSchema,
+  shotFiredMessageSchema,
+  hitReportMessageSchema,
+  respawnMessageSchema,
+  reloadMessageSchema,
+  gameOverMessageSchema,
+  ackMessageSchema,
+  capabilitiesMessageSchema,
+]) satisfies z.ZodType<ServerMessage>
+
+// Pre-v2.2 firmware sends a flat status; the handshake needs to recognise it
+export const legacyStatusMessageSchema = z.looseObject({
+  op: z.literal(OpCode.STATUS),
+  type: z.literal('status'),
+})
+
+// ============= Decode / Encode =============
+
+export class ProtocolError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: z.core.$ZodIssue[] = []
+  ) {
+    super(message)
+    this.name = 'ProtocolError'
+  }
+}
+
+export type DecodeResult<T> = { success: true; message: T } | { success: false; error: string }
+
+// One line per issue, e.g. "config: Invalid input: expected object, received undefined"
+const formatIssues = (issues: z.core.$ZodIssue[]): string =>
+  issues
+    .map((issue) => `${issue.path.map(String).join('.') || '(root)'}: ${issue.message}`)
+    .join('; ')
+
+const decodeWith = <T>(schema: z.ZodType<T>, frame: unknown): DecodeResult<T> => {
+  let value = frame
+  if (typeof frame === 'string') {
+    try {
+      value = JSON.parse(frame)
+    } catch {
+      return { success: false, error: 'Malformed JSON' }
+    }
+  }
+
+  const result = schema.safeParse(value)
+  if (result.success) return { success: true, message: result.data }
+
+  const type = (value as { type?: unknown } | null)?.type
+  const prefix = typeof type === 'string' ? `${type}: ` : ''
+  return { success: false, error: prefix + formatIssues(result.error.issues) }
+}
+
+// Validate a frame from a device (JSON text or an already decoded value)
+export const decodeServerMessage = (frame: unknown): DecodeResult<ServerMessage> =>
+  decodeWith(serverMessageSchema, frame)
+
+// Validate a frame from a browser (JSON text or an already decoded value)
+export const decodeClientMessage = (frame: unknown): DecodeResult<ClientMessage> =>
+  decodeWith(clientMessageSchema, frame)
+
+// Throws ProtocolError when an outgoing message does not match its schema
+export const validateClientMessage = (message: ClientMessage): ClientMessage => {
+  const result = clientMessageSchema.safeParse(message)
+  if (!result.success) {
+    throw new ProtocolError(
+      `Invalid ${message.type} message: ${formatIssues(result.error.issues)}`,
+      result.error.issues
+    )
+  }
+  return result.data
+}
+
+export const validateServerMessage = (message: ServerMessage): ServerMessage => {
+  const result = serverMessageSchema.safeParse(message)
+  if (!result.success) {
+    throw new ProtocolError(
+      `Invalid ${message.type} message: ${formatIssues(result.error.issues)}`,
+      result.error.issues
+    )
+  }
+  return result.data
+}
+
+export const encodeClientMessage = (message: ClientMessage): string =>
+  JSON.stringify(validateClientMessage(message))
+
+export const encodeServerMessage = (message: ServerMessage): string =>
+  JSON.stringify(validateServerMessage(message))
+
+// True for a status frame, whatever its shape
+export const isStatusFrame = (frame: unknown): frame is Pick<DeviceStatusMessage, 'op' | 'type'> =>
+  legacyStatusMessageSchema.safeParse(frame).success